@@ -0,0 +1,56 @@
+/**
+ * Error Messages
+ * Maps the error codes of the message protocol to messages in the browser's language.
+ * The server's free-text error is only logged, never shown.
+ */
+
+import { ErrorCode } from './protocol/index.js';
+
+type Locale = 'en' | 'de';
+
+const MESSAGES: Record<Locale, Record<ErrorCode, string>> = {
+    en: {
+        INVALID_PAYLOAD: 'The server rejected this request. Please reload the page.',
+        UNSUPPORTED_VERSION: 'A newer version of the admin interface is available. Please reload the page.',
+        UNKNOWN_ACTION: 'The server does not support this action. It may be running a different version.',
+        NOT_AUTHORIZED: 'This needs a valid admin token. Please sign in again.',
+        NOT_FOUND: 'This room does not exist or has expired.',
+        RATE_LIMITED: 'Too many requests. Please wait {seconds}s.',
+        NO_ADMIN_AVAILABLE: 'No admin is connected to this room.',
+        STORAGE_UNAVAILABLE: 'The server cannot reach its storage right now. Please try again shortly.',
+        INTERNAL_ERROR: 'The server failed to handle this request.'
+    },
+    de: {
+        INVALID_PAYLOAD: 'Der Server hat diese Anfrage abgelehnt. Bitte lade die Seite neu.',
+        UNSUPPORTED_VERSION: 'Eine neuere Version der Admin-Oberfläche ist verfügbar. Bitte lade die Seite neu.',
+        UNKNOWN_ACTION: 'Der Server unterstützt diese Aktion nicht. Eventuell läuft dort eine andere Version.',
+        NOT_AUTHORIZED: 'Dafür ist ein gültiges Admin-Token nötig. Bitte melde dich erneut an.',
+        NOT_FOUND: 'Diesen Raum gibt es nicht oder er ist abgelaufen.',
+        RATE_LIMITED: 'Zu viele Anfragen. Bitte warte {seconds}s.',
+        NO_ADMIN_AVAILABLE: 'Mit diesem Raum ist kein Admin verbunden.',
+        STORAGE_UNAVAILABLE: 'Der Server erreicht seinen Speicher gerade nicht. Bitte versuche es gleich noch einmal.',
+        INTERNAL_ERROR: 'Der Server konnte diese Anfrage nicht bearbeiten.'
+    }
+};
+
+const REFERENCE_LABEL: Record<Locale, string> = {
+    en: 'Reference',
+    de: 'Referenz'
+};
+
+function getLocale(): Locale {
+    return navigator.language.toLowerCase().startsWith('de') ? 'de' : 'en';
+}
+
+/**
+ * Localized message for an error code, with the correlation ID so it can be
+ * looked up in the server logs. Codes introduced by a newer server fall back
+ * to the generic message.
+ */
+export function describeError(code: string, params: Record<string, string | number> = {}, correlationId?: string): string {
+    const locale = getLocale();
+    const template = MESSAGES[locale][code as ErrorCode] || MESSAGES[locale].INTERNAL_ERROR;
+    const message = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => String(params[name] ?? placeholder));
+
+    return correlationId ? `${message} (${REFERENCE_LABEL[locale]}: ${correlationId})` : message;
+}
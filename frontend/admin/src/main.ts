@@ -1,6 +1,19 @@
 console.log('🚀 AdminWebSocketClient: Script loaded!');
 
 import { config, configManager, Config } from './config.js';
+import { renderQrCode } from './qr-code.js';
+import { describeError } from './error-messages.js';
+import {
+    ClientAction,
+    ClientFrameOf,
+    LatencyStatsFrame,
+    ReactionCounterInfo,
+    ReactionInfo,
+    ServerFrame,
+    buildClientFrame,
+    parseServerFrame
+} from './protocol/index.js';
+import { startSpan } from './tracing.js';
 
 // Simple fallback WebSocketAdapter
 const WebSocketAdapter = {
@@ -8,6 +21,9 @@ const WebSocketAdapter = {
         console.log('🔧 AdminWebSocketClient: Creating WebSocket connection');
         const wsUrl = new URL(url);
         wsUrl.searchParams.set('type', options.connectionType);
+        if (options.adminToken) {
+            wsUrl.searchParams.set('token', options.adminToken);
+        }
         wsUrl.searchParams.set('t', Date.now().toString());
         console.log('🔧 AdminWebSocketClient: Final WebSocket URL:', wsUrl.toString());
         return new WebSocket(wsUrl.toString());
@@ -20,12 +36,6 @@ const WebSocketAdapter = {
             return { isValid: false, error: 'Invalid URL format' };
         }
     },
-    buildMessage: (action: string, data: any, config: any) => ({
-        action,
-        ...data,
-        timestamp: Date.now(),
-        type: config.connectionType
-    }),
     getReconnectInterval: (deploymentMode: string, attempt: number) => {
         return Math.min(2000 * Math.pow(1.5, attempt - 1), 30000);
     }
@@ -37,6 +47,16 @@ interface Message {
     content: string;
     timestamp: number;
     connectionId: string;
+    reactionId?: string;
+    icon?: string;
+    severity?: string;
+    summary?: string;
+    requestId?: string;
+    // Trace context of the request, continued while the message is displayed
+    traceparent?: string;
+    // Send and server receive times of live messages, reported once rendered; replays carry none
+    sentAt?: number;
+    receivedAt?: number;
 }
 
 class AdminWebSocketClient {
@@ -48,6 +68,10 @@ class AdminWebSocketClient {
     private isConnecting = false;
     private isIntentionalDisconnect = false;
     private messageCount = 0;
+    private currentRoomId: string | null = null;
+    private lastCursor: string | null = null;
+    private adminToken: string | null = null;
+    private reactions: Map<string, ReactionInfo> = new Map();
 
     // DOM elements
     private statusIndicator: HTMLElement;
@@ -56,6 +80,21 @@ class AdminWebSocketClient {
     private messageList: HTMLElement;
     private messageCountElement: HTMLElement;
     private noMessagesElement: HTMLElement;
+    private createRoomButton: HTMLButtonElement;
+    private joinRoomForm: HTMLFormElement;
+    private joinRoomInput: HTMLInputElement;
+    private roomDetailsElement: HTMLElement;
+    private serverErrorElement: HTMLElement;
+    private serverErrorTimer: ReturnType<typeof setTimeout> | null = null;
+    private roomCodeElement: HTMLElement;
+    private roomJoinUrlElement: HTMLAnchorElement;
+    private roomQrCodeCanvas: HTMLCanvasElement;
+    private authForm: HTMLFormElement;
+    private adminTokenInput: HTMLInputElement;
+    private counterPanel: HTMLElement;
+    private counterSummary: HTMLElement;
+    private counterList: HTMLElement;
+    private latencySummary: HTMLElement;
 
     constructor() {
         console.log('🚀 AdminWebSocketClient: Starting initialization...');
@@ -79,6 +118,27 @@ class AdminWebSocketClient {
             this.messageList = document.getElementById('messageList') as HTMLElement;
             this.messageCountElement = document.getElementById('messageCount') as HTMLElement;
             this.noMessagesElement = this.messageList.querySelector('.no-messages') as HTMLElement;
+            this.createRoomButton = document.getElementById('createRoomBtn') as HTMLButtonElement;
+            this.joinRoomForm = document.getElementById('joinRoomForm') as HTMLFormElement;
+            this.joinRoomInput = document.getElementById('joinRoomInput') as HTMLInputElement;
+            this.roomDetailsElement = document.getElementById('roomDetails') as HTMLElement;
+            this.serverErrorElement = document.getElementById('serverError') as HTMLElement;
+            this.roomCodeElement = document.getElementById('roomCode') as HTMLElement;
+            this.roomJoinUrlElement = document.getElementById('roomJoinUrl') as HTMLAnchorElement;
+            this.roomQrCodeCanvas = document.getElementById('roomQrCode') as HTMLCanvasElement;
+            this.authForm = document.getElementById('authForm') as HTMLFormElement;
+            this.adminTokenInput = document.getElementById('adminTokenInput') as HTMLInputElement;
+            this.counterPanel = document.getElementById('counterPanel') as HTMLElement;
+            this.counterSummary = document.getElementById('counterSummary') as HTMLElement;
+            this.counterList = document.getElementById('counterList') as HTMLElement;
+            this.latencySummary = document.getElementById('latencySummary') as HTMLElement;
+
+            // Admin token from a presenter link (?token=...) or from this browser session
+            this.loadAdminToken();
+
+            // Resume the room from the URL (?room=ABC123) or from this browser session
+            this.currentRoomId = new URLSearchParams(window.location.search).get('room') ||
+                sessionStorage.getItem('adminRoomId');
             
             console.log('🎯 AdminWebSocketClient: DOM elements initialized:', {
                 statusIndicator: !!this.statusIndicator,
@@ -99,6 +159,22 @@ class AdminWebSocketClient {
     }
 
     private init(): void {
+        // Admin token form, shown right away when no token is known yet
+        if (!this.adminToken) {
+            this.authForm.style.display = 'flex';
+        }
+        this.authForm.addEventListener('submit', (event) => {
+            event.preventDefault();
+            this.authenticate(this.adminTokenInput.value);
+        });
+
+        // Room controls
+        this.createRoomButton.addEventListener('click', () => this.createRoom());
+        this.joinRoomForm.addEventListener('submit', (event) => {
+            event.preventDefault();
+            this.joinRoom(this.joinRoomInput.value);
+        });
+
         // Connect to WebSocket
         this.connect();
         
@@ -166,6 +242,7 @@ class AdminWebSocketClient {
             // Use WebSocket adapter for environment-specific connection
             const ws = WebSocketAdapter.createConnection(url, {
                 connectionType: config.connectionType,
+                adminToken: this.adminToken,
                 deploymentMode: config.deploymentMode,
                 enableLogging: config.enableLogging,
                 connectionTimeout: config.connectionTimeout
@@ -202,6 +279,14 @@ class AdminWebSocketClient {
             // Send identification message to mark this as an admin connection
             console.log('🆔 AdminWebSocketClient: Sending admin identification...');
             this.identifyAsAdmin();
+
+            // Re-subscribe to the room after reconnecting
+            if (this.currentRoomId) {
+                this.joinRoom(this.currentRoomId);
+            }
+
+            // Labels and icons for the live counters
+            this.sendAction('getReactions', {});
         };
 
         this.ws.onclose = (event) => {
@@ -236,9 +321,14 @@ class AdminWebSocketClient {
         this.ws.onmessage = (event) => {
             console.log('📨 AdminWebSocketClient: Received message:', event.data);
             try {
-                const data = JSON.parse(event.data);
-                console.log('📨 AdminWebSocketClient: Parsed message data:', data);
-                this.handleIncomingMessage(data);
+                const parsed = parseServerFrame(event.data);
+                if (!parsed.ok) {
+                    console.error('❌ AdminWebSocketClient: Rejected incoming message:', parsed.error);
+                    return;
+                }
+
+                console.log('📨 AdminWebSocketClient: Parsed message data:', parsed.frame);
+                this.handleIncomingMessage(parsed.frame);
             } catch (error) {
                 console.error('❌ AdminWebSocketClient: Failed to parse incoming message:', error);
                 console.error('❌ AdminWebSocketClient: Raw message data:', event.data);
@@ -251,8 +341,10 @@ class AdminWebSocketClient {
     private identifyAsAdmin(): void {
         if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
 
-        const currentConfig = configManager.getConfig();
-        const identificationMessage = this.buildIdentificationMessage(currentConfig);
+        const identificationMessage = buildClientFrame('identify', {
+            connectionType: 'admin',
+            token: this.adminToken || undefined
+        });
 
         try {
             this.ws.send(JSON.stringify(identificationMessage));
@@ -262,11 +354,149 @@ class AdminWebSocketClient {
         }
     }
 
-    private buildIdentificationMessage(config: Config): any {
-        return WebSocketAdapter.buildMessage('identify', {
-            type: 'admin',
-            deploymentMode: config.deploymentMode
-        }, config);
+    private loadAdminToken(): void {
+        const url = new URL(window.location.href);
+        const tokenParam = url.searchParams.get('token');
+
+        if (tokenParam) {
+            sessionStorage.setItem('adminToken', tokenParam);
+
+            // Keep the token out of the address bar and browser history
+            url.searchParams.delete('token');
+            window.history.replaceState(null, '', url.toString());
+        }
+
+        this.adminToken = tokenParam || sessionStorage.getItem('adminToken');
+    }
+
+    private authenticate(token: string): void {
+        const trimmedToken = token.trim();
+        if (!trimmedToken) {
+            return;
+        }
+
+        this.adminToken = trimmedToken;
+        sessionStorage.setItem('adminToken', trimmedToken);
+        this.adminTokenInput.value = '';
+        this.authForm.style.display = 'none';
+
+        // Reconnect so the token is checked at connect time as well as on identify
+        if (this.ws) {
+            this.ws.onclose = null;
+            this.ws.close();
+            this.ws = null;
+        }
+        this.isConnecting = false;
+        this.connect();
+    }
+
+    private showServerError(text: string): void {
+        this.serverErrorElement.textContent = text;
+        this.serverErrorElement.style.display = 'block';
+
+        if (this.serverErrorTimer) {
+            clearTimeout(this.serverErrorTimer);
+        }
+        this.serverErrorTimer = setTimeout(() => {
+            this.serverErrorElement.style.display = 'none';
+            this.serverErrorTimer = null;
+        }, 10000);
+    }
+
+    private handleAuthenticationFailed(): void {
+        this.adminToken = null;
+        sessionStorage.removeItem('adminToken');
+        this.updateConnectionStatus('disconnected', 'Admin token required');
+        this.authForm.style.display = 'flex';
+        this.adminTokenInput.focus();
+    }
+
+    private createRoom(): void {
+        this.sendAction('createRoom', {});
+    }
+
+    private joinRoom(roomId: string): void {
+        const normalizedRoomId = roomId.trim().toUpperCase();
+        if (!normalizedRoomId) {
+            return;
+        }
+        this.sendAction('joinRoom', { roomId: normalizedRoomId });
+    }
+
+    private sendAction<A extends ClientAction>(action: A, data: ClientFrameOf<A>['data']): void {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            console.warn(`AdminWebSocketClient: Cannot send ${action} - not connected`);
+            return;
+        }
+
+        try {
+            this.ws.send(JSON.stringify(buildClientFrame(action, data)));
+        } catch (error) {
+            console.error(`Failed to send ${action}:`, error);
+        }
+    }
+
+    private requestCatchUp(): void {
+        // Both backends log alerts and acknowledgements. Without a cursor the log only returns its current position.
+        this.sendAction('catchUp', this.lastCursor ? { cursor: this.lastCursor } : {});
+    }
+
+    private rememberCursor(cursor: string): void {
+        if (this.lastCursor && this.compareCursors(cursor, this.lastCursor) <= 0) {
+            return;
+        }
+
+        this.lastCursor = cursor;
+        if (this.currentRoomId) {
+            sessionStorage.setItem(`adminCursor:${this.currentRoomId}`, cursor);
+        }
+    }
+
+    private compareCursors(a: string, b: string): number {
+        // Stream IDs are "<milliseconds>-<sequence>", history cursors sort as plain strings
+        const streamIdPattern = /^\d+-\d+$/;
+        if (!streamIdPattern.test(a) || !streamIdPattern.test(b)) {
+            return a < b ? -1 : a > b ? 1 : 0;
+        }
+
+        const [aTime, aSequence] = a.split('-').map(Number);
+        const [bTime, bSequence] = b.split('-').map(Number);
+        return aTime !== bTime ? aTime - bTime : aSequence - bSequence;
+    }
+
+    private showRoom(roomId: string): void {
+        if (this.currentRoomId !== roomId) {
+            this.lastCursor = sessionStorage.getItem(`adminCursor:${roomId}`);
+        }
+        this.currentRoomId = roomId;
+        sessionStorage.setItem('adminRoomId', roomId);
+
+        // Keep the room in the admin URL so a reload lands in the same room
+        const adminUrl = new URL(window.location.href);
+        adminUrl.searchParams.set('room', roomId);
+        window.history.replaceState(null, '', adminUrl.toString());
+
+        const joinUrl = this.buildJoinUrl(roomId);
+        this.roomCodeElement.textContent = roomId;
+        this.roomJoinUrlElement.textContent = joinUrl;
+        this.roomJoinUrlElement.href = joinUrl;
+        this.joinRoomInput.value = '';
+
+        try {
+            renderQrCode(this.roomQrCodeCanvas, joinUrl);
+        } catch (error) {
+            console.error('Failed to render room QR code:', error);
+        }
+
+        this.roomDetailsElement.style.display = 'flex';
+    }
+
+    private buildJoinUrl(roomId: string): string {
+        // The user interface is served next to the admin interface (/user/ and /admin/)
+        const joinUrl = new URL('../user/', window.location.href);
+        joinUrl.search = '';
+        joinUrl.searchParams.set('room', roomId);
+        return joinUrl.toString();
     }
 
     private handleConnectionError(): void {
@@ -299,39 +529,147 @@ class AdminWebSocketClient {
         }, delay);
     }
 
-    private handleIncomingMessage(data: any): void {
+    private handleIncomingMessage(data: ServerFrame, replayed = false): void {
         console.log('📨 AdminWebSocketClient: Processing message:', data);
-        
+
+        // Logged messages carry their position in the room's message log (history on AWS)
+        const cursor = 'streamId' in data ? data.streamId : 'historyCursor' in data ? data.historyCursor : undefined;
+        if (cursor) {
+            this.rememberCursor(cursor);
+        }
+
         // Handle different types of messages
-        if (data.content && data.from === 'user') {
-            // This is a user message that should be displayed
-            const message: Message = {
-                messageId: data.messageId || 'unknown',
-                content: data.content,
-                timestamp: new Date(data.timestamp).getTime() || Date.now(),
-                connectionId: data.connectionId || 'unknown'
-            };
-            
-            console.log('📨 AdminWebSocketClient: Displaying user message:', message);
-            this.displayMessage(message);
-        } else if (data.type === 'connection') {
-            // Connection confirmation
-            console.log('📨 AdminWebSocketClient: Connection confirmation:', data);
-        } else if (data.type === 'messageStatus') {
-            // Message broadcast status
-            console.log('📨 AdminWebSocketClient: Message status:', data);
-        } else if (data.action === 'pong') {
-            // Pong message - ignore (don't log to reduce noise)
-        } else if (data.action === 'ping') {
-            // Ping message - ignore
-            console.log('📨 AdminWebSocketClient: Ping received');
-        } else {
-            // Log any other message types for debugging
-            console.log('📨 AdminWebSocketClient: Unknown message type:', data);
+        switch (data.type) {
+            case 'userRequest': {
+                // This is a user message that should be displayed
+                const message: Message = {
+                    messageId: data.messageId,
+                    content: data.content,
+                    timestamp: new Date(data.timestamp).getTime() || Date.now(),
+                    connectionId: data.connectionId,
+                    requestId: data.requestId,
+                    reactionId: data.reactionId,
+                    icon: data.icon,
+                    severity: data.severity,
+                    traceparent: data.traceparent,
+                    sentAt: replayed ? undefined : data.sentAt,
+                    receivedAt: data.receivedAt
+                };
+
+                console.log('📨 AdminWebSocketClient: Displaying user message:', message);
+                this.displayMessage(message);
+                break;
+            }
+            case 'authenticationFailed':
+                // Server refused the admin role
+                console.error('📨 AdminWebSocketClient: Admin authentication failed:', data.error);
+                this.handleAuthenticationFailed();
+                break;
+            case 'reactionAcknowledged':
+                // A presenter (possibly on another device) acknowledged a reaction
+                console.log('📨 AdminWebSocketClient: Reaction acknowledged:', data.reactionId);
+                this.markAcknowledged(data.reactionId);
+                break;
+            case 'reactionCatalog':
+                // Reaction labels and icons for the counters
+                this.reactions = new Map(data.reactions.map(reaction => [reaction.id, reaction]));
+                break;
+            case 'reactionCounters':
+                // Live counters of the current aggregation window
+                this.renderCounters(data.counters, data.audienceSize, data.windowSeconds);
+                break;
+            case 'reactionAlert': {
+                // A reaction crossed the alert threshold
+                const reaction = this.reactions.get(data.reactionId);
+                const message: Message = {
+                    messageId: data.messageId || 'unknown',
+                    content: data.content || reaction?.label || data.reactionId,
+                    timestamp: new Date(data.timestamp).getTime() || Date.now(),
+                    connectionId: 'aggregated',
+                    reactionId: data.reactionId,
+                    icon: data.icon || reaction?.icon,
+                    severity: data.severity || reaction?.severity,
+                    summary: `${data.count} requesters (${data.percent}% of ${data.audienceSize}) in ${data.windowSeconds}s`,
+                    traceparent: data.traceparent,
+                    sentAt: replayed ? undefined : data.sentAt,
+                    receivedAt: data.receivedAt
+                };
+
+                console.log('📨 AdminWebSocketClient: Displaying reaction alert:', message);
+                this.displayMessage(message);
+                break;
+            }
+            case 'connection':
+                // Connection confirmation
+                console.log('📨 AdminWebSocketClient: Connection confirmation:', data);
+                break;
+            case 'roomCreated':
+                // New room created by this admin
+                console.log('📨 AdminWebSocketClient: Room created:', data.roomId);
+                break;
+            case 'roomJoined':
+                // Subscribed to a room's requests
+                console.log('📨 AdminWebSocketClient: Joined room:', data.roomId);
+                this.showRoom(data.roomId);
+                this.requestCatchUp();
+                break;
+            case 'catchUp':
+            case 'history':
+                // Messages of the room missed while disconnected, oldest first
+                console.log(`📨 AdminWebSocketClient: Replaying ${data.messages.length} missed messages`);
+                data.messages.forEach(message => this.handleIncomingMessage(message, true));
+                if (data.cursor) {
+                    this.rememberCursor(data.cursor);
+                }
+                if (data.hasMore) {
+                    this.requestCatchUp();
+                }
+                break;
+            case 'error':
+                // Server-side error (e.g. unknown join code)
+                console.error(`📨 AdminWebSocketClient: Server error ${data.code} [${data.correlationId}]:`, data.error);
+                this.showServerError(describeError(data.code, {}, data.correlationId));
+                if (data.code === 'NOT_FOUND' && data.action === 'joinRoom') {
+                    sessionStorage.removeItem('adminRoomId');
+                    this.currentRoomId = null;
+                    this.roomDetailsElement.style.display = 'none';
+                }
+                break;
+            case 'latencyStats':
+                // Delivery latency of the room, updated after each report
+                this.renderLatency(data);
+                break;
+            case 'rateLimited':
+                // The frame was dropped, e.g. after repeated acknowledge clicks
+                console.warn(`📨 AdminWebSocketClient: Rate limited [${data.correlationId}]:`, data.action);
+                this.showServerError(describeError(data.code, { seconds: Math.ceil(data.retryAfterMs / 1000) }));
+                break;
+            case 'pong':
+                // Pong message - ignore (don't log to reduce noise)
+                break;
+            default:
+                // Log any other message types for debugging
+                console.log('📨 AdminWebSocketClient: Unknown message type:', data);
         }
     }
 
     private displayMessage(message: Message): void {
+        // A message can arrive live and again in a catch-up replay
+        if (message.messageId !== 'unknown' &&
+            this.messageList.querySelector(`[data-message-id="${CSS.escape(message.messageId)}"]`)) {
+            return;
+        }
+
+        // The request's trace ends once the presenter sees it
+        const span = message.traceparent ? startSpan('displayMessage', {
+            kind: 'consumer',
+            parent: message.traceparent,
+            attributes: { 'message.id': message.messageId, 'reaction.id': message.reactionId }
+        }) : null;
+
+        // A hidden tab paints only once shown again, which would measure the presenter rather than the delivery
+        const measureLatency = message.sentAt !== undefined && document.visibilityState === 'visible';
+
         // Hide "no messages" placeholder if it's visible
         if (this.noMessagesElement && this.noMessagesElement.style.display !== 'none') {
             this.noMessagesElement.style.display = 'none';
@@ -367,11 +705,40 @@ class AdminWebSocketClient {
         
         // Limit the number of displayed messages to prevent memory issues
         this.limitDisplayedMessages();
+
+        // End with the frame that paints the message
+        if (span || measureLatency) {
+            requestAnimationFrame(() => {
+                const renderedAt = Date.now();
+                span?.end();
+
+                if (measureLatency) {
+                    this.reportLatency(message, renderedAt);
+                }
+            });
+        }
+    }
+
+    private reportLatency(message: Message, renderedAt: number): void {
+        if (message.sentAt === undefined) {
+            return;
+        }
+
+        this.sendAction('reportLatency', {
+            messageId: message.messageId,
+            sentAt: message.sentAt,
+            receivedAt: message.receivedAt,
+            renderedAt
+        });
     }
 
     private createMessageElement(message: Message): HTMLElement {
         const messageDiv = document.createElement('div');
         messageDiv.className = 'message-item';
+        messageDiv.dataset.messageId = message.messageId;
+        if (message.severity) {
+            messageDiv.classList.add(`severity-${message.severity}`);
+        }
         
         const timestamp = new Date(message.timestamp);
         const timeString = timestamp.toLocaleTimeString();
@@ -381,20 +748,117 @@ class AdminWebSocketClient {
             <div class="message-header-info">
                 <span class="message-timestamp">${dateString} ${timeString}</span>
                 <span class="message-id">Msg: ${message.messageId.substring(0, 8)}...</span>
-                <span class="connection-id">User: ${message.connectionId.substring(0, 8)}...</span>
+                ${message.summary
+                    ? `<span class="alert-summary">${this.escapeHtml(message.summary)}</span>`
+                    : `<span class="connection-id">User: ${message.connectionId.substring(0, 8)}...</span>`}
+            </div>
+            <div class="message-content">
+                ${message.icon ? `<span class="reaction-icon">${this.escapeHtml(message.icon)}</span>` : ''}
+                ${this.escapeHtml(message.content)}
+                ${message.reactionId ? `<span class="reaction-id">${this.escapeHtml(message.reactionId)}</span>` : ''}
             </div>
-            <div class="message-content">${this.escapeHtml(message.content)}</div>
         `;
+
+        // Requests with a reaction can be acknowledged, which notifies the audience
+        if (message.reactionId) {
+            messageDiv.dataset.reactionId = message.reactionId;
+
+            const ackButton = document.createElement('button');
+            ackButton.type = 'button';
+            ackButton.className = 'ack-button';
+            ackButton.textContent = 'Acknowledge';
+            ackButton.addEventListener('click', () => this.acknowledge(message, messageDiv));
+            messageDiv.appendChild(ackButton);
+        }
         
         return messageDiv;
     }
 
+    private acknowledge(message: Message, messageElement: HTMLElement): void {
+        if (!message.reactionId) {
+            return;
+        }
+
+        const data: ClientFrameOf<'acknowledge'>['data'] = {
+            reactionId: message.reactionId,
+            messageId: message.messageId
+        };
+
+        // Individual requests name their sender; aggregated alerts cover the whole window
+        if (!message.summary) {
+            data.connectionId = message.connectionId;
+            data.requestId = message.requestId;
+        }
+
+        this.sendAction('acknowledge', data);
+        this.markElementAcknowledged(messageElement);
+    }
+
+    private markAcknowledged(reactionId: string): void {
+        this.messageList.querySelectorAll<HTMLElement>('.message-item:not(.acknowledged)').forEach(element => {
+            if (element.dataset.reactionId === reactionId) {
+                this.markElementAcknowledged(element);
+            }
+        });
+    }
+
+    private markElementAcknowledged(messageElement: HTMLElement): void {
+        messageElement.classList.add('acknowledged');
+
+        const ackButton = messageElement.querySelector('.ack-button') as HTMLButtonElement | null;
+        if (ackButton) {
+            ackButton.disabled = true;
+            ackButton.textContent = 'Acknowledged';
+        }
+    }
+
     private escapeHtml(text: string): string {
         const div = document.createElement('div');
         div.textContent = text;
         return div.innerHTML;
     }
 
+    private renderCounters(counters: ReactionCounterInfo[], audienceSize: number, windowSeconds: number): void {
+        this.counterSummary.textContent = `Audience: ${audienceSize} · last ${windowSeconds}s`;
+
+        this.counterList.replaceChildren(...counters.map(counter => {
+            const reaction = this.reactions.get(counter.reactionId);
+            const item = document.createElement('li');
+            item.className = `counter-item${counter.count > 0 ? ' active' : ''}`;
+            if (reaction) {
+                item.classList.add(`severity-${reaction.severity}`);
+            }
+
+            const label = document.createElement('span');
+            label.className = 'counter-label';
+            label.textContent = reaction ? `${reaction.icon} ${reaction.label}` : counter.reactionId;
+
+            const value = document.createElement('span');
+            value.className = 'counter-value';
+            value.textContent = `${counter.count} (${counter.percent}%)`;
+
+            const bar = document.createElement('span');
+            bar.className = 'counter-bar';
+            bar.style.width = `${Math.min(counter.percent, 100)}%`;
+
+            item.append(label, value, bar);
+            return item;
+        }));
+
+        this.counterPanel.style.display = 'block';
+    }
+
+    private renderLatency(stats: LatencyStatsFrame): void {
+        const format = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+        this.latencySummary.textContent =
+            `Delivery p50 ${format(stats.p50Ms)} · p95 ${format(stats.p95Ms)} · p99 ${format(stats.p99Ms)}`;
+        this.latencySummary.title =
+            `${stats.count} messages in the last ${Math.round(stats.windowSeconds / 60)} min, target ${format(stats.targetMs)}`;
+        this.latencySummary.classList.toggle('over-target', stats.p95Ms > stats.targetMs);
+        this.latencySummary.style.display = 'block';
+    }
+
     private updateMessageCount(): void {
         this.messageCountElement.textContent = this.messageCount.toString();
     }
@@ -432,7 +896,7 @@ class AdminWebSocketClient {
 
         // Send a ping to check if connection is still alive
         try {
-            this.ws.send(JSON.stringify({ action: 'ping' }));
+            this.ws.send(JSON.stringify(buildClientFrame('ping', {})));
         } catch (error) {
             console.error('Health check ping failed:', error);
             this.handleConnectionError();
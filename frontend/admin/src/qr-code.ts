@@ -0,0 +1,435 @@
+/**
+ * QR Code Generator
+ * Minimal QR encoder (byte mode, error correction level M, versions 1-10)
+ * used to render room join URLs on the admin page without external libraries
+ */
+
+// Error correction codewords per block and block counts for level M, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+
+// Format bits for error correction level M
+const ECC_LEVEL_M_FORMAT_BITS = 0;
+
+export class QrCode {
+    public readonly version: number;
+    public readonly size: number;
+    private modules: boolean[][];
+    private isFunction: boolean[][];
+
+    /**
+     * Encode text as a QR code, picking the smallest version that fits
+     */
+    public static encodeText(text: string): QrCode {
+        const data = Array.from(new TextEncoder().encode(text));
+
+        for (let version = 1; version <= MAX_VERSION; version++) {
+            const countBits = version <= 9 ? 8 : 16;
+            const capacityBits = QrCode.getNumDataCodewords(version) * 8;
+            const usedBits = 4 + countBits + data.length * 8;
+
+            if (usedBits <= capacityBits) {
+                return new QrCode(version, QrCode.encodeSegment(data, countBits, capacityBits));
+            }
+        }
+
+        throw new Error(`Text too long for QR code (${data.length} bytes)`);
+    }
+
+    private constructor(version: number, dataCodewords: number[]) {
+        this.version = version;
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+        this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+
+        this.drawFunctionPatterns();
+        this.drawCodewords(this.addEccAndInterleave(dataCodewords));
+
+        // Keep the mask with the lowest penalty score
+        let bestMask = 0;
+        let minPenalty = Infinity;
+        for (let mask = 0; mask < 8; mask++) {
+            this.applyMask(mask);
+            this.drawFormatBits(mask);
+            const penalty = this.getPenaltyScore();
+            if (penalty < minPenalty) {
+                bestMask = mask;
+                minPenalty = penalty;
+            }
+            this.applyMask(mask); // XOR again to undo
+        }
+
+        this.applyMask(bestMask);
+        this.drawFormatBits(bestMask);
+    }
+
+    /**
+     * Whether the module at (x, y) is dark
+     */
+    public getModule(x: number, y: number): boolean {
+        return x >= 0 && x < this.size && y >= 0 && y < this.size && this.modules[y][x];
+    }
+
+    private static encodeSegment(data: number[], countBits: number, capacityBits: number): number[] {
+        const bits: number[] = [];
+        const appendBits = (value: number, length: number) => {
+            for (let i = length - 1; i >= 0; i--) {
+                bits.push((value >>> i) & 1);
+            }
+        };
+
+        appendBits(0x4, 4); // Byte mode indicator
+        appendBits(data.length, countBits);
+        data.forEach(b => appendBits(b, 8));
+
+        // Terminator, then pad to a byte boundary
+        appendBits(0, Math.min(4, capacityBits - bits.length));
+        appendBits(0, (8 - bits.length % 8) % 8);
+
+        // Alternating pad bytes fill the remaining capacity
+        for (let pad = 0xEC; bits.length < capacityBits; pad ^= 0xEC ^ 0x11) {
+            appendBits(pad, 8);
+        }
+
+        const codewords: number[] = [];
+        for (let i = 0; i < bits.length; i += 8) {
+            let byte = 0;
+            for (let j = 0; j < 8; j++) {
+                byte = (byte << 1) | bits[i + j];
+            }
+            codewords.push(byte);
+        }
+        return codewords;
+    }
+
+    private static getNumRawDataModules(version: number): number {
+        let result = (16 * version + 128) * version + 64;
+        if (version >= 2) {
+            const numAlign = Math.floor(version / 7) + 2;
+            result -= (25 * numAlign - 10) * numAlign - 55;
+            if (version >= 7) {
+                result -= 36;
+            }
+        }
+        return result;
+    }
+
+    private static getNumDataCodewords(version: number): number {
+        return Math.floor(QrCode.getNumRawDataModules(version) / 8) -
+            ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+    }
+
+    private getAlignmentPatternPositions(): number[] {
+        if (this.version === 1) {
+            return [];
+        }
+
+        const numAlign = Math.floor(this.version / 7) + 2;
+        const step = Math.ceil((this.version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+        const result = [6];
+        for (let pos = this.size - 7; result.length < numAlign; pos -= step) {
+            result.splice(1, 0, pos);
+        }
+        return result;
+    }
+
+    private setFunctionModule(x: number, y: number, isDark: boolean): void {
+        this.modules[y][x] = isDark;
+        this.isFunction[y][x] = true;
+    }
+
+    private drawFunctionPatterns(): void {
+        // Timing patterns
+        for (let i = 0; i < this.size; i++) {
+            this.setFunctionModule(6, i, i % 2 === 0);
+            this.setFunctionModule(i, 6, i % 2 === 0);
+        }
+
+        // Finder patterns in three corners
+        this.drawFinderPattern(3, 3);
+        this.drawFinderPattern(this.size - 4, 3);
+        this.drawFinderPattern(3, this.size - 4);
+
+        // Alignment patterns, skipping the ones overlapping finder patterns
+        const positions = this.getAlignmentPatternPositions();
+        const last = positions.length - 1;
+        positions.forEach((x, i) => {
+            positions.forEach((y, j) => {
+                if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+                    this.drawAlignmentPattern(x, y);
+                }
+            });
+        });
+
+        // Reserve the format areas, then draw version information
+        this.drawFormatBits(0);
+        this.drawVersion();
+    }
+
+    private drawFinderPattern(x: number, y: number): void {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const xx = x + dx;
+                const yy = y + dy;
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+                    this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+                }
+            }
+        }
+    }
+
+    private drawAlignmentPattern(x: number, y: number): void {
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+                this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        }
+    }
+
+    private drawFormatBits(mask: number): void {
+        const data = (ECC_LEVEL_M_FORMAT_BITS << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) {
+            remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        }
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+        const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+        // First copy around the top-left finder pattern
+        for (let i = 0; i <= 5; i++) {
+            this.setFunctionModule(8, i, bit(i));
+        }
+        this.setFunctionModule(8, 7, bit(6));
+        this.setFunctionModule(8, 8, bit(7));
+        this.setFunctionModule(7, 8, bit(8));
+        for (let i = 9; i < 15; i++) {
+            this.setFunctionModule(14 - i, 8, bit(i));
+        }
+
+        // Second copy split between the other two finder patterns
+        for (let i = 0; i < 8; i++) {
+            this.setFunctionModule(this.size - 1 - i, 8, bit(i));
+        }
+        for (let i = 8; i < 15; i++) {
+            this.setFunctionModule(8, this.size - 15 + i, bit(i));
+        }
+        this.setFunctionModule(8, this.size - 8, true); // Always dark
+    }
+
+    private drawVersion(): void {
+        if (this.version < 7) {
+            return;
+        }
+
+        let remainder = this.version;
+        for (let i = 0; i < 12; i++) {
+            remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1F25);
+        }
+        const bits = (this.version << 12) | remainder;
+
+        for (let i = 0; i < 18; i++) {
+            const isDark = ((bits >>> i) & 1) !== 0;
+            const a = this.size - 11 + i % 3;
+            const b = Math.floor(i / 3);
+            this.setFunctionModule(a, b, isDark);
+            this.setFunctionModule(b, a, isDark);
+        }
+    }
+
+    private addEccAndInterleave(data: number[]): number[] {
+        const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[this.version];
+        const blockEccLength = ECC_CODEWORDS_PER_BLOCK[this.version];
+        const rawCodewords = Math.floor(QrCode.getNumRawDataModules(this.version) / 8);
+        const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+        const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+        const divisor = QrCode.reedSolomonComputeDivisor(blockEccLength);
+        const blocks: number[][] = [];
+        for (let i = 0, k = 0; i < numBlocks; i++) {
+            const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+            k += blockData.length;
+            const ecc = QrCode.reedSolomonComputeRemainder(blockData, divisor);
+            if (i < numShortBlocks) {
+                blockData.push(0); // Placeholder so all blocks have equal length
+            }
+            blocks.push(blockData.concat(ecc));
+        }
+
+        // Interleave codewords across blocks, skipping the short-block placeholders
+        const result: number[] = [];
+        for (let i = 0; i < blocks[0].length; i++) {
+            blocks.forEach((block, j) => {
+                if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+                    result.push(block[i]);
+                }
+            });
+        }
+        return result;
+    }
+
+    private static reedSolomonComputeDivisor(degree: number): number[] {
+        const result = new Array<number>(degree).fill(0);
+        result[degree - 1] = 1;
+
+        let root = 1;
+        for (let i = 0; i < degree; i++) {
+            for (let j = 0; j < result.length; j++) {
+                result[j] = QrCode.reedSolomonMultiply(result[j], root);
+                if (j + 1 < result.length) {
+                    result[j] ^= result[j + 1];
+                }
+            }
+            root = QrCode.reedSolomonMultiply(root, 0x02);
+        }
+        return result;
+    }
+
+    private static reedSolomonComputeRemainder(data: number[], divisor: number[]): number[] {
+        const result = divisor.map(() => 0);
+        for (const b of data) {
+            const factor = b ^ (result.shift() as number);
+            result.push(0);
+            divisor.forEach((coefficient, i) => {
+                result[i] ^= QrCode.reedSolomonMultiply(coefficient, factor);
+            });
+        }
+        return result;
+    }
+
+    private static reedSolomonMultiply(x: number, y: number): number {
+        let z = 0;
+        for (let i = 7; i >= 0; i--) {
+            z = (z << 1) ^ ((z >>> 7) * 0x11D);
+            z ^= ((y >>> i) & 1) * x;
+        }
+        return z;
+    }
+
+    private drawCodewords(data: number[]): void {
+        let i = 0;
+        // Zigzag through two-module columns from the bottom-right corner
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) {
+                right = 5; // Skip the vertical timing pattern
+            }
+            for (let vertical = 0; vertical < this.size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vertical : vertical;
+                    if (!this.isFunction[y][x] && i < data.length * 8) {
+                        this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    private applyMask(mask: number): void {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y][x] && QrCode.maskApplies(mask, x, y)) {
+                    this.modules[y][x] = !this.modules[y][x];
+                }
+            }
+        }
+    }
+
+    private static maskApplies(mask: number, x: number, y: number): boolean {
+        switch (mask) {
+            case 0: return (x + y) % 2 === 0;
+            case 1: return y % 2 === 0;
+            case 2: return x % 3 === 0;
+            case 3: return (x + y) % 3 === 0;
+            case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+            case 5: return (x * y) % 2 + (x * y) % 3 === 0;
+            case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+            default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0;
+        }
+    }
+
+    private getPenaltyScore(): number {
+        let penalty = 0;
+        const lines: boolean[][] = [];
+        for (let i = 0; i < this.size; i++) {
+            lines.push(this.modules[i]);
+            lines.push(this.modules.map(row => row[i]));
+        }
+
+        // Runs of five or more same-coloured modules, and finder-like patterns
+        const finderLike = [true, false, true, true, true, false, true];
+        for (const line of lines) {
+            let runLength = 1;
+            for (let i = 1; i <= line.length; i++) {
+                if (i < line.length && line[i] === line[i - 1]) {
+                    runLength++;
+                } else {
+                    if (runLength >= 5) {
+                        penalty += runLength - 2;
+                    }
+                    runLength = 1;
+                }
+            }
+
+            for (let i = 0; i + finderLike.length <= line.length; i++) {
+                if (finderLike.every((value, k) => line[i + k] === value)) {
+                    const lightBefore = [1, 2, 3, 4].every(k => i - k < 0 || !line[i - k]);
+                    const lightAfter = [0, 1, 2, 3].every(k => i + 7 + k >= line.length || !line[i + 7 + k]);
+                    if (lightBefore || lightAfter) {
+                        penalty += 40;
+                    }
+                }
+            }
+        }
+
+        // 2x2 blocks of the same colour
+        for (let y = 0; y < this.size - 1; y++) {
+            for (let x = 0; x < this.size - 1; x++) {
+                const color = this.modules[y][x];
+                if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+                    penalty += 3;
+                }
+            }
+        }
+
+        // Balance of dark and light modules
+        const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+        const total = this.size * this.size;
+        const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+        penalty += Math.max(0, k) * 10;
+
+        return penalty;
+    }
+}
+
+/**
+ * Render text as a QR code onto a canvas, including the four-module quiet zone
+ */
+export function renderQrCode(canvas: HTMLCanvasElement, text: string, scale: number = 6): void {
+    const qr = QrCode.encodeText(text);
+    const border = 4;
+    const dimension = (qr.size + border * 2) * scale;
+
+    canvas.width = dimension;
+    canvas.height = dimension;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+        return;
+    }
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, dimension, dimension);
+    context.fillStyle = '#000000';
+
+    for (let y = 0; y < qr.size; y++) {
+        for (let x = 0; x < qr.size; x++) {
+            if (qr.getModule(x, y)) {
+                context.fillRect((x + border) * scale, (y + border) * scale, scale, scale);
+            }
+        }
+    }
+}
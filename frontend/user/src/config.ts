@@ -12,6 +12,8 @@ export interface Config {
   connectionTimeout: number;
   deploymentMode: string;
   enableLogging: boolean;
+  // OpenTelemetry Collector base URL for browser traces, empty to disable
+  otlpEndpoint: string;
 }
 
 export const configManager = {
@@ -29,5 +31,6 @@ export const config: Config = {
   maxReconnectAttempts: 10,
   connectionTimeout: 30000,
   deploymentMode: 'aws',
-  enableLogging: true
+  enableLogging: true,
+  otlpEndpoint: ''
 };
@@ -0,0 +1,62 @@
+/**
+ * Error Messages
+ * Maps the error codes of the message protocol to messages in the browser's language.
+ * The server's free-text error is only logged, never shown.
+ */
+
+import { ErrorCode } from './protocol/index.js';
+
+type Locale = 'en' | 'de';
+
+const MESSAGES: Record<Locale, Record<ErrorCode, string>> = {
+    en: {
+        INVALID_PAYLOAD: 'This request could not be sent. Please reload the page.',
+        UNSUPPORTED_VERSION: 'A newer version of this page is available. Please reload the page.',
+        UNKNOWN_ACTION: 'This request is not supported by the server. Please reload the page.',
+        NOT_AUTHORIZED: 'You are not allowed to do that.',
+        NOT_FOUND: 'This room does not exist or has ended. Please check the join code.',
+        RATE_LIMITED: 'Slow down! You can send again in {seconds}s',
+        NO_ADMIN_AVAILABLE: 'No presenter is currently connected',
+        STORAGE_UNAVAILABLE: 'The server is busy right now. Please try again in a moment.',
+        INTERNAL_ERROR: 'Something went wrong. Please try again.'
+    },
+    de: {
+        INVALID_PAYLOAD: 'Diese Anfrage konnte nicht gesendet werden. Bitte lade die Seite neu.',
+        UNSUPPORTED_VERSION: 'Eine neuere Version dieser Seite ist verfügbar. Bitte lade die Seite neu.',
+        UNKNOWN_ACTION: 'Diese Anfrage wird vom Server nicht unterstützt. Bitte lade die Seite neu.',
+        NOT_AUTHORIZED: 'Das ist dir nicht erlaubt.',
+        NOT_FOUND: 'Diesen Raum gibt es nicht oder er ist beendet. Bitte prüfe den Beitrittscode.',
+        RATE_LIMITED: 'Langsamer! Du kannst in {seconds}s wieder senden',
+        NO_ADMIN_AVAILABLE: 'Gerade ist niemand mit der Präsentation verbunden',
+        STORAGE_UNAVAILABLE: 'Der Server ist gerade ausgelastet. Bitte versuche es gleich noch einmal.',
+        INTERNAL_ERROR: 'Etwas ist schiefgelaufen. Bitte versuche es noch einmal.'
+    }
+};
+
+const REFERENCE_LABEL: Record<Locale, string> = {
+    en: 'Reference',
+    de: 'Referenz'
+};
+
+// Failures on the server side are worth reporting, so they show the correlation ID
+const REPORTABLE_CODES: ErrorCode[] = ['STORAGE_UNAVAILABLE', 'INTERNAL_ERROR'];
+
+function getLocale(): Locale {
+    return navigator.language.toLowerCase().startsWith('de') ? 'de' : 'en';
+}
+
+/**
+ * Localized message for an error code. Codes introduced by a newer server
+ * fall back to the generic message.
+ */
+export function describeError(code: string, params: Record<string, string | number> = {}, correlationId?: string): string {
+    const locale = getLocale();
+    const template = MESSAGES[locale][code as ErrorCode] || MESSAGES[locale].INTERNAL_ERROR;
+    const message = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => String(params[name] ?? placeholder));
+
+    if (correlationId && (REPORTABLE_CODES.includes(code as ErrorCode) || !(code in MESSAGES[locale]))) {
+        return `${message} (${REFERENCE_LABEL[locale]}: ${correlationId})`;
+    }
+
+    return message;
+}
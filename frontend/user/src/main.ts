@@ -1,6 +1,9 @@
 console.log('🚀 UserWebSocketClient: Script loaded!');
 
 import { config, configManager, Config } from './config.js';
+import { describeError } from './error-messages.js';
+import { RateLimitedFrame, ReactionInfo, ReceiptFrame, ServerFrame, buildClientFrame, parseServerFrame } from './protocol/index.js';
+import { BrowserSpan, startSpan } from './tracing.js';
 
 // Simple fallback WebSocketAdapter
 const WebSocketAdapter = {
@@ -20,12 +23,6 @@ const WebSocketAdapter = {
             return { isValid: false, error: 'Invalid URL format' };
         }
     },
-    buildMessage: (action: string, data: any, config: any) => ({
-        action,
-        ...data,
-        timestamp: Date.now(),
-        type: config.connectionType
-    }),
     getErrorMessage: (deploymentMode: string, errorType: string) => {
         return `Failed to ${errorType === 'connection' ? 'connect to' : errorType} messaging system`;
     },
@@ -43,15 +40,22 @@ class UserWebSocketClient {
     private reconnectDelay = 1000; // Start with 1 second
     private isConnecting = false;
     private isIntentionalDisconnect = false;
+    private roomId: string | null;
+    private lastRequestId: string | null = null;
+    // Trace of the last request, from the click until the server reports its delivery
+    private requestSpan: BrowserSpan | null = null;
+    private reactionLabels: Map<string, string> = new Map();
+    private cooldownUntil = 0;
+    private cooldownTimer: ReturnType<typeof setInterval> | null = null;
 
     // DOM elements
-    private sendButton: HTMLButtonElement;
-    private buttonText: HTMLSpanElement;
-    private buttonLoader: HTMLSpanElement;
+    private reactionButtons: HTMLElement;
+    private activeButton: HTMLButtonElement | null = null;
     private statusIndicator: HTMLElement;
     private statusDot: HTMLElement;
     private statusText: HTMLElement;
     private feedbackElement: HTMLElement;
+    private roomInfoElement: HTMLElement;
 
     constructor() {
         console.log('🚀 UserWebSocketClient: Starting initialization...');
@@ -69,18 +73,19 @@ class UserWebSocketClient {
             
             // Initialize DOM elements
             console.log('🎯 UserWebSocketClient: Initializing DOM elements...');
-            this.sendButton = document.getElementById('sendMessageBtn') as HTMLButtonElement;
-            this.buttonText = this.sendButton.querySelector('.button-text') as HTMLSpanElement;
-            this.buttonLoader = this.sendButton.querySelector('.button-loader') as HTMLSpanElement;
+            this.reactionButtons = document.getElementById('reactionButtons') as HTMLElement;
             this.statusIndicator = document.getElementById('connectionStatus') as HTMLElement;
             this.statusDot = this.statusIndicator.querySelector('.status-dot') as HTMLElement;
             this.statusText = this.statusIndicator.querySelector('.status-text') as HTMLElement;
             this.feedbackElement = document.getElementById('feedback') as HTMLElement;
+            this.roomInfoElement = document.getElementById('roomInfo') as HTMLElement;
+
+            // Room join code from the shared link or QR code (?room=ABC123)
+            const roomParam = new URLSearchParams(window.location.search).get('room');
+            this.roomId = roomParam ? roomParam.trim().toUpperCase() : null;
             
             console.log('🎯 UserWebSocketClient: DOM elements initialized:', {
-                sendButton: !!this.sendButton,
-                buttonText: !!this.buttonText,
-                buttonLoader: !!this.buttonLoader,
+                reactionButtons: !!this.reactionButtons,
                 statusIndicator: !!this.statusIndicator,
                 statusDot: !!this.statusDot,
                 statusText: !!this.statusText,
@@ -97,8 +102,13 @@ class UserWebSocketClient {
     }
 
     private init(): void {
-        // Add button click event listener
-        this.sendButton.addEventListener('click', () => this.sendMessage());
+        // Add click event listener for all reaction buttons (including ones rendered later)
+        this.reactionButtons.addEventListener('click', (event) => {
+            const button = (event.target as HTMLElement).closest('button[data-reaction-id]') as HTMLButtonElement | null;
+            if (button && !button.disabled) {
+                this.sendMessage(button);
+            }
+        });
         
         // Connect to WebSocket
         this.connect();
@@ -196,11 +206,19 @@ class UserWebSocketClient {
             this.reconnectAttempts = 0;
             this.reconnectDelay = 1000;
             this.updateConnectionStatus('connected', 'Connected');
-            this.sendButton.disabled = false;
+            this.setButtonsDisabled(false);
             this.showFeedback('Connected to messaging system', 'success');
             
             // Identify as user connection
             this.identifyAsUser();
+
+            // Join the room from the invitation link with a frame, so both backends answer whether it exists
+            if (this.roomId) {
+                this.joinRoom(this.roomId);
+            }
+
+            // Load the reactions offered by the server
+            this.requestReactionCatalog();
         };
 
         this.ws.onclose = (event) => {
@@ -214,7 +232,7 @@ class UserWebSocketClient {
             
             this.isConnecting = false;
             this.updateConnectionStatus('disconnected', 'Disconnected');
-            this.sendButton.disabled = true;
+            this.setButtonsDisabled(true);
 
             if (!this.isIntentionalDisconnect) {
                 console.log('🔄 UserWebSocketClient: Unintentional disconnect, scheduling reconnect...');
@@ -237,9 +255,14 @@ class UserWebSocketClient {
         this.ws.onmessage = (event) => {
             console.log('📨 UserWebSocketClient: Received message:', event.data);
             try {
-                const message = JSON.parse(event.data);
-                console.log('📨 UserWebSocketClient: Parsed message data:', message);
-                this.handleServerMessage(message);
+                const parsed = parseServerFrame(event.data);
+                if (!parsed.ok) {
+                    console.error('❌ UserWebSocketClient: Rejected server message:', parsed.error);
+                    return;
+                }
+
+                console.log('📨 UserWebSocketClient: Parsed message data:', parsed.frame);
+                this.handleServerMessage(parsed.frame);
             } catch (error) {
                 console.error('❌ UserWebSocketClient: Failed to parse server message:', error);
                 console.error('❌ UserWebSocketClient: Raw message data:', event.data);
@@ -252,7 +275,7 @@ class UserWebSocketClient {
     private handleConnectionError(): void {
         this.isConnecting = false;
         this.updateConnectionStatus('disconnected', 'Connection failed');
-        this.sendButton.disabled = true;
+        this.setButtonsDisabled(true);
         
         // Provide environment-specific error messages
         const currentConfig = configManager.getConfig();
@@ -285,19 +308,28 @@ class UserWebSocketClient {
         }, delay);
     }
 
-    private sendMessage(): void {
+    private sendMessage(button: HTMLButtonElement): void {
         if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
             this.showFeedback('Not connected. Please wait for connection to be established.', 'error');
             return;
         }
 
-        // Disable button and show loading state
-        this.sendButton.disabled = true;
-        this.buttonText.style.display = 'none';
-        this.buttonLoader.style.display = 'inline-block';
+        // Disable buttons and show loading state on the pressed one
+        this.activeButton = button;
+        this.setButtonsDisabled(true);
+        this.setButtonLoading(button, true);
 
         const currentConfig = configManager.getConfig();
-        const message = this.buildMessage(currentConfig);
+        const reactionId = button.dataset.reactionId || '';
+        this.lastRequestId = this.createRequestId();
+        this.endRequestSpan();
+        this.requestSpan = startSpan('sendMessage', {
+            kind: 'client',
+            attributes: { 'messaging.action': 'sendMessage', 'reaction.id': reactionId, 'messaging.request_id': this.lastRequestId }
+        });
+        // sentAt lets the presenter's screen measure the delivery latency up to its render
+        const message = buildClientFrame('sendMessage', { reactionId, requestId: this.lastRequestId, sentAt: Date.now() });
+        message.traceparent = this.requestSpan.traceparent;
 
         try {
             this.ws.send(JSON.stringify(message));
@@ -307,6 +339,7 @@ class UserWebSocketClient {
             const responseTimeout = setTimeout(() => {
                 this.showFeedback('Message sent (no server response received)', 'info');
                 this.resetButtonState();
+                this.endRequestSpan('No server response');
             }, currentConfig.connectionTimeout || 3000);
 
             // Store timeout ID to clear it if we get a response
@@ -316,19 +349,24 @@ class UserWebSocketClient {
             console.error('Failed to send message:', error);
             this.showFeedback('Failed to send message. Please try again.', 'error');
             this.resetButtonState();
+            this.endRequestSpan('Failed to send message');
         }
     }
 
+    private endRequestSpan(error?: string): void {
+        if (!this.requestSpan) return;
+
+        if (error) {
+            this.requestSpan.setError(error);
+        }
+        this.requestSpan.end();
+        this.requestSpan = null;
+    }
+
     private identifyAsUser(): void {
         if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
 
-        const currentConfig = configManager.getConfig();
-        const identificationMessage = {
-            action: 'identify',
-            type: 'user',
-            deploymentMode: currentConfig.deploymentMode,
-            timestamp: Date.now()
-        };
+        const identificationMessage = buildClientFrame('identify', { connectionType: 'user' });
 
         try {
             this.ws.send(JSON.stringify(identificationMessage));
@@ -338,44 +376,179 @@ class UserWebSocketClient {
         }
     }
 
-    private buildMessage(config: Config): any {
-        return WebSocketAdapter.buildMessage('sendMessage', {
-            content: 'speak german'
-        }, config);
+    private joinRoom(roomId: string): void {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+        try {
+            this.ws.send(JSON.stringify(buildClientFrame('joinRoom', { roomId })));
+            console.log('Room join sent:', roomId);
+        } catch (error) {
+            console.error('Failed to send room join:', error);
+        }
     }
 
-    private resetButtonState(): void {
-        this.sendButton.disabled = false;
-        this.buttonText.style.display = 'inline-block';
-        this.buttonLoader.style.display = 'none';
+    private requestReactionCatalog(): void {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+        try {
+            this.ws.send(JSON.stringify(buildClientFrame('getReactions', {})));
+        } catch (error) {
+            console.error('Failed to request reaction catalog:', error);
+        }
+    }
+
+    private renderReactionButtons(reactions: ReactionInfo[]): void {
+        if (!Array.isArray(reactions) || reactions.length === 0) return;
+
+        this.reactionLabels = new Map(reactions.map(reaction => [reaction.id, reaction.label]));
+
+        const disabled = !this.ws || this.ws.readyState !== WebSocket.OPEN;
+        this.reactionButtons.replaceChildren(...reactions.map(reaction => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = `send-button severity-${reaction.severity}`;
+            button.dataset.reactionId = reaction.id;
+            button.disabled = disabled;
+
+            const text = document.createElement('span');
+            text.className = 'button-text';
+            text.textContent = `${reaction.icon} ${reaction.label}`;
+
+            const loader = document.createElement('span');
+            loader.className = 'button-loader';
+            loader.style.display = 'none';
+            loader.textContent = 'Sending...';
+
+            button.append(text, loader);
+            return button;
+        }));
+        this.activeButton = null;
+
+        console.log(`Rendered ${reactions.length} reaction buttons`);
     }
 
-    private handleServerMessage(message: any): void {
-        // Clear any pending response timeout
+
+    private createRequestId(): string {
+        // randomUUID is only available in secure contexts
+        if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+            return crypto.randomUUID();
+        }
+        return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    }
+
+    private clearResponseTimeout(): void {
         if (this.ws && (this.ws as any).responseTimeout) {
             clearTimeout((this.ws as any).responseTimeout);
             (this.ws as any).responseTimeout = null;
         }
+    }
 
-        // Handle server responses
-        if (message.type === 'confirmation') {
-            this.showFeedback('Message delivered to administrators', 'success');
-            this.resetButtonState();
-        } else if (message.type === 'error') {
-            this.showFeedback(`Error: ${message.message}`, 'error');
-            this.resetButtonState();
-        } else if (message.statusCode === 200) {
-            // Handle successful API Gateway response
-            this.showFeedback('Message sent successfully!', 'success');
-            this.resetButtonState();
-        } else if (message.statusCode && message.statusCode !== 200) {
-            // Handle API Gateway error responses
-            this.showFeedback(`Server error (${message.statusCode}). Please try again.`, 'error');
-            this.resetButtonState();
-        } else {
-            // Default success case for any other server response
-            this.showFeedback('Message sent successfully!', 'success');
+    private handleReceipt(receipt: ReceiptFrame): void {
+        // Receipts of older requests only matter once the presenter acknowledges them
+        if (receipt.requestId && receipt.requestId !== this.lastRequestId && receipt.status !== 'acknowledged') {
+            return;
+        }
+
+        const label = this.reactionLabels.get(receipt.reactionId || '') || 'Your request';
+
+        if (receipt.status === 'accepted') {
+            this.clearResponseTimeout();
+            this.showFeedback(`${label}: received by the server`, 'info');
             this.resetButtonState();
+        } else if (receipt.status === 'delivered') {
+            this.showFeedback(`${label}: delivered to the presenter`, 'success');
+            this.endRequestSpan();
+        } else if (receipt.status === 'no_admin') {
+            this.showFeedback(describeError(receipt.code || 'NO_ADMIN_AVAILABLE'), 'error');
+            this.endRequestSpan(receipt.code || 'NO_ADMIN_AVAILABLE');
+        } else if (receipt.status === 'acknowledged') {
+            this.showFeedback(`${label}: the presenter has seen your request`, 'success');
+        }
+    }
+
+    private setButtonsDisabled(disabled: boolean): void {
+        // Buttons stay disabled while a rate limit cooldown is running
+        const coolingDown = Date.now() < this.cooldownUntil;
+        this.reactionButtons.querySelectorAll('button').forEach(button => {
+            button.disabled = disabled || coolingDown;
+        });
+    }
+
+    private handleRateLimited(message: RateLimitedFrame): void {
+        this.clearResponseTimeout();
+        this.endRequestSpan(message.code);
+
+        this.cooldownUntil = Date.now() + message.retryAfterMs;
+        this.resetButtonState();
+
+        if (this.cooldownTimer) {
+            clearInterval(this.cooldownTimer);
+        }
+
+        const renderCooldown = () => {
+            const secondsLeft = Math.ceil((this.cooldownUntil - Date.now()) / 1000);
+
+            if (secondsLeft <= 0) {
+                clearInterval(this.cooldownTimer!);
+                this.cooldownTimer = null;
+                this.feedbackElement.style.display = 'none';
+                this.setButtonsDisabled(!this.ws || this.ws.readyState !== WebSocket.OPEN);
+                return;
+            }
+
+            this.showFeedback(describeError(message.code, { seconds: secondsLeft }), 'cooldown');
+        };
+
+        renderCooldown();
+        this.cooldownTimer = setInterval(renderCooldown, 250);
+    }
+
+    private setButtonLoading(button: HTMLButtonElement, loading: boolean): void {
+        const buttonText = button.querySelector('.button-text') as HTMLElement | null;
+        const buttonLoader = button.querySelector('.button-loader') as HTMLElement | null;
+        if (buttonText) buttonText.style.display = loading ? 'none' : 'inline-block';
+        if (buttonLoader) buttonLoader.style.display = loading ? 'inline-block' : 'none';
+    }
+
+    private resetButtonState(): void {
+        this.setButtonsDisabled(false);
+        if (this.activeButton) {
+            this.setButtonLoading(this.activeButton, false);
+            this.activeButton = null;
+        }
+    }
+
+    private handleServerMessage(message: ServerFrame): void {
+        // Handle server responses
+        switch (message.type) {
+            case 'reactionCatalog':
+                this.renderReactionButtons(message.reactions);
+                break;
+            case 'roomJoined':
+                this.roomInfoElement.textContent = `Room ${message.roomId}`;
+                this.roomInfoElement.style.display = 'block';
+                break;
+            case 'receipt':
+                this.handleReceipt(message);
+                break;
+            case 'rateLimited':
+                this.handleRateLimited(message);
+                break;
+            case 'connection':
+            case 'identified':
+                // Connection bookkeeping, nothing to show
+                console.log('UserWebSocketClient: Connection update:', message.type);
+                break;
+            case 'error':
+                console.error(`UserWebSocketClient: Server error ${message.code} [${message.correlationId}]:`, message.error);
+                this.clearResponseTimeout();
+                this.showFeedback(describeError(message.code, {}, message.correlationId), 'error');
+                this.resetButtonState();
+                this.endRequestSpan(message.code);
+                break;
+            default:
+                // Other frames say nothing about the request, only receipts do
+                console.log('UserWebSocketClient: Unhandled server message:', message);
         }
     }
 
@@ -390,9 +563,9 @@ class UserWebSocketClient {
         this.statusText.textContent = text;
     }
 
-    private showFeedback(message: string, type: 'success' | 'error' | 'info'): void {
+    private showFeedback(message: string, type: 'success' | 'error' | 'info' | 'cooldown'): void {
         // Remove existing type classes
-        this.feedbackElement.classList.remove('success', 'error', 'info');
+        this.feedbackElement.classList.remove('success', 'error', 'info', 'cooldown');
         
         // Add new type class
         this.feedbackElement.classList.add(type);
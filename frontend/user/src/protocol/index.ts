@@ -0,0 +1,543 @@
+// Generated from protocol/src/index.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * Message Protocol
+ * Every frame exchanged between the interfaces and both backends, with runtime validators.
+ *
+ * This file is the source of truth. Each codebase compiles its own copy, because neither
+ * the Lambda asset nor the unbundled frontends can load a separate package at runtime.
+ * Edit protocol/src/index.ts and run `npm run sync:protocol`.
+ */
+
+/**
+ * Bumped on breaking changes. Frames without a version are treated as version 1.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export type ConnectionType = 'user' | 'admin';
+export type AdminRole = 'moderator' | 'presenter';
+export type ReactionSeverity = 'info' | 'warning' | 'critical';
+export type ReceiptStatus = 'accepted' | 'delivered' | 'no_admin' | 'acknowledged';
+
+/**
+ * Stable error codes. Interfaces map them to localized messages, so the
+ * free-text `error` next to them is only meant for logs.
+ */
+export type ErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNKNOWN_ACTION'
+  | 'NOT_AUTHORIZED'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'NO_ADMIN_AVAILABLE'
+  | 'STORAGE_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+export interface ReactionInfo {
+  id: string;
+  label: string;
+  icon: string;
+  severity: ReactionSeverity;
+}
+
+export interface ReactionCounterInfo {
+  reactionId: string;
+  count: number;
+  percent: number;
+}
+
+// ---------------------------------------------------------------------------
+// Trace context
+// ---------------------------------------------------------------------------
+
+/**
+ * W3C trace context (https://www.w3.org/TR/trace-context/) of the span that sent a frame.
+ * Frames carry it as `traceparent`, so a trace follows a request across the WebSocket hops.
+ */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parse a version 00 traceparent, or return null so the receiver starts a new trace
+ */
+export function parseTraceparent(value: unknown): TraceContext | null {
+  const match = typeof value === 'string' ? TRACEPARENT_PATTERN.exec(value) : null;
+
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+
+  return { traceId: match[1], spanId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+// ---------------------------------------------------------------------------
+// Client → server frames
+// ---------------------------------------------------------------------------
+
+interface ClientFrameBase<A extends string, D> {
+  action: A;
+  version: number;
+  data: D;
+  traceparent?: string;
+}
+
+// sentAt: epoch ms at which the audience member's interface sent the request
+export type SendMessageFrame = ClientFrameBase<'sendMessage', { reactionId?: string; requestId?: string; sentAt?: number }>;
+export type IdentifyFrame = ClientFrameBase<'identify', { connectionType: ConnectionType; token?: string }>;
+export type SetConnectionTypeFrame = ClientFrameBase<'setConnectionType', { connectionType: ConnectionType; token?: string }>;
+export type CreateRoomFrame = ClientFrameBase<'createRoom', { name?: string }>;
+export type JoinRoomFrame = ClientFrameBase<'joinRoom', { roomId: string }>;
+export type AcknowledgeFrame = ClientFrameBase<'acknowledge', {
+  reactionId: string;
+  messageId?: string;
+  requestId?: string;
+  connectionId?: string;
+}>;
+export type GetReactionsFrame = ClientFrameBase<'getReactions', Record<string, never>>;
+export type CatchUpFrame = ClientFrameBase<'catchUp', { cursor?: string }>;
+export type GetHistoryFrame = ClientFrameBase<'getHistory', { cursor?: string }>;
+export type PingFrame = ClientFrameBase<'ping', Record<string, never>>;
+// Admin interface reports when it rendered a live request or alert, with the stamps the frame carried
+export type ReportLatencyFrame = ClientFrameBase<'reportLatency', {
+  messageId: string;
+  sentAt: number;
+  receivedAt?: number;
+  renderedAt: number;
+}>;
+
+export type ClientFrame =
+  | SendMessageFrame
+  | IdentifyFrame
+  | SetConnectionTypeFrame
+  | CreateRoomFrame
+  | JoinRoomFrame
+  | AcknowledgeFrame
+  | GetReactionsFrame
+  | CatchUpFrame
+  | GetHistoryFrame
+  | PingFrame
+  | ReportLatencyFrame;
+
+export type ClientAction = ClientFrame['action'];
+export type ClientFrameOf<A extends ClientAction> = Extract<ClientFrame, { action: A }>;
+
+export function buildClientFrame<A extends ClientAction>(action: A, data: ClientFrameOf<A>['data']): ClientFrameOf<A> {
+  return { action, version: PROTOCOL_VERSION, data } as ClientFrameOf<A>;
+}
+
+// ---------------------------------------------------------------------------
+// Server → client frames
+// ---------------------------------------------------------------------------
+
+type ServerFrameBase<T extends string, F> = {
+  type: T;
+  version: number;
+  timestamp: string;
+} & F;
+
+export type ConnectionFrame = ServerFrameBase<'connection', { connectionId: string; connectionType: ConnectionType; message?: string }>;
+export type IdentifiedFrame = ServerFrameBase<'identified', { connectionType: ConnectionType; message?: string }>;
+export type ConnectionTypeUpdatedFrame = ServerFrameBase<'connectionTypeUpdated', { connectionType: ConnectionType; message?: string }>;
+export type AuthenticationFailedFrame = ServerFrameBase<'authenticationFailed', { code: 'NOT_AUTHORIZED'; error: string; correlationId: string }>;
+export type RoomCreatedFrame = ServerFrameBase<'roomCreated', { roomId: string; name?: string; message?: string }>;
+export type RoomJoinedFrame = ServerFrameBase<'roomJoined', { roomId: string; connectionType?: ConnectionType; message?: string }>;
+export type ReactionCatalogFrame = ServerFrameBase<'reactionCatalog', { reactions: ReactionInfo[] }>;
+export type ReceiptFrame = ServerFrameBase<'receipt', {
+  status: ReceiptStatus;
+  code?: ErrorCode;
+  requestId?: string;
+  reactionId?: string;
+  successCount?: number;
+  failureCount?: number;
+}>;
+export type UserRequestFrame = ServerFrameBase<'userRequest', {
+  messageId: string;
+  requestId?: string;
+  connectionId: string;
+  roomId: string;
+  reactionId: string;
+  content: string;
+  icon: string;
+  severity: ReactionSeverity;
+  historyCursor?: string;
+  traceparent?: string;
+  sentAt?: number;
+  receivedAt?: number;
+}>;
+export type ReactionCountersFrame = ServerFrameBase<'reactionCounters', {
+  roomId: string;
+  audienceSize: number;
+  windowSeconds: number;
+  counters: ReactionCounterInfo[];
+}>;
+export type ReactionAlertFrame = ServerFrameBase<'reactionAlert', {
+  messageId: string;
+  roomId: string;
+  reactionId: string;
+  count: number;
+  percent: number;
+  audienceSize: number;
+  threshold: 'count' | 'percent';
+  windowSeconds: number;
+  content: string;
+  icon: string;
+  severity: ReactionSeverity;
+  streamId?: string;
+  traceparent?: string;
+  sentAt?: number;
+  receivedAt?: number;
+}>;
+export type ReactionAcknowledgedFrame = ServerFrameBase<'reactionAcknowledged', {
+  roomId: string;
+  reactionId: string;
+  requesterCount?: number;
+  acknowledgedBy: string;
+  streamId?: string;
+}>;
+export type CatchUpReplayFrame = ServerFrameBase<'catchUp', {
+  roomId: string;
+  messages: Array<ReactionAlertFrame | ReactionAcknowledgedFrame>;
+  cursor: string | null;
+  hasMore: boolean;
+}>;
+export type HistoryFrame = ServerFrameBase<'history', {
+  roomId: string;
+  messages: UserRequestFrame[];
+  cursor: string | null;
+  hasMore: boolean;
+}>;
+export type RateLimitedFrame = ServerFrameBase<'rateLimited', {
+  code: 'RATE_LIMITED';
+  correlationId: string;
+  action?: string;
+  requestId?: string;
+  error: string;
+  retryAfter: number;
+  retryAfterMs: number;
+}>;
+export type ErrorFrame = ServerFrameBase<'error', {
+  code: ErrorCode;
+  error: string;
+  correlationId: string;
+  action?: string;
+  requestId?: string;
+}>;
+// Delivery latency percentiles of a room in milliseconds, from the requests its admins reported
+export type LatencyStatsFrame = ServerFrameBase<'latencyStats', {
+  roomId: string;
+  windowSeconds: number;
+  count: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  targetMs: number;
+}>;
+export type PongFrame = ServerFrameBase<'pong', {}>;
+export type ServerShutdownFrame = ServerFrameBase<'serverShutdown', { message: string }>;
+
+export type ServerFrame =
+  | ConnectionFrame
+  | IdentifiedFrame
+  | ConnectionTypeUpdatedFrame
+  | AuthenticationFailedFrame
+  | RoomCreatedFrame
+  | RoomJoinedFrame
+  | ReactionCatalogFrame
+  | ReceiptFrame
+  | UserRequestFrame
+  | ReactionCountersFrame
+  | ReactionAlertFrame
+  | ReactionAcknowledgedFrame
+  | CatchUpReplayFrame
+  | HistoryFrame
+  | RateLimitedFrame
+  | ErrorFrame
+  | LatencyStatsFrame
+  | PongFrame
+  | ServerShutdownFrame;
+
+export type ServerFrameType = ServerFrame['type'];
+export type ServerFrameOf<T extends ServerFrameType> = Extract<ServerFrame, { type: T }>;
+export type ServerFrameFields<T extends ServerFrameType> = Omit<ServerFrameOf<T>, 'type' | 'version' | 'timestamp'>;
+
+export function buildServerFrame<T extends ServerFrameType>(type: T, fields: ServerFrameFields<T>): ServerFrameOf<T> {
+  return { type, version: PROTOCOL_VERSION, ...fields, timestamp: new Date().toISOString() } as unknown as ServerFrameOf<T>;
+}
+
+/**
+ * Build an error frame. The correlation ID also appears in the backend's logs,
+ * so a reference shown to a user leads to the failed request.
+ */
+export function buildErrorFrame(
+  code: ErrorCode,
+  error: string,
+  correlationId: string,
+  details: { action?: string; requestId?: string } = {}
+): ErrorFrame {
+  return buildServerFrame('error', { code, error, correlationId, ...details });
+}
+
+// ---------------------------------------------------------------------------
+// Runtime validation
+// ---------------------------------------------------------------------------
+
+export type ParseResult<T> = { ok: true; frame: T } | { ok: false; code: 'INVALID_PAYLOAD' | 'UNSUPPORTED_VERSION' | 'UNKNOWN_ACTION'; error: string };
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'connectionType';
+
+export interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+}
+
+export type FieldRules = Record<string, FieldRule>;
+
+export const CLIENT_FIELD_RULES: Record<ClientAction, FieldRules> = {
+  sendMessage: { reactionId: { type: 'string' }, requestId: { type: 'string' }, sentAt: { type: 'number' } },
+  identify: { connectionType: { type: 'connectionType', required: true }, token: { type: 'string' } },
+  setConnectionType: { connectionType: { type: 'connectionType', required: true }, token: { type: 'string' } },
+  createRoom: { name: { type: 'string' } },
+  joinRoom: { roomId: { type: 'string', required: true } },
+  acknowledge: {
+    reactionId: { type: 'string', required: true },
+    messageId: { type: 'string' },
+    requestId: { type: 'string' },
+    connectionId: { type: 'string' }
+  },
+  getReactions: {},
+  catchUp: { cursor: { type: 'string' } },
+  getHistory: { cursor: { type: 'string' } },
+  ping: {},
+  reportLatency: {
+    messageId: { type: 'string', required: true },
+    sentAt: { type: 'number', required: true },
+    receivedAt: { type: 'number' },
+    renderedAt: { type: 'number', required: true }
+  }
+};
+
+const SERVER_FIELDS: Record<ServerFrameType, FieldRules> = {
+  connection: { connectionId: { type: 'string', required: true }, connectionType: { type: 'connectionType', required: true } },
+  identified: { connectionType: { type: 'connectionType', required: true } },
+  connectionTypeUpdated: { connectionType: { type: 'connectionType', required: true } },
+  authenticationFailed: { code: { type: 'string', required: true }, error: { type: 'string', required: true } },
+  roomCreated: { roomId: { type: 'string', required: true } },
+  roomJoined: { roomId: { type: 'string', required: true } },
+  reactionCatalog: { reactions: { type: 'array', required: true } },
+  receipt: { status: { type: 'string', required: true } },
+  userRequest: {
+    messageId: { type: 'string', required: true },
+    connectionId: { type: 'string', required: true },
+    reactionId: { type: 'string', required: true },
+    content: { type: 'string', required: true }
+  },
+  reactionCounters: { counters: { type: 'array', required: true }, audienceSize: { type: 'number', required: true } },
+  reactionAlert: { reactionId: { type: 'string', required: true }, count: { type: 'number', required: true } },
+  reactionAcknowledged: { reactionId: { type: 'string', required: true } },
+  catchUp: { messages: { type: 'array', required: true }, hasMore: { type: 'boolean', required: true } },
+  history: { messages: { type: 'array', required: true }, hasMore: { type: 'boolean', required: true } },
+  rateLimited: { code: { type: 'string', required: true }, retryAfterMs: { type: 'number', required: true } },
+  error: { code: { type: 'string', required: true }, error: { type: 'string', required: true } },
+  latencyStats: { count: { type: 'number', required: true }, targetMs: { type: 'number', required: true } },
+  pong: {},
+  serverShutdown: { message: { type: 'string' } }
+};
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'connectionType':
+      return value === 'user' || value === 'admin';
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * First field that is missing or has the wrong type, or null when the fields match the rules
+ */
+export function checkFields(fields: Record<string, unknown>, rules: FieldRules): string | null {
+  for (const [name, rule] of Object.entries(rules)) {
+    const value = fields[name];
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        return `Missing field: ${name}`;
+      }
+      continue;
+    }
+
+    if (!matchesType(value, rule.type)) {
+      return `Invalid field: ${name}`;
+    }
+  }
+
+  return null;
+}
+
+type ParseFailure = Extract<ParseResult<never>, { ok: false }>;
+
+function invalid(error: string): ParseFailure {
+  return { ok: false, code: 'INVALID_PAYLOAD', error };
+}
+
+function checkVersion(frame: Record<string, any>): ParseFailure | null {
+  const version = frame.version ?? 1;
+
+  if (typeof version !== 'number' || version < 1) {
+    return invalid('Invalid protocol version');
+  }
+  if (version > PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      code: 'UNSUPPORTED_VERSION',
+      error: `Unsupported protocol version ${version}, this side speaks version ${PROTOCOL_VERSION}`
+    };
+  }
+
+  return null;
+}
+
+function parseJson(input: unknown): ParseResult<Record<string, any>> {
+  let value = input;
+
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      return invalid('Frame is not valid JSON');
+    }
+  }
+
+  return isObject(value) ? { ok: true, frame: value } : invalid('Frame must be a JSON object');
+}
+
+/**
+ * A client frame whose action is not checked yet, e.g. one of an action added by a server plugin
+ */
+export interface ClientEnvelope {
+  action: string;
+  version: number;
+  data: Record<string, unknown>;
+  traceparent?: string;
+}
+
+function isClientAction(action: string): action is ClientAction {
+  return Object.prototype.hasOwnProperty.call(CLIENT_FIELD_RULES, action);
+}
+
+/**
+ * Check JSON and version of a client frame without validating its fields.
+ * Clients from before the protocol package put fields at the top level (and
+ * identify used `type` for the connection type); for built-in actions those
+ * frames are normalized into `data`.
+ */
+export function parseClientEnvelope(input: unknown): ParseResult<ClientEnvelope> {
+  const parsed = parseJson(input);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const raw = parsed.frame;
+  const versionError = checkVersion(raw);
+  if (versionError) {
+    return versionError;
+  }
+
+  if (typeof raw.action !== 'string' || !raw.action) {
+    return invalid('Missing field: action');
+  }
+
+  const action = raw.action;
+  const rawData = isObject(raw.data) ? raw.data : {};
+
+  // An invalid traceparent is dropped rather than rejected, as the W3C spec asks
+  const traceContext = parseTraceparent(raw.traceparent);
+  const trace = traceContext ? { traceparent: formatTraceparent(traceContext) } : {};
+
+  if (!isClientAction(action)) {
+    return { ok: true, frame: { action, version: raw.version ?? 1, data: { ...rawData }, ...trace } };
+  }
+
+  const data: Record<string, unknown> = {};
+
+  for (const name of Object.keys(CLIENT_FIELD_RULES[action])) {
+    const value = rawData[name] ?? raw[name];
+    if (value !== undefined && value !== null) {
+      data[name] = value;
+    }
+  }
+
+  if ((action === 'identify' || action === 'setConnectionType') && data.connectionType === undefined) {
+    data.connectionType = raw.type;
+  }
+
+  return { ok: true, frame: { action, version: raw.version ?? 1, data, ...trace } };
+}
+
+/**
+ * Validate a frame sent by an interface against the built-in actions
+ */
+export function parseClientFrame(input: unknown): ParseResult<ClientFrame> {
+  const parsed = parseClientEnvelope(input);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const { action, data } = parsed.frame;
+
+  if (!isClientAction(action)) {
+    return { ok: false, code: 'UNKNOWN_ACTION', error: `Unknown action: ${action}` };
+  }
+
+  const fieldError = checkFields(data, CLIENT_FIELD_RULES[action]);
+  if (fieldError) {
+    return invalid(fieldError);
+  }
+
+  return { ok: true, frame: parsed.frame as ClientFrame };
+}
+
+/**
+ * Validate a frame sent by a backend
+ */
+export function parseServerFrame(input: unknown): ParseResult<ServerFrame> {
+  const parsed = parseJson(input);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const raw = parsed.frame;
+  const versionError = checkVersion(raw);
+  if (versionError) {
+    return versionError;
+  }
+
+  if (typeof raw.type !== 'string' || !Object.prototype.hasOwnProperty.call(SERVER_FIELDS, raw.type)) {
+    return invalid(`Unknown frame type: ${raw.type}`);
+  }
+
+  const fieldError = checkFields(raw, SERVER_FIELDS[raw.type as ServerFrameType]);
+  if (fieldError) {
+    return invalid(fieldError);
+  }
+
+  return { ok: true, frame: raw as ServerFrame };
+}
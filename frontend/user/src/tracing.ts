@@ -0,0 +1,131 @@
+// Browser tracing: spans of this page, exported over OTLP/HTTP (JSON) to config.otlpEndpoint.
+// Frames carry the span's traceparent, so the servers continue the same trace.
+// Shared by the user and admin interfaces; keep both copies identical.
+
+import { config } from './config.js';
+import { TraceContext, formatTraceparent, parseTraceparent } from './protocol/index.js';
+
+type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+type Attributes = Record<string, string | number | boolean | undefined>;
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+const EXPORT_DELAY_MS = 1000;
+
+let pending: Record<string, unknown>[] = [];
+let exportTimer: ReturnType<typeof setTimeout> | null = null;
+
+export class BrowserSpan {
+    readonly context: TraceContext;
+    private name: string;
+    private kind: SpanKind;
+    private parentSpanId?: string;
+    private attributes: Attributes;
+    private startTime: string = nowNanos();
+    private status: { code: number; message?: string } = { code: 0 };
+    private ended = false;
+
+    constructor(name: string, context: TraceContext, kind: SpanKind, parentSpanId: string | undefined, attributes: Attributes) {
+        this.name = name;
+        this.context = context;
+        this.kind = kind;
+        this.parentSpanId = parentSpanId;
+        this.attributes = { ...attributes };
+    }
+
+    get traceparent(): string {
+        return formatTraceparent(this.context);
+    }
+
+    setAttribute(key: string, value: string | number | boolean | undefined): void {
+        this.attributes[key] = value;
+    }
+
+    setError(message: string): void {
+        this.status = { code: 2, message };
+    }
+
+    end(): void {
+        if (this.ended) return;
+        this.ended = true;
+
+        if (!config.otlpEndpoint || !this.context.sampled) return;
+
+        pending.push({
+            traceId: this.context.traceId,
+            spanId: this.context.spanId,
+            parentSpanId: this.parentSpanId,
+            name: this.name,
+            kind: SPAN_KIND_CODES[this.kind],
+            startTimeUnixNano: this.startTime,
+            endTimeUnixNano: nowNanos(),
+            attributes: Object.entries(this.attributes)
+                .filter(([, value]) => value !== undefined)
+                .map(([key, value]) => ({
+                    key,
+                    value: typeof value === 'string' ? { stringValue: value }
+                        : typeof value === 'boolean' ? { boolValue: value }
+                        : Number.isInteger(value) ? { intValue: value } : { doubleValue: value }
+                })),
+            status: this.status.code === 0 ? { code: 1 } : this.status
+        });
+
+        if (!exportTimer) {
+            exportTimer = setTimeout(exportSpans, EXPORT_DELAY_MS);
+        }
+    }
+}
+
+/**
+ * Start a span, continuing the trace of a received frame's traceparent if given
+ */
+export function startSpan(name: string, options: { kind?: SpanKind; parent?: string; attributes?: Attributes } = {}): BrowserSpan {
+    const parent = parseTraceparent(options.parent);
+    const context: TraceContext = {
+        traceId: parent?.traceId || randomHex(16),
+        spanId: randomHex(8),
+        sampled: parent ? parent.sampled : true
+    };
+
+    return new BrowserSpan(name, context, options.kind || 'internal', parent?.spanId, options.attributes || {});
+}
+
+function exportSpans(): void {
+    exportTimer = null;
+    const spans = pending;
+    pending = [];
+
+    if (spans.length === 0 || !config.otlpEndpoint) return;
+
+    // keepalive lets the last spans out while the page unloads
+    fetch(`${config.otlpEndpoint.replace(/\/+$/, '')}/v1/traces`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        keepalive: true,
+        body: JSON.stringify({
+            resourceSpans: [{
+                resource: {
+                    attributes: [{ key: 'service.name', value: { stringValue: `${config.connectionType}-frontend` } }]
+                },
+                scopeSpans: [{ scope: { name: 'user-admin-messaging' }, spans }]
+            }]
+        })
+    }).catch(error => {
+        console.warn(`Failed to export ${spans.length} spans:`, error);
+    });
+}
+
+function randomHex(bytes: number): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function nowNanos(): string {
+    // Microsecond precision, beyond that the epoch in nanoseconds exceeds a double's precision
+    return (BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000)) * BigInt(1000)).toString();
+}
+
+window.addEventListener('pagehide', () => {
+    if (exportTimer) {
+        clearTimeout(exportTimer);
+        exportSpans();
+    }
+});
@@ -1,5 +1,5 @@
 import * as cdk from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
+import { Match, Template } from 'aws-cdk-lib/assertions';
 import { UserAdminMessagingStack } from '../user-admin-messaging-stack';
 
 describe('UserAdminMessagingStack', () => {
@@ -22,6 +22,125 @@ describe('UserAdminMessagingStack', () => {
     });
   });
 
+  it('should create rooms table', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'rooms-test',
+      KeySchema: [{ AttributeName: 'roomId', KeyType: 'HASH' }],
+      TimeToLiveSpecification: { AttributeName: 'ttl', Enabled: true },
+    });
+  });
+
+  it('should create messages table keyed by room and time', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'messages-test',
+      KeySchema: [
+        { AttributeName: 'roomId', KeyType: 'HASH' },
+        { AttributeName: 'messageKey', KeyType: 'RANGE' },
+      ],
+      TimeToLiveSpecification: { AttributeName: 'ttl', Enabled: true },
+    });
+  });
+
+  it('should create history route', () => {
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'getHistory' });
+  });
+
+  it('should create reaction windows table keyed by reaction and requester', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'reaction-windows-test',
+      KeySchema: [
+        { AttributeName: 'windowKey', KeyType: 'HASH' },
+        { AttributeName: 'connectionId', KeyType: 'RANGE' },
+      ],
+      TimeToLiveSpecification: { AttributeName: 'ttl', Enabled: true },
+    });
+  });
+
+  it('should create message log table and catch-up route', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'message-log-test',
+      KeySchema: [
+        { AttributeName: 'roomId', KeyType: 'HASH' },
+        { AttributeName: 'streamId', KeyType: 'RANGE' },
+      ],
+      TimeToLiveSpecification: { AttributeName: 'ttl', Enabled: true },
+    });
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'catchUp' });
+  });
+
+  it('should route identify, ping and unrouted frames to the message handler', () => {
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'identify' });
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'ping' });
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: '$default' });
+  });
+
+  it('should create rate limits table', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'rate-limits-test',
+      KeySchema: [{ AttributeName: 'bucketKey', KeyType: 'HASH' }],
+    });
+  });
+
+  it('should create room routes', () => {
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'createRoom' });
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'joinRoom' });
+  });
+
+  it('should create reaction catalog route', () => {
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'getReactions' });
+  });
+
+  it('should create acknowledge route', () => {
+    template.hasResourceProperties('AWS::ApiGatewayV2::Route', { RouteKey: 'acknowledge' });
+  });
+
+  it('should configure the admin routing policy', () => {
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Handler: 'message-handler.handler',
+      Environment: {
+        Variables: Match.objectLike({ ROUTING_POLICY: 'broadcast' }),
+      },
+    });
+  });
+
+  it('should configure reaction aggregation', () => {
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Handler: 'message-handler.handler',
+      Environment: {
+        Variables: Match.objectLike({ AGGREGATION_WINDOW: '60', ALERT_THRESHOLD_COUNT: '5', ALERT_THRESHOLD_PERCENT: '10' }),
+      },
+    });
+  });
+
+  it('should pass the environment to the handlers for their metrics', () => {
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Handler: 'connection-manager.handler',
+      Environment: {
+        Variables: Match.objectLike({ ENVIRONMENT: 'test', METRICS_NAMESPACE: 'UserAdminMessaging' }),
+      },
+    });
+  });
+
+  it('should create a dashboard and alarms on delivery failures and handler errors', () => {
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', { DashboardName: 'user-admin-messaging-test' });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'user-admin-messaging-delivery-failures-test',
+      MetricName: 'DeliveryFailures',
+      Namespace: 'UserAdminMessaging',
+      Dimensions: [{ Name: 'Environment', Value: 'test' }],
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'user-admin-messaging-handler-errors-test',
+      Metrics: Match.arrayWith([Match.objectLike({ Expression: Match.stringLikeRegexp('FILL\\(reported, 0\\)') })]),
+    });
+  });
+
+  it('should create admin token secret', () => {
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: 'user-admin-messaging-admin-token-test',
+    });
+  });
+
   it('should create WebSocket API', () => {
     template.hasResourceProperties('AWS::ApiGatewayV2::Api', {
       Name: 'user-admin-messaging-websocket-test',
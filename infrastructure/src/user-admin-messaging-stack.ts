@@ -7,6 +7,8 @@ import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
 import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
 import { Construct } from 'constructs';
 import * as path from 'path';
 
@@ -16,6 +18,9 @@ export interface UserAdminMessagingStackProps extends cdk.StackProps {
   autoDeleteObjects: boolean;
 }
 
+// Namespace of the metrics the Lambda handlers write in CloudWatch Embedded Metric Format
+const METRICS_NAMESPACE = 'UserAdminMessaging';
+
 export class UserAdminMessagingStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: UserAdminMessagingStackProps) {
     super(scope, id, props);
@@ -43,6 +48,89 @@ export class UserAdminMessagingStack extends cdk.Stack {
       },
     });
 
+    // DynamoDB table for talk rooms, keyed by join code
+    const roomsTable = new dynamodb.Table(this, 'Rooms', {
+      tableName: `rooms-${environment}`,
+      partitionKey: {
+        name: 'roomId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      removalPolicy,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // DynamoDB table for the audience requests of each room, sorted by time
+    const messagesTable = new dynamodb.Table(this, 'Messages', {
+      tableName: `messages-${environment}`,
+      partitionKey: {
+        name: 'roomId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'messageKey',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      removalPolicy,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // DynamoDB table for the requesters of each reaction within the aggregation window
+    const reactionWindowsTable = new dynamodb.Table(this, 'ReactionWindows', {
+      tableName: `reaction-windows-${environment}`,
+      partitionKey: {
+        name: 'windowKey',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'connectionId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      removalPolicy,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // DynamoDB table for the alerts and acknowledgements admins replay with catchUp
+    const messageLogTable = new dynamodb.Table(this, 'MessageLog', {
+      tableName: `message-log-${environment}`,
+      partitionKey: {
+        name: 'roomId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'streamId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      removalPolicy,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // DynamoDB table for per-connection and per-IP token buckets
+    const rateLimitsTable = new dynamodb.Table(this, 'RateLimits', {
+      tableName: `rate-limits-${environment}`,
+      partitionKey: {
+        name: 'bucketKey',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+      removalPolicy,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // HMAC secret used to sign and verify admin tokens
+    const adminTokenSecret = new secretsmanager.Secret(this, 'AdminTokenSecret', {
+      secretName: `user-admin-messaging-admin-token-${environment}`,
+      description: `Signing secret for admin tokens of the messaging WebSocket API (${environment})`,
+      generateSecretString: {
+        passwordLength: 64,
+        excludePunctuation: true,
+      },
+      removalPolicy,
+    });
+
     // WebSocket API Gateway
     const webSocketApi = new apigatewayv2.WebSocketApi(this, 'WebSocketApi', {
       apiName: `user-admin-messaging-websocket-${environment}`,
@@ -63,6 +151,10 @@ export class UserAdminMessagingStack extends cdk.Stack {
       code: lambda.Code.fromAsset(path.join(__dirname, '../../lambda/dist')),
       environment: {
         CONNECTIONS_TABLE_NAME: connectionsTable.tableName,
+        ROOMS_TABLE_NAME: roomsTable.tableName,
+        ADMIN_TOKEN_SECRET_ARN: adminTokenSecret.secretArn,
+        ENVIRONMENT: environment,
+        METRICS_NAMESPACE,
       },
     });
 
@@ -73,13 +165,39 @@ export class UserAdminMessagingStack extends cdk.Stack {
       code: lambda.Code.fromAsset(path.join(__dirname, '../../lambda/dist')),
       environment: {
         CONNECTIONS_TABLE_NAME: connectionsTable.tableName,
+        ROOMS_TABLE_NAME: roomsTable.tableName,
+        ADMIN_TOKEN_SECRET_ARN: adminTokenSecret.secretArn,
+        RATE_LIMITS_TABLE_NAME: rateLimitsTable.tableName,
+        MESSAGES_TABLE_NAME: messagesTable.tableName,
+        MESSAGE_RETENTION: process.env.MESSAGE_RETENTION || '86400',
+        REACTION_WINDOWS_TABLE_NAME: reactionWindowsTable.tableName,
+        AGGREGATION_WINDOW: process.env.AGGREGATION_WINDOW || '60',
+        ALERT_THRESHOLD_COUNT: process.env.ALERT_THRESHOLD_COUNT || '5',
+        ALERT_THRESHOLD_PERCENT: process.env.ALERT_THRESHOLD_PERCENT || '10',
+        MESSAGE_LOG_TABLE_NAME: messageLogTable.tableName,
+        MESSAGE_LOG_RETENTION: process.env.MESSAGE_LOG_RETENTION || '3600',
+        ROUTING_POLICY: process.env.ROUTING_POLICY || 'broadcast',
         WEBSOCKET_API_ENDPOINT: `https://${webSocketApi.apiId}.execute-api.${this.region}.amazonaws.com/${webSocketStage.stageName}`,
+        ENVIRONMENT: environment,
+        METRICS_NAMESPACE,
+        // Traces are only exported when a collector is configured at deploy time
+        ...(process.env.OTEL_EXPORTER_OTLP_ENDPOINT && { OTEL_EXPORTER_OTLP_ENDPOINT: process.env.OTEL_EXPORTER_OTLP_ENDPOINT }),
       },
     });
 
     // Grant Lambda functions permissions to access DynamoDB
     connectionsTable.grantReadWriteData(connectionManagerFunction);
     connectionsTable.grantReadWriteData(messageHandlerFunction);
+    roomsTable.grantReadData(connectionManagerFunction);
+    roomsTable.grantReadWriteData(messageHandlerFunction);
+    rateLimitsTable.grantReadWriteData(messageHandlerFunction);
+    messagesTable.grantReadWriteData(messageHandlerFunction);
+    reactionWindowsTable.grantReadWriteData(messageHandlerFunction);
+    messageLogTable.grantReadWriteData(messageHandlerFunction);
+
+    // Grant Lambda functions permission to read the admin token secret
+    adminTokenSecret.grantRead(connectionManagerFunction);
+    adminTokenSecret.grantRead(messageHandlerFunction);
 
     // Grant message handler permission to post to WebSocket connections
     messageHandlerFunction.addToRolePolicy(new iam.PolicyStatement({
@@ -113,6 +231,151 @@ export class UserAdminMessagingStack extends cdk.Stack {
       integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('SetConnectionTypeIntegration', messageHandlerFunction),
     });
 
+    const createRoomRoute = new apigatewayv2.WebSocketRoute(this, 'CreateRoomRoute', {
+      webSocketApi,
+      routeKey: 'createRoom',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('CreateRoomIntegration', messageHandlerFunction),
+    });
+
+    const joinRoomRoute = new apigatewayv2.WebSocketRoute(this, 'JoinRoomRoute', {
+      webSocketApi,
+      routeKey: 'joinRoom',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('JoinRoomIntegration', messageHandlerFunction),
+    });
+
+    const getReactionsRoute = new apigatewayv2.WebSocketRoute(this, 'GetReactionsRoute', {
+      webSocketApi,
+      routeKey: 'getReactions',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('GetReactionsIntegration', messageHandlerFunction),
+    });
+
+    const acknowledgeRoute = new apigatewayv2.WebSocketRoute(this, 'AcknowledgeRoute', {
+      webSocketApi,
+      routeKey: 'acknowledge',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('AcknowledgeIntegration', messageHandlerFunction),
+    });
+
+    const getHistoryRoute = new apigatewayv2.WebSocketRoute(this, 'GetHistoryRoute', {
+      webSocketApi,
+      routeKey: 'getHistory',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('GetHistoryIntegration', messageHandlerFunction),
+    });
+
+    const catchUpRoute = new apigatewayv2.WebSocketRoute(this, 'CatchUpRoute', {
+      webSocketApi,
+      routeKey: 'catchUp',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('CatchUpIntegration', messageHandlerFunction),
+    });
+
+    const identifyRoute = new apigatewayv2.WebSocketRoute(this, 'IdentifyRoute', {
+      webSocketApi,
+      routeKey: 'identify',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('IdentifyIntegration', messageHandlerFunction),
+    });
+
+    const pingRoute = new apigatewayv2.WebSocketRoute(this, 'PingRoute', {
+      webSocketApi,
+      routeKey: 'ping',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('PingIntegration', messageHandlerFunction),
+    });
+
+    // Frames without a route of their own, e.g. from plugins or newer clients, are answered with UNKNOWN_ACTION
+    const defaultRoute = new apigatewayv2.WebSocketRoute(this, 'DefaultRoute', {
+      webSocketApi,
+      routeKey: '$default',
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration('DefaultIntegration', messageHandlerFunction),
+    });
+
+    // Metrics of the handlers across actions and rooms, see lambda/src/metrics/embedded-metrics.ts
+    const handlerMetric = (metricName: string, statistic: string = 'Sum') => new cloudwatch.Metric({
+      namespace: METRICS_NAMESPACE,
+      metricName,
+      dimensionsMap: { Environment: environment },
+      statistic,
+      period: cdk.Duration.minutes(5),
+    });
+
+    // Posts that failed although the connection is still open; gone connections (410) are expected
+    const deliveryFailuresAlarm = new cloudwatch.Alarm(this, 'DeliveryFailuresAlarm', {
+      alarmName: `user-admin-messaging-delivery-failures-${environment}`,
+      alarmDescription: 'Frames could not be posted to open WebSocket connections',
+      metric: handlerMetric('DeliveryFailures'),
+      threshold: 5,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+
+    // Storage and internal errors reported to clients, and invocations that failed outright
+    const handlerErrors = new cloudwatch.MathExpression({
+      label: 'Handler errors',
+      expression: 'FILL(reported, 0) + FILL(messageHandler, 0) + FILL(connectionManager, 0)',
+      usingMetrics: {
+        reported: handlerMetric('HandlerErrors'),
+        messageHandler: messageHandlerFunction.metricErrors({ period: cdk.Duration.minutes(5) }),
+        connectionManager: connectionManagerFunction.metricErrors({ period: cdk.Duration.minutes(5) }),
+      },
+      period: cdk.Duration.minutes(5),
+    });
+
+    const handlerErrorsAlarm = new cloudwatch.Alarm(this, 'HandlerErrorsAlarm', {
+      alarmName: `user-admin-messaging-handler-errors-${environment}`,
+      alarmDescription: 'The Lambda handlers failed with storage or internal errors',
+      metric: handlerErrors,
+      threshold: 1,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+
+    const dashboard = new cloudwatch.Dashboard(this, 'MessagingDashboard', {
+      dashboardName: `user-admin-messaging-${environment}`,
+      widgets: [
+        [
+          new cloudwatch.GraphWidget({
+            title: 'Frames by action',
+            width: 12,
+            left: [new cloudwatch.MathExpression({
+              expression: `SEARCH('{${METRICS_NAMESPACE},Environment,Action} MetricName="Frames" Environment="${environment}"', 'Sum', 300)`,
+              usingMetrics: {},
+              label: '',
+            })],
+          }),
+          new cloudwatch.GraphWidget({
+            title: 'Handler duration',
+            width: 12,
+            left: [handlerMetric('HandlerDuration', 'p50'), handlerMetric('HandlerDuration', 'p99')],
+          }),
+        ],
+        [
+          new cloudwatch.GraphWidget({
+            title: 'Deliveries',
+            width: 12,
+            left: [handlerMetric('Deliveries'), handlerMetric('RequestsDelivered')],
+            right: [handlerMetric('DeliveryFailures'), handlerMetric('StaleConnections')],
+          }),
+          new cloudwatch.GraphWidget({
+            title: 'Admins online and connection events',
+            width: 12,
+            left: [handlerMetric('AdminsOnline', 'Maximum')],
+            right: [handlerMetric('ConnectionEvents'), handlerMetric('UnknownRoomConnects')],
+          }),
+        ],
+        [
+          new cloudwatch.GraphWidget({
+            title: 'Errors',
+            width: 12,
+            left: [handlerErrors, handlerMetric('FrameErrors')],
+          }),
+          new cloudwatch.AlarmStatusWidget({
+            title: 'Alarms',
+            width: 12,
+            alarms: [deliveryFailuresAlarm, handlerErrorsAlarm],
+          }),
+        ],
+      ],
+    });
+
     // S3 bucket for user interface
     const userInterfaceBucket = new s3.Bucket(this, 'UserInterfaceBucket', {
       bucketName: `user-admin-messaging-user-${environment}-${this.account}-${this.region}`,
@@ -177,11 +440,21 @@ export class UserAdminMessagingStack extends cdk.Stack {
       description: 'User interface URL via CloudFront',
     });
 
+    new cdk.CfnOutput(this, 'AdminTokenSecretArn', {
+      value: adminTokenSecret.secretArn,
+      description: 'Secrets Manager ARN of the admin token signing secret',
+    });
+
     new cdk.CfnOutput(this, 'AdminInterfaceUrl', {
       value: `https://${distribution.distributionDomainName}/admin/`,
       description: 'Admin interface URL via CloudFront',
     });
 
+    new cdk.CfnOutput(this, 'DashboardUrl', {
+      value: `https://${this.region}.console.aws.amazon.com/cloudwatch/home?region=${this.region}#dashboards:name=${dashboard.dashboardName}`,
+      description: 'CloudWatch dashboard of the messaging handlers',
+    });
+
     // Output the WebSocket URL for frontend configuration
     new cdk.CfnOutput(this, 'WebSocketUrl', {
       value: webSocketStage.url,
@@ -247,6 +247,7 @@ data:
   REDIS_PASSWORD: $(echo -n "redis-password-${env}" | base64)
   JWT_SECRET: $(echo -n "jwt-secret-${env}-$(date +%s)" | base64)
   SESSION_SECRET: $(echo -n "session-secret-${env}-$(date +%s)" | base64)
+  admin-token-secret: $(head -c 32 /dev/urandom | base64 | tr -d '\n' | base64 | tr -d '\n')
 EOF
 
     print_status "Environment configuration created: $config_file"
@@ -286,6 +286,7 @@ data:
   REDIS_PASSWORD: $(echo -n "dev-redis-password" | base64)
   JWT_SECRET: $(echo -n "dev-jwt-secret" | base64)
   SESSION_SECRET: $(echo -n "dev-session-secret" | base64)
+  admin-token-secret: $(echo -n "dev-admin-token-secret" | base64)
 EOF
     
     print_success "Development configuration created"
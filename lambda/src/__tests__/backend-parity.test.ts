@@ -0,0 +1,192 @@
+/**
+ * Runs the same reaction burst through the Lambda handler and the standalone server's
+ * engine, each on its in-memory stores, and expects both to send the same frames
+ */
+
+process.env.ALERT_THRESHOLD_COUNT = '3';
+process.env.ALERT_THRESHOLD_PERCENT = '0';
+
+const mockLambdaFrames: Record<string, any[]> = {};
+
+jest.mock('@aws-sdk/client-apigatewaymanagementapi', () => ({
+  ApiGatewayManagementApiClient: jest.fn(() => ({ send: async () => ({}) })),
+  PostToConnectionCommand: jest.fn(({ ConnectionId, Data }) => {
+    (mockLambdaFrames[ConnectionId] ||= []).push(JSON.parse(Data));
+  }),
+}));
+
+// The Lambda has no in-memory connection, room or rate limit store, so it borrows the standalone server's
+jest.mock('../connection', () => {
+  const connectionManager = new (jest.requireActual('../../../websocket-server/src/connection/in-memory-connection-manager').InMemoryConnectionManager)();
+  return { createConnectionManager: () => connectionManager };
+});
+
+jest.mock('../rooms', () => {
+  const roomRegistry = new (jest.requireActual('../../../websocket-server/src/rooms/in-memory-room-registry').InMemoryRoomRegistry)();
+  return { ...jest.requireActual('../rooms/room-registry'), createRoomRegistry: () => roomRegistry };
+});
+
+jest.mock('../ratelimit', () => ({
+  ...jest.requireActual('../ratelimit/rate-limiter'),
+  createRateLimiter: () => new (jest.requireActual('../../../websocket-server/src/ratelimit/in-memory-rate-limiter').InMemoryRateLimiter)(),
+}));
+
+jest.mock('../aggregation', () => ({
+  createReactionAggregator: () => new (jest.requireActual('../aggregation/in-memory-reaction-aggregator').InMemoryReactionAggregator)(),
+}));
+
+jest.mock('../messaging/message-log-factory', () => ({
+  createMessageLog: () => new (jest.requireActual('../messaging/in-memory-message-log').InMemoryMessageLog)(),
+}));
+
+// The standalone server keeps no request history
+jest.mock('../history', () => ({
+  createMessageHistory: () => undefined,
+}));
+
+import { handler } from '../message-handler';
+import { handler as connectionHandler } from '../connection-manager';
+import { createConnectionManager } from '../connection';
+import { StorageFactory } from '../../../websocket-server/src/storage/storage-factory';
+import { MessagingEngine } from '../../../websocket-server/src/messaging/messaging-engine';
+import { ReactionCatalog } from '../../../websocket-server/src/reactions/reaction-catalog';
+import { createRoutingPolicy } from '../../../websocket-server/src/routing/routing-policy';
+import { loadRateLimitConfig } from '../../../websocket-server/src/ratelimit/rate-limiter';
+import { AdminAuthenticator } from '../../../websocket-server/src/auth/admin-authenticator';
+
+interface Backend {
+  connect(connectionId: string, connectionType: 'user' | 'admin'): Promise<void>;
+  /**
+   * Connect a user with a join code on the URL
+   */
+  connectToRoom(connectionId: string, roomId: string): Promise<void>;
+  send(connectionId: string, frame: object): Promise<void>;
+  frames: Record<string, any[]>;
+}
+
+function lambdaBackend(): Backend {
+  return {
+    connect: connectionId => createConnectionManager().storeConnection(connectionId, connectionId.startsWith('admin') ? 'admin' : 'user'),
+    connectToRoom: async (connectionId, roomId) => {
+      await connectionHandler({ requestContext: { connectionId, eventType: 'CONNECT' }, queryStringParameters: { type: 'user', room: roomId } } as any);
+    },
+    send: async (connectionId, frame) => {
+      await handler({ requestContext: { connectionId }, body: JSON.stringify(frame) } as any);
+    },
+    frames: mockLambdaFrames
+  };
+}
+
+function standaloneBackend(): Backend {
+  const storage = StorageFactory.createStorage('memory');
+  const frames: Record<string, any[]> = {};
+  const engine = new MessagingEngine({
+    connectionManager: storage.connectionManager,
+    roomRegistry: storage.roomRegistry,
+    reactionCatalog: new ReactionCatalog(),
+    routingPolicy: createRoutingPolicy(roomId => storage.roomRegistry.nextRoundRobinCounter(roomId)),
+    rateLimiter: storage.rateLimiter,
+    rateLimitConfig: loadRateLimitConfig(),
+    transport: {
+      send: async (connectionId, frame) => {
+        (frames[connectionId] ||= []).push(JSON.parse(JSON.stringify(frame)));
+        return true;
+      }
+    },
+    getAdminAuthenticator: async () => new AdminAuthenticator('test-admin-secret'),
+    reactionAggregator: storage.reactionAggregator,
+    messageLog: storage.messageLog
+  });
+
+  return {
+    connect: (connectionId, connectionType) => storage.connectionManager.storeConnection(connectionId, connectionType),
+    // Like the server, which joins the room once the connection is stored
+    connectToRoom: async (connectionId, roomId) => {
+      await storage.connectionManager.storeConnection(connectionId, 'user');
+      await engine.joinRoom({ connectionId, connectionType: 'user', roomId: 'lobby' }, roomId, 'correlation-1');
+    },
+    send: async (connectionId, frame) => {
+      await engine.handleFrame(connectionId, JSON.stringify(frame), { correlationId: 'correlation-1' });
+    },
+    frames
+  };
+}
+
+// Fields that differ between any two runs, whatever the backend
+const VOLATILE_FIELDS = new Set(['messageId', 'timestamp', 'streamId', 'cursor', 'traceparent', 'receivedAt', 'correlationId']);
+
+function normalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([key]) => !VOLATILE_FIELDS.has(key))
+      .map(([key, entry]) => [key, normalize(entry)]));
+  }
+
+  return value;
+}
+
+async function runBurst(backend: Backend): Promise<Record<string, any[]>> {
+  for (const connectionId of ['admin-1', 'user-1', 'user-2', 'user-3', 'user-4']) {
+    await backend.connect(connectionId, connectionId.startsWith('admin') ? 'admin' : 'user');
+  }
+
+  const burst: Array<[string, object]> = [
+    ['admin-1', { action: 'catchUp', data: {} }],
+    ['user-1', { action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-1' } }],
+    ['user-1', { action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-2' } }],
+    ['user-2', { action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-3' } }],
+    ['user-3', { action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-4' } }],
+    ['user-4', { action: 'sendMessage', data: { reactionId: 'louder', requestId: 'req-5' } }],
+    ['user-4', { action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-6' } }],
+    ['admin-1', { action: 'acknowledge', data: { reactionId: 'slower' } }],
+    ['admin-1', { action: 'catchUp', data: { cursor: '0-0' } }]
+  ];
+
+  for (const [connectionId, frame] of burst) {
+    await backend.send(connectionId, frame);
+  }
+
+  return normalize(backend.frames);
+}
+
+describe('Backend Parity', () => {
+  it('should send the presenter and the audience the same frames from both backends', async () => {
+    const lambdaFrames = await runBurst(lambdaBackend());
+    const standaloneFrames = await runBurst(standaloneBackend());
+
+    expect(lambdaFrames['admin-1'].map((frame: any) => frame.type)).toEqual([
+      'catchUp',
+      'reactionCounters',
+      'reactionCounters',
+      'reactionCounters',
+      'reactionCounters',
+      'reactionAlert',
+      'reactionCounters',
+      'reactionCounters',
+      'reactionAcknowledged',
+      'reactionCounters',
+      'catchUp'
+    ]);
+    expect(lambdaFrames).toEqual(standaloneFrames);
+  });
+
+  it('should keep a connection to an unknown room in the lobby and tell it on both backends', async () => {
+    async function connectToUnknownRoom(backend: Backend): Promise<any[]> {
+      await backend.connectToRoom('user-5', 'ZZZZZZ');
+      await backend.send('user-5', { action: 'ping', data: {} });
+      await backend.send('user-5', { action: 'ping', data: {} });
+      return normalize(backend.frames['user-5']);
+    }
+
+    const lambdaFrames = await connectToUnknownRoom(lambdaBackend());
+    const standaloneFrames = await connectToUnknownRoom(standaloneBackend());
+
+    expect(lambdaFrames.map(frame => frame.type)).toEqual(['error', 'pong', 'pong']);
+    expect(lambdaFrames[0]).toMatchObject({ code: 'NOT_FOUND', action: 'joinRoom' });
+    expect(lambdaFrames).toEqual(standaloneFrames);
+  });
+});
@@ -1,14 +1,31 @@
+process.env.ADMIN_TOKEN_SECRET = 'test-admin-secret';
+
 const mockStoreConnection = jest.fn();
 const mockRemoveConnection = jest.fn();
+const mockGetConnectionMetadata = jest.fn(async () => null);
+const mockGetConnections = jest.fn(async () => ['admin-conn-1']);
+
+const mockRoomExists = jest.fn();
 
 jest.mock('../connection', () => ({
   createConnectionManager: () => ({
     storeConnection: mockStoreConnection,
     removeConnection: mockRemoveConnection,
+    getConnectionMetadata: mockGetConnectionMetadata,
+    getConnections: mockGetConnections,
+  }),
+}));
+
+jest.mock('../rooms', () => ({
+  ...jest.requireActual('../rooms/room-registry'),
+  createRoomRegistry: () => ({
+    roomExists: mockRoomExists,
   }),
 }));
 
 import { handler } from '../connection-manager';
+import { AdminAuthenticator } from '../auth/admin-authenticator';
+import { getMetrics } from '../metrics/embedded-metrics';
 
 describe('Connection Manager', () => {
   beforeEach(() => {
@@ -25,7 +42,106 @@ describe('Connection Manager', () => {
 
     const result = await handler(event);
 
-    expect(mockStoreConnection).toHaveBeenCalledWith('test-connection-id', 'admin');
+    expect(mockStoreConnection).toHaveBeenCalledWith('test-connection-id', 'user');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should store connections with a valid admin token as admin', async () => {
+    const token = new AdminAuthenticator('test-admin-secret').issueToken();
+
+    const event = {
+      requestContext: {
+        connectionId: 'test-connection-id',
+        eventType: 'CONNECT',
+      },
+      queryStringParameters: { token },
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockStoreConnection).toHaveBeenCalledWith('test-connection-id', 'admin', { adminRole: 'presenter' });
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should store connections with a forged admin token as user', async () => {
+    const token = new AdminAuthenticator('wrong-secret').issueToken();
+
+    const event = {
+      requestContext: {
+        connectionId: 'test-connection-id',
+        eventType: 'CONNECT',
+      },
+      queryStringParameters: { token },
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockStoreConnection).toHaveBeenCalledWith('test-connection-id', 'user');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should assign the role requested with ?type=', async () => {
+    const token = new AdminAuthenticator('test-admin-secret').issueToken(3600, 'moderator');
+
+    const adminEvent = {
+      requestContext: { connectionId: 'admin-connection-id', eventType: 'CONNECT' },
+      queryStringParameters: { type: 'admin', token },
+    } as any;
+    const userEvent = {
+      requestContext: { connectionId: 'user-connection-id', eventType: 'CONNECT' },
+      queryStringParameters: { type: 'user', token },
+    } as any;
+
+    await handler(adminEvent);
+    await handler(userEvent);
+
+    expect(mockStoreConnection).toHaveBeenCalledWith('admin-connection-id', 'admin', { adminRole: 'moderator' });
+    expect(mockStoreConnection).toHaveBeenCalledWith('user-connection-id', 'user');
+  });
+
+  it('should store ?type=admin without a valid token as user', async () => {
+    const event = {
+      requestContext: { connectionId: 'test-connection-id', eventType: 'CONNECT' },
+      queryStringParameters: { type: 'admin' },
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockStoreConnection).toHaveBeenCalledWith('test-connection-id', 'user');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should store the requested room on CONNECT', async () => {
+    mockRoomExists.mockResolvedValue(true);
+
+    const event = {
+      requestContext: {
+        connectionId: 'test-connection-id',
+        eventType: 'CONNECT',
+      },
+      queryStringParameters: { room: 'abc234' },
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockStoreConnection).toHaveBeenCalledWith('test-connection-id', 'user', { roomId: 'ABC234' });
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should keep a CONNECT for an unknown room in the lobby', async () => {
+    mockRoomExists.mockResolvedValue(false);
+
+    const event = {
+      requestContext: {
+        connectionId: 'test-connection-id',
+        eventType: 'CONNECT',
+      },
+      queryStringParameters: { room: 'ZZZZZZ' },
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockStoreConnection).toHaveBeenCalledWith('test-connection-id', 'user', { pendingRoomId: 'ZZZZZZ' });
     expect(result.statusCode).toBe(200);
   });
 
@@ -43,6 +159,25 @@ describe('Connection Manager', () => {
     expect(result.statusCode).toBe(200);
   });
 
+  it('should record the admins online when an admin disconnects', async () => {
+    const record = jest.spyOn(getMetrics(), 'record');
+    mockGetConnectionMetadata.mockResolvedValueOnce({ connectionId: 'admin-conn-2', connectionType: 'admin', roomId: 'ABC234' } as any);
+
+    const event = {
+      requestContext: {
+        connectionId: 'admin-conn-2',
+        eventType: 'DISCONNECT',
+        routeKey: '$disconnect',
+      },
+    } as any;
+
+    await handler(event);
+
+    expect(record).toHaveBeenCalledWith('ConnectionEvents', 1, 'Count', { Room: 'ABC234' });
+    expect(record).toHaveBeenCalledWith('AdminsOnline', 1);
+    record.mockRestore();
+  });
+
   it('should return 400 for missing connection ID', async () => {
     const event = {
       requestContext: {
@@ -0,0 +1,83 @@
+const mockSend = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const command = (name: string) => jest.fn((input: unknown) => ({ name, input }));
+  return {
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+    BatchWriteCommand: command('BatchWrite'),
+    DeleteCommand: command('Delete'),
+    GetCommand: command('Get'),
+    PutCommand: command('Put'),
+    QueryCommand: command('Query'),
+    ScanCommand: command('Scan'),
+    UpdateCommand: command('Update'),
+  };
+});
+
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBConnectionManager } from '../connection/dynamodb-connection-manager';
+
+describe('DynamoDB Connection Manager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSend.mockReset();
+  });
+
+  it('should query the connection type index across every page', async () => {
+    mockSend
+      .mockResolvedValueOnce({ Items: [{ connectionId: 'admin-1' }], LastEvaluatedKey: { connectionId: 'admin-1' } })
+      .mockResolvedValueOnce({ Items: [{ connectionId: 'admin-2' }] });
+
+    const connections = await new DynamoDBConnectionManager().getConnections('admin', 'ABC234');
+
+    expect(connections).toEqual(['admin-1', 'admin-2']);
+    expect(mockSend.mock.calls.map(([command]) => command.name)).toEqual(['Query', 'Query']);
+    expect(mockSend.mock.calls[0][0].input).toMatchObject({
+      IndexName: 'ConnectionTypeIndex',
+      KeyConditionExpression: 'connectionType = :type',
+      FilterExpression: 'roomId = :roomId',
+      ExpressionAttributeValues: { ':type': 'admin', ':roomId': 'ABC234' },
+    });
+    expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ connectionId: 'admin-1' });
+  });
+
+  it('should delete expired connections in batches and retry unprocessed items', async () => {
+    const expired = Array.from({ length: 30 }, (_, index) => ({ connectionId: `conn-${index}` }));
+    const tableName = 'websocket-connections';
+    let throttled = true;
+    mockSend.mockImplementation(async command => {
+      if (command.name === 'Scan') {
+        return command.input.ExclusiveStartKey
+          ? { Items: expired.slice(20) }
+          : { Items: expired.slice(0, 20), LastEvaluatedKey: { connectionId: 'conn-19' } };
+      }
+      if (throttled) {
+        throttled = false;
+        return { UnprocessedItems: { [tableName]: [{ DeleteRequest: { Key: { connectionId: 'conn-3' } } }] } };
+      }
+      return {};
+    });
+
+    await new DynamoDBConnectionManager().cleanupExpiredConnections();
+
+    const batches = mockSend.mock.calls
+      .filter(([command]) => command.name === 'BatchWrite')
+      .map(([command]) => command.input.RequestItems[tableName].map((request: any) => request.DeleteRequest.Key.connectionId));
+    expect(batches).toEqual([
+      expired.slice(0, 20).map(item => item.connectionId),
+      ['conn-3'],
+      expired.slice(20).map(item => item.connectionId),
+    ]);
+  });
+
+  it('should not create items when updating a connection that is gone', async () => {
+    mockSend.mockRejectedValueOnce(new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} }));
+
+    await expect(new DynamoDBConnectionManager().updateConnectionType('gone-1', 'admin', 'presenter'))
+      .rejects.toThrow('Connection gone-1 not found');
+    expect(mockSend.mock.calls[0][0].input).toMatchObject({
+      Key: { connectionId: 'gone-1' },
+      ConditionExpression: 'attribute_exists(connectionId)',
+    });
+  });
+});
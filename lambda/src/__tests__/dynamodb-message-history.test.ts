@@ -0,0 +1,87 @@
+const mockSend = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const command = (name: string) => jest.fn((input: unknown) => ({ name, input }));
+  return {
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+    PutCommand: command('Put'),
+    QueryCommand: command('Query'),
+  };
+});
+
+import { DynamoDBMessageHistory } from '../history/dynamodb-message-history';
+
+/**
+ * Just enough of the messages table to run the history against: one partition per room,
+ * queried by message key in either direction. Like the document client without
+ * removeUndefinedValues, it refuses items holding undefined.
+ */
+function useTable(): Record<string, any>[] {
+  const items: Record<string, any>[] = [];
+
+  mockSend.mockImplementation(async ({ name, input }) => {
+    const { ':roomId': roomId, ':cursor': cursor } = input.ExpressionAttributeValues || {};
+
+    if (name === 'Put') {
+      if (Object.values(input.Item).includes(undefined)) {
+        throw new Error('Pass options.removeUndefinedValues=true to remove undefined values from map/array/set.');
+      }
+      items.push(input.Item);
+      return {};
+    }
+
+    const matching = items
+      .filter(item => item.roomId === roomId && (cursor === undefined || item.messageKey > cursor))
+      .sort((a, b) => a.messageKey.localeCompare(b.messageKey));
+    const ordered = input.ScanIndexForward === false ? matching.reverse() : matching;
+    return { Items: ordered.slice(0, input.Limit) };
+  });
+
+  return items;
+}
+
+describe('DynamoDB Message History', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSend.mockReset();
+  });
+
+  it('should store requests without a requestId and read them back', async () => {
+    const items = useTable();
+    const history = new DynamoDBMessageHistory();
+    const message = { type: 'userRequest', messageId: 'message-1', requestId: undefined, roomId: 'ABC234', reactionId: 'slower' };
+
+    const historyCursor = await history.append('ABC234', message);
+
+    expect(historyCursor).toMatch(/^\d{13}#message-1$/);
+    expect(items).toEqual([{ roomId: 'ABC234', messageKey: historyCursor, payload: expect.any(String), ttl: expect.any(Number) }]);
+    expect(await history.getHistory('ABC234')).toEqual({
+      messages: [{ type: 'userRequest', messageId: 'message-1', roomId: 'ABC234', reactionId: 'slower', historyCursor }],
+      cursor: historyCursor,
+      hasMore: false,
+    });
+  });
+
+  it('should return the messages after the cursor oldest first', async () => {
+    const items = useTable();
+    items.push(
+      { roomId: 'ABC234', messageKey: '1700000000000#message-1', payload: '{"messageId":"message-1"}' },
+      { roomId: 'ABC234', messageKey: '1700000000001#message-2', payload: '{"messageId":"message-2"}' },
+      { roomId: 'OTHER1', messageKey: '1700000000002#message-3', payload: '{"messageId":"message-3"}' }
+    );
+
+    const page = await new DynamoDBMessageHistory().getHistory('ABC234', '1700000000000#message-1');
+
+    expect(page).toEqual({
+      messages: [{ messageId: 'message-2', historyCursor: '1700000000001#message-2' }],
+      cursor: '1700000000001#message-2',
+      hasMore: false,
+    });
+  });
+
+  it('should wrap storage errors', async () => {
+    mockSend.mockRejectedValue(new Error('ResourceNotFoundException'));
+
+    await expect(new DynamoDBMessageHistory().append('ABC234', { messageId: 'message-1' })).rejects.toThrow('Failed to store message');
+  });
+});
@@ -0,0 +1,138 @@
+const mockSend = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const command = (name: string) => jest.fn((input: unknown) => ({ name, input }));
+  return {
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+    PutCommand: command('Put'),
+    QueryCommand: command('Query'),
+  };
+});
+
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBMessageLog } from '../messaging/dynamodb-message-log';
+
+/**
+ * Just enough of the log table to run the message log against: one partition per room,
+ * queried by stream ID in either direction
+ */
+function useTable(): Record<string, any>[] {
+  const items: Record<string, any>[] = [];
+
+  mockSend.mockImplementation(async ({ name, input }) => {
+    const { ':roomId': roomId, ':cursor': cursor } = input.ExpressionAttributeValues || {};
+
+    if (name === 'Put') {
+      items.push(input.Item);
+      return {};
+    }
+
+    const matching = items
+      .filter(item => item.roomId === roomId && (cursor === undefined || item.streamId > cursor))
+      .sort((a, b) => a.streamId.localeCompare(b.streamId));
+    const ordered = input.ScanIndexForward === false ? matching.reverse() : matching;
+    return { Items: ordered.slice(0, input.Limit) };
+  });
+
+  return items;
+}
+
+describe('DynamoDB Message Log', () => {
+  const config = { retentionSeconds: 3600, replayLimit: 2 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSend.mockReset();
+  });
+
+  it('should append messages with stream IDs that sort in append order', async () => {
+    const items = useTable();
+    const log = new DynamoDBMessageLog(config);
+
+    const first = await log.append('ABC234', { type: 'reactionAlert', messageId: 'message-1' });
+    const second = await log.append('ABC234', { type: 'reactionAlert', messageId: 'message-2', cleared: undefined });
+
+    expect(first).toMatch(/^\d{13}-\d{6}$/);
+    expect(items.map(item => item.streamId).sort()).toEqual([first, second].sort());
+    expect(mockSend.mock.calls[0][0].input).toMatchObject({
+      TableName: 'message-log',
+      Item: { roomId: 'ABC234', streamId: first, payload: JSON.stringify({ type: 'reactionAlert', messageId: 'message-1' }), ttl: expect.any(Number) },
+      ConditionExpression: 'attribute_not_exists(streamId)',
+    });
+  });
+
+  it('should draw a new stream ID when a concurrent append took the same one', async () => {
+    mockSend
+      .mockRejectedValueOnce(new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} }))
+      .mockResolvedValueOnce({});
+
+    await new DynamoDBMessageLog(config).append('ABC234', { type: 'reactionAlert' });
+
+    expect(mockSend).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the current position without a cursor', async () => {
+    useTable();
+    const log = new DynamoDBMessageLog(config);
+    const appended = [
+      await log.append('ABC234', { messageId: 'message-1' }),
+      await log.append('ABC234', { messageId: 'message-2' })
+    ];
+
+    // Appends within the same millisecond are ordered by their random sequence
+    expect(await log.readSince('ABC234')).toEqual({ messages: [], cursor: appended.sort()[1], hasMore: false });
+    expect(await log.readSince('OTHER1')).toEqual({ messages: [], cursor: null, hasMore: false });
+  });
+
+  it('should replay the messages after the cursor in pages', async () => {
+    const items = useTable();
+    const ttl = Math.floor(Date.now() / 1000) + 3600;
+    items.push(
+      { roomId: 'ABC234', streamId: '1700000000000-000001', payload: '{"messageId":"message-1"}', ttl },
+      { roomId: 'ABC234', streamId: '1700000000001-000001', payload: '{"messageId":"message-2"}', ttl },
+      { roomId: 'ABC234', streamId: '1700000000002-000001', payload: '{"messageId":"message-3"}', ttl },
+      { roomId: 'ABC234', streamId: '1700000000003-000001', payload: '{"messageId":"message-4"}', ttl }
+    );
+    const log = new DynamoDBMessageLog(config);
+
+    const page = await log.readSince('ABC234', '1700000000000-000001');
+    const rest = await log.readSince('ABC234', page.cursor);
+
+    expect(page).toEqual({
+      messages: [
+        { streamId: '1700000000001-000001', message: { messageId: 'message-2' } },
+        { streamId: '1700000000002-000001', message: { messageId: 'message-3' } }
+      ],
+      cursor: '1700000000002-000001',
+      hasMore: true
+    });
+    expect(rest).toMatchObject({ messages: [{ message: { messageId: 'message-4' } }], hasMore: false });
+  });
+
+  it('should skip messages past their retention that DynamoDB has not deleted yet', async () => {
+    const items = useTable();
+    const now = Math.floor(Date.now() / 1000);
+    items.push(
+      { roomId: 'ABC234', streamId: '1700000000001-000001', payload: '{"messageId":"message-1"}', ttl: now - 60 },
+      { roomId: 'ABC234', streamId: '1700000000002-000001', payload: '{"messageId":"message-2"}', ttl: now - 30 },
+      { roomId: 'ABC234', streamId: '1700000000003-000001', payload: '{"messageId":"message-3"}', ttl: now + 3600 }
+    );
+    const log = new DynamoDBMessageLog(config);
+
+    const expired = await log.readSince('ABC234', '0-0');
+    const rest = await log.readSince('ABC234', expired.cursor);
+
+    expect(expired).toEqual({ messages: [], cursor: '1700000000002-000001', hasMore: true });
+    expect(rest).toEqual({
+      messages: [{ streamId: '1700000000003-000001', message: { messageId: 'message-3' } }],
+      cursor: '1700000000003-000001',
+      hasMore: false
+    });
+  });
+
+  it('should wrap storage errors', async () => {
+    mockSend.mockRejectedValue(new Error('ResourceNotFoundException'));
+
+    await expect(new DynamoDBMessageLog(config).readSince('ABC234', '0-0')).rejects.toThrow('Failed to read message log');
+  });
+});
@@ -0,0 +1,147 @@
+const mockSend = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const command = (name: string) => jest.fn((input: unknown) => ({ name, input }));
+  return {
+    DynamoDBDocumentClient: { from: () => ({ send: mockSend }) },
+    BatchWriteCommand: command('BatchWrite'),
+    DeleteCommand: command('Delete'),
+    PutCommand: command('Put'),
+    QueryCommand: command('Query'),
+  };
+});
+
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBReactionAggregator } from '../aggregation/dynamodb-reaction-aggregator';
+
+const TABLE_NAME = 'reaction-windows';
+
+/**
+ * Just enough of the window table to run the aggregator against: items keyed by
+ * windowKey and connectionId, and the condition that guards the alert item
+ */
+function useTable(): Map<string, Record<string, any>> {
+  const items = new Map<string, Record<string, any>>();
+  const key = (item: Record<string, any>) => `${item.windowKey}|${item.connectionId}`;
+
+  mockSend.mockImplementation(async ({ name, input }) => {
+    switch (name) {
+      case 'Put': {
+        const existing = items.get(key(input.Item));
+        if (input.ConditionExpression && existing && existing.alertedUntil > input.ExpressionAttributeValues[':now']) {
+          throw new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} });
+        }
+        items.set(key(input.Item), input.Item);
+        return {};
+      }
+      case 'Query':
+        return { Items: [...items.values()].filter(item => item.windowKey === input.ExpressionAttributeValues[':windowKey']) };
+      case 'Delete':
+        items.delete(key(input.Key));
+        return {};
+      case 'BatchWrite':
+        input.RequestItems[TABLE_NAME].forEach(({ DeleteRequest }: any) => items.delete(key(DeleteRequest.Key)));
+        return {};
+    }
+  });
+
+  return items;
+}
+
+describe('DynamoDB Reaction Aggregator', () => {
+  const config = { windowSeconds: 60, thresholdCount: 3, thresholdPercent: 0 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSend.mockReset();
+  });
+
+  it('should count each requester once and alert only for the request that crosses the threshold', async () => {
+    useTable();
+    const aggregator = new DynamoDBReactionAggregator(config);
+
+    const results = [];
+    for (const connectionId of ['user-1', 'user-1', 'user-2', 'user-3', 'user-4']) {
+      results.push(await aggregator.recordRequest('ABC234', 'slower', connectionId, 10));
+    }
+
+    expect(results.map(result => result.counter.count)).toEqual([1, 1, 2, 3, 4]);
+    expect(results.map(result => result.alert?.threshold || null)).toEqual([null, null, null, 'count', null]);
+    expect(results[3].alert).toMatchObject({ roomId: 'ABC234', reactionId: 'slower', audienceSize: 10, windowSeconds: 60 });
+    expect(mockSend.mock.calls[0][0].input).toMatchObject({
+      TableName: TABLE_NAME,
+      Item: { windowKey: 'ABC234#slower', connectionId: 'user-1', ttl: expect.any(Number) },
+    });
+  });
+
+  it('should only count requests within the window', async () => {
+    const items = useTable();
+    items.set('ABC234#slower|user-1', { windowKey: 'ABC234#slower', connectionId: 'user-1', requestedAt: Date.now() - 61000 });
+
+    const { counter } = await new DynamoDBReactionAggregator(config).recordRequest('ABC234', 'slower', 'user-2', 10);
+
+    expect(counter).toEqual({ reactionId: 'slower', count: 1, percent: 10 });
+  });
+
+  it('should re-arm the alert once the counter falls back below the threshold', async () => {
+    const items = useTable();
+    const aggregator = new DynamoDBReactionAggregator(config);
+    for (const connectionId of ['user-1', 'user-2', 'user-3']) {
+      await aggregator.recordRequest('ABC234', 'slower', connectionId, 10);
+    }
+    items.delete('ABC234#slower|user-3');
+
+    const [counter] = await aggregator.getCounters('ABC234', ['slower'], 10);
+    const { alert } = await aggregator.recordRequest('ABC234', 'slower', 'user-4', 10);
+
+    expect(counter.count).toBe(2);
+    expect(alert).toMatchObject({ count: 3, threshold: 'count' });
+  });
+
+  it('should only delete alerts that were raised when reading the counters', async () => {
+    useTable();
+    const aggregator = new DynamoDBReactionAggregator(config);
+    await aggregator.recordRequest('ABC234', 'slower', 'user-1', 10);
+    mockSend.mockClear();
+
+    await aggregator.getCounters('ABC234', ['slower', 'louder'], 10);
+
+    expect(mockSend.mock.calls.map(([{ name }]) => name)).toEqual(['Query', 'Query']);
+  });
+
+  it('should return the requesters in request order and reset the window on acknowledge', async () => {
+    const items = useTable();
+    const aggregator = new DynamoDBReactionAggregator(config);
+    const now = Date.now();
+    items.set('ABC234#slower|user-2', { windowKey: 'ABC234#slower', connectionId: 'user-2', requestedAt: now - 1000 });
+    items.set('ABC234#slower|user-1', { windowKey: 'ABC234#slower', connectionId: 'user-1', requestedAt: now - 2000, requestId: 'req-1' });
+    items.set('ABC234#slower|user-0', { windowKey: 'ABC234#slower', connectionId: 'user-0', requestedAt: now - 90000 });
+    items.set('ABC234#slower|#alert', { windowKey: 'ABC234#slower', connectionId: '#alert', alertedUntil: now + 1000 });
+
+    const requesters = await aggregator.acknowledge('ABC234', 'slower');
+
+    expect(requesters).toEqual([{ connectionId: 'user-1', requestId: 'req-1' }, { connectionId: 'user-2', requestId: undefined }]);
+    expect(items.size).toBe(0);
+  });
+
+  it('should retry window items left unprocessed by a throttled batch write', async () => {
+    const items = useTable();
+    const handle = mockSend.getMockImplementation()!;
+    items.set('ABC234#slower|user-1', { windowKey: 'ABC234#slower', connectionId: 'user-1', requestedAt: Date.now() });
+    mockSend.mockImplementationOnce(handle).mockImplementationOnce(async () => ({
+      UnprocessedItems: { [TABLE_NAME]: [{ DeleteRequest: { Key: { windowKey: 'ABC234#slower', connectionId: 'user-1' } } }] },
+    }));
+
+    await new DynamoDBReactionAggregator(config).acknowledge('ABC234', 'slower');
+
+    expect(mockSend.mock.calls.map(([command]) => command.name)).toEqual(['Query', 'BatchWrite', 'BatchWrite']);
+    expect(items.size).toBe(0);
+  });
+
+  it('should wrap storage errors', async () => {
+    mockSend.mockRejectedValue(new Error('ProvisionedThroughputExceededException'));
+
+    await expect(new DynamoDBReactionAggregator(config).recordRequest('ABC234', 'slower', 'user-1', 10))
+      .rejects.toThrow('Failed to record reaction');
+  });
+});
@@ -0,0 +1,64 @@
+import { EmbeddedMetrics } from '../metrics/embedded-metrics';
+
+describe('EmbeddedMetrics', () => {
+  const lines: string[] = [];
+  const metrics = new EmbeddedMetrics({ namespace: 'UserAdminMessaging', environment: 'test', enabled: true, write: line => lines.push(line) });
+  const records = () => lines.map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    lines.length = 0;
+  });
+
+  it('should write one EMF line per combination of dimensions', () => {
+    metrics.setDimensions({ Action: 'sendMessage' });
+    metrics.record('Frames', 1);
+    metrics.record('HandlerDuration', 42, 'Milliseconds');
+    metrics.record('Deliveries', 1, 'Count', { Room: 'ABC234' });
+    metrics.record('Deliveries', 1, 'Count', { Room: 'ABC234' });
+    metrics.flush();
+
+    expect(records()).toEqual([
+      {
+        _aws: {
+          Timestamp: expect.any(Number),
+          CloudWatchMetrics: [{
+            Namespace: 'UserAdminMessaging',
+            Dimensions: [['Environment'], ['Environment', 'Action']],
+            Metrics: [{ Name: 'Frames', Unit: 'Count' }, { Name: 'HandlerDuration', Unit: 'Milliseconds' }],
+          }],
+        },
+        Environment: 'test',
+        Action: 'sendMessage',
+        Frames: 1,
+        HandlerDuration: 42,
+      },
+      expect.objectContaining({
+        _aws: expect.objectContaining({
+          CloudWatchMetrics: [expect.objectContaining({ Dimensions: [['Environment'], ['Environment', 'Action'], ['Environment', 'Room']] })],
+        }),
+        Room: 'ABC234',
+        Deliveries: [1, 1],
+      }),
+    ]);
+  });
+
+  it('should forget the dimensions of the invocation once flushed', () => {
+    metrics.setDimensions({ Action: 'ping' });
+    metrics.flush();
+    metrics.record('AdminsOnline', 3);
+    metrics.flush();
+
+    expect(records()).toHaveLength(1);
+    expect(records()[0].Action).toBeUndefined();
+    expect(records()[0]._aws.CloudWatchMetrics[0].Dimensions).toEqual([['Environment']]);
+  });
+
+  it('should write nothing when disabled', () => {
+    const disabled = new EmbeddedMetrics({ enabled: false, write: line => lines.push(line) });
+
+    disabled.record('Frames', 1);
+    disabled.flush();
+
+    expect(lines).toHaveLength(0);
+  });
+});
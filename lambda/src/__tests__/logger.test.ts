@@ -0,0 +1,66 @@
+import { Logger, addLogContext, setLogContent, setLogLevel, withLogContext } from '../logging/logger';
+import { getTracer } from '../tracing/tracer';
+
+describe('Logger', () => {
+  const logger = new Logger();
+  const lines = () => (console.log as jest.Mock).mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    setLogLevel('info');
+    setLogContent(false);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write JSON lines and drop those below the level', () => {
+    logger.debug('Frame received');
+    logger.info('Handled ping', { durationMs: 3 });
+
+    expect(lines()).toEqual([expect.objectContaining({ level: 'info', message: 'Handled ping', durationMs: 3, time: expect.any(String) })]);
+
+    setLogLevel('debug');
+    logger.debug('Frame received');
+    expect(lines()).toHaveLength(2);
+  });
+
+  it('should redact message content and credentials', () => {
+    logger.info('Frame received', { frame: { action: 'identify', data: { connectionType: 'admin', token: 'secret-token', content: 'Slower please' } } });
+
+    expect(lines()[0].frame.data).toEqual({ connectionType: 'admin', token: '[redacted]', content: '[redacted]' });
+
+    setLogContent(true);
+    logger.info('Frame received', { frame: { data: { token: 'secret-token', content: 'Slower please' } } });
+
+    expect(lines()[1].frame.data).toEqual({ token: '[redacted]', content: 'Slower please' });
+  });
+
+  it('should add the fields of the current context and trace', async () => {
+    await withLogContext({ connectionId: 'conn-1' }, () => getTracer().withSpan('handle sendMessage', {}, async span => {
+      addLogContext({ roomId: 'ABC234', messageId: 'message-1' });
+      logger.info('Message delivery completed');
+
+      expect(lines()[0]).toMatchObject({
+        connectionId: 'conn-1',
+        roomId: 'ABC234',
+        messageId: 'message-1',
+        traceId: span.context.traceId,
+        spanId: span.context.spanId
+      });
+    }));
+
+    logger.info('Outside of the frame');
+    expect(lines()[1].connectionId).toBeUndefined();
+    expect(lines()[1].traceId).toBeUndefined();
+  });
+
+  it('should serialize errors', () => {
+    logger.error('Error processing message', { error: new Error('Table not found') });
+
+    const [line] = (console.error as jest.Mock).mock.calls[0];
+    expect(JSON.parse(line)).toMatchObject({ level: 'error', error: { name: 'Error', message: 'Table not found', stack: expect.any(String) } });
+  });
+});
@@ -1,11 +1,65 @@
+process.env.ADMIN_TOKEN_SECRET = 'test-admin-secret';
+
 const mockGetConnections = jest.fn();
+const mockGetConnectionMetadata = jest.fn();
+const mockStoreConnection = jest.fn();
 const mockUpdateConnectionType = jest.fn();
+const mockUpdateConnectionRoom = jest.fn();
+const mockCreateRoom = jest.fn();
+const mockRoomExists = jest.fn();
 const mockSend = jest.fn();
+const mockConsume = jest.fn(async () => ({ allowed: true, remaining: 10, retryAfterMs: 0 }));
+const mockAppendHistory = jest.fn(async () => '0001700000000000#message-1');
+const mockGetHistory = jest.fn();
+let mockAggregator: InMemoryReactionAggregator;
+let mockMessageLog: InMemoryMessageLog;
 
 jest.mock('../connection', () => ({
   createConnectionManager: () => ({
     getConnections: mockGetConnections,
+    getConnectionMetadata: mockGetConnectionMetadata,
+    storeConnection: mockStoreConnection,
     updateConnectionType: mockUpdateConnectionType,
+    updateConnectionRoom: mockUpdateConnectionRoom,
+  }),
+}));
+
+jest.mock('../rooms', () => ({
+  ...jest.requireActual('../rooms/room-registry'),
+  createRoomRegistry: () => ({
+    createRoom: mockCreateRoom,
+    roomExists: mockRoomExists,
+  }),
+}));
+
+jest.mock('../ratelimit', () => ({
+  ...jest.requireActual('../ratelimit/rate-limiter'),
+  createRateLimiter: () => ({
+    consume: mockConsume,
+  }),
+}));
+
+jest.mock('../history', () => ({
+  createMessageHistory: () => ({
+    append: mockAppendHistory,
+    getHistory: mockGetHistory,
+  }),
+}));
+
+// Delegate to stores recreated for every test, so counters and alerts start afresh
+jest.mock('../aggregation', () => ({
+  createReactionAggregator: () => ({
+    getWindowSeconds: () => mockAggregator.getWindowSeconds(),
+    recordRequest: (...args: Parameters<InMemoryReactionAggregator['recordRequest']>) => mockAggregator.recordRequest(...args),
+    getCounters: (...args: Parameters<InMemoryReactionAggregator['getCounters']>) => mockAggregator.getCounters(...args),
+    acknowledge: (...args: Parameters<InMemoryReactionAggregator['acknowledge']>) => mockAggregator.acknowledge(...args),
+  }),
+}));
+
+jest.mock('../messaging/message-log-factory', () => ({
+  createMessageLog: () => ({
+    append: (...args: Parameters<InMemoryMessageLog['append']>) => mockMessageLog.append(...args),
+    readSince: (...args: Parameters<InMemoryMessageLog['readSince']>) => mockMessageLog.readSince(...args),
   }),
 }));
 
@@ -16,11 +70,28 @@ jest.mock('@aws-sdk/client-apigatewaymanagementapi', () => ({
   PostToConnectionCommand: jest.fn(),
 }));
 
+import { PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
 import { handler } from '../message-handler';
+import { AdminAuthenticator } from '../auth/admin-authenticator';
+import { getMetrics } from '../metrics/embedded-metrics';
+import { InMemoryReactionAggregator } from '../aggregation/in-memory-reaction-aggregator';
+import { InMemoryMessageLog } from '../messaging/in-memory-message-log';
+
+function framesTo(connectionId: string): any[] {
+  return (PostToConnectionCommand as unknown as jest.Mock).mock.calls
+    .filter(([input]) => input.ConnectionId === connectionId)
+    .map(([input]) => JSON.parse(input.Data));
+}
+
+function frameTo(connectionId: string, type: string): any {
+  return framesTo(connectionId).find(frame => frame.type === type);
+}
 
 describe('Message Handler', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockAggregator = new InMemoryReactionAggregator({ windowSeconds: 60, thresholdCount: 5, thresholdPercent: 10 });
+    mockMessageLog = new InMemoryMessageLog({ retentionSeconds: 3600, replayLimit: 100 });
   });
 
   it('should handle sendMessage action', async () => {
@@ -34,10 +105,456 @@ describe('Message Handler', () => {
 
     const result = await handler(event);
 
-    expect(mockGetConnections).toHaveBeenCalledWith('admin');
+    expect(mockGetConnections).toHaveBeenCalledWith('admin', 'lobby');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should include the resolved reaction in alerts to admins', async () => {
+    mockGetConnections.mockResolvedValue(['admin-conn-1']);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(frameTo('admin-conn-1', 'reactionAlert')).toMatchObject({ version: 1, reactionId: 'slower', content: 'Slower please', severity: 'warning' });
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should continue the sender\'s trace in alerts to admins', async () => {
+    mockGetConnections.mockResolvedValue(['admin-conn-1']);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({
+        action: 'sendMessage',
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+        data: { reactionId: 'slower' },
+      }),
+    } as any;
+
+    await handler(event);
+
+    const { traceparent } = frameTo('admin-conn-1', 'reactionAlert');
+    expect(traceparent).toMatch(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/);
+    expect(traceparent).not.toContain('00f067aa0ba902b7');
+  });
+
+  it('should stamp alerts to admins with the send and API Gateway receive times', async () => {
+    mockGetConnections.mockResolvedValue(['admin-conn-1']);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1', requestTimeEpoch: 1700000000250 },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower', sentAt: 1700000000000 } }),
+    } as any;
+
+    await handler(event);
+
+    expect(frameTo('admin-conn-1', 'reactionAlert')).toMatchObject({ sentAt: 1700000000000, receivedAt: 1700000000250 });
+  });
+
+  it('should accept latency reports from admins without rate limiting them', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'admin-conn-1', connectionType: 'admin' });
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'admin-conn-1' },
+      body: JSON.stringify({
+        action: 'reportLatency',
+        data: { messageId: 'message-1', sentAt: 1700000000000, receivedAt: 1700000000250, renderedAt: 1700000000400 },
+      }),
+    } as any;
+
+    const result = await handler(event);
+
+    // Without a latency tracker the report is only logged, so nothing is sent back
+    expect(PostToConnectionCommand).not.toHaveBeenCalled();
+    expect(mockConsume).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should record deliveries, failures and gone connections as metrics of the action', async () => {
+    const record = jest.spyOn(getMetrics(), 'record');
+    const setDimensions = jest.spyOn(getMetrics(), 'setDimensions');
+    mockGetConnections.mockResolvedValue(['admin-conn-1', 'admin-conn-2', 'admin-conn-3']);
+    mockSend.mockImplementation(async (command: unknown) => {
+      const commands = (PostToConnectionCommand as unknown as jest.Mock).mock;
+      const { ConnectionId } = commands.calls[commands.instances.indexOf(command)][0];
+      if (ConnectionId === 'admin-conn-2') throw Object.assign(new Error('Gone'), { statusCode: 410 });
+      if (ConnectionId === 'admin-conn-3') throw new Error('Throttled');
+      return {};
+    });
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower' } }),
+    } as any;
+
+    await handler(event);
+
+    expect(setDimensions).toHaveBeenCalledWith({ Action: 'sendMessage' });
+    expect(record).toHaveBeenCalledWith('RequestsDelivered', 1, 'Count', { Room: 'lobby' });
+    expect(record).toHaveBeenCalledWith('StaleConnections', 1, 'Count', { Room: 'lobby' });
+    expect(record).toHaveBeenCalledWith('DeliveryFailures', 1, 'Count', { Room: 'lobby' });
+    expect(record).toHaveBeenCalledWith('Frames', 1);
+    expect(record).not.toHaveBeenCalledWith('HandlerErrors', 1);
+
+    record.mockRestore();
+    setDimensions.mockRestore();
+    mockSend.mockReset();
+  });
+
+  it('should broadcast to every admin with the default routing policy', async () => {
+    mockGetConnections.mockResolvedValue(['admin-conn-1', 'admin-conn-2']);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower' } }),
+    } as any;
+
+    await handler(event);
+
+    expect(frameTo('admin-conn-1', 'reactionAlert')).toMatchObject({ reactionId: 'slower' });
+    expect(frameTo('admin-conn-2', 'reactionAlert')).toMatchObject({ reactionId: 'slower' });
+  });
+
+  it('should record requests in the history even without admins', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'user-conn-1', connectionType: 'user', roomId: 'ABC234' });
+    mockGetConnections.mockResolvedValue([]);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-1' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockAppendHistory).toHaveBeenCalledWith('ABC234', expect.objectContaining({ reactionId: 'slower', requestId: 'req-1' }));
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should send the history of the admin room', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'admin-conn-1', connectionType: 'admin', roomId: 'ABC234' });
+    mockGetHistory.mockResolvedValue({ messages: [{ messageId: 'message-1' }], cursor: 'cursor-1', hasMore: false });
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'admin-conn-1' },
+      body: JSON.stringify({ action: 'getHistory', data: { cursor: 'cursor-0' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockGetHistory).toHaveBeenCalledWith('ABC234', 'cursor-0');
+    const [sentInput] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(JSON.parse(sentInput.Data)).toMatchObject({ type: 'history', cursor: 'cursor-1', messages: [{ messageId: 'message-1' }] });
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should replay the alerts an admin missed with catchUp', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'user-conn-1', connectionType: 'user', roomId: 'ABC234' });
+    mockGetConnections.mockResolvedValue([]);
+    mockSend.mockResolvedValue({});
+    const cursor = (await mockMessageLog.readSince('ABC234')).cursor;
+
+    await handler({
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower' } }),
+    } as any);
+    mockGetConnections.mockResolvedValue(['user-conn-1']);
+    await handler({
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'louder' } }),
+    } as any);
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'admin-conn-1', connectionType: 'admin', roomId: 'ABC234' });
+
+    const result = await handler({
+      requestContext: { connectionId: 'admin-conn-1' },
+      body: JSON.stringify({ action: 'catchUp', data: { cursor: cursor || '0-0' } }),
+    } as any);
+
+    expect(frameTo('admin-conn-1', 'catchUp')).toMatchObject({
+      roomId: 'ABC234',
+      messages: [expect.objectContaining({ type: 'reactionAlert', reactionId: 'louder', streamId: expect.any(String) })],
+      hasMore: false,
+    });
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should reject getHistory from user connections', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'user-conn-1', connectionType: 'user' });
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'getHistory', data: {} }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockGetHistory).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('should send reaction alerts in the envelope of the standalone server', async () => {
+    mockGetConnections.mockResolvedValue(['admin-conn-1']);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-1' } }),
+    } as any;
+
+    await handler(event);
+
+    expect(frameTo('admin-conn-1', 'reactionAlert')).toMatchObject({
+      messageId: expect.any(String),
+      streamId: expect.stringMatching(/^\d+-\d+$/),
+      roomId: 'lobby',
+      reactionId: 'slower',
+      count: 1,
+      audienceSize: 1,
+      threshold: 'percent',
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('should identify connections', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'test-conn-1', connectionType: 'user' });
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'test-conn-1' },
+      body: JSON.stringify({ action: 'identify', data: { connectionType: 'user' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    const [input] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(JSON.parse(input.Data)).toMatchObject({ type: 'identified', connectionType: 'user' });
+    expect(mockUpdateConnectionType).toHaveBeenCalledWith('test-conn-1', 'user', undefined);
     expect(result.statusCode).toBe(200);
   });
 
+  it('should answer pings with a pong', async () => {
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'test-conn-1' },
+      body: JSON.stringify({ action: 'ping', data: {} }),
+    } as any;
+
+    const result = await handler(event);
+
+    const [input] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(JSON.parse(input.Data)).toMatchObject({ type: 'pong' });
+    expect(mockConsume).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should answer actions without a handler on the $default route with UNKNOWN_ACTION', async () => {
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'admin-conn-1', routeKey: '$default' },
+      body: JSON.stringify({ action: 'startPoll', data: {} }),
+    } as any;
+
+    const result = await handler(event);
+
+    const [input] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(JSON.parse(input.Data)).toMatchObject({ type: 'error', code: 'UNKNOWN_ACTION', action: 'startPoll' });
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should send accepted and delivered receipts to the sender', async () => {
+    mockGetConnections.mockResolvedValue(['admin-conn-1']);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'louder', requestId: 'req-1' } }),
+    } as any;
+
+    await handler(event);
+
+    const receipts = (PostToConnectionCommand as unknown as jest.Mock).mock.calls
+      .filter(([input]) => input.ConnectionId === 'user-conn-1')
+      .map(([input]) => JSON.parse(input.Data));
+    expect(receipts.map(receipt => receipt.status)).toEqual(['accepted', 'delivered']);
+    expect(receipts[1].requestId).toBe('req-1');
+  });
+
+  it('should report no_admin when no presenter is connected', async () => {
+    mockGetConnections.mockResolvedValue([]);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'louder', requestId: 'req-2' } }),
+    } as any;
+
+    await handler(event);
+
+    const lastReceipt = JSON.parse((PostToConnectionCommand as unknown as jest.Mock).mock.calls.slice(-1)[0][0].Data);
+    expect(lastReceipt).toMatchObject({ type: 'receipt', status: 'no_admin', code: 'NO_ADMIN_AVAILABLE', requestId: 'req-2' });
+  });
+
+  it('should acknowledge every requester of the reaction', async () => {
+    mockGetConnections.mockResolvedValue(['admin-conn-1']);
+    mockSend.mockResolvedValue({});
+
+    await handler({
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'louder', requestId: 'req-1' } }),
+    } as any);
+    (PostToConnectionCommand as unknown as jest.Mock).mockClear();
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'admin-conn-1', connectionType: 'admin' });
+
+    const event = {
+      requestContext: { connectionId: 'admin-conn-1' },
+      body: JSON.stringify({ action: 'acknowledge', data: { reactionId: 'louder' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(framesTo('user-conn-1')).toEqual([expect.objectContaining({ type: 'receipt', status: 'acknowledged', requestId: 'req-1' })]);
+    expect(frameTo('admin-conn-1', 'reactionCounters').counters).toContainEqual(expect.objectContaining({ reactionId: 'louder', count: 0 }));
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should reject acknowledgements from user connections', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'user-conn-2', connectionType: 'user' });
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-2' },
+      body: JSON.stringify({ action: 'acknowledge', data: { connectionId: 'user-conn-1', reactionId: 'louder' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    const [input] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(input.ConnectionId).toBe('user-conn-2');
+    expect(JSON.parse(input.Data)).toMatchObject({ type: 'error', code: 'NOT_AUTHORIZED', action: 'acknowledge' });
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('should reject unknown reactions', async () => {
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'dance' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockGetConnections).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should send the reaction catalog', async () => {
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'getReactions' }),
+    } as any;
+
+    const result = await handler(event);
+
+    const sentFrame = JSON.parse((PostToConnectionCommand as unknown as jest.Mock).mock.calls[0][0].Data);
+    expect(sentFrame.type).toBe('reactionCatalog');
+    expect(sentFrame.reactions.map((reaction: any) => reaction.id)).toContain('speak-german');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should only route sendMessage to admins of the sender room', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'user-conn-1', connectionType: 'user', roomId: 'ABC234' });
+    mockGetConnections.mockResolvedValue(['admin-conn-1']);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { content: 'test message' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockGetConnections).toHaveBeenCalledWith('admin', 'ABC234');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should create a room for admin connections', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'admin-conn-1', connectionType: 'admin' });
+    mockCreateRoom.mockResolvedValue({ roomId: 'XYZ789', createdAt: Date.now() });
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'admin-conn-1' },
+      body: JSON.stringify({ action: 'createRoom', data: {} }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockUpdateConnectionRoom).toHaveBeenCalledWith('admin-conn-1', 'XYZ789');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should reject createRoom from user connections', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'user-conn-1', connectionType: 'user' });
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'createRoom', data: {} }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockCreateRoom).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('should return 404 when joining an unknown room', async () => {
+    mockRoomExists.mockResolvedValue(false);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'joinRoom', data: { roomId: 'nope42' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockRoomExists).toHaveBeenCalledWith('NOPE42');
+    expect(mockUpdateConnectionRoom).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should throttle connections that exceed the rate limit', async () => {
+    mockConsume.mockResolvedValueOnce({ allowed: false, remaining: 0, retryAfterMs: 1500 });
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1', identity: { sourceIp: '203.0.113.7' } },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower', requestId: 'req-1' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    const [sentInput] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(JSON.parse(sentInput.Data)).toMatchObject({ type: 'rateLimited', requestId: 'req-1', retryAfter: 2, retryAfterMs: 1500 });
+    expect(mockConsume).toHaveBeenCalledWith('ratelimit:connection:user-conn-1', expect.any(Object));
+    expect(mockGetConnections).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(429);
+  });
+
   it('should handle setConnectionType action', async () => {
     const event = {
       requestContext: { connectionId: 'test-conn-1' },
@@ -46,7 +563,52 @@ describe('Message Handler', () => {
 
     const result = await handler(event);
 
-    expect(mockUpdateConnectionType).toHaveBeenCalledWith('test-conn-1', 'user');
+    expect(mockUpdateConnectionType).toHaveBeenCalledWith('test-conn-1', 'user', undefined);
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should reject setConnectionType admin without a valid token', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'test-conn-1', connectionType: 'user' });
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'test-conn-1' },
+      body: JSON.stringify({ action: 'setConnectionType', data: { connectionType: 'admin', token: 'forged.token' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockUpdateConnectionType).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('should allow setConnectionType admin with a valid token', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'test-conn-1', connectionType: 'user' });
+    const token = new AdminAuthenticator('test-admin-secret').issueToken();
+
+    const event = {
+      requestContext: { connectionId: 'test-conn-1' },
+      body: JSON.stringify({ action: 'setConnectionType', data: { connectionType: 'admin', token } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockUpdateConnectionType).toHaveBeenCalledWith('test-conn-1', 'admin', 'presenter');
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('should store the admin role claimed by the token', async () => {
+    mockGetConnectionMetadata.mockResolvedValue({ connectionId: 'test-conn-1', connectionType: 'user' });
+    const token = new AdminAuthenticator('test-admin-secret').issueToken(3600, 'moderator');
+
+    const event = {
+      requestContext: { connectionId: 'test-conn-1' },
+      body: JSON.stringify({ action: 'setConnectionType', data: { connectionType: 'admin', token } }),
+    } as any;
+
+    const result = await handler(event);
+
+    expect(mockUpdateConnectionType).toHaveBeenCalledWith('test-conn-1', 'admin', 'moderator');
     expect(result.statusCode).toBe(200);
   });
 
@@ -60,4 +622,54 @@ describe('Message Handler', () => {
 
     expect(result.statusCode).toBe(400);
   });
+
+  it('should answer an unknown room from the connect URL before the first frame', async () => {
+    mockGetConnectionMetadata.mockResolvedValueOnce({ connectionId: 'user-conn-1', connectionType: 'user', roomId: 'lobby', pendingRoomId: 'ZZZZZZ' });
+    mockRoomExists.mockResolvedValue(false);
+    mockSend.mockResolvedValue({});
+
+    await handler({
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'ping', data: {} }),
+    } as any);
+
+    expect(mockStoreConnection).toHaveBeenCalledWith('user-conn-1', 'user', { connectionId: 'user-conn-1', connectionType: 'user', roomId: 'lobby' });
+    expect(framesTo('user-conn-1').map(frame => frame.type)).toEqual(['error', 'pong']);
+    expect(framesTo('user-conn-1')[0]).toMatchObject({ code: 'NOT_FOUND', action: 'joinRoom' });
+  });
+
+  it('should report storage failures with the request ID as correlation ID', async () => {
+    // Both the handler and, after its read failed, the engine read the session
+    const timeout = new Error('Failed to get connection metadata: timeout');
+    mockGetConnectionMetadata.mockRejectedValueOnce(timeout).mockRejectedValueOnce(timeout);
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1', requestId: 'api-request-1' },
+      body: JSON.stringify({ action: 'sendMessage', data: { reactionId: 'slower' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    const [input] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(JSON.parse(input.Data)).toMatchObject({ type: 'error', code: 'STORAGE_UNAVAILABLE', correlationId: 'api-request-1' });
+    expect(JSON.parse(result.body)).toEqual({ code: 'STORAGE_UNAVAILABLE', message: expect.any(String), correlationId: 'api-request-1' });
+    expect(result.statusCode).toBe(503);
+  });
+
+  it('should reject frames from a newer protocol version with an error frame', async () => {
+    mockSend.mockResolvedValue({});
+
+    const event = {
+      requestContext: { connectionId: 'user-conn-1' },
+      body: JSON.stringify({ action: 'sendMessage', version: 99, data: { reactionId: 'slower' } }),
+    } as any;
+
+    const result = await handler(event);
+
+    const [input] = (PostToConnectionCommand as unknown as jest.Mock).mock.calls[0];
+    expect(JSON.parse(input.Data)).toMatchObject({ type: 'error', version: 1, code: 'UNSUPPORTED_VERSION' });
+    expect(mockConsume).not.toHaveBeenCalled();
+    expect(result.statusCode).toBe(400);
+  });
 });
\ No newline at end of file
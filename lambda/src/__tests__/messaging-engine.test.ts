@@ -0,0 +1,223 @@
+import { ConnectionSession, MessagingEngine, MessagingEngineOptions } from '../messaging/messaging-engine';
+import { ReactionCatalog } from '../reactions/reaction-catalog';
+import { BroadcastRoutingPolicy } from '../routing/routing-policy';
+import { AdminAuthenticator } from '../auth/admin-authenticator';
+import { ServerFrame } from '../protocol';
+
+const authenticator = new AdminAuthenticator('test-admin-secret');
+
+function createEngine(overrides: Partial<MessagingEngineOptions> = {}) {
+  const sent: Array<{ connectionId: string; frame: ServerFrame }> = [];
+  const connectionManager = {
+    storeConnection: jest.fn(),
+    removeConnection: jest.fn(),
+    getConnections: jest.fn(async (connectionType: string) => connectionType === 'admin' ? ['admin-1'] : ['user-1', 'user-2']),
+    getConnectionMetadata: jest.fn(async () => null),
+    updateConnectionType: jest.fn(),
+    updateConnectionRoom: jest.fn(),
+    connectionExists: jest.fn(),
+  };
+
+  const engine = new MessagingEngine({
+    connectionManager,
+    roomRegistry: {
+      createRoom: jest.fn(),
+      getRoom: jest.fn(),
+      roomExists: jest.fn(async () => true),
+      nextRoundRobinCounter: jest.fn(),
+    },
+    reactionCatalog: new ReactionCatalog(),
+    routingPolicy: new BroadcastRoutingPolicy(),
+    rateLimiter: { consume: jest.fn(async () => ({ allowed: true, remaining: 10, retryAfterMs: 0 })) },
+    rateLimitConfig: { connection: { capacity: 10, refillPerSecond: 1 }, ip: { capacity: 0, refillPerSecond: 0 } },
+    transport: {
+      send: async (connectionId, frame) => {
+        sent.push({ connectionId, frame });
+        return true;
+      },
+    },
+    getAdminAuthenticator: async () => authenticator,
+    ...overrides,
+  });
+
+  return { engine, sent, connectionManager };
+}
+
+function session(overrides: Partial<ConnectionSession> = {}): ConnectionSession {
+  return { connectionId: 'user-1', connectionType: 'user', roomId: 'ABC234', ...overrides };
+}
+
+function frame(action: string, data: Record<string, unknown> = {}): string {
+  return JSON.stringify({ action, version: 1, data });
+}
+
+describe('Messaging Engine', () => {
+  it('should aggregate requests into counters for every admin and route alerts', async () => {
+    const reactionAggregator = {
+      getWindowSeconds: () => 60,
+      recordRequest: jest.fn(async () => ({
+        alert: { roomId: 'ABC234', reactionId: 'slower', count: 5, percent: 50, audienceSize: 2, threshold: 'count' as const, windowSeconds: 60 },
+      })),
+      getCounters: jest.fn(async () => [{ reactionId: 'slower', count: 5, percent: 50 }]),
+      acknowledge: jest.fn(),
+    };
+    const messageLog = { append: jest.fn(async () => '1700000000000-0'), readSince: jest.fn() };
+    const { engine, sent } = createEngine({ reactionAggregator, messageLog });
+
+    const outcome = await engine.handleFrame('user-1', frame('sendMessage', { reactionId: 'slower', requestId: 'req-1' }), {
+      correlationId: 'corr-1',
+      session: session(),
+    });
+
+    expect(outcome).toEqual({ ok: true, action: 'sendMessage' });
+    expect(reactionAggregator.recordRequest).toHaveBeenCalledWith('ABC234', 'slower', 'user-1', 2, 'req-1');
+    expect(sent.filter(entry => entry.connectionId === 'admin-1').map(entry => entry.frame.type)).toEqual(['reactionCounters', 'reactionAlert']);
+    expect(sent.find(entry => entry.frame.type === 'reactionAlert')?.frame).toMatchObject({ streamId: '1700000000000-0', content: 'Slower please' });
+    expect(sent.filter(entry => entry.connectionId === 'user-1').map(entry => entry.frame)).toMatchObject([
+      { type: 'receipt', status: 'accepted' },
+      { type: 'receipt', status: 'delivered', requestId: 'req-1' },
+    ]);
+  });
+
+  it('should acknowledge every requester of an aggregated reaction', async () => {
+    const reactionAggregator = {
+      getWindowSeconds: () => 60,
+      recordRequest: jest.fn(),
+      getCounters: jest.fn(async () => []),
+      acknowledge: jest.fn(async () => [{ connectionId: 'user-1', requestId: 'req-1' }, { connectionId: 'user-2' }]),
+    };
+    const { engine, sent } = createEngine({ reactionAggregator });
+
+    await engine.handleFrame('admin-1', frame('acknowledge', { reactionId: 'slower' }), {
+      correlationId: 'corr-1',
+      session: session({ connectionId: 'admin-1', connectionType: 'admin' }),
+    });
+
+    expect(sent.filter(entry => entry.frame.type === 'receipt').map(entry => entry.connectionId)).toEqual(['user-1', 'user-2']);
+    expect(sent.find(entry => entry.frame.type === 'reactionAcknowledged')?.frame).toMatchObject({ requesterCount: 2, acknowledgedBy: 'admin-1' });
+  });
+
+  it('should identify connections and update the session', async () => {
+    const { engine, sent, connectionManager } = createEngine();
+    const adminSession = session();
+
+    await engine.handleFrame('user-1', frame('identify', { connectionType: 'admin', token: authenticator.issueToken(3600, 'moderator') }), {
+      correlationId: 'corr-1',
+      session: adminSession,
+    });
+
+    expect(connectionManager.updateConnectionType).toHaveBeenCalledWith('user-1', 'admin', 'moderator');
+    expect(adminSession).toMatchObject({ connectionType: 'admin', adminRole: 'moderator' });
+    expect(sent[0].frame).toMatchObject({ type: 'identified', connectionType: 'admin' });
+  });
+
+  it('should read the session from the connection manager when the transport holds none', async () => {
+    const { engine, connectionManager } = createEngine();
+
+    await engine.handleFrame('user-1', frame('sendMessage', { reactionId: 'slower' }), { correlationId: 'corr-1' });
+
+    expect(connectionManager.getConnectionMetadata).toHaveBeenCalledWith('user-1');
+    expect(connectionManager.getConnections).toHaveBeenCalledWith('admin', 'lobby');
+  });
+
+  it('should answer unknown actions with a structured error', async () => {
+    const { engine, sent } = createEngine();
+
+    const outcome = await engine.handleFrame('admin-1', frame('catchUp'), {
+      correlationId: 'corr-1',
+      session: session({ connectionId: 'admin-1', connectionType: 'admin' }),
+    });
+
+    expect(outcome).toMatchObject({ ok: false, code: 'UNKNOWN_ACTION', action: 'catchUp' });
+    expect(sent[0].frame).toMatchObject({ type: 'error', code: 'UNKNOWN_ACTION', action: 'catchUp', correlationId: 'corr-1' });
+  });
+
+  it('should run custom actions through validation, the role check and middleware', async () => {
+    const { engine, sent } = createEngine();
+    const handle = jest.fn(async (pollFrame: { action: string }) => ({ ok: true as const, action: pollFrame.action }));
+    const seen: string[] = [];
+
+    engine.actions.register('startPoll', {
+      schema: { question: { type: 'string', required: true } },
+      role: 'admin',
+      handle,
+    });
+    engine.use(async (request, next) => {
+      seen.push(request.frame.action);
+      return next();
+    });
+
+    const admin = session({ connectionId: 'admin-1', connectionType: 'admin' });
+    const invalid = await engine.handleFrame('admin-1', frame('startPoll', {}), { correlationId: 'corr-1', session: admin });
+    const rejected = await engine.handleFrame('user-1', frame('startPoll', { question: 'Tea?' }), { correlationId: 'corr-2', session: session() });
+    const accepted = await engine.handleFrame('admin-1', frame('startPoll', { question: 'Tea?' }), { correlationId: 'corr-3', session: admin });
+
+    expect(invalid).toMatchObject({ ok: false, code: 'INVALID_PAYLOAD' });
+    expect(rejected).toMatchObject({ ok: false, code: 'NOT_AUTHORIZED' });
+    expect(accepted).toEqual({ ok: true, action: 'startPoll' });
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(handle.mock.calls[0][0]).toMatchObject({ data: { question: 'Tea?' } });
+    expect(seen).toEqual(['startPoll', 'startPoll']);
+    expect(sent.map(entry => entry.frame.type)).toEqual(['error', 'error']);
+  });
+
+  it('should not let plugins replace registered actions', () => {
+    const { engine } = createEngine();
+
+    expect(() => engine.actions.register('sendMessage', { schema: {}, handle: jest.fn() })).toThrow('Action already registered: sendMessage');
+  });
+
+  it('should reject admin actions from users before their handler runs', async () => {
+    const { engine, sent, connectionManager } = createEngine();
+
+    const outcome = await engine.handleFrame('user-1', frame('createRoom'), { correlationId: 'corr-1', session: session() });
+
+    expect(outcome).toMatchObject({ ok: false, code: 'NOT_AUTHORIZED', action: 'createRoom' });
+    expect(connectionManager.updateConnectionRoom).not.toHaveBeenCalled();
+    expect(sent[0].frame).toMatchObject({ type: 'error', code: 'NOT_AUTHORIZED' });
+  });
+
+  it('should answer pings without a rate limit check or session lookup', async () => {
+    const rateLimiter = { consume: jest.fn() };
+    const { engine, sent, connectionManager } = createEngine({ rateLimiter });
+
+    await engine.handleFrame('user-1', frame('ping'), { correlationId: 'corr-1' });
+
+    expect(sent[0].frame.type).toBe('pong');
+    expect(rateLimiter.consume).not.toHaveBeenCalled();
+    expect(connectionManager.getConnectionMetadata).not.toHaveBeenCalled();
+  });
+
+  it('should record reported latencies and send the room percentiles back', async () => {
+    const latencyTracker = {
+      record: jest.fn(),
+      getStats: jest.fn(() => ({ windowSeconds: 300, count: 1, p50Ms: 400, p95Ms: 400, p99Ms: 400, targetMs: 2000 })),
+    };
+    const { engine, sent } = createEngine({ latencyTracker });
+    const admin = session({ connectionId: 'admin-1', connectionType: 'admin' });
+
+    await engine.handleFrame('admin-1', frame('reportLatency', { messageId: 'message-1', sentAt: 1700000000000, renderedAt: 1700000000400 }), {
+      correlationId: 'corr-1',
+      session: admin,
+    });
+    // Rendered before it was sent: the clocks of the two devices disagree
+    await engine.handleFrame('admin-1', frame('reportLatency', { messageId: 'message-2', sentAt: 1700000000000, renderedAt: 1699999999000 }), {
+      correlationId: 'corr-2',
+      session: admin,
+    });
+
+    expect(latencyTracker.record).toHaveBeenCalledTimes(1);
+    expect(latencyTracker.record).toHaveBeenCalledWith('ABC234', 400);
+    expect(sent.map(entry => entry.frame)).toMatchObject([{ type: 'latencyStats', roomId: 'ABC234', p95Ms: 400, targetMs: 2000 }]);
+  });
+
+  it('should report failures of the stores as STORAGE_UNAVAILABLE', async () => {
+    const { engine, sent, connectionManager } = createEngine();
+    connectionManager.updateConnectionRoom.mockRejectedValueOnce(new Error('timeout'));
+
+    const outcome = await engine.joinRoom(session(), 'xyz789', 'corr-1');
+
+    expect(outcome).toMatchObject({ ok: false, code: 'STORAGE_UNAVAILABLE', action: 'joinRoom' });
+    expect(sent[0].frame).toMatchObject({ type: 'error', code: 'STORAGE_UNAVAILABLE', correlationId: 'corr-1' });
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  PROTOCOL_VERSION,
+  buildClientFrame,
+  buildErrorFrame,
+  buildServerFrame,
+  formatTraceparent,
+  parseClientEnvelope,
+  parseClientFrame,
+  parseServerFrame,
+  parseTraceparent,
+} from '../protocol';
+
+describe('Protocol', () => {
+  it('should accept the frames it builds', () => {
+    const frame = buildClientFrame('sendMessage', { reactionId: 'slower', requestId: 'req-1' });
+
+    expect(parseClientFrame(JSON.stringify(frame))).toEqual({ ok: true, frame });
+    expect(frame.version).toBe(PROTOCOL_VERSION);
+  });
+
+  it('should move top-level fields of unversioned frames into data', () => {
+    const result = parseClientFrame({ action: 'joinRoom', roomId: 'ABC234' });
+
+    expect(result).toEqual({ ok: true, frame: { action: 'joinRoom', version: 1, data: { roomId: 'ABC234' } } });
+  });
+
+  it('should read the legacy identify type as the connection type', () => {
+    const result = parseClientFrame({ action: 'identify', type: 'admin', token: 'abc' });
+
+    expect(result).toEqual({ ok: true, frame: { action: 'identify', version: 1, data: { connectionType: 'admin', token: 'abc' } } });
+  });
+
+  it('should drop fields the action does not define', () => {
+    const result = parseClientFrame({ action: 'ping', data: { reactionId: 'slower' } });
+
+    expect(result).toEqual({ ok: true, frame: { action: 'ping', version: 1, data: {} } });
+  });
+
+  it.each([
+    ['not json', 'Frame is not valid JSON'],
+    ['[]', 'Frame must be a JSON object'],
+    ['{"data":{}}', 'Missing field: action'],
+    ['{"action":"joinRoom","data":{}}', 'Missing field: roomId'],
+    ['{"action":"setConnectionType","data":{"connectionType":"root"}}', 'Invalid field: connectionType'],
+    ['{"action":"sendMessage","data":{"reactionId":42}}', 'Invalid field: reactionId'],
+    ['{"action":"ping","version":0}', 'Invalid protocol version'],
+  ])('should reject %s', (input, error) => {
+    expect(parseClientFrame(input)).toEqual({ ok: false, code: 'INVALID_PAYLOAD', error });
+  });
+
+  it.each(['dance', 'toString'])('should reject the unknown action %s with its own code', action => {
+    expect(parseClientFrame({ action })).toEqual({ ok: false, code: 'UNKNOWN_ACTION', error: `Unknown action: ${action}` });
+  });
+
+  it('should keep the data of actions it does not define in envelopes', () => {
+    const result = parseClientEnvelope({ action: 'poll', data: { question: 'Tea or coffee?' } });
+
+    expect(result).toEqual({ ok: true, frame: { action: 'poll', version: 1, data: { question: 'Tea or coffee?' } } });
+  });
+
+  it('should reject frames from a newer protocol version', () => {
+    const result = parseClientFrame({ action: 'ping', version: PROTOCOL_VERSION + 1, data: {} });
+
+    expect(result).toMatchObject({ ok: false, code: 'UNSUPPORTED_VERSION' });
+  });
+
+  it('should build error frames with a code and correlation ID', () => {
+    const frame = buildErrorFrame('NOT_FOUND', 'Room not found: ZZZZZZ', 'corr-1', { action: 'joinRoom' });
+
+    expect(frame).toMatchObject({ type: 'error', version: PROTOCOL_VERSION, code: 'NOT_FOUND', correlationId: 'corr-1', action: 'joinRoom' });
+    expect(parseServerFrame(frame).ok).toBe(true);
+  });
+
+  it('should validate server frames by type', () => {
+    const frame = buildServerFrame('receipt', { status: 'accepted', requestId: 'req-1' });
+
+    expect(parseServerFrame(JSON.stringify(frame))).toEqual({ ok: true, frame });
+    expect(parseServerFrame({ type: 'receipt' })).toEqual({ ok: false, code: 'INVALID_PAYLOAD', error: 'Missing field: status' });
+    expect(parseServerFrame({ type: 'error', error: 'Oops' })).toEqual({ ok: false, code: 'INVALID_PAYLOAD', error: 'Missing field: code' });
+    expect(parseServerFrame({ type: 'teleport' })).toEqual({ ok: false, code: 'INVALID_PAYLOAD', error: 'Unknown frame type: teleport' });
+  });
+
+  it('should keep a valid traceparent and drop an invalid one', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    expect(parseTraceparent(traceparent)).toEqual({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', sampled: true });
+    expect(formatTraceparent(parseTraceparent(traceparent)!)).toBe(traceparent);
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeNull();
+
+    expect(parseClientEnvelope(JSON.stringify({ action: 'ping', traceparent, data: {} }))).toMatchObject({ ok: true, frame: { traceparent } });
+    const invalid = parseClientEnvelope(JSON.stringify({ action: 'ping', traceparent: 'not-a-trace', data: {} }));
+    expect(invalid.ok && invalid.frame.traceparent).toBeUndefined();
+  });
+});
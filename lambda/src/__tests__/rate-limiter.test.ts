@@ -0,0 +1,47 @@
+import { RateLimiter, checkRateLimits, takeToken } from '../ratelimit/rate-limiter';
+
+const bucket = { capacity: 2, refillPerSecond: 1 };
+const config = { connection: bucket, ip: { capacity: 5, refillPerSecond: 5 } };
+
+describe('Rate Limiter', () => {
+  it('should start with a full bucket', () => {
+    const { state, result } = takeToken(null, bucket, 1000);
+
+    expect(result).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(state).toEqual({ tokens: 1, updatedAt: 1000 });
+  });
+
+  it('should throttle an empty bucket with the time until the next token', () => {
+    const { result } = takeToken({ tokens: 0.25, updatedAt: 1000 }, bucket, 1000);
+
+    expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 750 });
+  });
+
+  it('should refill for the elapsed time up to the capacity', () => {
+    expect(takeToken({ tokens: 0, updatedAt: 1000 }, bucket, 2000).result.allowed).toBe(true);
+    expect(takeToken({ tokens: 0, updatedAt: 1000 }, bucket, 60000).state.tokens).toBe(1);
+  });
+
+  it('should check the client IP bucket after the connection bucket', async () => {
+    const limiter: RateLimiter = {
+      consume: jest.fn()
+        .mockResolvedValueOnce({ allowed: true, remaining: 1, retryAfterMs: 0 })
+        .mockResolvedValueOnce({ allowed: false, remaining: 0, retryAfterMs: 200 }),
+    };
+
+    const result = await checkRateLimits(limiter, config, 'conn-1', '203.0.113.7');
+
+    expect(limiter.consume).toHaveBeenNthCalledWith(1, 'ratelimit:connection:conn-1', config.connection);
+    expect(limiter.consume).toHaveBeenNthCalledWith(2, 'ratelimit:ip:203.0.113.7', config.ip);
+    expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 200 });
+  });
+
+  it('should let frames through when the limiter store fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const limiter: RateLimiter = { consume: jest.fn().mockRejectedValue(new Error('unavailable')) };
+
+    const result = await checkRateLimits(limiter, config, 'conn-1');
+
+    expect(result.allowed).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  AdminTarget,
+  BroadcastRoutingPolicy,
+  RoleBasedRoutingPolicy,
+  RoundRobinRoutingPolicy,
+  StickyRoutingPolicy,
+  createRoutingPolicy,
+} from '../routing/routing-policy';
+
+const admins: AdminTarget[] = [
+  { connectionId: 'admin-c', adminRole: 'presenter' },
+  { connectionId: 'admin-a', adminRole: 'moderator' },
+  { connectionId: 'admin-b' },
+];
+
+describe('Routing Policies', () => {
+  it('should broadcast to every admin in a single tier', async () => {
+    const plan = await new BroadcastRoutingPolicy().route({ roomId: 'ABC234', senderConnectionId: 'user-1', admins });
+
+    expect(plan).toEqual([['admin-a', 'admin-b', 'admin-c']]);
+  });
+
+  it('should return an empty plan without admins', async () => {
+    const counter = jest.fn();
+    const plan = await new RoundRobinRoutingPolicy(counter).route({ roomId: 'ABC234', senderConnectionId: 'user-1', admins: [] });
+
+    expect(plan).toEqual([]);
+    expect(counter).not.toHaveBeenCalled();
+  });
+
+  it('should rotate round-robin over the admins with the room counter', async () => {
+    const counter = jest.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+    const policy = new RoundRobinRoutingPolicy(counter);
+
+    const first = await policy.route({ roomId: 'ABC234', senderConnectionId: 'user-1', admins });
+    const second = await policy.route({ roomId: 'ABC234', senderConnectionId: 'user-1', admins });
+
+    expect(counter).toHaveBeenCalledWith('ABC234');
+    expect(first).toEqual([['admin-b'], ['admin-c'], ['admin-a']]);
+    expect(second).toEqual([['admin-c'], ['admin-a'], ['admin-b']]);
+  });
+
+  it('should keep routing the same sender to the same admin', async () => {
+    const policy = new StickyRoutingPolicy();
+
+    const first = await policy.route({ roomId: 'ABC234', senderConnectionId: 'user-1', admins });
+    const second = await policy.route({ roomId: 'ABC234', senderConnectionId: 'user-1', admins: [...admins].reverse() });
+
+    expect(first).toHaveLength(3);
+    expect(second).toEqual(first);
+  });
+
+  it('should route to moderators first and fall back to presenters', async () => {
+    const plan = await new RoleBasedRoutingPolicy().route({ roomId: 'ABC234', senderConnectionId: 'user-1', admins });
+
+    expect(plan).toEqual([['admin-a'], ['admin-b', 'admin-c']]);
+  });
+
+  it('should fall back to broadcast for unknown policy names', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(createRoutingPolicy(jest.fn(), 'random').name).toBe('broadcast');
+    expect(createRoutingPolicy(jest.fn(), 'role-based').name).toBe('role-based');
+  });
+});
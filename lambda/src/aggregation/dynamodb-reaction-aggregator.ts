@@ -0,0 +1,254 @@
+/**
+ * DynamoDB Reaction Aggregator
+ * Counts unique requesters per reaction within a sliding window and raises
+ * an alert once per threshold crossing, shared by concurrent Lambda invocations
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchWriteCommand, DeleteCommand, DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  AggregationConfig,
+  AggregationResult,
+  ReactionCounter,
+  Requester,
+  buildCounter,
+  crossedThreshold,
+  loadAggregationConfig
+} from './reaction-aggregator';
+import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { traceDynamoDBClient } from '../tracing/aws-tracing';
+import { logger } from '../logging/logger';
+
+// Sort key of the item marking a raised alert, next to the requesters of the reaction
+const ALERT_ITEM = '#alert';
+
+// BatchWriteItem accepts at most 25 requests per call
+const BATCH_WRITE_LIMIT = 25;
+const BATCH_WRITE_MAX_ATTEMPTS = 5;
+
+interface WindowItem {
+  windowKey: string;
+  connectionId: string;
+  requestedAt?: number;
+  requestId?: string;
+}
+
+export class DynamoDBReactionAggregator {
+  private dynamodb: DynamoDBDocumentClient;
+  private tableName: string;
+  private config: AggregationConfig;
+  private windowSeconds: number;
+
+  constructor(config: AggregationConfig = loadAggregationConfig()) {
+    const client = traceDynamoDBClient(new DynamoDBClient({}));
+    this.dynamodb = DynamoDBDocumentClient.from(client);
+
+    const adapter = ConfigurationAdapterFactory.createAdapter();
+    this.tableName = adapter.getStorageConfig().reactionWindowsTableName || 'reaction-windows';
+    this.config = config;
+    this.windowSeconds = config.windowSeconds;
+  }
+
+  getWindowSeconds(): number {
+    return this.windowSeconds;
+  }
+
+  /**
+   * Record a request and return the updated counter. An alert is returned only
+   * for the request that pushes the counter over a threshold.
+   */
+  async recordRequest(roomId: string, reactionId: string, connectionId: string, audienceSize: number, requestId?: string): Promise<AggregationResult> {
+    const now = Date.now();
+    const windowKey = this.windowKey(roomId, reactionId);
+
+    try {
+      // One item per requester; repeated clicks only refresh it
+      await this.dynamodb.send(new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          windowKey,
+          connectionId,
+          requestedAt: now,
+          ...(requestId ? { requestId } : {}),
+          ttl: this.expiresAt(now),
+        },
+      }));
+
+      const counter = buildCounter(reactionId, (await this.readRequesters(windowKey, now)).length, audienceSize);
+      const threshold = crossedThreshold(counter, this.config);
+
+      if (!threshold || !await this.raiseAlert(windowKey, now)) {
+        return { counter, alert: null };
+      }
+
+      logger.info(`Reaction ${reactionId} crossed ${threshold} threshold in room ${roomId}: ${counter.count} requesters`, { roomId });
+
+      return {
+        counter,
+        alert: {
+          ...counter,
+          roomId,
+          audienceSize,
+          threshold,
+          windowSeconds: this.windowSeconds,
+          timestamp: new Date(now).toISOString()
+        }
+      };
+    } catch (error) {
+      logger.error(`Failed to record reaction ${reactionId} in room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to record reaction: ${error}`);
+    }
+  }
+
+  /**
+   * Current counters of a room. Reactions that fell back below their threshold
+   * are re-armed so the next crossing raises a new alert.
+   */
+  async getCounters(roomId: string, reactionIds: string[], audienceSize: number): Promise<ReactionCounter[]> {
+    const now = Date.now();
+
+    try {
+      const counters: ReactionCounter[] = [];
+
+      for (const reactionId of reactionIds) {
+        const windowKey = this.windowKey(roomId, reactionId);
+        const items = await this.readWindow(windowKey);
+        const counter = buildCounter(reactionId, this.requestersOf(items, now).length, audienceSize);
+
+        // Only an alert that was raised needs re-arming, most reactions never have one
+        if (!crossedThreshold(counter, this.config) && items.some(item => item.connectionId === ALERT_ITEM)) {
+          await this.dynamodb.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: { windowKey, connectionId: ALERT_ITEM },
+          }));
+        }
+
+        counters.push(counter);
+      }
+
+      return counters;
+    } catch (error) {
+      logger.error(`Failed to get reaction counters for room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to get reaction counters: ${error}`);
+    }
+  }
+
+  /**
+   * Acknowledge a reaction: return everyone who requested it within the window
+   * and reset its counter and alert
+   */
+  async acknowledge(roomId: string, reactionId: string): Promise<Requester[]> {
+    const windowKey = this.windowKey(roomId, reactionId);
+
+    try {
+      const items = await this.readWindow(windowKey);
+      const windowStart = Date.now() - this.windowSeconds * 1000;
+      const requesters = items
+        .filter(item => item.requestedAt !== undefined && item.requestedAt > windowStart)
+        .sort((a, b) => a.requestedAt! - b.requestedAt!)
+        .map(item => ({ connectionId: item.connectionId, requestId: item.requestId }));
+
+      // Expired requesters and the alert go too, so the next request starts a fresh window
+      await this.deleteItems(windowKey, items.map(item => item.connectionId));
+
+      return requesters;
+    } catch (error) {
+      logger.error(`Failed to acknowledge reaction ${reactionId} in room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to acknowledge reaction: ${error}`);
+    }
+  }
+
+  /**
+   * Requesters within the window. Expired items linger until TTL deletes them, so they are filtered out.
+   */
+  private async readRequesters(windowKey: string, now: number): Promise<WindowItem[]> {
+    return this.requestersOf(await this.readWindow(windowKey), now);
+  }
+
+  private requestersOf(items: WindowItem[], now: number): WindowItem[] {
+    const windowStart = now - this.windowSeconds * 1000;
+    return items.filter(item => item.requestedAt !== undefined && item.requestedAt > windowStart);
+  }
+
+  private async readWindow(windowKey: string): Promise<WindowItem[]> {
+    const items: WindowItem[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    // Consistent reads see the request just written by this or a concurrent invocation
+    do {
+      const result = await this.dynamodb.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'windowKey = :windowKey',
+        ExpressionAttributeValues: { ':windowKey': windowKey },
+        ConsistentRead: true,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      items.push(...(result.Items || []) as WindowItem[]);
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  /**
+   * Mark the alert of the current crossing as raised. The condition makes sure only
+   * one invocation raises it, and like the Redis alert key it lapses after one window.
+   */
+  private async raiseAlert(windowKey: string, now: number): Promise<boolean> {
+    try {
+      await this.dynamodb.send(new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          windowKey,
+          connectionId: ALERT_ITEM,
+          alertedUntil: now + this.windowSeconds * 1000,
+          ttl: this.expiresAt(now),
+        },
+        ConditionExpression: 'attribute_not_exists(connectionId) OR alertedUntil <= :now',
+        ExpressionAttributeValues: { ':now': now },
+      }));
+
+      return true;
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  private async deleteItems(windowKey: string, connectionIds: string[]): Promise<void> {
+    for (let start = 0; start < connectionIds.length; start += BATCH_WRITE_LIMIT) {
+      let requests = connectionIds.slice(start, start + BATCH_WRITE_LIMIT).map(connectionId => ({
+        DeleteRequest: { Key: { windowKey, connectionId } },
+      }));
+
+      for (let attempt = 1; requests.length > 0; attempt++) {
+        if (attempt > BATCH_WRITE_MAX_ATTEMPTS) {
+          throw new Error(`${requests.length} window items were left unprocessed after ${BATCH_WRITE_MAX_ATTEMPTS} attempts`);
+        }
+
+        if (attempt > 1) {
+          // Unprocessed items mean the table is throttled, back off before retrying them
+          await new Promise(resolve => setTimeout(resolve, 50 * 2 ** attempt));
+        }
+
+        const result = await this.dynamodb.send(new BatchWriteCommand({
+          RequestItems: { [this.tableName]: requests },
+        }));
+
+        requests = (result.UnprocessedItems?.[this.tableName] || []) as typeof requests;
+      }
+    }
+  }
+
+  private expiresAt(now: number): number {
+    return Math.floor(now / 1000) + this.windowSeconds;
+  }
+
+  private windowKey(roomId: string, reactionId: string): string {
+    return `${roomId}#${reactionId}`;
+  }
+}
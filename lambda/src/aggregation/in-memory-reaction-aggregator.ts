@@ -0,0 +1,151 @@
+// Generated from protocol/backend/aggregation/in-memory-reaction-aggregator.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * In-Memory Reaction Aggregator
+ * Counts unique requesters per reaction within a sliding window in the memory
+ * of a single process, for local development and single-node deployments
+ */
+
+import {
+  AggregationConfig,
+  AggregationResult,
+  ReactionCounter,
+  Requester,
+  buildCounter,
+  crossedThreshold,
+  loadAggregationConfig
+} from './reaction-aggregator';
+import { logger } from '../logging/logger';
+
+interface ReactionWindow {
+  /**
+   * Latest request time per requester; repeated clicks only refresh the entry
+   */
+  requestedAt: Map<string, number>;
+  requestIds: Map<string, string>;
+  /**
+   * Epoch ms until which the alert raised for the current crossing holds, 0 when none was raised.
+   * Like the Redis alert key it lapses after one window.
+   */
+  alertedUntil: number;
+}
+
+export class InMemoryReactionAggregator {
+  private windows: Map<string, ReactionWindow> = new Map();
+  private config: AggregationConfig;
+  private windowSeconds: number;
+
+  constructor(config: AggregationConfig = loadAggregationConfig()) {
+    this.config = config;
+    this.windowSeconds = config.windowSeconds;
+  }
+
+  getWindowSeconds(): number {
+    return this.windowSeconds;
+  }
+
+  /**
+   * Record a request and return the updated counter. An alert is returned only
+   * for the request that pushes the counter over a threshold.
+   */
+  async recordRequest(roomId: string, reactionId: string, connectionId: string, audienceSize: number, requestId?: string): Promise<AggregationResult> {
+    const now = Date.now();
+    const window = this.getWindow(roomId, reactionId, now);
+
+    // Re-insert so requesters stay ordered by their latest request
+    window.requestedAt.delete(connectionId);
+    window.requestedAt.set(connectionId, now);
+
+    // Remember the requester's latest request so an acknowledgement can reference it
+    if (requestId) {
+      window.requestIds.set(connectionId, requestId);
+    }
+
+    const counter = buildCounter(reactionId, window.requestedAt.size, audienceSize);
+    const threshold = crossedThreshold(counter, this.config);
+
+    if (!threshold || window.alertedUntil > now) {
+      return { counter, alert: null };
+    }
+
+    window.alertedUntil = now + this.windowSeconds * 1000;
+    logger.info(`Reaction ${reactionId} crossed ${threshold} threshold in room ${roomId}: ${counter.count} requesters`, { roomId });
+
+    return {
+      counter,
+      alert: {
+        ...counter,
+        roomId,
+        audienceSize,
+        threshold,
+        windowSeconds: this.windowSeconds,
+        timestamp: new Date(now).toISOString()
+      }
+    };
+  }
+
+  /**
+   * Current counters of a room. Reactions that fell back below their threshold
+   * are re-armed so the next crossing raises a new alert.
+   */
+  async getCounters(roomId: string, reactionIds: string[], audienceSize: number): Promise<ReactionCounter[]> {
+    const now = Date.now();
+
+    return reactionIds.map(reactionId => {
+      const window = this.getWindow(roomId, reactionId, now);
+      const counter = buildCounter(reactionId, window.requestedAt.size, audienceSize);
+
+      if (!crossedThreshold(counter, this.config)) {
+        window.alertedUntil = 0;
+      }
+
+      if (window.requestedAt.size === 0 && window.alertedUntil <= now) {
+        this.windows.delete(this.windowKey(roomId, reactionId));
+      }
+
+      return counter;
+    });
+  }
+
+  /**
+   * Acknowledge a reaction: return everyone who requested it within the window
+   * and reset its counter and alert
+   */
+  async acknowledge(roomId: string, reactionId: string): Promise<Requester[]> {
+    const window = this.getWindow(roomId, reactionId, Date.now());
+    this.windows.delete(this.windowKey(roomId, reactionId));
+
+    return Array.from(window.requestedAt.keys()).map(connectionId => ({
+      connectionId,
+      requestId: window.requestIds.get(connectionId)
+    }));
+  }
+
+  /**
+   * Get a reaction's window with the requests older than the window dropped
+   */
+  private getWindow(roomId: string, reactionId: string, now: number): ReactionWindow {
+    const key = this.windowKey(roomId, reactionId);
+    let window = this.windows.get(key);
+
+    if (!window) {
+      window = { requestedAt: new Map(), requestIds: new Map(), alertedUntil: 0 };
+      this.windows.set(key, window);
+    }
+
+    const windowStart = now - this.windowSeconds * 1000;
+    for (const [connectionId, requestedAt] of window.requestedAt) {
+      if (requestedAt > windowStart) {
+        break;
+      }
+      window.requestedAt.delete(connectionId);
+      window.requestIds.delete(connectionId);
+    }
+
+    return window;
+  }
+
+  private windowKey(roomId: string, reactionId: string): string {
+    return `${roomId}:${reactionId}`;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Reaction Aggregation Module
+ * Exports all aggregation-related interfaces and implementations
+ */
+
+// Interfaces and thresholds
+export {
+  AggregationConfig,
+  AggregationResult,
+  ReactionAlert,
+  ReactionCounter,
+  Requester,
+  buildCounter,
+  crossedThreshold,
+  loadAggregationConfig
+} from './reaction-aggregator';
+
+// Implementations
+export { DynamoDBReactionAggregator } from './dynamodb-reaction-aggregator';
+export { InMemoryReactionAggregator } from './in-memory-reaction-aggregator';
+export { RedisReactionAggregator } from './redis-reaction-aggregator';
+
+// Factory
+export { ReactionAggregatorFactory } from './reaction-aggregator-factory';
+
+// Convenience function
+import { ReactionAggregatorFactory } from './reaction-aggregator-factory';
+
+export function createReactionAggregator() {
+  return ReactionAggregatorFactory.createReactionAggregator();
+}
@@ -0,0 +1,40 @@
+/**
+ * Reaction Aggregator Factory
+ * Creates the reaction aggregator that matches the connection storage backend
+ */
+
+import { ReactionAggregator } from '../messaging/messaging-engine';
+import { DynamoDBReactionAggregator } from './dynamodb-reaction-aggregator';
+import { RedisReactionAggregator } from './redis-reaction-aggregator';
+import { ConnectionManagerFactory } from '../connection/connection-manager-factory';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+export class ReactionAggregatorFactory {
+  private static instance: ReactionAggregator | null = null;
+
+  /**
+   * Create a reaction aggregator backed by the same store as the connections
+   */
+  public static createReactionAggregator(): ReactionAggregator {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const connectionManager = ConnectionManagerFactory.createConnectionManager();
+
+    if (connectionManager instanceof RedisConnectionManager) {
+      this.instance = new RedisReactionAggregator(connectionManager);
+    } else {
+      this.instance = new DynamoDBReactionAggregator();
+    }
+
+    return this.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    this.instance = null;
+  }
+}
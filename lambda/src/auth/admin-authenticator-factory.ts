@@ -0,0 +1,47 @@
+/**
+ * Admin Authenticator Factory
+ * Loads the admin token secret once per Lambda container
+ */
+
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { AdminAuthenticator } from './admin-authenticator';
+
+export class AdminAuthenticatorFactory {
+  private static instance: Promise<AdminAuthenticator> | null = null;
+
+  /**
+   * Create an authenticator using the secret stored in Secrets Manager
+   * (ADMIN_TOKEN_SECRET_ARN), or ADMIN_TOKEN_SECRET when running outside AWS
+   */
+  public static createAdminAuthenticator(): Promise<AdminAuthenticator> {
+    if (!this.instance) {
+      this.instance = this.loadAdminAuthenticator().catch(error => {
+        // Retry on the next invocation instead of caching the failure
+        this.instance = null;
+        throw error;
+      });
+    }
+
+    return this.instance;
+  }
+
+  private static async loadAdminAuthenticator(): Promise<AdminAuthenticator> {
+    const secretArn = process.env.ADMIN_TOKEN_SECRET_ARN;
+
+    if (!secretArn) {
+      return new AdminAuthenticator();
+    }
+
+    const client = new SecretsManagerClient({});
+    const result = await client.send(new GetSecretValueCommand({ SecretId: secretArn }));
+
+    return new AdminAuthenticator(result.SecretString);
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    this.instance = null;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Auth Module
+ * Exports admin authentication for the Lambda handlers
+ */
+
+export { AdminAuthenticator, AdminTokenClaims, ConnectionRole } from './admin-authenticator';
+export { AdminAuthenticatorFactory } from './admin-authenticator-factory';
+
+// Convenience function
+import { AdminAuthenticatorFactory } from './admin-authenticator-factory';
+
+export function createAdminAuthenticator() {
+  return AdminAuthenticatorFactory.createAdminAuthenticator();
+}
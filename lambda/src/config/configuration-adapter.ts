@@ -23,6 +23,11 @@ export interface StorageConfig {
   type: 'dynamodb' | 'redis';
   connectionString?: string;
   tableName?: string;
+  roomsTableName?: string;
+  rateLimitsTableName?: string;
+  messagesTableName?: string;
+  messageLogTableName?: string;
+  reactionWindowsTableName?: string;
   password?: string;
   ttl: number;
 }
@@ -60,6 +65,11 @@ export class AWSConfigurationAdapter implements ConfigurationAdapter {
     return {
       type: 'dynamodb',
       tableName: this.config.dynamoDbTableName,
+      roomsTableName: this.config.roomsTableName,
+      rateLimitsTableName: this.config.rateLimitsTableName,
+      messagesTableName: this.config.messagesTableName,
+      messageLogTableName: this.config.messageLogTableName,
+      reactionWindowsTableName: this.config.reactionWindowsTableName,
       ttl: 24 * 60 * 60 // 24 hours in seconds
     };
   }
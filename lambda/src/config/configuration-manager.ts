@@ -4,6 +4,7 @@
  */
 
 import { EnvironmentDetector, DeploymentEnvironment, EnvironmentInfo } from './environment-detector';
+import { LogLevel, logger, parseLogLevel } from '../logging/logger';
 
 export interface BaseConfiguration {
   environment: string;
@@ -11,11 +12,16 @@ export interface BaseConfiguration {
   connectionTimeout: number;
   maxConnections: number;
   healthCheckInterval: number;
-  logLevel: 'debug' | 'info' | 'warn' | 'error';
+  logLevel: LogLevel;
 }
 
 export interface AWSConfiguration extends BaseConfiguration {
   dynamoDbTableName: string;
+  roomsTableName: string;
+  rateLimitsTableName: string;
+  messagesTableName: string;
+  messageLogTableName: string;
+  reactionWindowsTableName: string;
   apiGatewayEndpoint?: string;
   region: string;
 }
@@ -106,7 +112,7 @@ export class ConfigurationManager {
       return this.loadKubernetesConfiguration(baseConfig, environmentInfo);
     } else {
       // Default to AWS configuration for unknown environments
-      console.warn('Unknown environment detected, defaulting to AWS configuration');
+      logger.warn('Unknown environment detected, defaulting to AWS configuration');
       return this.loadAWSConfiguration(baseConfig, environmentInfo);
     }
   }
@@ -118,7 +124,7 @@ export class ConfigurationManager {
       connectionTimeout: parseInt(this.getEnvVar('CONNECTION_TIMEOUT', '30000')),
       maxConnections: parseInt(this.getEnvVar('MAX_CONNECTIONS', '1000')),
       healthCheckInterval: parseInt(this.getEnvVar('HEALTH_CHECK_INTERVAL', '30000')),
-      logLevel: this.getEnvVar('LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error'
+      logLevel: parseLogLevel(this.getEnvVar('LOG_LEVEL', 'info'))
     };
   }
 
@@ -126,6 +132,11 @@ export class ConfigurationManager {
     return {
       ...baseConfig,
       dynamoDbTableName: this.getEnvVar('CONNECTIONS_TABLE_NAME', 'websocket-connections'),
+      roomsTableName: this.getEnvVar('ROOMS_TABLE_NAME', 'rooms'),
+      rateLimitsTableName: this.getEnvVar('RATE_LIMITS_TABLE_NAME', 'rate-limits'),
+      messagesTableName: this.getEnvVar('MESSAGES_TABLE_NAME', 'messages'),
+      messageLogTableName: this.getEnvVar('MESSAGE_LOG_TABLE_NAME', 'message-log'),
+      reactionWindowsTableName: this.getEnvVar('REACTION_WINDOWS_TABLE_NAME', 'reaction-windows'),
       apiGatewayEndpoint: process.env.WEBSOCKET_API_ENDPOINT,
       region: environmentInfo.region || this.getEnvVar('AWS_REGION', 'eu-central-1')
     };
@@ -1,13 +1,44 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { createConnectionManager } from './connection';
+import { createConnectionManager, ConnectionMetadata } from './connection';
+import { createRoomRegistry, normalizeJoinCode } from './rooms';
+import { createAdminAuthenticator } from './auth';
+import { getConfigurationManager } from './config';
+import { logger, setLogLevel, withLogContext } from './logging/logger';
+import { getMetrics } from './metrics/embedded-metrics';
+
+// Honour the configured LOG_LEVEL in every module logging through the shared logger
+setLogLevel(getConfigurationManager().getConfiguration().logLevel);
 
 const connectionManager = createConnectionManager();
 
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-  const { connectionId } = event.requestContext;
-  const { eventType } = event.requestContext;
+  const { connectionId, eventType, requestId, routeKey } = event.requestContext;
+  const metrics = getMetrics();
+
+  metrics.setDimensions({ Action: routeKey || eventType });
+
+  try {
+    return await withLogContext({ connectionId, correlationId: requestId, eventType }, () => handleConnectionEvent(event));
+  } finally {
+    metrics.flush();
+  }
+};
+
+/**
+ * Sample the admins online across rooms whenever one connects or disconnects
+ */
+async function recordAdminsOnline(): Promise<void> {
+  try {
+    getMetrics().record('AdminsOnline', (await connectionManager.getConnections('admin')).length);
+  } catch (error) {
+    logger.warn('Failed to count admins online', { error });
+  }
+}
+
+async function handleConnectionEvent(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const { connectionId, eventType } = event.requestContext;
 
-  console.log(`Connection event: ${eventType} for connection: ${connectionId}`);
+  logger.info(`Connection event: ${eventType}`);
 
   if (!connectionId) {
     return {
@@ -16,22 +47,72 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     };
   }
 
+  const metrics = getMetrics();
+
   try {
     if (eventType === 'CONNECT') {
+      // The frontends ask for their role with ?type=..., but only a valid admin token (?token=...) grants admin
+      const requestedType = event.queryStringParameters?.type;
+      const adminAuthenticator = await createAdminAuthenticator();
+      const { connectionType, adminRole } = adminAuthenticator.resolveConnectionRole(requestedType, event.queryStringParameters?.token);
+      const metadata: Partial<ConnectionMetadata> = {};
+
+      if (adminRole) {
+        metadata.adminRole = adminRole;
+      }
+
+      if (requestedType === 'admin' && connectionType !== 'admin') {
+        logger.warn('Admin role requested without a valid token, storing the connection as user');
+      }
+
+      // Join codes can be passed on the URL, e.g. wss://.../prod?room=ABC123
+      const requestedRoomId = event.queryStringParameters?.room;
+
+      if (requestedRoomId) {
+        const roomId = normalizeJoinCode(requestedRoomId);
+
+        if (await createRoomRegistry().roomExists(roomId)) {
+          metadata.roomId = roomId;
+        } else {
+          // Like the standalone server, the connection stays in the lobby and is told the room was not found.
+          // API Gateway cannot post during $connect, so the message handler answers with the first frame.
+          logger.info('Unknown room requested, connection stays in the lobby', { requestedRoomId });
+          metrics.record('UnknownRoomConnects', 1);
+          metadata.pendingRoomId = requestedRoomId;
+        }
+      }
+
       // Store connection using abstraction layer
-      await connectionManager.storeConnection(connectionId, 'admin'); // Default to admin, will be updated based on client identification
+      if (Object.keys(metadata).length > 0) {
+        await connectionManager.storeConnection(connectionId, connectionType, metadata);
+      } else {
+        await connectionManager.storeConnection(connectionId, connectionType);
+      }
       
-      console.log(`Connection ${connectionId} stored successfully`);
+      logger.info(`Connection stored as ${connectionType}`, { roomId: metadata.roomId });
+      metrics.record('ConnectionEvents', 1, 'Count', { Room: metadata.roomId });
+
+      if (connectionType === 'admin') {
+        await recordAdminsOnline();
+      }
       
       return {
         statusCode: 200,
         body: JSON.stringify({ message: 'Connected successfully' }),
       };
     } else if (eventType === 'DISCONNECT') {
+      // The metadata is gone once removed, and tells whether the admins online changed
+      const metadata = await connectionManager.getConnectionMetadata(connectionId);
+
       // Remove connection using abstraction layer
       await connectionManager.removeConnection(connectionId);
 
-      console.log(`Connection ${connectionId} removed successfully`);
+      logger.info('Connection removed');
+      metrics.record('ConnectionEvents', 1, 'Count', { Room: metadata?.roomId });
+
+      if (metadata?.connectionType === 'admin') {
+        await recordAdminsOnline();
+      }
       
       return {
         statusCode: 200,
@@ -44,10 +125,11 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       body: JSON.stringify({ message: 'Unknown event type' }),
     };
   } catch (error) {
-    console.error('Error handling connection event:', error);
+    logger.error('Error handling connection event', { error });
+    metrics.record('HandlerErrors', 1);
     return {
       statusCode: 500,
       body: JSON.stringify({ message: 'Internal server error' }),
     };
   }
-};
\ No newline at end of file
+}
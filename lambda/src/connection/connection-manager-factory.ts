@@ -8,6 +8,7 @@ import { DynamoDBConnectionManager } from './dynamodb-connection-manager';
 import { RedisConnectionManager } from './redis-connection-manager';
 import { ConfigurationManager } from '../config/configuration-manager';
 import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { logger } from '../logging/logger';
 
 export class ConnectionManagerFactory {
   private static instance: ConnectionManager | null = null;
@@ -30,7 +31,7 @@ export class ConnectionManagerFactory {
       this.instance = new RedisConnectionManager();
     } else {
       // Default to DynamoDB for unknown environments
-      console.warn('Unknown environment detected, defaulting to DynamoDB connection manager');
+      logger.warn('Unknown environment detected, defaulting to DynamoDB connection manager');
       this.instance = new DynamoDBConnectionManager();
     }
 
@@ -3,11 +3,22 @@
  * Defines the contract for managing WebSocket connections across different environments
  */
 
+/**
+ * Role of an authenticated admin, used by role-based routing
+ */
+export type AdminRole = 'moderator' | 'presenter';
+
 export interface ConnectionMetadata {
   connectionId: string;
   connectionType: 'user' | 'admin';
   timestamp: number;
   ttl?: number;
+  roomId?: string;
+  adminRole?: AdminRole;
+  /**
+   * Join code from the connect URL of a room that did not exist, answered with NOT_FOUND on the first frame
+   */
+  pendingRoomId?: string;
 }
 
 export interface ConnectionManager {
@@ -22,9 +33,9 @@ export interface ConnectionManager {
   removeConnection(connectionId: string): Promise<void>;
 
   /**
-   * Get all connections of a specific type
+   * Get all connections of a specific type, optionally limited to one room
    */
-  getConnections(connectionType: 'user' | 'admin'): Promise<string[]>;
+  getConnections(connectionType: 'user' | 'admin', roomId?: string): Promise<string[]>;
 
   /**
    * Get connection metadata
@@ -32,9 +43,14 @@ export interface ConnectionManager {
   getConnectionMetadata(connectionId: string): Promise<ConnectionMetadata | null>;
 
   /**
-   * Update connection type
+   * Update connection type, with the admin role for admin connections
+   */
+  updateConnectionType(connectionId: string, connectionType: 'user' | 'admin', adminRole?: AdminRole): Promise<void>;
+
+  /**
+   * Move a connection into a room
    */
-  updateConnectionType(connectionId: string, connectionType: 'user' | 'admin'): Promise<void>;
+  updateConnectionRoom(connectionId: string, roomId: string): Promise<void>;
 
   /**
    * Check if a connection exists
@@ -3,10 +3,29 @@
  * Implements connection management using AWS DynamoDB for Lambda environments
  */
 
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, DeleteCommand, ScanCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
-import { ConnectionManager, ConnectionMetadata } from './connection-manager-interface';
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  BatchWriteCommand,
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { AdminRole, ConnectionManager, ConnectionMetadata } from './connection-manager-interface';
 import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { LOBBY_ROOM_ID } from '../rooms/room-registry';
+import { traceDynamoDBClient } from '../tracing/aws-tracing';
+import { logger } from '../logging/logger';
+
+// Global secondary index on connectionType, created by the CDK stack
+const CONNECTION_TYPE_INDEX = 'ConnectionTypeIndex';
+
+// BatchWriteItem accepts at most 25 requests per call
+const BATCH_WRITE_LIMIT = 25;
+const BATCH_WRITE_MAX_ATTEMPTS = 5;
 
 export class DynamoDBConnectionManager implements ConnectionManager {
   private dynamodb: DynamoDBDocumentClient;
@@ -14,7 +33,7 @@ export class DynamoDBConnectionManager implements ConnectionManager {
   private ttl: number;
 
   constructor() {
-    const client = new DynamoDBClient({});
+    const client = traceDynamoDBClient(new DynamoDBClient({}));
     this.dynamodb = DynamoDBDocumentClient.from(client);
     
     const adapter = ConfigurationAdapterFactory.createAdapter();
@@ -37,6 +56,7 @@ export class DynamoDBConnectionManager implements ConnectionManager {
       connectionType,
       timestamp,
       ttl: ttlValue,
+      roomId: LOBBY_ROOM_ID,
       ...metadata
     };
 
@@ -46,9 +66,9 @@ export class DynamoDBConnectionManager implements ConnectionManager {
         Item: item,
       }));
 
-      console.log(`Connection ${connectionId} stored in DynamoDB with type: ${connectionType}`);
+      logger.debug(`Connection ${connectionId} stored in DynamoDB with type: ${connectionType}`, { connectionId });
     } catch (error) {
-      console.error(`Failed to store connection ${connectionId}:`, error);
+      logger.error(`Failed to store connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to store connection: ${error}`);
     }
   }
@@ -60,27 +80,40 @@ export class DynamoDBConnectionManager implements ConnectionManager {
         Key: { connectionId },
       }));
 
-      console.log(`Connection ${connectionId} removed from DynamoDB`);
+      logger.debug(`Connection ${connectionId} removed from DynamoDB`, { connectionId });
     } catch (error) {
-      console.error(`Failed to remove connection ${connectionId}:`, error);
+      logger.error(`Failed to remove connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to remove connection: ${error}`);
     }
   }
 
-  async getConnections(connectionType: 'user' | 'admin'): Promise<string[]> {
+  async getConnections(connectionType: 'user' | 'admin', roomId?: string): Promise<string[]> {
+    const connectionIds: string[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
     try {
-      const result = await this.dynamodb.send(new ScanCommand({
-        TableName: this.tableName,
-        FilterExpression: 'connectionType = :type',
-        ExpressionAttributeValues: {
-          ':type': connectionType,
-        },
-        ProjectionExpression: 'connectionId',
-      }));
+      // A query returns at most 1 MB per page, so follow LastEvaluatedKey until the index is exhausted
+      do {
+        const result = await this.dynamodb.send(new QueryCommand({
+          TableName: this.tableName,
+          IndexName: CONNECTION_TYPE_INDEX,
+          KeyConditionExpression: 'connectionType = :type',
+          FilterExpression: roomId ? 'roomId = :roomId' : undefined,
+          ExpressionAttributeValues: {
+            ':type': connectionType,
+            ...(roomId ? { ':roomId': roomId } : {}),
+          },
+          ProjectionExpression: 'connectionId',
+          ExclusiveStartKey: exclusiveStartKey,
+        }));
+
+        connectionIds.push(...(result.Items || []).map(item => item.connectionId));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
 
-      return (result.Items || []).map(item => item.connectionId);
+      return connectionIds;
     } catch (error) {
-      console.error(`Failed to get connections of type ${connectionType}:`, error);
+      logger.error(`Failed to get connections of type ${connectionType}`, { error });
       throw new Error(`Failed to get connections: ${error}`);
     }
   }
@@ -101,28 +134,69 @@ export class DynamoDBConnectionManager implements ConnectionManager {
         connectionType: result.Item.connectionType,
         timestamp: result.Item.timestamp,
         ttl: result.Item.ttl,
+        roomId: result.Item.roomId,
+        adminRole: result.Item.adminRole,
+        pendingRoomId: result.Item.pendingRoomId,
       };
     } catch (error) {
-      console.error(`Failed to get metadata for connection ${connectionId}:`, error);
+      logger.error(`Failed to get metadata for connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to get connection metadata: ${error}`);
     }
   }
 
-  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin'): Promise<void> {
+  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin', adminRole?: AdminRole): Promise<void> {
+    // Users never keep an admin role; admins keep theirs unless a new one is given
+    let updateExpression = 'SET connectionType = :type';
+    const expressionAttributeValues: Record<string, string> = { ':type': connectionType };
+
+    if (connectionType === 'user') {
+      updateExpression += ' REMOVE adminRole';
+    } else if (adminRole) {
+      updateExpression += ', adminRole = :adminRole';
+      expressionAttributeValues[':adminRole'] = adminRole;
+    }
+
     try {
+      // Without the condition an update of a disconnected connection would create a ghost item
       await this.dynamodb.send(new UpdateCommand({
         TableName: this.tableName,
         Key: { connectionId },
-        UpdateExpression: 'SET connectionType = :type',
+        UpdateExpression: updateExpression,
+        ConditionExpression: 'attribute_exists(connectionId)',
+        ExpressionAttributeValues: expressionAttributeValues,
+      }));
+
+      logger.debug(`Connection ${connectionId} type updated to: ${connectionType}`, { connectionId });
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new Error(`Failed to update connection type: Connection ${connectionId} not found`);
+      }
+
+      logger.error(`Failed to update connection type for ${connectionId}`, { connectionId, error });
+      throw new Error(`Failed to update connection type: ${error}`);
+    }
+  }
+
+  async updateConnectionRoom(connectionId: string, roomId: string): Promise<void> {
+    try {
+      await this.dynamodb.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { connectionId },
+        UpdateExpression: 'SET roomId = :roomId',
+        ConditionExpression: 'attribute_exists(connectionId)',
         ExpressionAttributeValues: {
-          ':type': connectionType,
+          ':roomId': roomId,
         },
       }));
 
-      console.log(`Connection ${connectionId} type updated to: ${connectionType}`);
+      logger.debug(`Connection ${connectionId} moved to room: ${roomId}`, { connectionId, roomId });
     } catch (error) {
-      console.error(`Failed to update connection type for ${connectionId}:`, error);
-      throw new Error(`Failed to update connection type: ${error}`);
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new Error(`Failed to update connection room: Connection ${connectionId} not found`);
+      }
+
+      logger.error(`Failed to update room for ${connectionId}`, { connectionId, error });
+      throw new Error(`Failed to update connection room: ${error}`);
     }
   }
 
@@ -136,46 +210,74 @@ export class DynamoDBConnectionManager implements ConnectionManager {
 
       return !!result.Item;
     } catch (error) {
-      console.error(`Failed to check if connection ${connectionId} exists:`, error);
+      logger.error(`Failed to check if connection ${connectionId} exists`, { connectionId, error });
       return false;
     }
   }
 
   async cleanupExpiredConnections(): Promise<void> {
-    // DynamoDB TTL handles automatic cleanup, but we can implement manual cleanup if needed
+    // DynamoDB TTL handles automatic cleanup, but it can lag behind by up to two days
     const currentTime = Math.floor(Date.now() / 1000);
-    
+    let exclusiveStartKey: Record<string, any> | undefined;
+    let cleanedUp = 0;
+
     try {
-      const result = await this.dynamodb.send(new ScanCommand({
-        TableName: this.tableName,
-        FilterExpression: 'attribute_exists(#ttl) AND #ttl < :currentTime',
-        ExpressionAttributeNames: {
-          '#ttl': 'ttl',
-        },
-        ExpressionAttributeValues: {
-          ':currentTime': currentTime,
-        },
-        ProjectionExpression: 'connectionId',
-      }));
+      // ttl is not indexed, so this has to scan, one page at a time
+      do {
+        const result = await this.dynamodb.send(new ScanCommand({
+          TableName: this.tableName,
+          FilterExpression: 'attribute_exists(#ttl) AND #ttl < :currentTime',
+          ExpressionAttributeNames: {
+            '#ttl': 'ttl',
+          },
+          ExpressionAttributeValues: {
+            ':currentTime': currentTime,
+          },
+          ProjectionExpression: 'connectionId',
+          ExclusiveStartKey: exclusiveStartKey,
+        }));
 
-      const expiredConnections = result.Items || [];
-      
-      if (expiredConnections.length > 0) {
-        console.log(`Found ${expiredConnections.length} expired connections to clean up`);
-        
-        const deletePromises = expiredConnections.map(item =>
-          this.dynamodb.send(new DeleteCommand({
-            TableName: this.tableName,
-            Key: { connectionId: item.connectionId },
-          }))
-        );
-
-        await Promise.all(deletePromises);
-        console.log(`Cleaned up ${expiredConnections.length} expired connections`);
+        const expiredConnectionIds = (result.Items || []).map(item => item.connectionId as string);
+        await this.deleteConnections(expiredConnectionIds);
+
+        cleanedUp += expiredConnectionIds.length;
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      if (cleanedUp > 0) {
+        logger.info(`Cleaned up ${cleanedUp} expired connections`);
       }
     } catch (error) {
-      console.error('Failed to cleanup expired connections:', error);
+      logger.error('Failed to cleanup expired connections', { error });
       throw new Error(`Failed to cleanup expired connections: ${error}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Delete connections in batches of 25, retrying the items DynamoDB leaves unprocessed
+   */
+  private async deleteConnections(connectionIds: string[]): Promise<void> {
+    for (let start = 0; start < connectionIds.length; start += BATCH_WRITE_LIMIT) {
+      let requests = connectionIds.slice(start, start + BATCH_WRITE_LIMIT).map(connectionId => ({
+        DeleteRequest: { Key: { connectionId } },
+      }));
+
+      for (let attempt = 1; requests.length > 0; attempt++) {
+        if (attempt > BATCH_WRITE_MAX_ATTEMPTS) {
+          throw new Error(`${requests.length} connections were left unprocessed after ${BATCH_WRITE_MAX_ATTEMPTS} attempts`);
+        }
+
+        if (attempt > 1) {
+          // Unprocessed items mean the table is throttled, back off before retrying them
+          await new Promise(resolve => setTimeout(resolve, 50 * 2 ** attempt));
+        }
+
+        const result = await this.dynamodb.send(new BatchWriteCommand({
+          RequestItems: { [this.tableName]: requests },
+        }));
+
+        requests = (result.UnprocessedItems?.[this.tableName] || []) as typeof requests;
+      }
+    }
+  }
+}
@@ -5,6 +5,7 @@
 
 // Interfaces
 export {
+  AdminRole,
   ConnectionManager,
   ConnectionMetadata
 } from './connection-manager-interface';
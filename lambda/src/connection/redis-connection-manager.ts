@@ -3,21 +3,44 @@
  * Implements connection management using Redis for Kubernetes environments
  */
 
+// Commands queued in a MULTI transaction, run by exec()
+interface RedisTransaction {
+  setEx(key: string, seconds: number, value: string): RedisTransaction;
+  zAdd(key: string, member: { score: number; value: string }): RedisTransaction;
+  zRemRangeByScore(key: string, min: number, max: number): RedisTransaction;
+  zRange(key: string, start: number, stop: number): RedisTransaction;
+  zCard(key: string): RedisTransaction;
+  hSet(key: string, field: string, value: string): RedisTransaction;
+  expire(key: string, seconds: number): RedisTransaction;
+  exec(): Promise<unknown[]>;
+}
+
 // Redis client interface for type safety
 interface RedisClientType {
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   on(event: string, listener: (...args: any[]) => void): void;
   setEx(key: string, seconds: number, value: string): Promise<void>;
+  set(key: string, value: string, options?: { NX?: boolean; EX?: number }): Promise<string | null>;
   get(key: string): Promise<string | null>;
-  del(key: string): Promise<number>;
+  incr(key: string): Promise<number>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+  xAdd(key: string, id: string, message: Record<string, string>, options?: { TRIM?: { strategy?: 'MAXLEN' | 'MINID'; strategyModifier?: '=' | '~'; threshold: number } }): Promise<string>;
+  xRange(key: string, start: string, end: string, options?: { COUNT?: number }): Promise<Array<{ id: string; message: Record<string, string> }>>;
+  xRevRange(key: string, start: string, end: string, options?: { COUNT?: number }): Promise<Array<{ id: string; message: Record<string, string> }>>;
+  del(keys: string | string[]): Promise<number>;
+  hmGet(key: string, fields: string[]): Promise<Array<string | null>>;
   sAdd(key: string, ...members: string[]): Promise<number>;
   sRem(key: string, ...members: string[]): Promise<number>;
   sMembers(key: string): Promise<string[]>;
   expire(key: string, seconds: number): Promise<boolean>;
   exists(key: string): Promise<number>;
   ttl(key: string): Promise<number>;
-  keys(pattern: string): Promise<string[]>;
+  zRemRangeByScore(key: string, min: number, max: number): Promise<number>;
+  zCard(key: string): Promise<number>;
+  zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]>;
+  multi(): RedisTransaction;
+  scanIterator(options: { MATCH?: string; TYPE?: string; COUNT?: number }): AsyncIterable<string>;
 }
 
 // Dynamic Redis client creation
@@ -27,7 +50,7 @@ function createClient(options: any): RedisClientType {
     const redis = require('redis');
     return redis.createClient(options);
   } catch (error) {
-    console.warn('Redis module not available, using mock client');
+    logger.warn('Redis module not available, using mock client');
     // Return a mock client that throws meaningful errors
     const mockError = new Error('Redis client not available. Install redis package for Kubernetes deployment.');
     return {
@@ -35,20 +58,83 @@ function createClient(options: any): RedisClientType {
       disconnect: async () => { throw mockError; },
       on: () => { throw mockError; },
       setEx: async () => { throw mockError; },
+      set: async () => { throw mockError; },
       get: async () => { throw mockError; },
+      incr: async () => { throw mockError; },
+      eval: async () => { throw mockError; },
+      xAdd: async () => { throw mockError; },
+      xRange: async () => { throw mockError; },
+      xRevRange: async () => { throw mockError; },
       del: async () => { throw mockError; },
+      hmGet: async () => { throw mockError; },
       sAdd: async () => { throw mockError; },
       sRem: async () => { throw mockError; },
       sMembers: async () => { throw mockError; },
       expire: async () => { throw mockError; },
       exists: async () => { throw mockError; },
       ttl: async () => { throw mockError; },
-      keys: async () => { throw mockError; }
+      zRemRangeByScore: async () => { throw mockError; },
+      zCard: async () => { throw mockError; },
+      zRangeByScore: async () => { throw mockError; },
+      multi: () => { throw mockError; },
+      scanIterator: () => { throw mockError; }
     } as RedisClientType;
   }
 }
-import { ConnectionManager, ConnectionMetadata } from './connection-manager-interface';
+import { AdminRole, ConnectionManager, ConnectionMetadata } from './connection-manager-interface';
 import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { LOBBY_ROOM_ID } from '../rooms/room-registry';
+import { logger } from '../logging/logger';
+
+/*
+ * Connection indexes are sorted sets scored by the expiry time (epoch ms) of each
+ * connection, so expired entries can be dropped by score instead of expiring the
+ * whole set. The index keys follow from a connection's metadata, so the scripts below
+ * are handed the metadata the keys in KEYS were derived from and return
+ * CONNECTION_CHANGED instead of writing when it changed in between.
+ */
+const CONNECTION_CHANGED = -1;
+const MAX_SCRIPT_ATTEMPTS = 5;
+
+// Delete a connection together with its index entries, in one step.
+// KEYS: connection, type index, room index.
+const REMOVE_CONNECTION_SCRIPT = `
+local data = redis.call('GET', KEYS[1]) or ''
+if data ~= ARGV[2] then
+  return ${CONNECTION_CHANGED}
+end
+redis.call('DEL', KEYS[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZREM', KEYS[3], ARGV[1])
+if data == '' then
+  return 0
+end
+return 1
+`;
+
+// Replace a connection's metadata and move it between indexes, keeping its remaining TTL.
+// KEYS: connection, current type and room index, new type and room index.
+// A missing connection is left missing (returns 0).
+const UPDATE_CONNECTION_SCRIPT = `
+local data = redis.call('GET', KEYS[1])
+if not data then
+  return 0
+end
+if data ~= ARGV[2] then
+  return ${CONNECTION_CHANGED}
+end
+local ttl = redis.call('TTL', KEYS[1])
+if ttl <= 0 then
+  ttl = tonumber(ARGV[4])
+end
+local expiresAt = tonumber(ARGV[5]) + ttl * 1000
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZREM', KEYS[3], ARGV[1])
+redis.call('SET', KEYS[1], ARGV[3], 'EX', ttl)
+redis.call('ZADD', KEYS[4], expiresAt, ARGV[1])
+redis.call('ZADD', KEYS[5], expiresAt, ARGV[1])
+return 1
+`;
 
 export class RedisConnectionManager implements ConnectionManager {
   private client: RedisClientType | null = null;
@@ -67,6 +153,19 @@ export class RedisConnectionManager implements ConnectionManager {
     this.ttl = storageConfig.ttl;
   }
 
+  /**
+   * Get the shared Redis client for modules that keep their own keys (rooms, etc.)
+   */
+  async getClient(): Promise<RedisClientType> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    return this.client;
+  }
+
   private async ensureConnection(): Promise<void> {
     if (this.isConnected && this.client) {
       return;
@@ -89,7 +188,7 @@ export class RedisConnectionManager implements ConnectionManager {
           lazyConnect: true,
           reconnectStrategy: (retries: number) => {
             if (retries > 5) {
-              console.error('Redis connection failed after 5 retries');
+              logger.error('Redis connection failed after 5 retries');
               return false;
             }
             return Math.min(retries * 1000, 5000);
@@ -104,17 +203,17 @@ export class RedisConnectionManager implements ConnectionManager {
       this.client = createClient(clientOptions);
 
       this.client.on('error', (error: Error) => {
-        console.error('Redis client error:', error);
+        logger.error('Redis client error', { error });
         this.isConnected = false;
       });
 
       this.client.on('connect', () => {
-        console.log('Redis client connected');
+        logger.info('Redis client connected');
         this.isConnected = true;
       });
 
       this.client.on('disconnect', () => {
-        console.log('Redis client disconnected');
+        logger.info('Redis client disconnected');
         this.isConnected = false;
       });
 
@@ -122,10 +221,10 @@ export class RedisConnectionManager implements ConnectionManager {
       this.isConnected = true;
       this.connectionPromise = null;
       
-      console.log('Redis connection established successfully');
+      logger.info('Redis connection established successfully');
     } catch (error) {
       this.connectionPromise = null;
-      console.error('Failed to connect to Redis:', error);
+      logger.error('Failed to connect to Redis', { error });
       throw new Error(`Failed to connect to Redis: ${error}`);
     }
   }
@@ -147,23 +246,23 @@ export class RedisConnectionManager implements ConnectionManager {
       connectionType,
       timestamp,
       ttl: Math.floor(Date.now() / 1000) + this.ttl,
+      roomId: LOBBY_ROOM_ID,
       ...metadata
     };
 
     try {
-      const key = `connection:${connectionId}`;
-      const typeKey = `connections:${connectionType}`;
-      
-      // Store connection metadata with TTL
-      await this.client.setEx(key, this.ttl, JSON.stringify(connectionData));
-      
-      // Add to type-specific set with TTL
-      await this.client.sAdd(typeKey, connectionId);
-      await this.client.expire(typeKey, this.ttl);
+      const expiresAt = timestamp + this.ttl * 1000;
+
+      // Metadata and indexes are written in one transaction, so a crash cannot leave them apart
+      await this.client.multi()
+        .setEx(`connection:${connectionId}`, this.ttl, JSON.stringify(connectionData))
+        .zAdd(this.typeIndexKey(connectionType), { score: expiresAt, value: connectionId })
+        .zAdd(this.roomIndexKey(connectionData), { score: expiresAt, value: connectionId })
+        .exec();
 
-      console.log(`Connection ${connectionId} stored in Redis with type: ${connectionType}`);
+      logger.debug(`Connection ${connectionId} stored in Redis with type: ${connectionType}`, { connectionId });
     } catch (error) {
-      console.error(`Failed to store connection ${connectionId}:`, error);
+      logger.error(`Failed to store connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to store connection: ${error}`);
     }
   }
@@ -176,30 +275,16 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      // Get connection metadata to determine type
-      const metadata = await this.getConnectionMetadata(connectionId);
-      
-      const key = `connection:${connectionId}`;
-      await this.client.del(key);
-
-      // Remove from type-specific set if we know the type
-      if (metadata) {
-        const typeKey = `connections:${metadata.connectionType}`;
-        await this.client.sRem(typeKey, connectionId);
-      } else {
-        // Remove from both sets if we don't know the type
-        await this.client.sRem('connections:user', connectionId);
-        await this.client.sRem('connections:admin', connectionId);
-      }
+      await this.deleteConnection(connectionId);
 
-      console.log(`Connection ${connectionId} removed from Redis`);
+      logger.debug(`Connection ${connectionId} removed from Redis`, { connectionId });
     } catch (error) {
-      console.error(`Failed to remove connection ${connectionId}:`, error);
+      logger.error(`Failed to remove connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to remove connection: ${error}`);
     }
   }
 
-  async getConnections(connectionType: 'user' | 'admin'): Promise<string[]> {
+  async getConnections(connectionType: 'user' | 'admin', roomId?: string): Promise<string[]> {
     await this.ensureConnection();
     
     if (!this.client) {
@@ -207,23 +292,19 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      const typeKey = `connections:${connectionType}`;
-      const connections = await this.client.sMembers(typeKey);
-      
-      // Filter out expired connections
-      const validConnections: string[] = [];
-      for (const connectionId of connections) {
-        if (await this.connectionExists(connectionId)) {
-          validConnections.push(connectionId);
-        } else {
-          // Remove expired connection from set
-          await this.client.sRem(typeKey, connectionId);
-        }
-      }
+      const indexKey = roomId
+        ? this.roomIndexKey({ connectionType, roomId })
+        : this.typeIndexKey(connectionType);
+
+      // Entries scored in the past belong to connections whose metadata has expired
+      const [, connectionIds] = await this.client.multi()
+        .zRemRangeByScore(indexKey, 0, Date.now())
+        .zRange(indexKey, 0, -1)
+        .exec();
 
-      return validConnections;
+      return connectionIds as unknown as string[];
     } catch (error) {
-      console.error(`Failed to get connections of type ${connectionType}:`, error);
+      logger.error(`Failed to get connections of type ${connectionType}`, { error });
       throw new Error(`Failed to get connections: ${error}`);
     }
   }
@@ -245,12 +326,12 @@ export class RedisConnectionManager implements ConnectionManager {
 
       return JSON.parse(data) as ConnectionMetadata;
     } catch (error) {
-      console.error(`Failed to get metadata for connection ${connectionId}:`, error);
+      logger.error(`Failed to get metadata for connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to get connection metadata: ${error}`);
     }
   }
 
-  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin'): Promise<void> {
+  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin', adminRole?: AdminRole): Promise<void> {
     await this.ensureConnection();
     
     if (!this.client) {
@@ -258,39 +339,37 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      // Get current metadata
-      const currentMetadata = await this.getConnectionMetadata(connectionId);
-      
-      if (!currentMetadata) {
-        throw new Error(`Connection ${connectionId} not found`);
+      // Users never keep an admin role; admins keep theirs unless a new one is given
+      const changes: Record<string, string | null> = { connectionType };
+      if (connectionType === 'user') {
+        changes.adminRole = null;
+      } else if (adminRole) {
+        changes.adminRole = adminRole;
       }
 
-      // Remove from old type set
-      const oldTypeKey = `connections:${currentMetadata.connectionType}`;
-      await this.client.sRem(oldTypeKey, connectionId);
+      await this.updateConnection(connectionId, changes);
 
-      // Update metadata
-      const updatedMetadata: ConnectionMetadata = {
-        ...currentMetadata,
-        connectionType
-      };
+      logger.debug(`Connection ${connectionId} type updated to: ${connectionType}`, { connectionId });
+    } catch (error) {
+      logger.error(`Failed to update connection type for ${connectionId}`, { connectionId, error });
+      throw new Error(`Failed to update connection type: ${error}`);
+    }
+  }
 
-      // Store updated metadata
-      const key = `connection:${connectionId}`;
-      const remainingTtl = await this.client.ttl(key);
-      const ttlToUse = remainingTtl > 0 ? remainingTtl : this.ttl;
-      
-      await this.client.setEx(key, ttlToUse, JSON.stringify(updatedMetadata));
+  async updateConnectionRoom(connectionId: string, roomId: string): Promise<void> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
 
-      // Add to new type set
-      const newTypeKey = `connections:${connectionType}`;
-      await this.client.sAdd(newTypeKey, connectionId);
-      await this.client.expire(newTypeKey, ttlToUse);
+    try {
+      await this.updateConnection(connectionId, { roomId });
 
-      console.log(`Connection ${connectionId} type updated to: ${connectionType}`);
+      logger.debug(`Connection ${connectionId} moved to room: ${roomId}`, { connectionId, roomId });
     } catch (error) {
-      console.error(`Failed to update connection type for ${connectionId}:`, error);
-      throw new Error(`Failed to update connection type: ${error}`);
+      logger.error(`Failed to update room for ${connectionId}`, { connectionId, error });
+      throw new Error(`Failed to update connection room: ${error}`);
     }
   }
 
@@ -306,11 +385,15 @@ export class RedisConnectionManager implements ConnectionManager {
       const exists = await this.client.exists(key);
       return exists === 1;
     } catch (error) {
-      console.error(`Failed to check if connection ${connectionId} exists:`, error);
+      logger.error(`Failed to check if connection ${connectionId} exists`, { connectionId, error });
       return false;
     }
   }
 
+  /**
+   * Drop expired entries from every connection index. Reads already skip them,
+   * this keeps indexes of rooms nobody reads anymore from growing.
+   */
   async cleanupExpiredConnections(): Promise<void> {
     await this.ensureConnection();
     
@@ -319,33 +402,111 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      // Get all connection keys
-      const connectionKeys = await this.client.keys('connection:*');
+      const now = Date.now();
       let cleanedCount = 0;
 
-      for (const key of connectionKeys) {
-        const exists = await this.client.exists(key);
-        if (exists === 0) {
-          // Extract connection ID from key
-          const connectionId = key.replace('connection:', '');
-          
-          // Remove from type sets
-          await this.client.sRem('connections:user', connectionId);
-          await this.client.sRem('connections:admin', connectionId);
-          
-          cleanedCount++;
-        }
+      // SCAN walks the keyspace in small batches instead of blocking Redis like KEYS
+      for await (const indexKey of this.client.scanIterator({ MATCH: '*connections-by-expiry:*', TYPE: 'zset', COUNT: 100 })) {
+        cleanedCount += await this.client.zRemRangeByScore(indexKey, 0, now);
       }
 
       if (cleanedCount > 0) {
-        console.log(`Cleaned up ${cleanedCount} expired connections from Redis`);
+        logger.info(`Cleaned up ${cleanedCount} expired connections from Redis`);
       }
     } catch (error) {
-      console.error('Failed to cleanup expired connections:', error);
+      logger.error('Failed to cleanup expired connections', { error });
       throw new Error(`Failed to cleanup expired connections: ${error}`);
     }
   }
 
+  /**
+   * Change metadata fields of a connection and move it between indexes atomically.
+   * A null change removes the field.
+   */
+  private async updateConnection(connectionId: string, changes: Record<string, string | null>): Promise<void> {
+    const updated = await this.runConnectionScript(connectionId, data => {
+      if (!data) {
+        return null;
+      }
+
+      const current: ConnectionMetadata = JSON.parse(data);
+      const next: Record<string, unknown> = { ...current };
+      for (const [field, value] of Object.entries(changes)) {
+        if (value === null) {
+          delete next[field];
+        } else {
+          next[field] = value;
+        }
+      }
+
+      return {
+        script: UPDATE_CONNECTION_SCRIPT,
+        keys: [
+          `connection:${connectionId}`,
+          this.typeIndexKey(current.connectionType),
+          this.roomIndexKey(current),
+          this.typeIndexKey(next.connectionType as ConnectionMetadata['connectionType']),
+          this.roomIndexKey(next as Pick<ConnectionMetadata, 'connectionType' | 'roomId'>)
+        ],
+        arguments: [connectionId, data, JSON.stringify(next), this.ttl.toString(), Date.now().toString()]
+      };
+    });
+
+    if (updated !== 1) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+  }
+
+  /**
+   * Delete a connection with its index entries. Without metadata its room is unknown,
+   * so only the type indexes are cleaned.
+   */
+  private async deleteConnection(connectionId: string): Promise<void> {
+    await this.runConnectionScript(connectionId, data => {
+      const metadata: ConnectionMetadata | null = data ? JSON.parse(data) : null;
+      const keys = metadata
+        ? [`connection:${connectionId}`, this.typeIndexKey(metadata.connectionType), this.roomIndexKey(metadata)]
+        : [`connection:${connectionId}`, this.typeIndexKey('user'), this.typeIndexKey('admin')];
+
+      return { script: REMOVE_CONNECTION_SCRIPT, keys, arguments: [connectionId, data || ''] };
+    });
+  }
+
+  /**
+   * Read a connection, derive the keys a script touches from it, and run the script.
+   * The script refuses to write when the connection changed after the read, and is retried.
+   */
+  private async runConnectionScript(
+    connectionId: string,
+    prepare: (data: string | null) => { script: string; keys: string[]; arguments: string[] } | null
+  ): Promise<unknown> {
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    for (let attempt = 1; attempt <= MAX_SCRIPT_ATTEMPTS; attempt++) {
+      const call = prepare(await this.client.get(`connection:${connectionId}`));
+      if (!call) {
+        return 0;
+      }
+
+      const result = await this.client.eval(call.script, { keys: call.keys, arguments: call.arguments });
+      if (result !== CONNECTION_CHANGED) {
+        return result;
+      }
+    }
+
+    throw new Error(`Connection ${connectionId} kept changing after ${MAX_SCRIPT_ATTEMPTS} attempts`);
+  }
+
+  private typeIndexKey(connectionType: 'user' | 'admin'): string {
+    return `connections-by-expiry:${connectionType}`;
+  }
+
+  private roomIndexKey(metadata: Pick<ConnectionMetadata, 'connectionType' | 'roomId'>): string {
+    return `room:${metadata.roomId || LOBBY_ROOM_ID}:connections-by-expiry:${metadata.connectionType}`;
+  }
+
   /**
    * Close the Redis connection (useful for cleanup)
    */
@@ -354,9 +515,9 @@ export class RedisConnectionManager implements ConnectionManager {
       try {
         await this.client.disconnect();
         this.isConnected = false;
-        console.log('Redis connection closed');
+        logger.info('Redis connection closed');
       } catch (error) {
-        console.error('Error closing Redis connection:', error);
+        logger.error('Error closing Redis connection', { error });
       }
     }
   }
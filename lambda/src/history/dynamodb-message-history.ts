@@ -0,0 +1,96 @@
+/**
+ * DynamoDB Message History
+ * Stores messages under their room, sorted by time, for Lambda environments
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { HistoryMessage, HistoryPage, MessageHistory, getHistoryPageSize, getHistoryRetention } from './message-history';
+import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { traceDynamoDBClient } from '../tracing/aws-tracing';
+import { logger } from '../logging/logger';
+
+export class DynamoDBMessageHistory implements MessageHistory {
+  private dynamodb: DynamoDBDocumentClient;
+  private tableName: string;
+  private retention: number;
+  private pageSize: number;
+
+  constructor() {
+    const client = traceDynamoDBClient(new DynamoDBClient({}));
+    this.dynamodb = DynamoDBDocumentClient.from(client);
+
+    const adapter = ConfigurationAdapterFactory.createAdapter();
+    this.tableName = adapter.getStorageConfig().messagesTableName || 'messages';
+    this.retention = getHistoryRetention();
+    this.pageSize = getHistoryPageSize();
+  }
+
+  async append(roomId: string, message: HistoryMessage): Promise<string> {
+    const now = Date.now();
+    // Zero-padded milliseconds sort by time, the message ID keeps simultaneous messages apart
+    const messageKey = `${now.toString().padStart(13, '0')}#${message.messageId}`;
+
+    try {
+      // Stored as JSON like the message log, requests carry optional fields DynamoDB cannot hold as undefined
+      await this.dynamodb.send(new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          roomId,
+          messageKey,
+          payload: JSON.stringify(message),
+          ttl: Math.floor(now / 1000) + this.retention,
+        },
+      }));
+
+      return messageKey;
+    } catch (error) {
+      logger.error(`Failed to store message in history of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to store message: ${error}`);
+    }
+  }
+
+  async getHistory(roomId: string, cursor?: string | null): Promise<HistoryPage> {
+    try {
+      if (!cursor) {
+        // Newest page first, reversed so the caller always gets oldest first
+        const result = await this.dynamodb.send(new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'roomId = :roomId',
+          ExpressionAttributeValues: { ':roomId': roomId },
+          ScanIndexForward: false,
+          Limit: this.pageSize,
+        }));
+
+        const messages = (result.Items || []).reverse().map(item => this.toMessage(item));
+        return {
+          messages,
+          cursor: messages.length > 0 ? messages[messages.length - 1].historyCursor as string : null,
+          hasMore: false,
+        };
+      }
+
+      const result = await this.dynamodb.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'roomId = :roomId AND messageKey > :cursor',
+        ExpressionAttributeValues: { ':roomId': roomId, ':cursor': cursor },
+        ScanIndexForward: true,
+        Limit: this.pageSize,
+      }));
+
+      const messages = (result.Items || []).map(item => this.toMessage(item));
+      return {
+        messages,
+        cursor: messages.length > 0 ? messages[messages.length - 1].historyCursor as string : cursor,
+        hasMore: result.LastEvaluatedKey !== undefined,
+      };
+    } catch (error) {
+      logger.error(`Failed to read history of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to read history: ${error}`);
+    }
+  }
+
+  private toMessage(item: Record<string, any>): HistoryMessage {
+    return { ...JSON.parse(item.payload), historyCursor: item.messageKey };
+  }
+}
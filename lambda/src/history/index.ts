@@ -0,0 +1,25 @@
+/**
+ * Message History Module
+ * Exports all history-related interfaces and implementations
+ */
+
+// Interfaces
+export {
+  HistoryMessage,
+  HistoryPage,
+  MessageHistory
+} from './message-history';
+
+// Implementations
+export { DynamoDBMessageHistory } from './dynamodb-message-history';
+export { RedisMessageHistory } from './redis-message-history';
+
+// Factory
+export { MessageHistoryFactory } from './message-history-factory';
+
+// Convenience function
+import { MessageHistoryFactory } from './message-history-factory';
+
+export function createMessageHistory() {
+  return MessageHistoryFactory.createMessageHistory();
+}
@@ -0,0 +1,40 @@
+/**
+ * Message History Factory
+ * Creates the message history that matches the connection storage backend
+ */
+
+import { MessageHistory } from './message-history';
+import { DynamoDBMessageHistory } from './dynamodb-message-history';
+import { RedisMessageHistory } from './redis-message-history';
+import { ConnectionManagerFactory } from '../connection/connection-manager-factory';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+export class MessageHistoryFactory {
+  private static instance: MessageHistory | null = null;
+
+  /**
+   * Create a message history backed by the same store as the connections
+   */
+  public static createMessageHistory(): MessageHistory {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const connectionManager = ConnectionManagerFactory.createConnectionManager();
+
+    if (connectionManager instanceof RedisConnectionManager) {
+      this.instance = new RedisMessageHistory(connectionManager);
+    } else {
+      this.instance = new DynamoDBMessageHistory();
+    }
+
+    return this.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    this.instance = null;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Message History Interface
+ * Records every audience request of a room so admins can backfill what they missed
+ */
+
+export type HistoryMessage = Record<string, unknown>;
+
+export interface HistoryPage {
+  /**
+   * Messages oldest first, each with the historyCursor it was stored under
+   */
+  messages: HistoryMessage[];
+  /**
+   * Cursor of the last returned message, or the given cursor when nothing is new
+   */
+  cursor: string | null;
+  /**
+   * More messages are waiting, request the next page from the returned cursor
+   */
+  hasMore: boolean;
+}
+
+export interface MessageHistory {
+  /**
+   * Store a message of a room and return its history cursor
+   */
+  append(roomId: string, message: HistoryMessage): Promise<string>;
+
+  /**
+   * Messages stored after the cursor, or the most recent page without a cursor
+   */
+  getHistory(roomId: string, cursor?: string | null): Promise<HistoryPage>;
+}
+
+export function getHistoryRetention(): number {
+  return parseInt(process.env.MESSAGE_RETENTION || '86400'); // 24 hours default
+}
+
+export function getHistoryPageSize(): number {
+  return parseInt(process.env.HISTORY_PAGE_SIZE || '100');
+}
@@ -0,0 +1,79 @@
+/**
+ * Redis Message History
+ * Stores messages in a Redis Stream per room for Kubernetes environments
+ */
+
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+import { HistoryMessage, HistoryPage, MessageHistory, getHistoryPageSize, getHistoryRetention } from './message-history';
+import { logger } from '../logging/logger';
+
+export class RedisMessageHistory implements MessageHistory {
+  private connectionManager: RedisConnectionManager;
+  private retention: number;
+  private pageSize: number;
+
+  constructor(connectionManager: RedisConnectionManager) {
+    this.connectionManager = connectionManager;
+    this.retention = getHistoryRetention();
+    this.pageSize = getHistoryPageSize();
+  }
+
+  async append(roomId: string, message: HistoryMessage): Promise<string> {
+    const client = await this.connectionManager.getClient();
+    const key = this.historyKey(roomId);
+
+    try {
+      // Stream IDs start with the append time, so MINID drops entries older than the retention
+      const streamId = await client.xAdd(key, '*', { message: JSON.stringify({ ...message, roomId }) }, {
+        TRIM: {
+          strategy: 'MINID',
+          strategyModifier: '~',
+          threshold: Date.now() - this.retention * 1000
+        }
+      });
+      await client.expire(key, this.retention);
+
+      return streamId;
+    } catch (error) {
+      logger.error(`Failed to store message in history of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to store message: ${error}`);
+    }
+  }
+
+  async getHistory(roomId: string, cursor?: string | null): Promise<HistoryPage> {
+    const client = await this.connectionManager.getClient();
+    const key = this.historyKey(roomId);
+
+    try {
+      if (!cursor) {
+        const entries = (await client.xRevRange(key, '+', '-', { COUNT: this.pageSize })).reverse();
+        const messages = entries.map(entry => this.toMessage(entry));
+        return {
+          messages,
+          cursor: entries.length > 0 ? entries[entries.length - 1].id : null,
+          hasMore: false
+        };
+      }
+
+      // An exclusive start skips the message the admin has already seen
+      const entries = await client.xRange(key, `(${cursor}`, '+', { COUNT: this.pageSize + 1 });
+      const page = entries.slice(0, this.pageSize);
+      return {
+        messages: page.map(entry => this.toMessage(entry)),
+        cursor: page.length > 0 ? page[page.length - 1].id : cursor,
+        hasMore: entries.length > this.pageSize
+      };
+    } catch (error) {
+      logger.error(`Failed to read history of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to read history: ${error}`);
+    }
+  }
+
+  private toMessage(entry: { id: string; message: Record<string, string> }): HistoryMessage {
+    return { ...JSON.parse(entry.message.message), historyCursor: entry.id };
+  }
+
+  private historyKey(roomId: string): string {
+    return `room:${roomId}:history`;
+  }
+}
@@ -0,0 +1,169 @@
+// Generated from protocol/backend/logging/logger.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * Logger
+ * Writes one JSON object per line with the level, the message and the fields of
+ * the frame being handled: connection, room, message and trace. Lines below
+ * LOG_LEVEL are dropped, and message content is redacted unless
+ * LOG_MESSAGE_CONTENT=true.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { getTracer } from '../tracing/tracer';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Free text of audience requests; the rest of a frame is safe to log
+const CONTENT_FIELDS = new Set(['content']);
+// Credentials are redacted regardless of LOG_MESSAGE_CONTENT
+const SECRET_FIELDS = new Set(['token', 'adminToken', 'password', 'secret', 'authorization']);
+const REDACTED = '[redacted]';
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LOG_LEVELS;
+}
+
+export function parseLogLevel(value: string | undefined, fallback: LogLevel = 'info'): LogLevel {
+  const level = value?.trim().toLowerCase();
+  return isLogLevel(level) ? level : fallback;
+}
+
+let minimumLevel: LogLevel = parseLogLevel(process.env.LOG_LEVEL);
+let logContent = process.env.LOG_MESSAGE_CONTENT === 'true';
+
+export function setLogLevel(level: LogLevel): void {
+  minimumLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+  return minimumLevel;
+}
+
+/**
+ * Log message content instead of redacting it, e.g. while debugging locally
+ */
+export function setLogContent(enabled: boolean): void {
+  logContent = enabled;
+}
+
+const logContexts = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run a function with fields added to every line logged while it runs, e.g. the connection of a frame
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContexts.run({ ...logContexts.getStore(), ...fields }, fn);
+}
+
+/**
+ * Add fields to the current log context, e.g. the room once the session has been read
+ */
+export function addLogContext(fields: LogFields): void {
+  const context = logContexts.getStore();
+
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
+
+export class Logger {
+  private fields: LogFields;
+
+  constructor(fields: LogFields = {}) {
+    this.fields = fields;
+  }
+
+  /**
+   * A logger adding fields to every line, e.g. the component logging it
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[minimumLevel];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const span = getTracer().activeSpan();
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...logContexts.getStore(),
+      ...this.fields,
+      ...redact(fields) as LogFields,
+      traceId: span?.context.traceId,
+      spanId: span?.context.spanId
+    });
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Copy a value for logging, with errors made serializable and content and credentials redacted
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  // Deeper structures are not worth the cost of walking them for every line
+  if (depth >= 5) {
+    return '[truncated]';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const copy: LogFields = {};
+
+  for (const [key, field] of Object.entries(value)) {
+    if (SECRET_FIELDS.has(key) && field !== undefined) {
+      copy[key] = REDACTED;
+    } else if (CONTENT_FIELDS.has(key) && !logContent && field !== undefined) {
+      copy[key] = REDACTED;
+    } else {
+      copy[key] = redact(field, depth + 1);
+    }
+  }
+
+  return copy;
+}
+
+export const logger = new Logger();
@@ -1,105 +1,201 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { randomUUID } from 'crypto';
 import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
 import { createConnectionManager } from './connection';
+import { LOBBY_ROOM_ID, createRoomRegistry } from './rooms';
+import { ReactionCatalog } from './reactions/reaction-catalog';
+import { createAdminAuthenticator } from './auth';
+import { createRoutingPolicy } from './routing/routing-policy';
+import { createRateLimiter, loadRateLimitConfig } from './ratelimit';
+import { createMessageHistory } from './history';
+import { createReactionAggregator } from './aggregation';
+import { createMessageLog } from './messaging/message-log-factory';
+import { ConnectionSession, MessagingEngine } from './messaging/messaging-engine';
+import { ErrorCode, ServerFrame, parseClientEnvelope } from './protocol';
+import { getTracer } from './tracing/tracer';
+import { getMetrics } from './metrics/embedded-metrics';
+import { logger, setLogLevel, withLogContext } from './logging/logger';
+import { getConfigurationManager } from './config';
+
+// Honour the configured LOG_LEVEL in every module logging through the shared logger
+setLogLevel(getConfigurationManager().getConfiguration().logLevel);
 
 const connectionManager = createConnectionManager();
+const roomRegistry = createRoomRegistry();
 const apigateway = new ApiGatewayManagementApiClient({
   endpoint: process.env.WEBSOCKET_API_ENDPOINT,
 });
 
-interface MessageData {
-  action: string;
-  data?: {
-    content?: string;
-    connectionType?: string;
-  };
+// Frames are handled by the shared engine, this handler only posts to API Gateway connections
+const messagingEngine = new MessagingEngine({
+  connectionManager,
+  roomRegistry,
+  reactionCatalog: new ReactionCatalog(),
+  routingPolicy: createRoutingPolicy(roomId => roomRegistry.nextRoundRobinCounter(roomId)),
+  rateLimiter: createRateLimiter(),
+  rateLimitConfig: loadRateLimitConfig(),
+  transport: { send: postToConnection },
+  getAdminAuthenticator: createAdminAuthenticator,
+  reactionAggregator: createReactionAggregator(),
+  messageLog: createMessageLog(),
+  messageHistory: createMessageHistory(),
+});
+
+// Failures of the backend rather than of the frame, which the handler errors alarm watches
+const HANDLER_ERROR_CODES: ErrorCode[] = ['STORAGE_UNAVAILABLE', 'INTERNAL_ERROR'];
+
+const ERROR_STATUS_CODES: Record<ErrorCode, number> = {
+  INVALID_PAYLOAD: 400,
+  UNSUPPORTED_VERSION: 400,
+  UNKNOWN_ACTION: 400,
+  NOT_AUTHORIZED: 403,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  NO_ADMIN_AVAILABLE: 503,
+  STORAGE_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500,
+};
+
+async function postToConnection(connectionId: string, frame: ServerFrame): Promise<boolean> {
+  const metrics = getMetrics();
+  const room = 'roomId' in frame ? { Room: frame.roomId } : {};
+
+  try {
+    await getTracer().withChildSpan('ApiGatewayManagementApi.PostToConnection', {
+      kind: 'client',
+      attributes: {
+        'rpc.system': 'aws-api',
+        'rpc.service': 'ApiGatewayManagementApi',
+        'rpc.method': 'PostToConnection',
+        'messaging.connection_id': connectionId,
+        'messaging.frame_type': frame.type,
+      },
+    }, () => apigateway.send(new PostToConnectionCommand({
+      ConnectionId: connectionId,
+      Data: JSON.stringify(frame),
+    })));
+
+    metrics.record('Deliveries', 1, 'Count', room);
+    // Requests and alerts fanned out to the admins of a room
+    if (frame.type === 'userRequest' || frame.type === 'reactionAlert') {
+      metrics.record('RequestsDelivered', 1, 'Count', room);
+    }
+    return true;
+  } catch (error: any) {
+    logger.error('Failed to send message', { recipientConnectionId: connectionId, error });
+
+    // If connection is stale, remove it using abstraction layer
+    if (error.statusCode === 410) {
+      metrics.record('StaleConnections', 1, 'Count', room);
+
+      try {
+        await connectionManager.removeConnection(connectionId);
+        logger.info('Removed stale connection', { recipientConnectionId: connectionId });
+      } catch (removeError) {
+        logger.error('Failed to remove stale connection', { recipientConnectionId: connectionId, error: removeError });
+      }
+    } else {
+      metrics.record('DeliveryFailures', 1, 'Count', room);
+    }
+    return false;
+  }
+}
+
+/**
+ * Read the sender's session for the engine, first answering the unknown room it asked for while
+ * connecting, which the connect handler could not post about. Joining still succeeds if the room
+ * has been created since. Read failures are left to the engine, which reads again and reports them.
+ */
+async function readSession(connectionId: string, correlationId: string): Promise<ConnectionSession | undefined> {
+  try {
+    const metadata = await connectionManager.getConnectionMetadata(connectionId);
+    const session: ConnectionSession = {
+      connectionId,
+      connectionType: metadata?.connectionType || 'user',
+      adminRole: metadata?.adminRole,
+      roomId: metadata?.roomId || LOBBY_ROOM_ID,
+    };
+
+    if (metadata?.pendingRoomId) {
+      const { pendingRoomId, ...settled } = metadata;
+      await connectionManager.storeConnection(connectionId, metadata.connectionType, settled);
+      await messagingEngine.joinRoom(session, pendingRoomId, correlationId);
+    }
+
+    return session;
+  } catch (error) {
+    logger.warn('Failed to read the session of the connection', { error });
+    return undefined;
+  }
 }
 
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   const { connectionId } = event.requestContext;
-  
-  console.log(`Message received from connection: ${connectionId}`);
-  console.log('Event body:', event.body);
+  // API Gateway's request ID also appears in its access logs
+  const correlationId = event.requestContext.requestId || randomUUID();
+
+  return withLogContext({ connectionId, correlationId }, () => handleMessage(event, correlationId));
+};
+
+async function handleMessage(event: APIGatewayProxyEvent, correlationId: string): Promise<APIGatewayProxyResult> {
+  const { connectionId } = event.requestContext;
+
+  logger.info('Message received');
 
   if (!connectionId) {
     return {
       statusCode: 400,
-      body: JSON.stringify({ message: 'Connection ID is required' }),
+      body: JSON.stringify({ code: 'INVALID_PAYLOAD', message: 'Connection ID is required', correlationId }),
     };
   }
 
-  try {
-    const messageData: MessageData = JSON.parse(event.body || '{}');
-    
-    if (messageData.action === 'sendMessage') {
-      // This is a message from user interface - broadcast to admin connections
-      const message = {
-        content: messageData.data?.content || 'speak german',
-        timestamp: new Date().toISOString(),
-        from: 'user',
-      };
-
-      // Get all admin connections using abstraction layer
-      const adminConnectionIds = await connectionManager.getConnections('admin');
-
-      console.log(`Found ${adminConnectionIds.length} admin connections`);
-
-      // Send message to all admin connections
-      const sendPromises = adminConnectionIds.map(async (adminConnectionId: string) => {
-        try {
-          await apigateway.send(new PostToConnectionCommand({
-            ConnectionId: adminConnectionId,
-            Data: JSON.stringify(message),
-          }));
-          console.log(`Message sent to admin connection: ${adminConnectionId}`);
-        } catch (error: any) {
-          console.error(`Failed to send message to ${adminConnectionId}:`, error);
-          
-          // If connection is stale, remove it using abstraction layer
-          if (error.statusCode === 410) {
-            await connectionManager.removeConnection(adminConnectionId);
-            console.log(`Removed stale connection: ${adminConnectionId}`);
-          }
-        }
-      });
-
-      await Promise.all(sendPromises);
-
-      return {
-        statusCode: 200,
-        body: JSON.stringify({ message: 'Message sent to admin connections' }),
-      };
-    } else if (messageData.action === 'setConnectionType') {
-      // Update connection type using abstraction layer
-      const connectionType = messageData.data?.connectionType || 'admin';
-      
-      // Validate connection type
-      if (connectionType !== 'user' && connectionType !== 'admin') {
-        return {
-          statusCode: 400,
-          body: JSON.stringify({ message: 'Invalid connection type. Must be "user" or "admin"' }),
-        };
-      }
-      
-      await connectionManager.updateConnectionType(connectionId, connectionType as 'user' | 'admin');
+  const body = event.body || '{}';
+  const parsed = parseClientEnvelope(body);
+  const tracer = getTracer();
+  const metrics = getMetrics();
+  const startedAt = Date.now();
 
-      console.log(`Connection ${connectionId} type set to: ${connectionType}`);
+  // Actions the engine does not know would let clients create any number of metrics
+  const action = parsed.ok && messagingEngine.actions.get(parsed.frame.action) ? parsed.frame.action : 'unknown';
+  metrics.setDimensions({ Action: action });
 
-      return {
-        statusCode: 200,
-        body: JSON.stringify({ message: 'Connection type updated' }),
-      };
-    }
+  // The invocation continues the sender's trace; spans are exported before Lambda freezes the process
+  const outcome = await tracer.withSpan('message-handler', {
+    kind: 'server',
+    parent: (parsed.ok && parsed.frame.traceparent) || null,
+    attributes: {
+      'faas.invocation_id': correlationId,
+      'messaging.connection_id': connectionId,
+      'messaging.action': parsed.ok ? parsed.frame.action : undefined,
+    },
+  }, async () => messagingEngine.handleFrame(connectionId, body, {
+    correlationId,
+    session: await readSession(connectionId, correlationId),
+    clientIp: event.requestContext.identity?.sourceIp,
+    // API Gateway's receive time, so the latency includes its part of the delivery
+    receivedAt: event.requestContext.requestTimeEpoch,
+  })).finally(() => tracer.forceFlush());
 
+  metrics.record('Frames', 1);
+  metrics.record('HandlerDuration', Date.now() - startedAt, 'Milliseconds');
+  if (!outcome.ok) {
+    metrics.record('FrameErrors', 1);
+  }
+  if (!outcome.ok && HANDLER_ERROR_CODES.includes(outcome.code)) {
+    metrics.record('HandlerErrors', 1);
+  }
+  metrics.flush();
+
+  // The sender has already been told, the status code only shows up in API Gateway's logs
+  if (!outcome.ok) {
     return {
-      statusCode: 400,
-      body: JSON.stringify({ message: 'Unknown action' }),
-    };
-  } catch (error) {
-    console.error('Error handling message:', error);
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ message: 'Internal server error' }),
+      statusCode: ERROR_STATUS_CODES[outcome.code],
+      body: JSON.stringify({ code: outcome.code, message: outcome.error, correlationId }),
     };
   }
-};
\ No newline at end of file
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ action: outcome.action, correlationId }),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * DynamoDB Message Log
+ * Appends admin-bound messages to a room's partition so admins that reconnect
+ * can replay what they missed, with IDs shaped like Redis Stream IDs
+ */
+
+import { randomInt } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { MessageLogConfig, ReplayResult, loadMessageLogConfig } from './message-log';
+import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { traceDynamoDBClient } from '../tracing/aws-tracing';
+import { logger } from '../logging/logger';
+
+// Concurrent invocations cannot share a sequence, so a random one keeps their IDs apart
+const SEQUENCE_DIGITS = 6;
+const MAX_APPEND_ATTEMPTS = 3;
+
+export class DynamoDBMessageLog {
+  private dynamodb: DynamoDBDocumentClient;
+  private tableName: string;
+  private retentionSeconds: number;
+  private replayLimit: number;
+
+  constructor(config: MessageLogConfig = loadMessageLogConfig()) {
+    const client = traceDynamoDBClient(new DynamoDBClient({}));
+    this.dynamodb = DynamoDBDocumentClient.from(client);
+
+    const adapter = ConfigurationAdapterFactory.createAdapter();
+    this.tableName = adapter.getStorageConfig().messageLogTableName || 'message-log';
+    this.retentionSeconds = config.retentionSeconds;
+    this.replayLimit = config.replayLimit;
+  }
+
+  /**
+   * Append a message to the room's log and return its stream ID
+   */
+  async append(roomId: string, message: Record<string, unknown>): Promise<string> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const now = Date.now();
+        const streamId = this.streamId(now);
+
+        try {
+          // The payload is stored as JSON, frames carry optional fields DynamoDB cannot hold as undefined
+          await this.dynamodb.send(new PutCommand({
+            TableName: this.tableName,
+            Item: {
+              roomId,
+              streamId,
+              payload: JSON.stringify(message),
+              ttl: Math.floor(now / 1000) + this.retentionSeconds,
+            },
+            ConditionExpression: 'attribute_not_exists(streamId)',
+          }));
+
+          return streamId;
+        } catch (error: any) {
+          if (error.name !== 'ConditionalCheckFailedException' || attempt >= MAX_APPEND_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to append message to log of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to append message: ${error}`);
+    }
+  }
+
+  /**
+   * Read the messages appended after the given cursor, oldest first.
+   * Without a cursor only the current position is returned.
+   */
+  async readSince(roomId: string, cursor?: string | null): Promise<ReplayResult> {
+    try {
+      if (!cursor) {
+        const result = await this.dynamodb.send(new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'roomId = :roomId',
+          ExpressionAttributeValues: { ':roomId': roomId },
+          ScanIndexForward: false,
+          Limit: 1,
+        }));
+
+        return { messages: [], cursor: result.Items?.[0]?.streamId || null, hasMore: false };
+      }
+
+      // An exclusive start skips the message the admin has already seen
+      const result = await this.dynamodb.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'roomId = :roomId AND streamId > :cursor',
+        ExpressionAttributeValues: { ':roomId': roomId, ':cursor': cursor },
+        ScanIndexForward: true,
+        Limit: this.replayLimit + 1,
+      }));
+
+      const items = result.Items || [];
+      const page = items.slice(0, this.replayLimit);
+
+      // DynamoDB deletes expired items only eventually, so messages past their retention are skipped here.
+      // The cursor still moves past them, a page of only expired messages would otherwise never advance.
+      const nowSeconds = Math.floor(Date.now() / 1000);
+      const messages = page.filter(item => item.ttl > nowSeconds).map(item => ({
+        streamId: item.streamId as string,
+        message: JSON.parse(item.payload)
+      }));
+
+      return {
+        messages,
+        cursor: page.length > 0 ? page[page.length - 1].streamId : cursor,
+        hasMore: items.length > this.replayLimit
+      };
+    } catch (error) {
+      logger.error(`Failed to read log of room ${roomId} since ${cursor}`, { roomId, error });
+      throw new Error(`Failed to read message log: ${error}`);
+    }
+  }
+
+  /**
+   * <ms>-<sequence> with both parts zero-padded, so the sort key orders like the numbers
+   */
+  private streamId(now: number): string {
+    const sequence = randomInt(0, 10 ** SEQUENCE_DIGITS);
+    return `${now.toString().padStart(13, '0')}-${sequence.toString().padStart(SEQUENCE_DIGITS, '0')}`;
+  }
+}
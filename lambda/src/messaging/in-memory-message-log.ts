@@ -0,0 +1,106 @@
+// Generated from protocol/backend/messaging/in-memory-message-log.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * In-Memory Message Log
+ * Keeps admin-bound messages per room in the memory of a single process so admins
+ * that reconnect can replay what they missed, with the same IDs as a Redis Stream
+ */
+
+import { LoggedMessage, MessageLogConfig, ReplayResult, loadMessageLogConfig } from './message-log';
+
+interface RoomLog {
+  entries: LoggedMessage[];
+  lastTime: number;
+  lastSequence: number;
+}
+
+export class InMemoryMessageLog {
+  private logs: Map<string, RoomLog> = new Map();
+  private retentionSeconds: number;
+  private replayLimit: number;
+
+  constructor(config: MessageLogConfig = loadMessageLogConfig()) {
+    this.retentionSeconds = config.retentionSeconds;
+    this.replayLimit = config.replayLimit;
+  }
+
+  /**
+   * Append a message to the room's log and return its stream ID
+   */
+  async append(roomId: string, message: Record<string, unknown>): Promise<string> {
+    const now = Date.now();
+    let log = this.logs.get(roomId);
+
+    if (!log) {
+      log = { entries: [], lastTime: 0, lastSequence: 0 };
+      this.logs.set(roomId, log);
+    }
+
+    // Stream IDs are <ms>-<sequence> and always increase, even if the clock goes back
+    if (now > log.lastTime) {
+      log.lastTime = now;
+      log.lastSequence = 0;
+    } else {
+      log.lastSequence++;
+    }
+
+    const streamId = `${log.lastTime}-${log.lastSequence}`;
+    log.entries.push({ streamId, message: JSON.parse(JSON.stringify(message)) });
+    this.trim(log, now);
+
+    return streamId;
+  }
+
+  /**
+   * Read the messages appended after the given cursor, oldest first.
+   * Without a cursor only the current position is returned.
+   */
+  async readSince(roomId: string, cursor?: string | null): Promise<ReplayResult> {
+    const log = this.logs.get(roomId);
+
+    if (log) {
+      this.trim(log, Date.now());
+    }
+
+    const entries = log?.entries || [];
+
+    if (!cursor) {
+      return { messages: [], cursor: entries.length > 0 ? entries[entries.length - 1].streamId : null, hasMore: false };
+    }
+
+    const [cursorTime, cursorSequence] = this.parseStreamId(cursor);
+    const missed = entries.filter(entry => {
+      const [time, sequence] = this.parseStreamId(entry.streamId);
+      return time > cursorTime || (time === cursorTime && sequence > cursorSequence);
+    });
+    const messages = missed.slice(0, this.replayLimit);
+
+    return {
+      messages,
+      cursor: messages.length > 0 ? messages[messages.length - 1].streamId : cursor,
+      hasMore: missed.length > this.replayLimit
+    };
+  }
+
+  /**
+   * Drop entries older than the retention window
+   */
+  private trim(log: RoomLog, now: number): void {
+    const threshold = now - this.retentionSeconds * 1000;
+
+    while (log.entries.length > 0 && this.parseStreamId(log.entries[0].streamId)[0] < threshold) {
+      log.entries.shift();
+    }
+  }
+
+  private parseStreamId(streamId: string): [number, number] {
+    const [time, sequence] = streamId.split('-');
+    const parsed: [number, number] = [Number(time), Number(sequence || 0)];
+
+    if (isNaN(parsed[0]) || isNaN(parsed[1])) {
+      throw new Error(`Invalid stream ID: ${streamId}`);
+    }
+
+    return parsed;
+  }
+}
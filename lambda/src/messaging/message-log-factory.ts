@@ -0,0 +1,44 @@
+/**
+ * Message Log Factory
+ * Creates the admin message log that matches the connection storage backend
+ */
+
+import { AdminMessageLog } from './messaging-engine';
+import { DynamoDBMessageLog } from './dynamodb-message-log';
+import { RedisMessageLog } from './redis-message-log';
+import { ConnectionManagerFactory } from '../connection/connection-manager-factory';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+export class MessageLogFactory {
+  private static instance: AdminMessageLog | null = null;
+
+  /**
+   * Create a message log backed by the same store as the connections
+   */
+  public static createMessageLog(): AdminMessageLog {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const connectionManager = ConnectionManagerFactory.createConnectionManager();
+
+    if (connectionManager instanceof RedisConnectionManager) {
+      this.instance = new RedisMessageLog(connectionManager);
+    } else {
+      this.instance = new DynamoDBMessageLog();
+    }
+
+    return this.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    this.instance = null;
+  }
+}
+
+export function createMessageLog(): AdminMessageLog {
+  return MessageLogFactory.createMessageLog();
+}
@@ -0,0 +1,84 @@
+// Generated from protocol/backend/messaging/redis-message-log.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * Redis Message Log
+ * Appends admin-bound messages to a Redis Stream per room so admins that
+ * reconnect can replay what they missed
+ */
+
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+import { MessageLogConfig, ReplayResult, loadMessageLogConfig } from './message-log';
+import { logger } from '../logging/logger';
+
+export class RedisMessageLog {
+  private connectionManager: RedisConnectionManager;
+  private retentionSeconds: number;
+  private replayLimit: number;
+
+  constructor(connectionManager: RedisConnectionManager, config: MessageLogConfig = loadMessageLogConfig()) {
+    this.connectionManager = connectionManager;
+    this.retentionSeconds = config.retentionSeconds;
+    this.replayLimit = config.replayLimit;
+  }
+
+  /**
+   * Append a message to the room's stream and return its stream ID
+   */
+  async append(roomId: string, message: Record<string, unknown>): Promise<string> {
+    const client = await this.connectionManager.getClient();
+    const key = this.streamKey(roomId);
+
+    try {
+      // Stream IDs start with the append time, so MINID drops entries older than the retention window
+      const streamId = await client.xAdd(key, '*', { payload: JSON.stringify(message) }, {
+        TRIM: {
+          strategy: 'MINID',
+          strategyModifier: '~',
+          threshold: Date.now() - this.retentionSeconds * 1000
+        }
+      });
+      await client.expire(key, this.retentionSeconds);
+
+      return streamId;
+    } catch (error) {
+      logger.error(`Failed to append message to log of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to append message: ${error}`);
+    }
+  }
+
+  /**
+   * Read the messages appended after the given cursor, oldest first.
+   * Without a cursor only the current position is returned.
+   */
+  async readSince(roomId: string, cursor?: string | null): Promise<ReplayResult> {
+    const client = await this.connectionManager.getClient();
+    const key = this.streamKey(roomId);
+
+    try {
+      if (!cursor) {
+        const [latest] = await client.xRevRange(key, '+', '-', { COUNT: 1 });
+        return { messages: [], cursor: latest?.id || null, hasMore: false };
+      }
+
+      // An exclusive start skips the message the admin has already seen
+      const entries = await client.xRange(key, `(${cursor}`, '+', { COUNT: this.replayLimit + 1 });
+      const messages = entries.slice(0, this.replayLimit).map(entry => ({
+        streamId: entry.id,
+        message: JSON.parse(entry.message.payload)
+      }));
+
+      return {
+        messages,
+        cursor: messages.length > 0 ? messages[messages.length - 1].streamId : cursor,
+        hasMore: entries.length > this.replayLimit
+      };
+    } catch (error) {
+      logger.error(`Failed to read log of room ${roomId} since ${cursor}`, { roomId, error });
+      throw new Error(`Failed to read message log: ${error}`);
+    }
+  }
+
+  private streamKey(roomId: string): string {
+    return `room:${roomId}:log`;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Embedded Metrics
+ * CloudWatch metrics written to the function's log stream in the Embedded Metric
+ * Format, from which CloudWatch extracts them without an API call per metric.
+ * Every metric is aggregated per environment, and per action and room where known.
+ */
+
+export type MetricUnit = 'Count' | 'Milliseconds';
+
+export interface MetricDimensions {
+  Action?: string;
+  Room?: string;
+}
+
+export interface EmbeddedMetricsOptions {
+  namespace?: string;
+  environment?: string;
+  /**
+   * Nothing extracts EMF outside of Lambda, so lines are only written there by default
+   */
+  enabled?: boolean;
+  write?: (line: string) => void;
+}
+
+interface MetricGroup {
+  dimensions: MetricDimensions;
+  metrics: Map<string, { unit: MetricUnit; values: number[] }>;
+}
+
+const DIMENSION_SETS = [['Environment'], ['Environment', 'Action'], ['Environment', 'Room']];
+
+// EMF takes at most 100 values per metric in one line
+const MAX_VALUES_PER_METRIC = 100;
+
+export class EmbeddedMetrics {
+  private namespace: string;
+  private environment: string;
+  private enabled: boolean;
+  private write: (line: string) => void;
+  private defaultDimensions: MetricDimensions = {};
+  private groups: Map<string, MetricGroup> = new Map();
+
+  constructor(options: EmbeddedMetricsOptions = {}) {
+    this.namespace = options.namespace || process.env.METRICS_NAMESPACE || 'UserAdminMessaging';
+    this.environment = options.environment || process.env.ENVIRONMENT || 'development';
+    this.enabled = options.enabled ?? Boolean(process.env.AWS_LAMBDA_FUNCTION_NAME);
+    // Lambda prefixes console output with the time and request ID, which CloudWatch would not parse as EMF
+    this.write = options.write || (line => process.stdout.write(`${line}\n`));
+  }
+
+  /**
+   * Dimensions of every metric recorded until the next flush, e.g. the action of the invocation
+   */
+  setDimensions(dimensions: MetricDimensions): void {
+    this.defaultDimensions = dimensions;
+  }
+
+  record(name: string, value: number, unit: MetricUnit = 'Count', dimensions: MetricDimensions = {}): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const merged = { ...this.defaultDimensions, ...dimensions };
+    const key = `${merged.Action || ''}\u0000${merged.Room || ''}`;
+    let group = this.groups.get(key);
+
+    if (!group) {
+      group = { dimensions: merged, metrics: new Map() };
+      this.groups.set(key, group);
+    }
+
+    let metric = group.metrics.get(name);
+
+    if (!metric) {
+      metric = { unit, values: [] };
+      group.metrics.set(name, metric);
+    }
+
+    metric.values.push(value);
+
+    if (metric.values.length >= MAX_VALUES_PER_METRIC) {
+      this.write(this.format(group));
+      this.groups.delete(key);
+    }
+  }
+
+  /**
+   * Write the recorded metrics, one line per combination of dimension values
+   */
+  flush(): void {
+    for (const group of this.groups.values()) {
+      this.write(this.format(group));
+    }
+
+    this.groups.clear();
+    this.defaultDimensions = {};
+  }
+
+  private format(group: MetricGroup): string {
+    const dimensions: Record<string, string> = { Environment: this.environment };
+
+    for (const [name, value] of Object.entries(group.dimensions)) {
+      if (value !== undefined) {
+        dimensions[name] = value;
+      }
+    }
+
+    const values: Record<string, number | number[]> = {};
+
+    for (const [name, metric] of group.metrics) {
+      values[name] = metric.values.length === 1 ? metric.values[0] : metric.values;
+    }
+
+    return JSON.stringify({
+      _aws: {
+        Timestamp: Date.now(),
+        CloudWatchMetrics: [{
+          Namespace: this.namespace,
+          Dimensions: DIMENSION_SETS.filter(set => set.every(name => name in dimensions)),
+          Metrics: Array.from(group.metrics, ([name, metric]) => ({ Name: name, Unit: metric.unit }))
+        }]
+      },
+      ...dimensions,
+      ...values
+    });
+  }
+}
+
+let metrics: EmbeddedMetrics | null = null;
+
+/**
+ * The process-wide metrics, configured from the environment on first use
+ */
+export function getMetrics(): EmbeddedMetrics {
+  if (!metrics) {
+    metrics = new EmbeddedMetrics();
+  }
+
+  return metrics;
+}
@@ -0,0 +1,64 @@
+/**
+ * DynamoDB Rate Limiter
+ * Keeps token buckets in DynamoDB so concurrent Lambda invocations enforce the same limits
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { RateLimiter, RateLimitResult, TokenBucketConfig, bucketTtlSeconds, takeToken } from './rate-limiter';
+import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { traceDynamoDBClient } from '../tracing/aws-tracing';
+import { logger } from '../logging/logger';
+
+const MAX_UPDATE_ATTEMPTS = 3;
+
+export class DynamoDBRateLimiter implements RateLimiter {
+  private dynamodb: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    const client = traceDynamoDBClient(new DynamoDBClient({}));
+    this.dynamodb = DynamoDBDocumentClient.from(client);
+
+    const adapter = ConfigurationAdapterFactory.createAdapter();
+    this.tableName = adapter.getStorageConfig().rateLimitsTableName || 'rate-limits';
+  }
+
+  async consume(key: string, bucket: TokenBucketConfig): Promise<RateLimitResult> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const current = await this.dynamodb.send(new GetCommand({
+        TableName: this.tableName,
+        Key: { bucketKey: key },
+        ConsistentRead: true,
+      }));
+
+      const previous = current.Item ? { tokens: current.Item.tokens, updatedAt: current.Item.updatedAt } : null;
+      const { state, result } = takeToken(previous, bucket, now);
+
+      try {
+        // Optimistic locking on updatedAt, a concurrent invocation forces a re-read
+        await this.dynamodb.send(new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            bucketKey: key,
+            ...state,
+            ttl: Math.floor(now / 1000) + bucketTtlSeconds(bucket),
+          },
+          ConditionExpression: previous ? 'updatedAt = :previousUpdatedAt' : 'attribute_not_exists(bucketKey)',
+          ExpressionAttributeValues: previous ? { ':previousUpdatedAt': previous.updatedAt } : undefined,
+        }));
+
+        return result;
+      } catch (error: any) {
+        if (error.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+      }
+    }
+
+    // Persistent contention on one bucket means it is being hammered
+    logger.info(`Rate limit bucket ${key} is contended, throttling`);
+    return { allowed: false, remaining: 0, retryAfterMs: Math.ceil(1000 / bucket.refillPerSecond) };
+  }
+}
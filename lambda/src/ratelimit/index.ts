@@ -0,0 +1,30 @@
+/**
+ * Rate Limiting Module
+ * Exports all rate-limit-related interfaces and implementations
+ */
+
+// Interfaces
+export {
+  RateLimiter,
+  RateLimitConfig,
+  RateLimitResult,
+  TokenBucketConfig,
+  TokenBucketState,
+  checkRateLimits,
+  loadRateLimitConfig,
+  takeToken
+} from './rate-limiter';
+
+// Implementations
+export { DynamoDBRateLimiter } from './dynamodb-rate-limiter';
+export { RedisRateLimiter } from './redis-rate-limiter';
+
+// Factory
+export { RateLimiterFactory } from './rate-limiter-factory';
+
+// Convenience function
+import { RateLimiterFactory } from './rate-limiter-factory';
+
+export function createRateLimiter() {
+  return RateLimiterFactory.createRateLimiter();
+}
@@ -0,0 +1,40 @@
+/**
+ * Rate Limiter Factory
+ * Creates the rate limiter that matches the connection storage backend
+ */
+
+import { RateLimiter } from './rate-limiter';
+import { DynamoDBRateLimiter } from './dynamodb-rate-limiter';
+import { RedisRateLimiter } from './redis-rate-limiter';
+import { ConnectionManagerFactory } from '../connection/connection-manager-factory';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+export class RateLimiterFactory {
+  private static instance: RateLimiter | null = null;
+
+  /**
+   * Create a rate limiter backed by the same store as the connections
+   */
+  public static createRateLimiter(): RateLimiter {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const connectionManager = ConnectionManagerFactory.createConnectionManager();
+
+    if (connectionManager instanceof RedisConnectionManager) {
+      this.instance = new RedisRateLimiter(connectionManager);
+    } else {
+      this.instance = new DynamoDBRateLimiter();
+    }
+
+    return this.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    this.instance = null;
+  }
+}
@@ -0,0 +1,64 @@
+// Generated from protocol/backend/ratelimit/redis-rate-limiter.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * Redis Rate Limiter
+ * Keeps token buckets in Redis so every pod enforces the same limits
+ */
+
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+import { RateLimiter, RateLimitResult, TokenBucketConfig, bucketTtlSeconds } from './rate-limiter';
+
+// Same arithmetic as takeToken(), run as a script so concurrent pods cannot race on a bucket
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerSecond = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = capacity
+if state[1] then
+  local elapsed = math.max(0, now - tonumber(state[2]))
+  tokens = math.min(capacity, tonumber(state[1]) + elapsed * refillPerSecond / 1000)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('EXPIRE', KEYS[1], tonumber(ARGV[4]))
+return { allowed, tostring(tokens) }
+`;
+
+export class RedisRateLimiter implements RateLimiter {
+  private connectionManager: RedisConnectionManager;
+
+  constructor(connectionManager: RedisConnectionManager) {
+    this.connectionManager = connectionManager;
+  }
+
+  async consume(key: string, bucket: TokenBucketConfig): Promise<RateLimitResult> {
+    const client = await this.connectionManager.getClient();
+
+    const [allowed, tokens] = await client.eval(TAKE_TOKEN_SCRIPT, {
+      keys: [key],
+      arguments: [
+        bucket.capacity.toString(),
+        bucket.refillPerSecond.toString(),
+        Date.now().toString(),
+        bucketTtlSeconds(bucket).toString()
+      ]
+    }) as [number, string];
+
+    const available = parseFloat(tokens);
+
+    if (allowed === 1) {
+      return { allowed: true, remaining: Math.floor(available), retryAfterMs: 0 };
+    }
+
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: Math.ceil(((1 - available) * 1000) / bucket.refillPerSecond)
+    };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * DynamoDB Room Registry
+ * Stores talk rooms in DynamoDB for Lambda environments
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Room, RoomRegistry, generateJoinCode, normalizeJoinCode } from './room-registry';
+import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { traceDynamoDBClient } from '../tracing/aws-tracing';
+import { logger } from '../logging/logger';
+
+const MAX_CREATE_ATTEMPTS = 5;
+
+export class DynamoDBRoomRegistry implements RoomRegistry {
+  private dynamodb: DynamoDBDocumentClient;
+  private tableName: string;
+  private ttl: number;
+
+  constructor() {
+    const client = traceDynamoDBClient(new DynamoDBClient({}));
+    this.dynamodb = DynamoDBDocumentClient.from(client);
+
+    const adapter = ConfigurationAdapterFactory.createAdapter();
+    const storageConfig = adapter.getStorageConfig();
+
+    this.tableName = storageConfig.roomsTableName || 'rooms';
+    this.ttl = storageConfig.ttl;
+  }
+
+  async createRoom(name?: string): Promise<Room> {
+    for (let attempt = 0; attempt < MAX_CREATE_ATTEMPTS; attempt++) {
+      const room: Room = {
+        roomId: generateJoinCode(),
+        name,
+        createdAt: Date.now(),
+        ttl: Math.floor(Date.now() / 1000) + this.ttl
+      };
+
+      try {
+        // The condition keeps an existing room from being overwritten by a colliding code
+        await this.dynamodb.send(new PutCommand({
+          TableName: this.tableName,
+          Item: room,
+          ConditionExpression: 'attribute_not_exists(roomId)',
+        }));
+
+        logger.debug(`Room ${room.roomId} created in DynamoDB`);
+        return room;
+      } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+          continue;
+        }
+
+        logger.error('Failed to create room', { error });
+        throw new Error(`Failed to create room: ${error}`);
+      }
+    }
+
+    throw new Error('Failed to create room: no free join code found');
+  }
+
+  async getRoom(roomId: string): Promise<Room | null> {
+    try {
+      const result = await this.dynamodb.send(new GetCommand({
+        TableName: this.tableName,
+        Key: { roomId: normalizeJoinCode(roomId) },
+      }));
+
+      // DynamoDB TTL deletion is lazy, so expired items can still be returned
+      if (!result.Item || (result.Item.ttl && result.Item.ttl < Math.floor(Date.now() / 1000))) {
+        return null;
+      }
+
+      return result.Item as Room;
+    } catch (error) {
+      logger.error(`Failed to get room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to get room: ${error}`);
+    }
+  }
+
+  async roomExists(roomId: string): Promise<boolean> {
+    return (await this.getRoom(roomId)) !== null;
+  }
+
+  async nextRoundRobinCounter(roomId: string): Promise<number> {
+    try {
+      // ADD is atomic, so concurrent Lambda invocations never hand out the same value
+      const result = await this.dynamodb.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { roomId },
+        UpdateExpression: 'ADD roundRobinCounter :one',
+        ExpressionAttributeValues: { ':one': 1 },
+        ReturnValues: 'UPDATED_NEW',
+      }));
+
+      return result.Attributes?.roundRobinCounter || 0;
+    } catch (error) {
+      logger.error(`Failed to advance round-robin counter of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to advance round-robin counter: ${error}`);
+    }
+  }
+}
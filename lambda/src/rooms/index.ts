@@ -0,0 +1,27 @@
+/**
+ * Rooms Module
+ * Exports all room-related interfaces and implementations
+ */
+
+// Interfaces
+export {
+  Room,
+  RoomRegistry,
+  LOBBY_ROOM_ID,
+  generateJoinCode,
+  normalizeJoinCode
+} from './room-registry';
+
+// Implementations
+export { DynamoDBRoomRegistry } from './dynamodb-room-registry';
+export { RedisRoomRegistry } from './redis-room-registry';
+
+// Factory
+export { RoomRegistryFactory } from './room-registry-factory';
+
+// Convenience function
+import { RoomRegistryFactory } from './room-registry-factory';
+
+export function createRoomRegistry() {
+  return RoomRegistryFactory.createRoomRegistry();
+}
@@ -0,0 +1,84 @@
+/**
+ * Redis Room Registry
+ * Stores talk rooms in Redis so every pod can resolve join codes
+ */
+
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+import { ConfigurationAdapterFactory } from '../config/configuration-adapter';
+import { Room, RoomRegistry, generateJoinCode, normalizeJoinCode } from './room-registry';
+import { logger } from '../logging/logger';
+
+const MAX_CREATE_ATTEMPTS = 5;
+
+export class RedisRoomRegistry implements RoomRegistry {
+  private connectionManager: RedisConnectionManager;
+  private ttl: number;
+
+  constructor(connectionManager: RedisConnectionManager) {
+    this.connectionManager = connectionManager;
+    this.ttl = ConfigurationAdapterFactory.createAdapter().getStorageConfig().ttl;
+  }
+
+  async createRoom(name?: string): Promise<Room> {
+    const client = await this.connectionManager.getClient();
+
+    try {
+      for (let attempt = 0; attempt < MAX_CREATE_ATTEMPTS; attempt++) {
+        const room: Room = {
+          roomId: generateJoinCode(),
+          name,
+          createdAt: Date.now(),
+          ttl: Math.floor(Date.now() / 1000) + this.ttl
+        };
+
+        // NX keeps an existing room from being overwritten by a colliding code
+        const result = await client.set(`room:${room.roomId}`, JSON.stringify(room), {
+          NX: true,
+          EX: this.ttl
+        });
+
+        if (result === 'OK') {
+          logger.debug(`Room ${room.roomId} created in Redis`);
+          return room;
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to create room', { error });
+      throw new Error(`Failed to create room: ${error}`);
+    }
+
+    throw new Error('Failed to create room: no free join code found');
+  }
+
+  async getRoom(roomId: string): Promise<Room | null> {
+    const client = await this.connectionManager.getClient();
+
+    try {
+      const data = await client.get(`room:${normalizeJoinCode(roomId)}`);
+      return data ? JSON.parse(data) as Room : null;
+    } catch (error) {
+      logger.error(`Failed to get room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to get room: ${error}`);
+    }
+  }
+
+  async roomExists(roomId: string): Promise<boolean> {
+    return (await this.getRoom(roomId)) !== null;
+  }
+
+  async nextRoundRobinCounter(roomId: string): Promise<number> {
+    const client = await this.connectionManager.getClient();
+    const key = `room:${roomId}:round-robin`;
+
+    try {
+      const counter = await client.incr(key);
+      if (counter === 1) {
+        await client.expire(key, this.ttl);
+      }
+      return counter;
+    } catch (error) {
+      logger.error(`Failed to advance round-robin counter of room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to advance round-robin counter: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Room Registry Factory
+ * Creates the room registry that matches the connection storage backend
+ */
+
+import { RoomRegistry } from './room-registry';
+import { DynamoDBRoomRegistry } from './dynamodb-room-registry';
+import { RedisRoomRegistry } from './redis-room-registry';
+import { ConnectionManagerFactory } from '../connection/connection-manager-factory';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+export class RoomRegistryFactory {
+  private static instance: RoomRegistry | null = null;
+
+  /**
+   * Create a room registry backed by the same store as the connections
+   */
+  public static createRoomRegistry(): RoomRegistry {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const connectionManager = ConnectionManagerFactory.createConnectionManager();
+
+    if (connectionManager instanceof RedisConnectionManager) {
+      this.instance = new RedisRoomRegistry(connectionManager);
+    } else {
+      this.instance = new DynamoDBRoomRegistry();
+    }
+
+    return this.instance;
+  }
+
+  /**
+   * Reset the singleton instance (useful for testing)
+   */
+  public static resetInstance(): void {
+    this.instance = null;
+  }
+}
@@ -0,0 +1,61 @@
+// Generated from protocol/backend/rooms/room-registry.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * Room Registry Interface
+ * Defines talk rooms that scope message routing to a single session
+ */
+
+import { randomInt } from 'crypto';
+
+/**
+ * Room that connections belong to until they join a talk with a join code
+ */
+export const LOBBY_ROOM_ID = 'lobby';
+
+// Unambiguous characters only, so codes can be read off a projector
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+export interface Room {
+  roomId: string;
+  name?: string;
+  createdAt: number;
+  ttl?: number;
+}
+
+export interface RoomRegistry {
+  /**
+   * Create a room with a fresh join code
+   */
+  createRoom(name?: string): Promise<Room>;
+
+  /**
+   * Get a room by its join code
+   */
+  getRoom(roomId: string): Promise<Room | null>;
+
+  /**
+   * Check if a room exists
+   */
+  roomExists(roomId: string): Promise<boolean>;
+
+  /**
+   * Increment and return the room's shared round-robin counter
+   */
+  nextRoundRobinCounter(roomId: string): Promise<number>;
+}
+
+export function generateJoinCode(): string {
+  let code = '';
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalize user-entered join codes (case and surrounding whitespace)
+ */
+export function normalizeJoinCode(roomId: string): string {
+  return roomId.trim().toUpperCase();
+}
@@ -0,0 +1,34 @@
+/**
+ * AWS Tracing
+ * Records a client span for every DynamoDB call made while a frame is traced
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { getTracer } from './tracer';
+
+/**
+ * Add the tracing middleware to a DynamoDB client. Document clients created
+ * from it share its middleware stack, so their commands are traced as well.
+ */
+export function traceDynamoDBClient(client: DynamoDBClient): DynamoDBClient {
+  client.middlewareStack.add(
+    (next, context) => async args => {
+      const operation = context.commandName?.replace(/Command$/, '') || 'unknown';
+      const input = args.input as { TableName?: string };
+
+      return getTracer().withChildSpan(`DynamoDB.${operation}`, {
+        kind: 'client',
+        attributes: {
+          'db.system': 'dynamodb',
+          'rpc.system': 'aws-api',
+          'rpc.service': 'DynamoDB',
+          'rpc.method': operation,
+          'aws.dynamodb.table_names': input.TableName
+        }
+      }, () => next(args));
+    },
+    { step: 'initialize', name: 'tracingMiddleware' }
+  );
+
+  return client;
+}
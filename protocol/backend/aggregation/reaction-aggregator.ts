@@ -0,0 +1,68 @@
+/**
+ * Reaction Aggregator
+ * Counters and alert thresholds shared by the Redis and in-memory aggregators
+ */
+
+export interface ReactionCounter {
+  reactionId: string;
+  count: number;
+  percent: number;
+}
+
+export interface ReactionAlert extends ReactionCounter {
+  roomId: string;
+  audienceSize: number;
+  threshold: 'count' | 'percent';
+  windowSeconds: number;
+  timestamp: string;
+}
+
+export interface Requester {
+  connectionId: string;
+  requestId?: string;
+}
+
+export interface AggregationResult {
+  counter: ReactionCounter;
+  alert: ReactionAlert | null;
+}
+
+export interface AggregationConfig {
+  windowSeconds: number;
+  /**
+   * Unique requesters that raise an alert, 0 disables the check
+   */
+  thresholdCount: number;
+  /**
+   * Percentage of the audience that raises an alert, 0 disables the check
+   */
+  thresholdPercent: number;
+}
+
+export function loadAggregationConfig(): AggregationConfig {
+  return {
+    windowSeconds: parseInt(process.env.AGGREGATION_WINDOW || '60'), // 1 minute default
+    thresholdCount: parseInt(process.env.ALERT_THRESHOLD_COUNT || '5'),
+    thresholdPercent: parseFloat(process.env.ALERT_THRESHOLD_PERCENT || '10')
+  };
+}
+
+export function buildCounter(reactionId: string, count: number, audienceSize: number): ReactionCounter {
+  const percent = audienceSize > 0 ? Math.round((count / audienceSize) * 1000) / 10 : 0;
+  return { reactionId, count, percent };
+}
+
+/**
+ * The threshold a counter is over, checking the absolute count first
+ */
+export function crossedThreshold(counter: ReactionCounter, config: AggregationConfig): 'count' | 'percent' | null {
+  if (config.thresholdCount > 0 && counter.count >= config.thresholdCount) {
+    return 'count';
+  }
+
+  if (config.thresholdPercent > 0 && counter.count > 0 && counter.percent >= config.thresholdPercent) {
+    return 'percent';
+  }
+
+  return null;
+}
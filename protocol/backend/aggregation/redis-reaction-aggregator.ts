@@ -0,0 +1,165 @@
+/**
+ * Redis Reaction Aggregator
+ * Counts unique requesters per reaction within a sliding window and raises
+ * an alert once per threshold crossing, shared across all pods via Redis
+ */
+
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+import {
+  AggregationConfig,
+  AggregationResult,
+  ReactionCounter,
+  Requester,
+  buildCounter,
+  crossedThreshold,
+  loadAggregationConfig
+} from './reaction-aggregator';
+import { logger } from '../logging/logger';
+
+export class RedisReactionAggregator {
+  private connectionManager: RedisConnectionManager;
+  private config: AggregationConfig;
+  private windowSeconds: number;
+
+  constructor(connectionManager: RedisConnectionManager, config: AggregationConfig = loadAggregationConfig()) {
+    this.connectionManager = connectionManager;
+    this.config = config;
+    this.windowSeconds = config.windowSeconds;
+  }
+
+  getWindowSeconds(): number {
+    return this.windowSeconds;
+  }
+
+  /**
+   * Record a request and return the updated counter. An alert is returned only
+   * for the request that pushes the counter over a threshold.
+   */
+  async recordRequest(roomId: string, reactionId: string, connectionId: string, audienceSize: number, requestId?: string): Promise<AggregationResult> {
+    const client = await this.connectionManager.getClient();
+    const now = Date.now();
+    const windowKey = this.windowKey(roomId, reactionId);
+    const requestsKey = this.requestsKey(roomId, reactionId);
+
+    try {
+      // Scored by request time; repeated clicks of one requester only refresh their entry
+      const transaction = client.multi()
+        .zAdd(windowKey, { score: now, value: connectionId })
+        .zRemRangeByScore(windowKey, 0, now - this.windowSeconds * 1000)
+        .zCard(windowKey)
+        .expire(windowKey, this.windowSeconds);
+
+      // Remember the requester's latest request so an acknowledgement can reference it
+      if (requestId) {
+        transaction
+          .hSet(requestsKey, connectionId, requestId)
+          .expire(requestsKey, this.windowSeconds);
+      }
+
+      const results = await transaction.exec();
+
+      const counter = buildCounter(reactionId, Number(results[2]), audienceSize);
+      const threshold = crossedThreshold(counter, this.config);
+
+      if (!threshold) {
+        return { counter, alert: null };
+      }
+
+      // NX makes sure only one request (on any pod) raises the alert for this crossing
+      const raised = await client.set(this.alertKey(roomId, reactionId), now.toString(), {
+        NX: true,
+        EX: this.windowSeconds
+      });
+
+      if (raised !== 'OK') {
+        return { counter, alert: null };
+      }
+
+      logger.info(`Reaction ${reactionId} crossed ${threshold} threshold in room ${roomId}: ${counter.count} requesters`, { roomId });
+
+      return {
+        counter,
+        alert: {
+          ...counter,
+          roomId,
+          audienceSize,
+          threshold,
+          windowSeconds: this.windowSeconds,
+          timestamp: new Date(now).toISOString()
+        }
+      };
+    } catch (error) {
+      logger.error(`Failed to record reaction ${reactionId} in room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to record reaction: ${error}`);
+    }
+  }
+
+  /**
+   * Current counters of a room. Reactions that fell back below their threshold
+   * are re-armed so the next crossing raises a new alert.
+   */
+  async getCounters(roomId: string, reactionIds: string[], audienceSize: number): Promise<ReactionCounter[]> {
+    const client = await this.connectionManager.getClient();
+    const windowStart = Date.now() - this.windowSeconds * 1000;
+
+    try {
+      const counters: ReactionCounter[] = [];
+
+      for (const reactionId of reactionIds) {
+        const windowKey = this.windowKey(roomId, reactionId);
+        await client.zRemRangeByScore(windowKey, 0, windowStart);
+        const count = await client.zCard(windowKey);
+        const counter = buildCounter(reactionId, count, audienceSize);
+
+        if (!crossedThreshold(counter, this.config)) {
+          await client.del(this.alertKey(roomId, reactionId));
+        }
+
+        counters.push(counter);
+      }
+
+      return counters;
+    } catch (error) {
+      logger.error(`Failed to get reaction counters for room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to get reaction counters: ${error}`);
+    }
+  }
+
+  /**
+   * Acknowledge a reaction: return everyone who requested it within the window
+   * and reset its counter and alert
+   */
+  async acknowledge(roomId: string, reactionId: string): Promise<Requester[]> {
+    const client = await this.connectionManager.getClient();
+    const windowKey = this.windowKey(roomId, reactionId);
+    const requestsKey = this.requestsKey(roomId, reactionId);
+    const windowStart = Date.now() - this.windowSeconds * 1000;
+
+    try {
+      const connectionIds = await client.zRangeByScore(windowKey, windowStart, '+inf');
+      const requestIds = connectionIds.length > 0 ? await client.hmGet(requestsKey, connectionIds) : [];
+
+      await client.del([windowKey, requestsKey, this.alertKey(roomId, reactionId)]);
+
+      return connectionIds.map((connectionId, index) => ({
+        connectionId,
+        requestId: requestIds[index] || undefined
+      }));
+    } catch (error) {
+      logger.error(`Failed to acknowledge reaction ${reactionId} in room ${roomId}`, { roomId, error });
+      throw new Error(`Failed to acknowledge reaction: ${error}`);
+    }
+  }
+
+  private windowKey(roomId: string, reactionId: string): string {
+    return `room:${roomId}:reactions:${reactionId}`;
+  }
+
+  private requestsKey(roomId: string, reactionId: string): string {
+    return `room:${roomId}:requests:${reactionId}`;
+  }
+
+  private alertKey(roomId: string, reactionId: string): string {
+    return `room:${roomId}:alert:${reactionId}`;
+  }
+}
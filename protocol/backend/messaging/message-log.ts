@@ -0,0 +1,36 @@
+/**
+ * Message Log
+ * Replay results and settings shared by the Redis and in-memory message logs
+ */
+
+export interface LoggedMessage {
+  streamId: string;
+  message: Record<string, unknown>;
+}
+
+export interface ReplayResult {
+  messages: LoggedMessage[];
+  /**
+   * Stream ID of the last replayed message, or the given cursor when nothing was missed
+   */
+  cursor: string | null;
+  /**
+   * More messages are waiting, request another replay from the returned cursor
+   */
+  hasMore: boolean;
+}
+
+export interface MessageLogConfig {
+  retentionSeconds: number;
+  /**
+   * Maximum messages returned by one replay
+   */
+  replayLimit: number;
+}
+
+export function loadMessageLogConfig(): MessageLogConfig {
+  return {
+    retentionSeconds: parseInt(process.env.MESSAGE_LOG_RETENTION || '3600'), // 1 hour default
+    replayLimit: parseInt(process.env.MESSAGE_LOG_REPLAY_LIMIT || '500')
+  };
+}
@@ -0,0 +1,903 @@
+/**
+ * Messaging Engine
+ * Validates, authorizes and routes client frames once for every deployment.
+ * The standalone server and the Lambda handler are thin adapters that hand
+ * raw frames to the engine and provide a transport to reach connections.
+ */
+
+import { randomUUID } from 'crypto';
+import { AdminRole, ConnectionManager } from '../connection/connection-manager-interface';
+import { LOBBY_ROOM_ID, RoomRegistry, normalizeJoinCode } from '../rooms/room-registry';
+import { Reaction, ReactionCatalog } from '../reactions/reaction-catalog';
+import { AdminAuthenticator } from '../auth/admin-authenticator';
+import { RoutingPolicy } from '../routing/routing-policy';
+import { RateLimitConfig, RateLimiter, checkRateLimits } from '../ratelimit/rate-limiter';
+import { getTracer } from '../tracing/tracer';
+import { addLogContext, logger, withLogContext } from '../logging/logger';
+import {
+  ActionContext,
+  ActionMiddleware,
+  ActionRegistry,
+  ActionRequest,
+  ConnectionSession,
+  DeliveryResult,
+  FrameOutcome,
+  runPipeline
+} from './action-registry';
+import {
+  AcknowledgeFrame,
+  CLIENT_FIELD_RULES,
+  CatchUpFrame,
+  CatchUpReplayFrame,
+  CreateRoomFrame,
+  ErrorCode,
+  GetHistoryFrame,
+  IdentifyFrame,
+  ReportLatencyFrame,
+  ReactionCounterInfo,
+  ReactionCountersFrame,
+  ReceiptStatus,
+  SendMessageFrame,
+  ServerFrame,
+  ServerFrameFields,
+  SetConnectionTypeFrame,
+  UserRequestFrame,
+  buildErrorFrame,
+  buildServerFrame,
+  checkFields,
+  parseClientEnvelope
+} from '../protocol';
+
+export { ActionContext, ActionDefinition, ActionMiddleware, ActionRequest, ConnectionSession, FrameOutcome } from './action-registry';
+
+export interface FrameContext {
+  /**
+   * Ties the frame's log lines to any error reported back to the client
+   */
+  correlationId: string;
+  clientIp?: string;
+  /**
+   * Session held by the transport, read from the connection manager when missing
+   */
+  session?: ConnectionSession;
+  /**
+   * Epoch ms at which the transport received the frame, when it started handling it if missing
+   */
+  receivedAt?: number;
+}
+
+export interface MessageTransport {
+  /**
+   * Send a frame to a connection, returning false when it could not be reached.
+   * Connections found to be gone are removed by the transport.
+   */
+  send(connectionId: string, frame: ServerFrame): Promise<boolean>;
+}
+
+export type ReactionAlertDetails = Omit<ServerFrameFields<'reactionAlert'>, 'messageId' | 'content' | 'icon' | 'severity' | 'streamId'>;
+
+export interface ReactionAggregator {
+  getWindowSeconds(): number;
+  recordRequest(roomId: string, reactionId: string, connectionId: string, audienceSize: number, requestId?: string): Promise<{ alert: ReactionAlertDetails | null }>;
+  getCounters(roomId: string, reactionIds: string[], audienceSize: number): Promise<ReactionCounterInfo[]>;
+  acknowledge(roomId: string, reactionId: string): Promise<Array<{ connectionId: string; requestId?: string }>>;
+}
+
+export interface AdminMessageLog {
+  append(roomId: string, message: Record<string, unknown>): Promise<string>;
+  readSince(roomId: string, cursor?: string | null): Promise<{
+    messages: Array<{ streamId: string; message: Record<string, unknown> }>;
+    cursor: string | null;
+    hasMore: boolean;
+  }>;
+}
+
+export interface RequestHistory {
+  append(roomId: string, message: Record<string, unknown>): Promise<string>;
+  getHistory(roomId: string, cursor?: string | null): Promise<{
+    messages: Record<string, unknown>[];
+    cursor: string | null;
+    hasMore: boolean;
+  }>;
+}
+
+export type LatencyStatsDetails = Omit<ServerFrameFields<'latencyStats'>, 'roomId'>;
+
+export interface LatencyTracker {
+  record(roomId: string, latencyMs: number): void;
+  getStats(roomId: string): LatencyStatsDetails;
+}
+
+export interface MessagingEngineOptions {
+  connectionManager: ConnectionManager;
+  roomRegistry: RoomRegistry;
+  reactionCatalog: ReactionCatalog;
+  routingPolicy: RoutingPolicy;
+  rateLimiter: RateLimiter;
+  rateLimitConfig: RateLimitConfig;
+  transport: MessageTransport;
+  getAdminAuthenticator(): Promise<AdminAuthenticator>;
+  /**
+   * Counts requests in a sliding window and alerts admins on thresholds.
+   * Without it every request is forwarded to the admins on its own.
+   */
+  reactionAggregator?: ReactionAggregator;
+  /**
+   * Admin-bound alerts and acknowledgements, replayed with catchUp
+   */
+  messageLog?: AdminMessageLog;
+  /**
+   * Every request, forwarded or aggregated, backfilled with getHistory
+   */
+  messageHistory?: RequestHistory;
+  /**
+   * Percentiles of the delivery latency reported by admins, sent back to them.
+   * Without it reports are only logged.
+   */
+  latencyTracker?: LatencyTracker;
+}
+
+// Client send and server receive times carried to the admin interface
+type DeliveryStamps = Pick<UserRequestFrame, 'sentAt' | 'receivedAt'>;
+
+interface ErrorDetails {
+  action?: string;
+  requestId?: string;
+}
+
+/**
+ * Marks failures of the connection, room and message stores, which the
+ * sender is told about as STORAGE_UNAVAILABLE rather than INTERNAL_ERROR
+ */
+class StorageUnavailableError extends Error {}
+
+async function fromStorage<T>(operation: Promise<T>): Promise<T> {
+  try {
+    return await operation;
+  } catch (error) {
+    throw new StorageUnavailableError(`${error}`);
+  }
+}
+
+// Message log cursors are Redis stream IDs
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+// Latencies beyond this come from clocks that are out of sync, not from slow delivery
+const MAX_REPORTED_LATENCY_MS = 5 * 60 * 1000;
+
+export class MessagingEngine {
+  private connectionManager: ConnectionManager;
+  private roomRegistry: RoomRegistry;
+  private reactionCatalog: ReactionCatalog;
+  private routingPolicy: RoutingPolicy;
+  private rateLimiter: RateLimiter;
+  private rateLimitConfig: RateLimitConfig;
+  private transport: MessageTransport;
+  private getAdminAuthenticator: () => Promise<AdminAuthenticator>;
+  private reactionAggregator?: ReactionAggregator;
+  private messageLog?: AdminMessageLog;
+  private messageHistory?: RequestHistory;
+  private latencyTracker?: LatencyTracker;
+  private middleware: ActionMiddleware[];
+
+  /**
+   * Every action the engine handles; plugins register their own actions here
+   */
+  readonly actions: ActionRegistry = new ActionRegistry();
+
+  constructor(options: MessagingEngineOptions) {
+    this.connectionManager = options.connectionManager;
+    this.roomRegistry = options.roomRegistry;
+    this.reactionCatalog = options.reactionCatalog;
+    this.routingPolicy = options.routingPolicy;
+    this.rateLimiter = options.rateLimiter;
+    this.rateLimitConfig = options.rateLimitConfig;
+    this.transport = options.transport;
+    this.getAdminAuthenticator = options.getAdminAuthenticator;
+    this.reactionAggregator = options.reactionAggregator;
+    this.messageLog = options.messageLog;
+    this.messageHistory = options.messageHistory;
+    this.latencyTracker = options.latencyTracker;
+
+    // The role check stays last, so middleware added with use() also sees rejected frames
+    this.middleware = [
+      (request, next) => this.validate(request, next),
+      (request, next) => this.rateLimit(request, next),
+      (request, next) => this.log(request, next),
+      (request, next) => this.authorize(request, next)
+    ];
+
+    this.registerBuiltInActions();
+  }
+
+  /**
+   * Handle a raw client frame. Every failure is reported to the sender before
+   * the outcome is returned, so adapters only translate the outcome.
+   */
+  async handleFrame(connectionId: string, body: string, frameContext: FrameContext): Promise<FrameOutcome> {
+    const { correlationId } = frameContext;
+
+    // Every line logged while handling the frame carries its connection and correlation ID
+    return withLogContext({ connectionId, correlationId }, () => this.dispatchFrame(connectionId, body, frameContext));
+  }
+
+  private async dispatchFrame(connectionId: string, body: string, frameContext: FrameContext): Promise<FrameOutcome> {
+    const { correlationId } = frameContext;
+    const parsed = parseClientEnvelope(body);
+
+    if (!parsed.ok) {
+      return this.fail(connectionId, correlationId, parsed.code, `Invalid message format: ${parsed.error}`);
+    }
+
+    const frame = parsed.frame;
+    const details: ErrorDetails = {
+      action: frame.action,
+      requestId: typeof frame.data.requestId === 'string' ? frame.data.requestId : undefined
+    };
+    const definition = this.actions.get(frame.action);
+    addLogContext({ action: frame.action, requestId: details.requestId });
+
+    if (!definition) {
+      return this.fail(connectionId, correlationId, 'UNKNOWN_ACTION', `Action not supported: ${frame.action}`, details);
+    }
+
+    const context = this.createContext(connectionId, frameContext, details);
+    const tracer = getTracer();
+
+    // Continue the sender's trace, unless the adapter already handles the frame in a span
+    return tracer.withSpan(`handle ${frame.action}`, {
+      kind: 'server',
+      parent: tracer.activeSpan() ? undefined : frame.traceparent || null,
+      attributes: {
+        'messaging.action': frame.action,
+        'messaging.connection_id': connectionId,
+        'messaging.request_id': details.requestId,
+        'correlation_id': correlationId
+      }
+    }, async span => {
+      const outcome = await this.guard(connectionId, correlationId, details, () =>
+        runPipeline(this.middleware, { frame, definition, context }, () => definition.handle(frame, context))
+      );
+
+      if (!outcome.ok) {
+        span.setError(outcome.code);
+      }
+      return outcome;
+    });
+  }
+
+  /**
+   * Add middleware around every action. It runs after validation, rate limiting
+   * and logging, and before the role check.
+   */
+  use(middleware: ActionMiddleware): void {
+    this.middleware.splice(this.middleware.length - 1, 0, middleware);
+  }
+
+  /**
+   * Move a connection into the room of a join code, e.g. one given on the connect URL
+   */
+  async joinRoom(session: ConnectionSession, requestedRoomId: string, correlationId: string): Promise<FrameOutcome> {
+    const details: ErrorDetails = { action: 'joinRoom' };
+
+    return this.guard(session.connectionId, correlationId, details, async () => {
+      const roomId = normalizeJoinCode(requestedRoomId);
+
+      if (!roomId || !await fromStorage(this.roomRegistry.roomExists(roomId))) {
+        return this.fail(session.connectionId, correlationId, 'NOT_FOUND', `Room not found: ${requestedRoomId}`, details);
+      }
+
+      await this.enterRoom(session, roomId);
+      return { ok: true, action: 'joinRoom' };
+    });
+  }
+
+  /**
+   * Current reaction counters of a room, or null when requests are not aggregated
+   */
+  async buildCountersFrame(roomId: string): Promise<ReactionCountersFrame | null> {
+    if (!this.reactionAggregator) {
+      return null;
+    }
+
+    return this.countersFrame(this.reactionAggregator, roomId, await this.countAudience(roomId));
+  }
+
+  private registerBuiltInActions(): void {
+    const ok = (action: string): FrameOutcome => ({ ok: true, action });
+
+    this.actions.register('sendMessage', {
+      schema: CLIENT_FIELD_RULES.sendMessage,
+      // Audience request for the admins of the sender's room
+      handle: async (frame, context) => this.handleSendMessage(await context.session(), frame, context)
+    });
+    this.actions.register('identify', {
+      schema: CLIENT_FIELD_RULES.identify,
+      handle: async (frame, context) => this.handleConnectionType(await context.session(), frame, context.correlationId)
+    });
+    this.actions.register('setConnectionType', {
+      schema: CLIENT_FIELD_RULES.setConnectionType,
+      handle: async (frame, context) => this.handleConnectionType(await context.session(), frame, context.correlationId)
+    });
+    this.actions.register('createRoom', {
+      schema: CLIENT_FIELD_RULES.createRoom,
+      role: 'admin',
+      handle: async (frame, context) => this.handleCreateRoom(await context.session(), frame)
+    });
+    this.actions.register('joinRoom', {
+      schema: CLIENT_FIELD_RULES.joinRoom,
+      handle: async (frame, context) => this.joinRoom(await context.session(), frame.data.roomId, context.correlationId)
+    });
+    this.actions.register('acknowledge', {
+      schema: CLIENT_FIELD_RULES.acknowledge,
+      role: 'admin',
+      // Presenter acknowledges a request, notify the audience members who sent it
+      handle: async (frame, context) => this.handleAcknowledge(await context.session(), frame, context.correlationId)
+    });
+    this.actions.register('getReactions', {
+      schema: CLIENT_FIELD_RULES.getReactions,
+      handle: async (frame, context) => {
+        await context.reply(buildServerFrame('reactionCatalog', { reactions: this.reactionCatalog.getReactions() }));
+        return ok(frame.action);
+      }
+    });
+    this.actions.register('ping', {
+      schema: CLIENT_FIELD_RULES.ping,
+      keepalive: true,
+      handle: async (frame, context) => {
+        await context.reply(buildServerFrame('pong', {}));
+        return ok(frame.action);
+      }
+    });
+    this.actions.register('reportLatency', {
+      schema: CLIENT_FIELD_RULES.reportLatency,
+      role: 'admin',
+      telemetry: true,
+      // Admin interface rendered a live request or alert
+      handle: async (frame, context) => this.handleReportLatency(await context.session(), frame, context)
+    });
+
+    // Replay and backfill only exist where their store does, other deployments answer UNKNOWN_ACTION
+    const { messageLog, messageHistory } = this;
+
+    if (messageLog) {
+      this.actions.register('catchUp', {
+        schema: CLIENT_FIELD_RULES.catchUp,
+        role: 'admin',
+        // Admin replays the room's messages it missed while disconnected
+        handle: async (frame, context) => this.handleCatchUp(messageLog, await context.session(), frame, context.correlationId)
+      });
+    }
+
+    if (messageHistory) {
+      this.actions.register('getHistory', {
+        schema: CLIENT_FIELD_RULES.getHistory,
+        role: 'admin',
+        // Admin backfills the requests of its room missed while disconnected or before a reload
+        handle: async (frame, context) => this.handleGetHistory(messageHistory, await context.session(), frame)
+      });
+    }
+  }
+
+  private createContext(connectionId: string, frameContext: FrameContext, details: ErrorDetails): ActionContext {
+    const { correlationId } = frameContext;
+    let session: Promise<ConnectionSession> | undefined = frameContext.session && Promise.resolve(frameContext.session);
+
+    if (frameContext.session) {
+      addLogContext({ roomId: frameContext.session.roomId });
+    }
+
+    return {
+      connectionId,
+      correlationId,
+      clientIp: frameContext.clientIp,
+      receivedAt: frameContext.receivedAt ?? Date.now(),
+      session: () => session = session || fromStorage(this.readSession(connectionId)),
+      reply: frame => this.transport.send(connectionId, frame),
+      fail: (code, error) => this.fail(connectionId, correlationId, code, error, details),
+      sendToAdmins: (roomId, frame) => this.sendToAdmins(roomId, frame)
+    };
+  }
+
+  private async validate({ frame, definition, context }: ActionRequest, next: () => Promise<FrameOutcome>): Promise<FrameOutcome> {
+    const fieldError = checkFields(frame.data, definition.schema);
+
+    return fieldError ? context.fail('INVALID_PAYLOAD', `Invalid message format: ${fieldError}`) : next();
+  }
+
+  /**
+   * Throttle before the frame is logged, counted or forwarded; keepalives and telemetry are exempt
+   */
+  private async rateLimit({ frame, definition, context }: ActionRequest, next: () => Promise<FrameOutcome>): Promise<FrameOutcome> {
+    if (definition.keepalive || definition.telemetry) {
+      return next();
+    }
+
+    const rateLimit = await checkRateLimits(this.rateLimiter, this.rateLimitConfig, context.connectionId, context.clientIp);
+
+    if (rateLimit.allowed) {
+      return next();
+    }
+
+    const error = 'Too many requests, slow down';
+    await context.reply(buildServerFrame('rateLimited', {
+      code: 'RATE_LIMITED',
+      correlationId: context.correlationId,
+      action: frame.action,
+      requestId: typeof frame.data.requestId === 'string' ? frame.data.requestId : undefined,
+      error,
+      retryAfter: Math.ceil(rateLimit.retryAfterMs / 1000),
+      retryAfterMs: rateLimit.retryAfterMs
+    }));
+    return { ok: false, action: frame.action, code: 'RATE_LIMITED', error };
+  }
+
+  private async log({ frame, context }: ActionRequest, next: () => Promise<FrameOutcome>): Promise<FrameOutcome> {
+    const startedAt = Date.now();
+    logger.debug('Frame received', { frame });
+
+    const outcome = await next();
+    logger.info(`Handled ${frame.action}`, { durationMs: Date.now() - startedAt, outcome: outcome.ok ? 'ok' : outcome.code });
+    return outcome;
+  }
+
+  private async authorize({ frame, definition, context }: ActionRequest, next: () => Promise<FrameOutcome>): Promise<FrameOutcome> {
+    if (!definition.role) {
+      return next();
+    }
+
+    const session = await context.session();
+
+    if (session.connectionType !== definition.role) {
+      return context.fail('NOT_AUTHORIZED', `Only ${definition.role} connections can use ${frame.action}`);
+    }
+
+    return next();
+  }
+
+  private async handleSendMessage(session: ConnectionSession, frame: SendMessageFrame, context: ActionContext): Promise<FrameOutcome> {
+    const { reactionId, requestId, sentAt } = frame.data;
+    const reaction = this.reactionCatalog.resolve(reactionId);
+    const stamps: DeliveryStamps = { sentAt, receivedAt: context.receivedAt };
+
+    if (!reaction) {
+      return this.fail(session.connectionId, context.correlationId, 'INVALID_PAYLOAD', `Unknown reaction: ${reactionId}`, {
+        action: frame.action,
+        requestId
+      });
+    }
+
+    const { successCount, failureCount } = this.reactionAggregator
+      ? await this.aggregateRequest(this.reactionAggregator, session, reaction, stamps, requestId)
+      : await this.forwardRequest(session, reaction, stamps, requestId);
+
+    logger.info('Message delivery completed', { successCount, failureCount });
+
+    // Tell the sender whether any presenter received the request
+    await this.sendReceipt(session.connectionId, successCount > 0 ? 'delivered' : 'no_admin', reaction.id, requestId, {
+      code: successCount > 0 ? undefined : 'NO_ADMIN_AVAILABLE',
+      successCount,
+      failureCount
+    });
+
+    return { ok: true, action: frame.action };
+  }
+
+  /**
+   * Count the request in the room's sliding window instead of forwarding every click.
+   * Counters are a shared dashboard, but alerts follow the routing policy.
+   */
+  private async aggregateRequest(
+    aggregator: ReactionAggregator,
+    session: ConnectionSession,
+    reaction: Reaction,
+    stamps: DeliveryStamps,
+    requestId?: string
+  ): Promise<DeliveryResult> {
+    const { connectionId, roomId } = session;
+    const audienceSize = await this.countAudience(roomId);
+    const { alert } = await fromStorage(aggregator.recordRequest(roomId, reaction.id, connectionId, audienceSize, requestId));
+
+    await this.sendReceipt(connectionId, 'accepted', reaction.id, requestId);
+
+    // Counters only carry totals, so the individual request is still recorded for backfill
+    if (this.messageHistory) {
+      await this.recordInHistory(roomId, this.buildUserRequest(session, reaction, stamps, requestId));
+    }
+
+    const countersFrame = await this.countersFrame(aggregator, roomId, audienceSize);
+    const delivery = await this.sendToAdmins(roomId, countersFrame);
+
+    if (alert) {
+      const alertFrame = buildServerFrame('reactionAlert', {
+        messageId: randomUUID(),
+        ...alert,
+        content: reaction.label,
+        icon: reaction.icon,
+        severity: reaction.severity,
+        traceparent: getTracer().activeTraceparent(),
+        ...stamps
+      });
+
+      alertFrame.streamId = await this.appendToLog(roomId, alertFrame);
+      addLogContext({ messageId: alertFrame.messageId });
+      logger.debug(`Routing reaction alert with ${this.routingPolicy.name} policy`, { frame: alertFrame });
+      await this.routeToAdmins(roomId, connectionId, alertFrame);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Forward the request to the admins selected by the routing policy
+   */
+  private async forwardRequest(session: ConnectionSession, reaction: Reaction, stamps: DeliveryStamps, requestId?: string): Promise<DeliveryResult> {
+    const { connectionId, roomId } = session;
+
+    await this.sendReceipt(connectionId, 'accepted', reaction.id, requestId);
+
+    const message = this.buildUserRequest(session, reaction, stamps, requestId);
+    addLogContext({ messageId: message.messageId });
+
+    await this.recordInHistory(roomId, message);
+
+    logger.debug(`Routing request with ${this.routingPolicy.name} policy`, { frame: message });
+    return this.routeToAdmins(roomId, connectionId, message);
+  }
+
+  private buildUserRequest(session: ConnectionSession, reaction: Reaction, stamps: DeliveryStamps, requestId?: string): UserRequestFrame {
+    return buildServerFrame('userRequest', {
+      messageId: randomUUID(),
+      requestId,
+      connectionId: session.connectionId,
+      roomId: session.roomId,
+      reactionId: reaction.id,
+      content: reaction.label,
+      icon: reaction.icon,
+      severity: reaction.severity,
+      traceparent: getTracer().activeTraceparent(),
+      ...stamps
+    });
+  }
+
+  /**
+   * Record every request, even when no admin is connected, so admins can backfill it
+   */
+  private async recordInHistory(roomId: string, message: UserRequestFrame): Promise<void> {
+    if (!this.messageHistory) {
+      return;
+    }
+
+    try {
+      message.historyCursor = await this.messageHistory.append(roomId, message);
+    } catch (error) {
+      logger.error('Failed to record message in history', { error });
+    }
+  }
+
+  private async handleAcknowledge(session: ConnectionSession, frame: AcknowledgeFrame, correlationId: string): Promise<FrameOutcome> {
+    if (this.reactionAggregator) {
+      return this.acknowledgeReaction(this.reactionAggregator, session, frame, correlationId);
+    }
+
+    // Without aggregation every request is acknowledged on its own
+    const requesterConnectionId = frame.data.connectionId;
+
+    if (!requesterConnectionId) {
+      return this.fail(session.connectionId, correlationId, 'INVALID_PAYLOAD', 'connectionId of the request is required', {
+        action: frame.action
+      });
+    }
+
+    // The audience member may have left in the meantime
+    if (!await this.sendReceipt(requesterConnectionId, 'acknowledged', frame.data.reactionId, frame.data.requestId)) {
+      logger.info('Requester is gone, acknowledgement dropped', { requesterConnectionId });
+    }
+
+    logger.info('Request acknowledged', { messageId: frame.data.messageId });
+    return { ok: true, action: frame.action };
+  }
+
+  /**
+   * Acknowledge a reaction for everyone counted in the window and reset its counter
+   */
+  private async acknowledgeReaction(aggregator: ReactionAggregator, session: ConnectionSession, frame: AcknowledgeFrame, correlationId: string): Promise<FrameOutcome> {
+    const { reactionId } = frame.data;
+
+    if (!this.reactionCatalog.getReaction(reactionId)) {
+      return this.fail(session.connectionId, correlationId, 'INVALID_PAYLOAD', `Unknown reaction: ${reactionId}`, {
+        action: frame.action
+      });
+    }
+
+    const { roomId } = session;
+    const requesters = await fromStorage(aggregator.acknowledge(roomId, reactionId));
+
+    for (const requester of requesters) {
+      await this.sendReceipt(requester.connectionId, 'acknowledged', reactionId, requester.requestId);
+    }
+
+    logger.info(`Reaction ${reactionId} acknowledged`, { reactionId, requesterCount: requesters.length });
+
+    // Keep every admin of the room in sync, including the reset counters
+    const acknowledgedFrame = buildServerFrame('reactionAcknowledged', {
+      roomId,
+      reactionId,
+      requesterCount: requesters.length,
+      acknowledgedBy: session.connectionId
+    });
+    acknowledgedFrame.streamId = await this.appendToLog(roomId, acknowledgedFrame);
+
+    await this.sendToAdmins(roomId, acknowledgedFrame);
+    await this.sendToAdmins(roomId, await this.countersFrame(aggregator, roomId, await this.countAudience(roomId)));
+
+    return { ok: true, action: frame.action };
+  }
+
+  private async handleCatchUp(messageLog: AdminMessageLog, session: ConnectionSession, frame: CatchUpFrame, correlationId: string): Promise<FrameOutcome> {
+    const { cursor } = frame.data;
+
+    if (cursor && !STREAM_ID_PATTERN.test(cursor)) {
+      return this.fail(session.connectionId, correlationId, 'INVALID_PAYLOAD', `Invalid cursor: ${cursor}`, { action: frame.action });
+    }
+
+    const { roomId } = session;
+    const replay = await fromStorage(messageLog.readSince(roomId, cursor));
+
+    logger.info(`Replaying ${replay.messages.length} messages`, { cursor: cursor || null });
+
+    await this.transport.send(session.connectionId, buildServerFrame('catchUp', {
+      roomId,
+      messages: replay.messages.map(entry => ({ ...entry.message, streamId: entry.streamId }) as CatchUpReplayFrame['messages'][number]),
+      cursor: replay.cursor,
+      hasMore: replay.hasMore
+    }));
+
+    return { ok: true, action: frame.action };
+  }
+
+  private async handleGetHistory(messageHistory: RequestHistory, session: ConnectionSession, frame: GetHistoryFrame): Promise<FrameOutcome> {
+    const { roomId } = session;
+    const history = await fromStorage(messageHistory.getHistory(roomId, frame.data.cursor));
+
+    await this.transport.send(session.connectionId, buildServerFrame('history', {
+      roomId,
+      messages: history.messages as UserRequestFrame[],
+      cursor: history.cursor,
+      hasMore: history.hasMore
+    }));
+
+    logger.info(`Sent ${history.messages.length} history messages`);
+    return { ok: true, action: frame.action };
+  }
+
+  /**
+   * Record the latency from the audience member's click to the admin's render. It
+   * spans the clocks of two devices, so reports outside a plausible range are dropped.
+   */
+  private async handleReportLatency(session: ConnectionSession, frame: ReportLatencyFrame, context: ActionContext): Promise<FrameOutcome> {
+    const { messageId, sentAt, receivedAt, renderedAt } = frame.data;
+    const latencyMs = renderedAt - sentAt;
+    addLogContext({ messageId });
+
+    if (latencyMs < 0 || latencyMs > MAX_REPORTED_LATENCY_MS) {
+      logger.warn('Latency report dropped, clocks of the interfaces are out of sync', { latencyMs });
+      return { ok: true, action: frame.action };
+    }
+
+    logger.info('Delivery latency reported', {
+      latencyMs,
+      serverToRenderMs: receivedAt === undefined ? undefined : renderedAt - receivedAt
+    });
+
+    if (this.latencyTracker) {
+      const { roomId } = session;
+      this.latencyTracker.record(roomId, latencyMs);
+      await context.reply(buildServerFrame('latencyStats', { roomId, ...this.latencyTracker.getStats(roomId) }));
+    }
+
+    return { ok: true, action: frame.action };
+  }
+
+  /**
+   * Anyone may become a user; becoming an admin requires a valid admin token,
+   * unless the connection was already authenticated at connect time
+   */
+  private async handleConnectionType(session: ConnectionSession, frame: IdentifyFrame | SetConnectionTypeFrame, correlationId: string): Promise<FrameOutcome> {
+    const { connectionType, token } = frame.data;
+    let adminRole: AdminRole | undefined;
+
+    if (connectionType === 'admin') {
+      const adminClaims = (await this.getAdminAuthenticator()).verifyToken(token);
+
+      if (adminClaims) {
+        adminRole = adminClaims.adminRole || 'presenter';
+      } else if (session.connectionType === 'admin') {
+        adminRole = session.adminRole;
+      } else {
+        const error = 'Admin authentication required';
+        logger.warn('Rejected admin role for unauthenticated connection');
+        await this.transport.send(session.connectionId, buildServerFrame('authenticationFailed', {
+          code: 'NOT_AUTHORIZED',
+          error,
+          correlationId
+        }));
+        return { ok: false, action: frame.action, code: 'NOT_AUTHORIZED', error };
+      }
+    }
+
+    await fromStorage(this.connectionManager.updateConnectionType(session.connectionId, connectionType, adminRole));
+    session.connectionType = connectionType;
+    session.adminRole = adminRole;
+
+    logger.info(`Connection type set to ${connectionType}`, { adminRole });
+
+    await this.transport.send(session.connectionId, frame.action === 'identify'
+      ? buildServerFrame('identified', { connectionType, message: 'Connection identified successfully' })
+      : buildServerFrame('connectionTypeUpdated', { connectionType, message: 'Connection type updated successfully' }));
+
+    return { ok: true, action: frame.action };
+  }
+
+  private async handleCreateRoom(session: ConnectionSession, frame: CreateRoomFrame): Promise<FrameOutcome> {
+    const room = await fromStorage(this.roomRegistry.createRoom(frame.data.name));
+
+    await this.transport.send(session.connectionId, buildServerFrame('roomCreated', {
+      roomId: room.roomId,
+      name: room.name,
+      message: 'Room created successfully'
+    }));
+
+    logger.info(`Room ${room.roomId} created`);
+
+    // The creating admin subscribes to its new room right away
+    await this.enterRoom(session, room.roomId);
+    return { ok: true, action: frame.action };
+  }
+
+  private async enterRoom(session: ConnectionSession, roomId: string): Promise<void> {
+    await fromStorage(this.connectionManager.updateConnectionRoom(session.connectionId, roomId));
+    session.roomId = roomId;
+
+    addLogContext({ roomId });
+    logger.info(`Joined room ${roomId}`);
+
+    await this.transport.send(session.connectionId, buildServerFrame('roomJoined', {
+      roomId,
+      connectionType: session.connectionType,
+      message: 'Joined room successfully'
+    }));
+  }
+
+  private async readSession(connectionId: string): Promise<ConnectionSession> {
+    const metadata = await this.connectionManager.getConnectionMetadata(connectionId);
+    const roomId = metadata?.roomId || LOBBY_ROOM_ID;
+    addLogContext({ roomId });
+
+    return {
+      connectionId,
+      connectionType: metadata?.connectionType || 'user',
+      adminRole: metadata?.adminRole,
+      roomId
+    };
+  }
+
+  private async countAudience(roomId: string): Promise<number> {
+    return (await fromStorage(this.connectionManager.getConnections('user', roomId))).length;
+  }
+
+  private async countersFrame(aggregator: ReactionAggregator, roomId: string, audienceSize: number): Promise<ReactionCountersFrame> {
+    const reactionIds = this.reactionCatalog.getReactions().map(reaction => reaction.id);
+    const counters = await fromStorage(aggregator.getCounters(roomId, reactionIds, audienceSize));
+
+    return buildServerFrame('reactionCounters', {
+      roomId,
+      audienceSize,
+      windowSeconds: aggregator.getWindowSeconds(),
+      counters
+    });
+  }
+
+  /**
+   * Append an admin-bound message to the room's log. Delivery must not depend
+   * on the log, so failures only cost the message its replay.
+   */
+  private async appendToLog(roomId: string, message: ServerFrame): Promise<string | undefined> {
+    if (!this.messageLog) {
+      return undefined;
+    }
+
+    try {
+      return await this.messageLog.append(roomId, message);
+    } catch (error) {
+      logger.error('Failed to log message', { roomId, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a frame to every admin of a room
+   */
+  private async sendToAdmins(roomId: string, frame: ServerFrame): Promise<DeliveryResult> {
+    const adminConnectionIds = await fromStorage(this.connectionManager.getConnections('admin', roomId));
+    logger.debug(`Found ${adminConnectionIds.length} admin connections`, { roomId, adminConnectionIds });
+
+    return this.deliver(adminConnectionIds, frame);
+  }
+
+  /**
+   * Send a frame to the admins of a room selected by the routing policy.
+   * Tiers are tried in order until one of them reaches at least one admin.
+   */
+  private async routeToAdmins(roomId: string, senderConnectionId: string, frame: ServerFrame): Promise<DeliveryResult> {
+    const adminConnectionIds = await fromStorage(this.connectionManager.getConnections('admin', roomId));
+    const admins = await fromStorage(Promise.all(adminConnectionIds.map(async connectionId => ({
+      connectionId,
+      adminRole: this.routingPolicy.requiresAdminRoles
+        ? (await this.connectionManager.getConnectionMetadata(connectionId))?.adminRole
+        : undefined
+    }))));
+
+    const plan = await fromStorage(this.routingPolicy.route({ roomId, senderConnectionId, admins }));
+
+    let successCount = 0;
+    let failureCount = 0;
+
+    for (const tier of plan) {
+      const result = await this.deliver(tier, frame);
+      successCount += result.successCount;
+      failureCount += result.failureCount;
+
+      if (successCount > 0) {
+        break;
+      }
+    }
+
+    return { successCount, failureCount };
+  }
+
+  private async deliver(connectionIds: string[], frame: ServerFrame): Promise<DeliveryResult> {
+    const results = await Promise.all(connectionIds.map(connectionId => this.transport.send(connectionId, frame)));
+    const successCount = results.filter(Boolean).length;
+
+    return { successCount, failureCount: results.length - successCount };
+  }
+
+  private async sendReceipt(
+    connectionId: string,
+    status: ReceiptStatus,
+    reactionId: string,
+    requestId?: string,
+    details: { code?: ErrorCode; successCount?: number; failureCount?: number } = {}
+  ): Promise<boolean> {
+    return this.transport.send(connectionId, buildServerFrame('receipt', {
+      status,
+      requestId,
+      reactionId,
+      ...details
+    }));
+  }
+
+  private async fail(connectionId: string, correlationId: string, code: ErrorCode, error: string, details: ErrorDetails = {}): Promise<FrameOutcome> {
+    logger.info(`Sending ${code}`, { code, error });
+    await this.transport.send(connectionId, buildErrorFrame(code, error, correlationId, details));
+
+    return { ok: false, action: details.action, code, error };
+  }
+
+  /**
+   * Run a handler, reporting storage failures as STORAGE_UNAVAILABLE and anything else as INTERNAL_ERROR
+   */
+  private async guard(connectionId: string, correlationId: string, details: ErrorDetails, handle: () => Promise<FrameOutcome>): Promise<FrameOutcome> {
+    try {
+      return await handle();
+    } catch (error) {
+      logger.error('Error processing message', { error });
+
+      if (error instanceof StorageUnavailableError) {
+        return this.fail(connectionId, correlationId, 'STORAGE_UNAVAILABLE', 'Storage is unavailable, try again shortly', details);
+      }
+      return this.fail(connectionId, correlationId, 'INTERNAL_ERROR', 'Internal server error', details);
+    }
+  }
+}
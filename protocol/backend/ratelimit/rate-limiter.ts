@@ -0,0 +1,120 @@
+/**
+ * Rate Limiter Interface
+ * Token buckets per connection and per client IP, shared by every server instance
+ */
+
+import { logger } from '../logging/logger';
+
+export interface TokenBucketConfig {
+  /**
+   * Maximum burst size, 0 disables the bucket
+   */
+  capacity: number;
+
+  /**
+   * Tokens added per second
+   */
+  refillPerSecond: number;
+}
+
+export interface RateLimitConfig {
+  connection: TokenBucketConfig;
+  ip: TokenBucketConfig;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Take one token from the bucket stored under the given key
+   */
+  consume(key: string, bucket: TokenBucketConfig): Promise<RateLimitResult>;
+}
+
+export const ALLOWED: RateLimitResult = { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+
+export function loadRateLimitConfig(): RateLimitConfig {
+  return {
+    connection: {
+      capacity: parseFloat(process.env.RATE_LIMIT_CONNECTION_CAPACITY || '20'),
+      refillPerSecond: parseFloat(process.env.RATE_LIMIT_CONNECTION_REFILL || '2')
+    },
+    // Whole audiences can share one conference NAT address, so the IP bucket is much larger
+    ip: {
+      capacity: parseFloat(process.env.RATE_LIMIT_IP_CAPACITY || '500'),
+      refillPerSecond: parseFloat(process.env.RATE_LIMIT_IP_REFILL || '50')
+    }
+  };
+}
+
+/**
+ * Refill a bucket for the time elapsed since its last update and try to take one token.
+ * Missing state means a full bucket.
+ */
+export function takeToken(state: TokenBucketState | null, bucket: TokenBucketConfig, now: number): { state: TokenBucketState; result: RateLimitResult } {
+  const elapsedMs = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state
+    ? Math.min(bucket.capacity, state.tokens + (elapsedMs * bucket.refillPerSecond) / 1000)
+    : bucket.capacity;
+
+  if (available >= 1) {
+    return {
+      state: { tokens: available - 1, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(available - 1), retryAfterMs: 0 }
+    };
+  }
+
+  return {
+    state: { tokens: available, updatedAt: now },
+    result: { allowed: false, remaining: 0, retryAfterMs: Math.ceil(((1 - available) * 1000) / bucket.refillPerSecond) }
+  };
+}
+
+/**
+ * Seconds after which an untouched bucket is full again and can be forgotten
+ */
+export function bucketTtlSeconds(bucket: TokenBucketConfig): number {
+  return Math.ceil(bucket.capacity / bucket.refillPerSecond) + 1;
+}
+
+/**
+ * Check the connection bucket, then the client IP bucket. The limiter store failing
+ * must not silence the audience, so errors let the frame through.
+ */
+export async function checkRateLimits(
+  limiter: RateLimiter,
+  config: RateLimitConfig,
+  connectionId: string,
+  clientIp?: string
+): Promise<RateLimitResult> {
+  const buckets: Array<[string, TokenBucketConfig]> = [[`ratelimit:connection:${connectionId}`, config.connection]];
+  if (clientIp) {
+    buckets.push([`ratelimit:ip:${clientIp}`, config.ip]);
+  }
+
+  for (const [key, bucket] of buckets) {
+    if (bucket.capacity <= 0 || bucket.refillPerSecond <= 0) {
+      continue;
+    }
+
+    try {
+      const result = await limiter.consume(key, bucket);
+      if (!result.allowed) {
+        return result;
+      }
+    } catch (error) {
+      logger.error(`Rate limit check failed for ${key}, allowing frame`, { error });
+    }
+  }
+
+  return ALLOWED;
+}
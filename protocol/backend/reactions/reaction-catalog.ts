@@ -0,0 +1,90 @@
+/**
+ * Reaction Catalog
+ * Server-defined reactions that users can send to the presenter
+ */
+
+import { logger } from '../logging/logger';
+
+export type ReactionSeverity = 'info' | 'warning' | 'critical';
+
+export interface Reaction {
+  id: string;
+  label: string;
+  icon: string;
+  severity: ReactionSeverity;
+}
+
+export const DEFAULT_REACTION_ID = 'speak-german';
+
+export const DEFAULT_REACTIONS: Reaction[] = [
+  { id: 'speak-german', label: 'Please speak German', icon: '🇩🇪', severity: 'warning' },
+  { id: 'slower', label: 'Slower please', icon: '🐢', severity: 'warning' },
+  { id: 'louder', label: 'Louder please', icon: '🔊', severity: 'warning' },
+  { id: 'question', label: 'I have a question', icon: '✋', severity: 'info' },
+  { id: 'repeat', label: 'Please repeat that', icon: '🔁', severity: 'info' },
+];
+
+const SEVERITIES: ReactionSeverity[] = ['info', 'warning', 'critical'];
+
+export function isValidReaction(value: unknown): value is Reaction {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const { id, label, icon, severity } = value as Record<string, unknown>;
+  return typeof id === 'string' && id.length > 0 &&
+    typeof label === 'string' && label.length > 0 &&
+    typeof icon === 'string' &&
+    typeof severity === 'string' && SEVERITIES.includes(severity as ReactionSeverity);
+}
+
+/**
+ * Load the catalog from REACTION_CATALOG (a JSON array of reactions),
+ * falling back to the default reactions when it is unset or invalid
+ */
+export function loadReactionsFromEnvironment(): Reaction[] {
+  const rawCatalog = process.env.REACTION_CATALOG;
+  if (!rawCatalog) {
+    return DEFAULT_REACTIONS;
+  }
+
+  try {
+    const parsed = JSON.parse(rawCatalog);
+    if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every(isValidReaction)) {
+      throw new Error('REACTION_CATALOG must be a non-empty array of { id, label, icon, severity }');
+    }
+    return parsed;
+  } catch (error) {
+    logger.error('Invalid REACTION_CATALOG, using default reactions', { error });
+    return DEFAULT_REACTIONS;
+  }
+}
+
+export class ReactionCatalog {
+  private reactions: Map<string, Reaction>;
+  private defaultReaction: Reaction;
+
+  constructor(reactions: Reaction[] = loadReactionsFromEnvironment()) {
+    this.reactions = new Map(reactions.map(reaction => [reaction.id, reaction]));
+    this.defaultReaction = this.reactions.get(DEFAULT_REACTION_ID) || reactions[0];
+  }
+
+  getReactions(): Reaction[] {
+    return Array.from(this.reactions.values());
+  }
+
+  getReaction(reactionId: string): Reaction | undefined {
+    return this.reactions.get(reactionId);
+  }
+
+  /**
+   * Resolve the reaction of a sendMessage request. Requests without a
+   * reactionId (older clients) map to the default reaction.
+   */
+  resolve(reactionId?: string): Reaction | undefined {
+    if (!reactionId) {
+      return this.defaultReaction;
+    }
+    return this.getReaction(reactionId);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Routing Policies
+ * Decide which admins of a room receive an audience request
+ */
+
+import { AdminRole } from '../connection/connection-manager-interface';
+import { logger } from '../logging/logger';
+
+export type RoutingPolicyName = 'broadcast' | 'round-robin' | 'sticky' | 'role-based';
+
+export interface AdminTarget {
+  connectionId: string;
+  adminRole?: AdminRole;
+}
+
+export interface RoutingRequest {
+  roomId: string;
+  senderConnectionId: string;
+  admins: AdminTarget[];
+}
+
+/**
+ * Delivery tiers in order of preference. A request goes to every admin of the
+ * first tier that reaches at least one admin; later tiers are fallbacks.
+ */
+export type RoutingPlan = string[][];
+
+/**
+ * Shared, monotonically increasing counter per room used to rotate round-robin routing
+ */
+export type RoundRobinCounter = (roomId: string) => Promise<number>;
+
+export interface RoutingPolicy {
+  readonly name: RoutingPolicyName;
+
+  /**
+   * Whether route() needs the adminRole of every admin
+   */
+  readonly requiresAdminRoles: boolean;
+
+  route(request: RoutingRequest): Promise<RoutingPlan>;
+}
+
+/**
+ * Admin connection IDs in a stable order, since Redis sets and DynamoDB scans are unordered
+ */
+function sortedAdminIds(admins: AdminTarget[]): string[] {
+  return admins.map(admin => admin.connectionId).sort();
+}
+
+/**
+ * One admin per tier, starting at the given offset and wrapping around as fallbacks
+ */
+function rotateIntoTiers(adminIds: string[], offset: number): RoutingPlan {
+  const start = offset % adminIds.length;
+  return [...adminIds.slice(start), ...adminIds.slice(0, start)].map(adminId => [adminId]);
+}
+
+/**
+ * FNV-1a hash, stable across processes and deployment modes
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Every admin of the room receives every request
+ */
+export class BroadcastRoutingPolicy implements RoutingPolicy {
+  readonly name = 'broadcast';
+  readonly requiresAdminRoles = false;
+
+  async route(request: RoutingRequest): Promise<RoutingPlan> {
+    return request.admins.length > 0 ? [sortedAdminIds(request.admins)] : [];
+  }
+}
+
+/**
+ * Requests rotate over the room's admins, one admin per request
+ */
+export class RoundRobinRoutingPolicy implements RoutingPolicy {
+  readonly name = 'round-robin';
+  readonly requiresAdminRoles = false;
+  private nextCounter: RoundRobinCounter;
+
+  constructor(nextCounter: RoundRobinCounter) {
+    this.nextCounter = nextCounter;
+  }
+
+  async route(request: RoutingRequest): Promise<RoutingPlan> {
+    if (request.admins.length === 0) {
+      return [];
+    }
+
+    const counter = await this.nextCounter(request.roomId);
+    return rotateIntoTiers(sortedAdminIds(request.admins), counter);
+  }
+}
+
+/**
+ * Each audience member is served by the same admin for as long as the admin set is unchanged
+ */
+export class StickyRoutingPolicy implements RoutingPolicy {
+  readonly name = 'sticky';
+  readonly requiresAdminRoles = false;
+
+  async route(request: RoutingRequest): Promise<RoutingPlan> {
+    if (request.admins.length === 0) {
+      return [];
+    }
+
+    return rotateIntoTiers(sortedAdminIds(request.admins), hashString(request.senderConnectionId));
+  }
+}
+
+/**
+ * Moderators receive requests first; presenters only when no moderator is reachable
+ */
+export class RoleBasedRoutingPolicy implements RoutingPolicy {
+  readonly name = 'role-based';
+  readonly requiresAdminRoles = true;
+
+  async route(request: RoutingRequest): Promise<RoutingPlan> {
+    const moderators = request.admins.filter(admin => admin.adminRole === 'moderator');
+    const presenters = request.admins.filter(admin => admin.adminRole !== 'moderator');
+
+    return [sortedAdminIds(moderators), sortedAdminIds(presenters)].filter(tier => tier.length > 0);
+  }
+}
+
+/**
+ * Create the routing policy named by ROUTING_POLICY (default: broadcast)
+ */
+export function createRoutingPolicy(
+  nextCounter: RoundRobinCounter,
+  name: string = process.env.ROUTING_POLICY || 'broadcast'
+): RoutingPolicy {
+  switch (name) {
+    case 'broadcast':
+      return new BroadcastRoutingPolicy();
+    case 'round-robin':
+      return new RoundRobinRoutingPolicy(nextCounter);
+    case 'sticky':
+      return new StickyRoutingPolicy();
+    case 'role-based':
+      return new RoleBasedRoutingPolicy();
+    default:
+      logger.warn(`Unknown ROUTING_POLICY "${name}", falling back to broadcast`);
+      return new BroadcastRoutingPolicy();
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Tracer
+ * Creates spans and exports them over OTLP/HTTP (JSON) to the collector in
+ * OTEL_EXPORTER_OTLP_ENDPOINT, e.g. a local OpenTelemetry Collector or Jaeger.
+ * Without an endpoint spans are still created, so the trace context of a frame
+ * passes on to the next hop, but nothing is exported.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { TraceContext, formatTraceparent, parseTraceparent } from '../protocol';
+import { logger } from '../logging/logger';
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+export type Attributes = Record<string, string | number | boolean | undefined>;
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  /**
+   * Remote parent, e.g. a frame's traceparent. The active span is the parent when omitted.
+   */
+  parent?: TraceContext | string | null;
+  attributes?: Attributes;
+}
+
+export interface TracingConfig {
+  serviceName: string;
+  /**
+   * OTLP/HTTP traces URL, or null to export nothing
+   */
+  endpoint: string | null;
+  headers: Record<string, string>;
+  scheduleDelayMs: number;
+  maxBatchSize: number;
+}
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+// Span timestamps use the monotonic clock, anchored to the wall clock once
+const TIME_ORIGIN_NANOS = BigInt(Date.now()) * BigInt(1_000_000) - process.hrtime.bigint();
+
+function nowNanos(): bigint {
+  return TIME_ORIGIN_NANOS + process.hrtime.bigint();
+}
+
+export function loadTracingConfig(): TracingConfig {
+  const baseEndpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    || (baseEndpoint ? `${baseEndpoint.replace(/\/+$/, '')}/v1/traces` : null);
+
+  // Same format as the OpenTelemetry SDKs: key1=value1,key2=value2
+  const headers: Record<string, string> = {};
+  for (const pair of (process.env.OTEL_EXPORTER_OTLP_HEADERS || '').split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      headers[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+
+  return {
+    serviceName: process.env.OTEL_SERVICE_NAME || process.env.AWS_LAMBDA_FUNCTION_NAME || 'websocket-server',
+    endpoint,
+    headers,
+    scheduleDelayMs: parseInt(process.env.OTEL_BSP_SCHEDULE_DELAY || '5000'),
+    maxBatchSize: parseInt(process.env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE || '512')
+  };
+}
+
+export class Span {
+  readonly context: TraceContext;
+  private name: string;
+  private kind: SpanKind;
+  private parentSpanId?: string;
+  private attributes: Attributes;
+  private startTime: bigint = nowNanos();
+  private endTime: bigint | null = null;
+  private status: { code: number; message?: string } = { code: 0 };
+  private events: Array<{ name: string; time: bigint; attributes: Attributes }> = [];
+  private onEnd: (span: Span) => void;
+
+  constructor(name: string, context: TraceContext, options: { kind: SpanKind; parentSpanId?: string; attributes?: Attributes }, onEnd: (span: Span) => void) {
+    this.name = name;
+    this.context = context;
+    this.kind = options.kind;
+    this.parentSpanId = options.parentSpanId;
+    this.attributes = { ...options.attributes };
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * The traceparent that makes the receiver of a frame continue this span
+   */
+  get traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  setAttribute(key: string, value: string | number | boolean | undefined): void {
+    this.attributes[key] = value;
+  }
+
+  /**
+   * Mark the span as failed, with the error recorded as an exception event
+   */
+  recordError(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+
+    this.status = { code: STATUS_ERROR, message };
+    this.events.push({
+      name: 'exception',
+      time: nowNanos(),
+      attributes: {
+        'exception.type': error instanceof Error ? error.name : typeof error,
+        'exception.message': message
+      }
+    });
+  }
+
+  setError(message: string): void {
+    this.status = { code: STATUS_ERROR, message };
+  }
+
+  end(): void {
+    if (this.endTime !== null) {
+      return;
+    }
+
+    this.endTime = nowNanos();
+    if (this.status.code === 0) {
+      this.status = { code: STATUS_OK };
+    }
+    this.onEnd(this);
+  }
+
+  /**
+   * The span in the OTLP/JSON encoding
+   */
+  toOtlp(): Record<string, unknown> {
+    return {
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: SPAN_KIND_CODES[this.kind],
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: (this.endTime ?? nowNanos()).toString(),
+      attributes: toOtlpAttributes(this.attributes),
+      events: this.events.map(event => ({
+        name: event.name,
+        timeUnixNano: event.time.toString(),
+        attributes: toOtlpAttributes(event.attributes)
+      })),
+      status: this.status
+    };
+  }
+}
+
+export class Tracer {
+  private config: TracingConfig;
+  private activeSpans: AsyncLocalStorage<Span> = new AsyncLocalStorage();
+  private pending: Span[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private exporting: Promise<void> = Promise.resolve();
+
+  constructor(config: TracingConfig = loadTracingConfig()) {
+    this.config = config;
+
+    if (config.endpoint) {
+      logger.info(`Exporting traces of ${config.serviceName} to ${config.endpoint}`);
+    }
+  }
+
+  /**
+   * The span the current code runs in, if any
+   */
+  activeSpan(): Span | undefined {
+    return this.activeSpans.getStore();
+  }
+
+  /**
+   * The traceparent to put on frames sent from the current span
+   */
+  activeTraceparent(): string | undefined {
+    return this.activeSpan()?.traceparent;
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent !== undefined
+      ? (typeof options.parent === 'string' ? parseTraceparent(options.parent) : options.parent)
+      : this.activeSpan()?.context;
+
+    const context: TraceContext = {
+      traceId: parent?.traceId || randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled: parent ? parent.sampled : true
+    };
+
+    return new Span(name, context, {
+      kind: options.kind || 'internal',
+      parentSpanId: parent?.spanId,
+      attributes: options.attributes
+    }, span => this.onSpanEnd(span));
+  }
+
+  /**
+   * Run a function in a new span that is active for everything it calls.
+   * The span ends with the function and records the error if it throws.
+   */
+  async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+
+    try {
+      return await this.activeSpans.run(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Like withSpan, but only inside an existing trace. Storage calls from timers
+   * would otherwise start a trace of their own every few seconds.
+   */
+  async withChildSpan<T>(name: string, options: SpanOptions, fn: () => Promise<T>): Promise<T> {
+    if (!this.activeSpan()) {
+      return fn();
+    }
+
+    return this.withSpan(name, options, () => fn());
+  }
+
+  /**
+   * Export every ended span now, e.g. before a Lambda invocation returns or the process exits
+   */
+  async forceFlush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.export();
+  }
+
+  private onSpanEnd(span: Span): void {
+    if (!this.config.endpoint || !span.context.sampled) {
+      return;
+    }
+
+    this.pending.push(span);
+
+    if (this.pending.length >= this.config.maxBatchSize) {
+      this.forceFlush().catch(() => undefined);
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.export().catch(() => undefined);
+      }, this.config.scheduleDelayMs);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Send the pending spans in one request. Exports run one after another, and
+   * a failed export drops its spans rather than holding up the server.
+   */
+  private export(): Promise<void> {
+    const spans = this.pending.splice(0, this.pending.length);
+    const endpoint = this.config.endpoint;
+
+    if (spans.length === 0 || !endpoint) {
+      return this.exporting;
+    }
+
+    this.exporting = this.exporting.then(async () => {
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.config.headers },
+          body: JSON.stringify({
+            resourceSpans: [{
+              resource: { attributes: toOtlpAttributes({ 'service.name': this.config.serviceName }) },
+              scopeSpans: [{ scope: { name: 'user-admin-messaging' }, spans: spans.map(span => span.toOtlp()) }]
+            }]
+          }),
+          signal: AbortSignal.timeout(10000)
+        });
+
+        if (!response.ok) {
+          logger.error(`Failed to export ${spans.length} spans: collector returned ${response.status}`);
+        }
+      } catch (error) {
+        logger.error(`Failed to export ${spans.length} spans`, { error });
+      }
+    });
+
+    return this.exporting;
+  }
+}
+
+function toOtlpAttributes(attributes: Attributes): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'string' ? { stringValue: value }
+        : typeof value === 'boolean' ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: value } : { doubleValue: value }
+    }));
+}
+
+let tracer: Tracer | null = null;
+
+/**
+ * The process-wide tracer, configured from the environment on first use
+ */
+export function getTracer(): Tracer {
+  if (!tracer) {
+    tracer = new Tracer();
+  }
+
+  return tracer;
+}
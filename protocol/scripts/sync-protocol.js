@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * Copies protocol/src/index.ts into every codebase that speaks the protocol, and
+ * the modules in protocol/backend into both backends, which run the same engine.
+ * Usage: node scripts/sync-protocol.js [--check]
+ *   --check  Fail instead of writing when a copy is out of date (for CI)
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '../..');
+const BACKENDS = ['websocket-server/src', 'lambda/src'];
+
+// Relative to protocol/backend and to the src directory of each backend
+const BACKEND_MODULES = [
+  'aggregation/in-memory-reaction-aggregator.ts',
+  'aggregation/reaction-aggregator.ts',
+  'aggregation/redis-reaction-aggregator.ts',
+  'auth/admin-authenticator.ts',
+  'logging/logger.ts',
+  'messaging/action-registry.ts',
+  'messaging/in-memory-message-log.ts',
+  'messaging/message-log.ts',
+  'messaging/messaging-engine.ts',
+  'messaging/redis-message-log.ts',
+  'ratelimit/rate-limiter.ts',
+  'ratelimit/redis-rate-limiter.ts',
+  'reactions/reaction-catalog.ts',
+  'rooms/room-registry.ts',
+  'routing/routing-policy.ts',
+  'tracing/tracer.ts'
+];
+
+const SOURCES = [
+  {
+    source: 'protocol/src/index.ts',
+    targets: [
+      'websocket-server/src/protocol/index.ts',
+      'lambda/src/protocol/index.ts',
+      'frontend/user/src/protocol/index.ts',
+      'frontend/admin/src/protocol/index.ts'
+    ]
+  },
+  ...BACKEND_MODULES.map(module => ({
+    source: `protocol/backend/${module}`,
+    targets: BACKENDS.map(backend => `${backend}/${module}`)
+  }))
+];
+
+const check = process.argv.includes('--check');
+let outdated = 0;
+
+for (const { source, targets } of SOURCES) {
+  const header = `// Generated from ${source} by \`npm run sync:protocol\`, do not edit.\n\n`;
+  const expected = header + fs.readFileSync(path.join(ROOT, source), 'utf8');
+
+  for (const target of targets) {
+    const targetPath = path.join(ROOT, target);
+    const current = fs.existsSync(targetPath) ? fs.readFileSync(targetPath, 'utf8') : null;
+
+    if (current === expected) {
+      console.log(`✅ ${target}`);
+      continue;
+    }
+
+    if (check) {
+      console.error(`❌ ${target} is out of date`);
+      outdated++;
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    fs.writeFileSync(targetPath, expected);
+    console.log(`📝 ${target}`);
+  }
+}
+
+if (outdated > 0) {
+  console.error('Run `npm run sync:protocol` to update the copies.');
+  process.exit(1);
+}
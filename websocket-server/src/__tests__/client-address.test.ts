@@ -0,0 +1,25 @@
+import { IncomingMessage } from 'http';
+import { resolveClientAddress } from '../ratelimit/client-address';
+
+function request(remoteAddress: string, forwardedFor?: string | string[]): IncomingMessage {
+  return { socket: { remoteAddress }, headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} } as unknown as IncomingMessage;
+}
+
+describe('Client Address', () => {
+  it('should ignore X-Forwarded-For without trusted proxies', () => {
+    expect(resolveClientAddress(request('203.0.113.7', '198.51.100.1'), 0)).toBe('203.0.113.7');
+  });
+
+  it('should take the entry appended by the trusted proxy rather than the one the client sent', () => {
+    expect(resolveClientAddress(request('10.0.0.5', '198.51.100.1, 203.0.113.7'), 1)).toBe('203.0.113.7');
+  });
+
+  it('should skip the entries of every trusted proxy', () => {
+    expect(resolveClientAddress(request('10.0.0.5', ['198.51.100.1, 203.0.113.7', '10.0.0.9']), 2)).toBe('203.0.113.7');
+  });
+
+  it('should fall back to the farthest address when fewer proxies appended entries', () => {
+    expect(resolveClientAddress(request('203.0.113.7'), 1)).toBe('203.0.113.7');
+    expect(resolveClientAddress(request('10.0.0.5', '203.0.113.7'), 3)).toBe('203.0.113.7');
+  });
+});
@@ -0,0 +1,49 @@
+import { DegradedMode, isConnectivityError } from '../storage/degraded-mode';
+
+describe('Degraded Mode', () => {
+  it('should recognise unreachable Redis, also inside the errors of the stores', () => {
+    expect(isConnectivityError(Object.assign(new Error('connect ECONNREFUSED 10.0.0.3:6379'), { code: 'ECONNREFUSED' }))).toBe(true);
+    expect(isConnectivityError(new Error('Failed to get connections: Error: The client is closed'))).toBe(true);
+    expect(isConnectivityError(new Error('Failed to store connection: Error: Socket closed unexpectedly'))).toBe(true);
+    expect(isConnectivityError(new Error('Failed to connect to Redis: Error: Connection timeout'))).toBe(true);
+  });
+
+  it('should not take command errors for an unreachable Redis', () => {
+    expect(isConnectivityError(new Error('Connection conn-1 not found'))).toBe(false);
+    expect(isConnectivityError(new Error('Failed to renew pod lease: ReplyError: NOSCRIPT No matching script'))).toBe(false);
+    expect(isConnectivityError('WRONGTYPE Operation against a key holding the wrong kind of value')).toBe(false);
+  });
+
+  it('should fall back and skip Redis afterwards once it is unreachable', async () => {
+    const degradedMode = new DegradedMode();
+    const primary = jest.fn().mockRejectedValue(new Error('Failed to get connections: Error: The client is closed'));
+
+    await expect(degradedMode.withFallback('get connections', primary, async () => ['local-1'])).resolves.toEqual(['local-1']);
+    await expect(degradedMode.withFallback('get connections', primary, async () => ['local-2'])).resolves.toEqual(['local-2']);
+
+    expect(primary).toHaveBeenCalledTimes(1);
+    expect(degradedMode.isDegraded()).toBe(true);
+    expect(degradedMode.getDegradedSince()).toEqual(expect.any(Number));
+  });
+
+  it('should rethrow other errors without entering degraded mode', async () => {
+    const degradedMode = new DegradedMode();
+    const fallback = jest.fn();
+
+    await expect(degradedMode.withFallback('update connection type',
+      async () => { throw new Error('Connection conn-1 not found'); }, fallback)).rejects.toThrow('Connection conn-1 not found');
+
+    expect(fallback).not.toHaveBeenCalled();
+    expect(degradedMode.isDegraded()).toBe(false);
+  });
+
+  it('should leave degraded mode on exit', async () => {
+    const degradedMode = new DegradedMode();
+    degradedMode.enter('renew pod lease', new Error('connect ETIMEDOUT'));
+
+    degradedMode.exit();
+
+    expect(degradedMode.isDegraded()).toBe(false);
+    expect(degradedMode.getDegradedSince()).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { DeliveryLatencyTracker } from '../metrics/delivery-latency';
+import { MetricsRegistry, SummaryOptions } from '../metrics/metrics-registry';
+
+describe('Delivery Latency Tracker', () => {
+  let registry: MetricsRegistry;
+
+  function createTracker(options: SummaryOptions = {}): DeliveryLatencyTracker {
+    const summary = registry.summary('ws_delivery_latency_seconds', 'Delivery latency by room', ['room'], { maxAgeSeconds: 60, ...options });
+    return new DeliveryLatencyTracker(summary, 2000);
+  }
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+    jest.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should report nearest-rank percentiles per room in milliseconds', () => {
+    const tracker = createTracker();
+    for (let latencyMs = 100; latencyMs <= 2000; latencyMs += 100) {
+      tracker.record('ABC234', latencyMs);
+    }
+    tracker.record('XYZ789', 5000);
+
+    expect(tracker.getStats('ABC234')).toEqual({ windowSeconds: 60, count: 20, p50Ms: 1000, p95Ms: 1900, p99Ms: 2000, targetMs: 2000 });
+    expect(tracker.getStats('XYZ789')).toMatchObject({ count: 1, p50Ms: 5000, p99Ms: 5000 });
+  });
+
+  it('should report zeros for a room without reports', () => {
+    expect(createTracker().getStats('ABC234')).toEqual({ windowSeconds: 60, count: 0, p50Ms: 0, p95Ms: 0, p99Ms: 0, targetMs: 2000 });
+  });
+
+  it('should only count reports within the window', () => {
+    const tracker = createTracker();
+    tracker.record('ABC234', 4000);
+
+    jest.advanceTimersByTime(30000);
+    tracker.record('ABC234', 300);
+    jest.advanceTimersByTime(31000);
+
+    expect(tracker.getStats('ABC234')).toMatchObject({ count: 1, p50Ms: 300, p99Ms: 300 });
+  });
+
+  it('should keep only the newest reports of a busy room', () => {
+    const tracker = createTracker({ maxObservations: 3 });
+    [5000, 100, 200, 300].forEach(latencyMs => tracker.record('ABC234', latencyMs));
+
+    expect(tracker.getStats('ABC234')).toMatchObject({ count: 3, p99Ms: 300 });
+  });
+
+  it('should expose the percentiles in seconds and drop rooms without recent reports', () => {
+    const tracker = createTracker();
+    tracker.record('ABC234', 1500);
+
+    expect(registry.render().split('\n').slice(2, -1)).toEqual([
+      'ws_delivery_latency_seconds{room="ABC234",quantile="0.5"} 1.5',
+      'ws_delivery_latency_seconds{room="ABC234",quantile="0.95"} 1.5',
+      'ws_delivery_latency_seconds{room="ABC234",quantile="0.99"} 1.5',
+      'ws_delivery_latency_seconds_sum{room="ABC234"} 1.5',
+      'ws_delivery_latency_seconds_count{room="ABC234"} 1'
+    ]);
+
+    jest.advanceTimersByTime(61000);
+
+    expect(registry.render()).not.toContain('room="ABC234"');
+  });
+});
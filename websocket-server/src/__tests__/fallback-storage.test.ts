@@ -0,0 +1,122 @@
+import { FakeRedis } from './support/fake-redis';
+
+const mockRedis = new FakeRedis();
+
+jest.mock('redis', () => ({
+  createClient: () => mockRedis.createClient()
+}));
+
+import { FallbackConnectionManager } from '../connection/fallback-connection-manager';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+import { DegradedMode } from '../storage/degraded-mode';
+import { StorageFactory } from '../storage/storage-factory';
+
+describe('Fallback Storage', () => {
+  beforeEach(() => {
+    mockRedis.flushAll();
+  });
+
+  describe('connection manager', () => {
+    let redis: RedisConnectionManager;
+    let degradedMode: DegradedMode;
+    let manager: FallbackConnectionManager;
+
+    beforeEach(() => {
+      redis = new RedisConnectionManager();
+      degradedMode = new DegradedMode();
+      manager = new FallbackConnectionManager(redis, degradedMode);
+    });
+
+    it('should serve the connections of this pod locally while Redis is unreachable', async () => {
+      await manager.storeConnection('admin-1', 'admin', { roomId: 'ABC234' });
+      mockRedis.setReachable(false);
+
+      await manager.storeConnection('user-1', 'user', { roomId: 'ABC234' });
+
+      expect(degradedMode.isDegraded()).toBe(true);
+      expect(await manager.getConnections('admin', 'ABC234')).toEqual(['admin-1']);
+      expect(await manager.getConnections('user', 'ABC234')).toEqual(['user-1']);
+      expect(await manager.reapExpiredPods()).toBe(0);
+    });
+
+    it('should write local connections back, replay removals and leave degraded mode once Redis is back', async () => {
+      await manager.storeConnection('user-1', 'user');
+      await manager.storeConnection('user-2', 'user');
+      mockRedis.setReachable(false);
+      await manager.storeConnection('admin-1', 'admin', { adminRole: 'moderator' });
+      await manager.removeConnection('user-2');
+
+      // Another pod reaped this pod's connections while its lease had lapsed
+      mockRedis.setReachable(true);
+      await redis.removeConnection('user-1');
+
+      await manager.renewPodLease();
+
+      expect(degradedMode.isDegraded()).toBe(false);
+      expect(await redis.isPodAlive(manager.getPodId())).toBe(true);
+      expect(await redis.getConnections('user')).toEqual(['user-1']);
+      expect(await redis.getConnectionMetadata('admin-1')).toMatchObject({ connectionType: 'admin', adminRole: 'moderator' });
+      expect(await redis.connectionExists('user-2')).toBe(false);
+    });
+
+    it('should stay degraded and keep the changes while Redis is still unreachable', async () => {
+      mockRedis.setReachable(false);
+      await manager.storeConnection('user-1', 'user');
+
+      await expect(manager.renewPodLease()).rejects.toThrow('ECONNREFUSED');
+      expect(degradedMode.isDegraded()).toBe(true);
+
+      mockRedis.setReachable(true);
+      await manager.renewPodLease();
+
+      expect(await redis.getConnections('user')).toEqual(['user-1']);
+    });
+
+    it('should enter degraded mode when the lease cannot be renewed', async () => {
+      mockRedis.setReachable(false);
+
+      await expect(manager.renewPodLease()).rejects.toThrow('Failed to renew pod lease');
+
+      expect(degradedMode.isDegraded()).toBe(true);
+    });
+
+    it('should not replay removals of connections of other pods', async () => {
+      const otherPod = new RedisConnectionManager();
+      await otherPod.storeConnection('user-9', 'user');
+      mockRedis.setReachable(false);
+      await manager.storeConnection('user-1', 'user');
+
+      await manager.removeConnection('user-9');
+      mockRedis.setReachable(true);
+      await manager.renewPodLease();
+
+      expect(await redis.connectionExists('user-9')).toBe(true);
+    });
+
+    it('should fail a command error without falling back', async () => {
+      await manager.storeConnection('user-1', 'user');
+      await redis.removeConnection('user-1');
+
+      await expect(manager.updateConnectionRoom('user-1', 'ABC234')).rejects.toThrow('Connection user-1 not found');
+
+      expect(degradedMode.isDegraded()).toBe(false);
+    });
+  });
+
+  it('should keep rate limits, counters and the message log going on this pod while Redis is unreachable', async () => {
+    const storage = StorageFactory.createStorage('redis');
+    mockRedis.setReachable(false);
+
+    const limit = await storage.rateLimiter.consume('conn:user-1', { capacity: 1, refillPerSecond: 1 });
+    const { alert } = await storage.reactionAggregator.recordRequest('ABC234', 'slower', 'user-1', 1, 'req-1');
+    const streamId = await storage.messageLog.append('ABC234', { type: 'reactionAlert' });
+
+    expect(storage.degradedMode.isDegraded()).toBe(true);
+    expect(limit.allowed).toBe(true);
+    expect(alert).toMatchObject({ reactionId: 'slower', count: 1 });
+    expect((await storage.messageLog.readSince('ABC234', '0-0')).messages).toEqual([
+      { streamId, message: { type: 'reactionAlert' } }
+    ]);
+    await expect(storage.roomRegistry.roomExists('ABC234')).rejects.toThrow('rooms cannot be looked up in degraded mode');
+  });
+});
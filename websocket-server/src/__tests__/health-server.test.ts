@@ -0,0 +1,89 @@
+import { get } from 'http';
+import { HealthServer } from '../health-server';
+import { InMemoryConnectionManager } from '../connection/in-memory-connection-manager';
+import { DegradedMode } from '../storage/degraded-mode';
+
+const HEALTH_PORT = 18081;
+
+function getText(path: string, headers: Record<string, string> = {}): Promise<{ status: number; contentType?: string; text: string }> {
+  return new Promise((resolve, reject) => {
+    get({ port: HEALTH_PORT, path, headers, agent: false }, res => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve({ status: res.statusCode!, contentType: res.headers['content-type'], text: data }));
+    }).on('error', reject);
+  });
+}
+
+async function getJson(path: string): Promise<{ status: number; body: any }> {
+  const { status, text } = await getText(path);
+  return { status, body: JSON.parse(text) };
+}
+
+describe('Health Server', () => {
+  let healthServer: HealthServer;
+
+  beforeAll(() => {
+    process.env.HEALTH_PORT = HEALTH_PORT.toString();
+  });
+
+  afterEach(async () => {
+    await healthServer.stop();
+  });
+
+  async function startHealthServer(connectionManager: any, degradedMode: DegradedMode, storageType: 'redis' | 'memory'): Promise<void> {
+    healthServer = new HealthServer(connectionManager, degradedMode, storageType);
+    healthServer.start();
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  it('should not report a Redis check with in-memory storage', async () => {
+    await startHealthServer(new InMemoryConnectionManager(), new DegradedMode(), 'memory');
+
+    const ready = await getJson('/ready');
+    const health = await getJson('/health');
+
+    expect(ready.status).toBe(200);
+    expect(ready.body).toEqual(expect.objectContaining({ ready: true, storage: 'memory', checks: { server: true } }));
+    expect(health.body.storage).toBe('memory');
+    expect(health.body).not.toHaveProperty('redisConnected');
+  });
+
+  it('should report Redis as unreachable but stay ready while degraded', async () => {
+    const degradedMode = new DegradedMode();
+    degradedMode.enter('get connections', new Error('connect ECONNREFUSED'));
+    await startHealthServer(new InMemoryConnectionManager(), degradedMode, 'redis');
+
+    const ready = await getJson('/ready');
+
+    expect(ready.status).toBe(200);
+    expect(ready.body).toEqual(expect.objectContaining({ ready: true, degraded: true, storage: 'redis', checks: { redis: false, server: true } }));
+  });
+
+  it('should not be ready when Redis fails outside degraded mode', async () => {
+    const connectionManager = { getConnections: jest.fn().mockRejectedValue(new Error('Connection conn-1 not found')) };
+    await startHealthServer(connectionManager, new DegradedMode(), 'redis');
+
+    const ready = await getJson('/ready');
+
+    expect(ready.status).toBe(503);
+    expect(ready.body.checks).toEqual({ redis: false, server: true });
+  });
+
+  it('should serve metrics in OpenMetrics to scrapers that ask for it and as JSON under its own path', async () => {
+    await startHealthServer(new InMemoryConnectionManager(), new DegradedMode(), 'memory');
+    healthServer.recordMessage('sendMessage');
+
+    const prometheus = await getText('/metrics');
+    const openMetrics = await getText('/metrics', { Accept: 'application/openmetrics-text; version=1.0.0' });
+    const json = await getJson('/metrics/json');
+
+    expect(prometheus.contentType).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(prometheus.text).toContain('# TYPE ws_frames_total counter');
+    expect(openMetrics.contentType).toMatch(/^application\/openmetrics-text;.*version=1\.0\.0/);
+    expect(openMetrics.text).toContain('# TYPE ws_frames counter');
+    expect(openMetrics.text).toMatch(/ws_frames_total\{action="sendMessage"\} \d+\n/);
+    expect(openMetrics.text.endsWith('# EOF\n')).toBe(true);
+    expect(json.body.messages.byAction).toEqual({ sendMessage: 1 });
+  });
+});
@@ -0,0 +1,129 @@
+import { InMemoryConnectionManager } from '../connection/in-memory-connection-manager';
+import { InMemoryRoomRegistry } from '../rooms/in-memory-room-registry';
+import { InMemoryRateLimiter } from '../ratelimit/in-memory-rate-limiter';
+import { LocalMessageBus } from '../messaging/local-message-bus';
+import { StorageFactory } from '../storage/storage-factory';
+
+describe('In-Memory Storage', () => {
+  const originalStorageType = process.env.STORAGE_TYPE;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    if (originalStorageType === undefined) {
+      delete process.env.STORAGE_TYPE;
+    } else {
+      process.env.STORAGE_TYPE = originalStorageType;
+    }
+  });
+
+  describe('connection manager', () => {
+    it('should list connections by type and room', async () => {
+      const manager = new InMemoryConnectionManager();
+      await manager.storeConnection('user-1', 'user');
+      await manager.storeConnection('admin-1', 'admin', { adminRole: 'presenter' });
+      await manager.updateConnectionRoom('admin-1', 'ABC234');
+
+      expect(await manager.getConnections('user', 'lobby')).toEqual(['user-1']);
+      expect(await manager.getConnections('admin', 'ABC234')).toEqual(['admin-1']);
+      expect(await manager.getConnections('admin', 'lobby')).toEqual([]);
+      expect(await manager.getConnectionMetadata('admin-1')).toMatchObject({ roomId: 'ABC234', adminRole: 'presenter' });
+    });
+
+    it('should drop the admin role when a connection becomes a user', async () => {
+      const manager = new InMemoryConnectionManager();
+      await manager.storeConnection('conn-1', 'admin', { adminRole: 'moderator' });
+      await manager.updateConnectionType('conn-1', 'user');
+
+      expect((await manager.getConnectionMetadata('conn-1'))?.adminRole).toBeUndefined();
+      await expect(manager.updateConnectionType('gone-1', 'admin')).rejects.toThrow('Connection gone-1 not found');
+    });
+
+    it('should hide connections past their TTL, also from updates, and clean them up', async () => {
+      const manager = new InMemoryConnectionManager();
+      await manager.storeConnection('conn-1', 'user');
+
+      jest.advanceTimersByTime(86400 * 1000);
+
+      expect(await manager.connectionExists('conn-1')).toBe(false);
+      expect(await manager.getConnections('user')).toEqual([]);
+      await expect(manager.updateConnectionRoom('conn-1', 'ABC234')).rejects.toThrow('Connection conn-1 not found');
+
+      await manager.cleanupExpiredConnections();
+      const lines = (console.log as jest.Mock).mock.calls.map(([line]) => JSON.parse(line));
+      expect(lines).toContainEqual(expect.objectContaining({ level: 'info', message: 'Cleaned up 1 expired connections from memory' }));
+    });
+
+    it('should treat its own connections as owned by a live pod', async () => {
+      const manager = new InMemoryConnectionManager();
+      await manager.storeConnection('conn-1', 'user');
+
+      expect(await manager.isConnectionOwnerAlive('conn-1')).toBe(true);
+      expect(await manager.isConnectionOwnerAlive('gone-1')).toBe(false);
+      expect(await manager.reapExpiredPods()).toBe(0);
+    });
+  });
+
+  describe('room registry', () => {
+    it('should find a room by its join code regardless of case and whitespace', async () => {
+      const registry = new InMemoryRoomRegistry();
+      const room = await registry.createRoom('Keynote');
+
+      expect(room.roomId).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+      expect(await registry.getRoom(` ${room.roomId.toLowerCase()} `)).toEqual(room);
+      expect(await registry.roomExists('ZZZZZZ')).toBe(false);
+    });
+
+    it('should forget a room and its round-robin counter once it expires', async () => {
+      const registry = new InMemoryRoomRegistry();
+      const room = await registry.createRoom();
+      await registry.nextRoundRobinCounter(room.roomId);
+
+      expect(await registry.nextRoundRobinCounter(room.roomId)).toBe(2);
+
+      jest.advanceTimersByTime(86400 * 1000);
+
+      expect(await registry.roomExists(room.roomId)).toBe(false);
+      expect(await registry.nextRoundRobinCounter(room.roomId)).toBe(1);
+    });
+  });
+
+  describe('rate limiter', () => {
+    it('should allow a burst up to the capacity and refill over time', async () => {
+      const limiter = new InMemoryRateLimiter();
+      const bucket = { capacity: 2, refillPerSecond: 1 };
+
+      const burst = [];
+      for (let i = 0; i < 3; i++) {
+        burst.push(await limiter.consume('conn:conn-1', bucket));
+      }
+
+      expect(burst.map(result => result.allowed)).toEqual([true, true, false]);
+      expect(burst[2].retryAfterMs).toBe(1000);
+      expect((await limiter.consume('conn:conn-2', bucket)).allowed).toBe(true);
+
+      jest.advanceTimersByTime(1000);
+
+      expect((await limiter.consume('conn:conn-1', bucket)).allowed).toBe(true);
+    });
+  });
+
+  it('should be created by the storage factory when STORAGE_TYPE is memory', () => {
+    process.env.STORAGE_TYPE = 'memory';
+
+    const storage = StorageFactory.createStorage();
+
+    expect(storage.type).toBe('memory');
+    expect(storage.connectionManager).toBeInstanceOf(InMemoryConnectionManager);
+    expect(storage.messageBus).toBeInstanceOf(LocalMessageBus);
+    expect(() => {
+      process.env.STORAGE_TYPE = 'dynamodb';
+      StorageFactory.createStorage();
+    }).toThrow('Unsupported STORAGE_TYPE: dynamodb');
+  });
+});
@@ -0,0 +1,98 @@
+import { FakeRedis } from './support/fake-redis';
+
+const mockRedis = new FakeRedis();
+
+jest.mock('redis', () => ({
+  createClient: () => mockRedis.createClient()
+}));
+
+import { MessageLogConfig } from '../messaging/message-log';
+import { InMemoryMessageLog } from '../messaging/in-memory-message-log';
+import { RedisMessageLog } from '../messaging/redis-message-log';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+type MessageLog = InMemoryMessageLog | RedisMessageLog;
+
+const config: MessageLogConfig = { retentionSeconds: 3600, replayLimit: 2 };
+
+describe.each([
+  ['In-Memory', () => new InMemoryMessageLog(config)],
+  ['Redis', () => new RedisMessageLog(new RedisConnectionManager(), config)]
+] as Array<[string, () => MessageLog]>)('%s Message Log', (_name, createLog) => {
+  let now: number;
+
+  beforeEach(() => {
+    mockRedis.flushAll();
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only return the current position without a cursor', async () => {
+    const log = createLog();
+
+    expect(await log.readSince('ABC234')).toEqual({ messages: [], cursor: null, hasMore: false });
+
+    const streamId = await log.append('ABC234', { type: 'reactionAlert' });
+
+    expect(await log.readSince('ABC234')).toEqual({ messages: [], cursor: streamId, hasMore: false });
+  });
+
+  it('should replay the messages after the cursor oldest first, in pages of the replay limit', async () => {
+    const log = createLog();
+    const cursor = await log.append('ABC234', { type: 'reactionAlert', seq: 0 });
+    const streamIds = [];
+    for (const seq of [1, 2, 3]) {
+      streamIds.push(await log.append('ABC234', { type: 'reactionAlert', seq }));
+    }
+
+    const firstPage = await log.readSince('ABC234', cursor);
+    const secondPage = await log.readSince('ABC234', firstPage.cursor);
+
+    expect(firstPage.messages.map(entry => entry.message.seq)).toEqual([1, 2]);
+    expect(firstPage).toMatchObject({ cursor: streamIds[1], hasMore: true });
+    expect(secondPage.messages).toEqual([{ streamId: streamIds[2], message: { type: 'reactionAlert', seq: 3 } }]);
+    expect(secondPage).toMatchObject({ cursor: streamIds[2], hasMore: false });
+  });
+
+  it('should keep the cursor when nothing was missed', async () => {
+    const log = createLog();
+    const cursor = await log.append('ABC234', { type: 'reactionAlert' });
+
+    expect(await log.readSince('ABC234', cursor)).toEqual({ messages: [], cursor, hasMore: false });
+  });
+
+  it('should give messages appended within the same millisecond increasing IDs', async () => {
+    const log = createLog();
+    const first = await log.append('ABC234', { seq: 1 });
+    const second = await log.append('ABC234', { seq: 2 });
+
+    expect(first).toBe(`${now}-0`);
+    expect(second).toBe(`${now}-1`);
+  });
+
+  it('should drop messages older than the retention window', async () => {
+    const log = createLog();
+    await log.append('ABC234', { seq: 1 });
+
+    now += 3601000;
+    await log.append('ABC234', { seq: 2 });
+
+    const { messages } = await log.readSince('ABC234', '0-0');
+
+    expect(messages.map(entry => entry.message.seq)).toEqual([2]);
+  });
+
+  it('should keep the logs of rooms apart', async () => {
+    const log = createLog();
+    await log.append('ABC234', { seq: 1 });
+    await log.append('XYZ789', { seq: 2 });
+
+    const { messages } = await log.readSince('XYZ789', '0-0');
+
+    expect(messages.map(entry => entry.message.seq)).toEqual([2]);
+  });
+});
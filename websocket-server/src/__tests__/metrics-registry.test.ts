@@ -0,0 +1,82 @@
+import { MetricsRegistry } from '../metrics/metrics-registry';
+
+describe('Metrics Registry', () => {
+  it('should render counters with the _total suffix in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const frames = registry.counter('ws_frames', 'Client frames handled by action', ['action']);
+    frames.inc({ action: 'sendMessage' });
+    frames.inc({ action: 'sendMessage' }, 2);
+    frames.inc({ action: 'joinRoom' });
+
+    expect(registry.render()).toBe([
+      '# HELP ws_frames_total Client frames handled by action',
+      '# TYPE ws_frames_total counter',
+      'ws_frames_total{action="sendMessage"} 3',
+      'ws_frames_total{action="joinRoom"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('should name counter families without the suffix and end with EOF in OpenMetrics', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('ws_heartbeat_terminations', 'Connections terminated for missing a heartbeat pong').inc();
+    registry.gauge('ws_degraded', '1 while Redis is unreachable').set({}, 0);
+
+    expect(registry.render(true)).toBe([
+      '# HELP ws_heartbeat_terminations Connections terminated for missing a heartbeat pong',
+      '# TYPE ws_heartbeat_terminations counter',
+      'ws_heartbeat_terminations_total 1',
+      '# HELP ws_degraded 1 while Redis is unreachable',
+      '# TYPE ws_degraded gauge',
+      'ws_degraded 0',
+      '# EOF',
+      ''
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets with their sum and count', () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram('ws_redis_operation_duration_seconds', 'Duration of Redis store operations', ['operation'], [0.01, 0.1]);
+    duration.observe({ operation: 'get connections' }, 0.005);
+    duration.observe({ operation: 'get connections' }, 0.05);
+    duration.observe({ operation: 'get connections' }, 0.5);
+
+    expect(registry.render().split('\n').slice(2, -1)).toEqual([
+      'ws_redis_operation_duration_seconds_bucket{operation="get connections",le="0.01"} 1',
+      'ws_redis_operation_duration_seconds_bucket{operation="get connections",le="0.1"} 2',
+      'ws_redis_operation_duration_seconds_bucket{operation="get connections",le="+Inf"} 3',
+      'ws_redis_operation_duration_seconds_sum{operation="get connections"} 0.555',
+      'ws_redis_operation_duration_seconds_count{operation="get connections"} 3'
+    ]);
+  });
+
+  it('should escape label values and help text', () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('ws_connections', 'Open connections\nby role', ['role']).set({ role: 'a "quoted" \\ role' }, 1);
+
+    expect(registry.render()).toContain('# HELP ws_connections Open connections\\nby role');
+    expect(registry.render()).toContain('ws_connections{role="a \\"quoted\\" \\\\ role"} 1');
+  });
+
+  it('should reject unknown labels, decreasing counters and duplicate names', () => {
+    const registry = new MetricsRegistry();
+    const frames = registry.counter('ws_frames', 'Client frames handled by action', ['action']);
+
+    expect(() => frames.inc({ reaction: 'slower' })).toThrow('Unknown labels for ws_frames: reaction');
+    expect(() => frames.inc({ action: 'sendMessage' }, -1)).toThrow('Counter ws_frames cannot decrease');
+    expect(() => registry.gauge('ws_frames', 'Again')).toThrow('Metric ws_frames is already registered');
+  });
+
+  it('should run collectors before rendering and survive one that fails', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const registry = new MetricsRegistry();
+    const connections = registry.gauge('ws_connections', 'Open connections by role', ['role']);
+    registry.onCollect(() => {
+      throw new Error('collector failed');
+    });
+    registry.onCollect(() => connections.set({ role: 'admin' }, 2));
+
+    expect(registry.render()).toContain('ws_connections{role="admin"} 2');
+    jest.restoreAllMocks();
+  });
+});
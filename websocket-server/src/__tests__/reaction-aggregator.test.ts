@@ -0,0 +1,128 @@
+import { FakeRedis } from './support/fake-redis';
+
+const mockRedis = new FakeRedis();
+
+jest.mock('redis', () => ({
+  createClient: () => mockRedis.createClient()
+}));
+
+import { AggregationConfig } from '../aggregation/reaction-aggregator';
+import { InMemoryReactionAggregator } from '../aggregation/in-memory-reaction-aggregator';
+import { RedisReactionAggregator } from '../aggregation/redis-reaction-aggregator';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+type ReactionAggregator = InMemoryReactionAggregator | RedisReactionAggregator;
+
+const config: AggregationConfig = { windowSeconds: 60, thresholdCount: 3, thresholdPercent: 0 };
+
+describe.each([
+  ['In-Memory', (aggregationConfig: AggregationConfig) => new InMemoryReactionAggregator(aggregationConfig)],
+  ['Redis', (aggregationConfig: AggregationConfig) => new RedisReactionAggregator(new RedisConnectionManager(), aggregationConfig)]
+] as Array<[string, (aggregationConfig: AggregationConfig) => ReactionAggregator]>)('%s Reaction Aggregator', (_name, createAggregator) => {
+  let now: number;
+
+  beforeEach(() => {
+    mockRedis.flushAll();
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should count each requester once and alert only for the request that crosses the threshold', async () => {
+    const aggregator = createAggregator(config);
+
+    const results = [];
+    for (const connectionId of ['user-1', 'user-1', 'user-2', 'user-3', 'user-4']) {
+      results.push(await aggregator.recordRequest('ABC234', 'slower', connectionId, 10));
+    }
+
+    expect(results.map(result => result.counter.count)).toEqual([1, 1, 2, 3, 4]);
+    expect(results.map(result => result.alert?.threshold || null)).toEqual([null, null, null, 'count', null]);
+    expect(results[3].alert).toMatchObject({ roomId: 'ABC234', reactionId: 'slower', audienceSize: 10, windowSeconds: 60, percent: 30 });
+  });
+
+  it('should alert on the share of the audience when the count threshold is disabled', async () => {
+    const aggregator = createAggregator({ windowSeconds: 60, thresholdCount: 0, thresholdPercent: 50 });
+
+    await aggregator.recordRequest('ABC234', 'louder', 'user-1', 4);
+    const { alert } = await aggregator.recordRequest('ABC234', 'louder', 'user-2', 4);
+
+    expect(alert).toMatchObject({ count: 2, percent: 50, threshold: 'percent' });
+  });
+
+  it('should only count requests within the window', async () => {
+    const aggregator = createAggregator(config);
+    await aggregator.recordRequest('ABC234', 'slower', 'user-1', 10);
+
+    now += 61000;
+    const { counter } = await aggregator.recordRequest('ABC234', 'slower', 'user-2', 10);
+
+    expect(counter).toEqual({ reactionId: 'slower', count: 1, percent: 10 });
+  });
+
+  it('should re-arm the alert once the counter falls back below the threshold', async () => {
+    const aggregator = createAggregator(config);
+    for (const connectionId of ['user-1', 'user-2', 'user-3']) {
+      await aggregator.recordRequest('ABC234', 'slower', connectionId, 10);
+      now += 20000;
+    }
+
+    // The first request has left the window
+    now += 1000;
+    const [counter] = await aggregator.getCounters('ABC234', ['slower'], 10);
+    const { alert } = await aggregator.recordRequest('ABC234', 'slower', 'user-4', 10);
+
+    expect(counter.count).toBe(2);
+    expect(alert).toMatchObject({ count: 3, threshold: 'count' });
+  });
+
+  it('should return the requesters in request order and reset the window on acknowledge', async () => {
+    const aggregator = createAggregator(config);
+    await aggregator.recordRequest('ABC234', 'slower', 'user-1', 10, 'req-1');
+    now += 1000;
+    await aggregator.recordRequest('ABC234', 'slower', 'user-2', 10);
+    now += 1000;
+    await aggregator.recordRequest('ABC234', 'slower', 'user-1', 10, 'req-3');
+
+    const requesters = await aggregator.acknowledge('ABC234', 'slower');
+    const [counter] = await aggregator.getCounters('ABC234', ['slower'], 10);
+
+    expect(requesters).toEqual([{ connectionId: 'user-2', requestId: undefined }, { connectionId: 'user-1', requestId: 'req-3' }]);
+    expect(counter.count).toBe(0);
+  });
+
+  it('should keep rooms and reactions apart', async () => {
+    const aggregator = createAggregator(config);
+    await aggregator.recordRequest('ABC234', 'slower', 'user-1', 10);
+    await aggregator.recordRequest('ABC234', 'louder', 'user-1', 10);
+    await aggregator.recordRequest('XYZ789', 'slower', 'user-2', 10);
+
+    const counters = await aggregator.getCounters('ABC234', ['slower', 'louder', 'question'], 10);
+
+    expect(counters.map(counter => counter.count)).toEqual([1, 1, 0]);
+  });
+});
+
+describe('Redis Reaction Aggregator across pods', () => {
+  beforeEach(() => {
+    mockRedis.flushAll();
+  });
+
+  it('should count the requests of every pod and raise the alert on one of them', async () => {
+    const pods = [
+      new RedisReactionAggregator(new RedisConnectionManager(), config),
+      new RedisReactionAggregator(new RedisConnectionManager(), config)
+    ];
+
+    const results = [];
+    for (const [index, connectionId] of ['user-1', 'user-2', 'user-3', 'user-4'].entries()) {
+      results.push(await pods[index % 2].recordRequest('ABC234', 'slower', connectionId, 10));
+    }
+
+    expect(results.map(result => result.counter.count)).toEqual([1, 2, 3, 4]);
+    expect(results.filter(result => result.alert)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,168 @@
+import { FakeRedis } from './support/fake-redis';
+
+const mockRedis = new FakeRedis();
+
+jest.mock('redis', () => ({
+  createClient: () => mockRedis.createClient()
+}));
+
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+
+describe('Redis Connection Manager', () => {
+  let manager: RedisConnectionManager;
+
+  beforeEach(() => {
+    mockRedis.flushAll();
+    manager = new RedisConnectionManager();
+  });
+
+  it('should move a connection between room indexes and keep its remaining TTL', async () => {
+    await manager.storeConnection('conn-1', 'user');
+    await mockRedis.createClient().expire('connection:conn-1', 600);
+
+    await manager.updateConnectionRoom('conn-1', 'room-a');
+
+    expect(await manager.getConnectionMetadata('conn-1')).toEqual(expect.objectContaining({ roomId: 'room-a' }));
+    expect(await manager.getConnections('user', 'room-a')).toEqual(['conn-1']);
+    expect(await manager.getConnections('user', 'lobby')).toEqual([]);
+    expect(mockRedis.ttl('connection:conn-1')).toBe(600);
+  });
+
+  it('should drop the admin role of a connection demoted to user', async () => {
+    await manager.storeConnection('conn-1', 'admin', { adminRole: 'moderator' });
+
+    await manager.updateConnectionType('conn-1', 'user');
+
+    const metadata = await manager.getConnectionMetadata('conn-1');
+    expect(metadata?.connectionType).toBe('user');
+    expect(metadata).not.toHaveProperty('adminRole');
+    expect(await manager.getConnections('admin')).toEqual([]);
+    expect(await manager.getConnections('user', 'lobby')).toEqual(['conn-1']);
+  });
+
+  it('should not recreate a connection that is gone', async () => {
+    await expect(manager.updateConnectionRoom('conn-1', 'room-a')).rejects.toThrow('Connection conn-1 not found');
+
+    expect(mockRedis.keys()).toEqual([]);
+  });
+
+  it('should remove a connection with its index entries and pod membership', async () => {
+    await manager.storeConnection('conn-1', 'admin', { roomId: 'room-a' });
+    await manager.storeConnection('conn-2', 'user', { roomId: 'room-a' });
+
+    await manager.removeConnection('conn-1');
+
+    expect(await manager.connectionExists('conn-1')).toBe(false);
+    expect(await manager.getConnections('admin', 'room-a')).toEqual([]);
+    expect(await mockRedis.createClient().sMembers(`pod:${manager.getPodId()}:connections`)).toEqual(['conn-2']);
+  });
+
+  it('should clean the type indexes of a connection whose metadata expired', async () => {
+    await manager.storeConnection('conn-1', 'user');
+    await mockRedis.createClient().del('connection:conn-1');
+
+    await manager.removeConnection('conn-1');
+
+    expect(await manager.getConnections('user')).toEqual([]);
+  });
+
+  it('should retry an update when another pod changed the connection in between', async () => {
+    const otherPod = new RedisConnectionManager();
+    await manager.storeConnection('conn-1', 'user');
+
+    const client = await manager.getClient();
+    const evalScript = client.eval.bind(client);
+    jest.spyOn(client, 'eval').mockImplementationOnce(async (...args: Parameters<typeof client.eval>) => {
+      await otherPod.updateConnectionRoom('conn-1', 'room-b');
+      return evalScript(...args);
+    });
+
+    await manager.updateConnectionRoom('conn-1', 'room-c');
+
+    expect(client.eval).toHaveBeenCalledTimes(2);
+    expect(await manager.getConnections('user', 'room-c')).toEqual(['conn-1']);
+    expect(await manager.getConnections('user', 'room-b')).toEqual([]);
+    expect(await manager.getConnections('user', 'lobby')).toEqual([]);
+  });
+
+  describe('expiry index', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should leave expired connections out of the indexes they are read from', async () => {
+      await manager.storeConnection('conn-1', 'user', { roomId: 'room-a' });
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 86401000);
+      await manager.storeConnection('conn-2', 'user', { roomId: 'room-a' });
+
+      expect(await manager.getConnections('user')).toEqual(['conn-2']);
+      expect(await manager.getConnections('user', 'room-a')).toEqual(['conn-2']);
+    });
+
+    it('should sweep expired entries from the index of every room', async () => {
+      await manager.storeConnection('conn-1', 'user', { roomId: 'room-a' });
+      await manager.storeConnection('conn-2', 'admin', { roomId: 'room-b' });
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 86401000);
+
+      await manager.cleanupExpiredConnections();
+
+      expect(mockRedis.keys().filter(key => key.includes('connections-by-expiry'))).toEqual([]);
+    });
+  });
+
+  describe('pod leases', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should mark a pod alive while its lease is renewed', async () => {
+      const otherPod = new RedisConnectionManager();
+
+      await otherPod.renewPodLease();
+      expect(await manager.isPodAlive(otherPod.getPodId())).toBe(true);
+
+      await otherPod.releasePodLease();
+      expect(await manager.isPodAlive(otherPod.getPodId())).toBe(false);
+    });
+
+    it('should consider a connection alive only while its owner holds a lease', async () => {
+      const otherPod = new RedisConnectionManager();
+      await otherPod.renewPodLease();
+      await otherPod.storeConnection('conn-1', 'user');
+      await manager.storeConnection('conn-2', 'user');
+      await manager.storeConnection('conn-3', 'user', { podId: undefined });
+
+      expect(await manager.isConnectionOwnerAlive('conn-1')).toBe(true);
+      expect(await manager.isConnectionOwnerAlive('conn-2')).toBe(true);
+
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 31000);
+
+      expect(await manager.isConnectionOwnerAlive('conn-1')).toBe(false);
+      expect(await manager.isConnectionOwnerAlive('conn-3')).toBe(true);
+      expect(await manager.isConnectionOwnerAlive('conn-4')).toBe(false);
+    });
+
+    it('should reap the connections of pods whose lease expired and leave live pods alone', async () => {
+      const deadPod = new RedisConnectionManager();
+      await manager.renewPodLease();
+      await deadPod.renewPodLease();
+      await manager.storeConnection('conn-1', 'admin', { roomId: 'room-a' });
+      await deadPod.storeConnection('conn-2', 'user', { roomId: 'room-a' });
+      await deadPod.storeConnection('conn-3', 'admin');
+
+      expect(await manager.reapExpiredPods()).toBe(0);
+
+      await deadPod.releasePodLease();
+
+      expect(await manager.reapExpiredPods()).toBe(2);
+      expect(await manager.connectionExists('conn-2')).toBe(false);
+      expect(await manager.getConnections('user', 'room-a')).toEqual([]);
+      expect(await manager.getConnections('admin')).toEqual(['conn-1']);
+      expect(await mockRedis.createClient().sMembers('pods')).toEqual([manager.getPodId()]);
+      expect(mockRedis.keys()).not.toContain(`pod:${deadPod.getPodId()}:connections`);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+const mockSubscribers = new Map<string, Array<(message: string) => void>>();
+const mockClients: any[] = [];
+let mockConnectError: Error | null = null;
+
+// Pub/sub shared by every client created in the test, like one Redis server
+jest.mock('redis', () => ({
+  createClient: jest.fn(() => {
+    const client = {
+      isOpen: false,
+      on: jest.fn(),
+      connect: jest.fn(async () => {
+        client.isOpen = true;
+        if (mockConnectError) {
+          throw mockConnectError;
+        }
+      }),
+      disconnect: jest.fn(async () => {
+        client.isOpen = false;
+      }),
+      subscribe: jest.fn(async (channel: string, listener: (message: string) => void) => {
+        mockSubscribers.set(channel, [...(mockSubscribers.get(channel) || []), listener]);
+      }),
+      unsubscribe: jest.fn(async (channel: string) => {
+        mockSubscribers.delete(channel);
+      }),
+      publish: jest.fn(async (channel: string, message: string) => {
+        (mockSubscribers.get(channel) || []).forEach(listener => listener(message));
+        return mockSubscribers.get(channel)?.length || 0;
+      })
+    };
+    mockClients.push(client);
+    return client;
+  })
+}));
+
+import { RedisMessageBus } from '../messaging/redis-message-bus';
+
+describe('Redis Message Bus', () => {
+  beforeEach(() => {
+    mockSubscribers.clear();
+    mockClients.length = 0;
+    mockConnectError = null;
+  });
+
+  it('should deliver payloads published by another pod to the local handler', async () => {
+    const received: Array<[string, string]> = [];
+    const localPod = new RedisMessageBus();
+    const otherPod = new RedisMessageBus();
+    await localPod.start((connectionId, payload) => received.push([connectionId, payload]) > 0);
+    await otherPod.start(() => false);
+
+    await otherPod.publish('conn-1', '{"type":"reactionAlert"}');
+
+    expect(received).toEqual([['conn-1', '{"type":"reactionAlert"}']]);
+  });
+
+  it('should skip envelopes it cannot parse and keep delivering', async () => {
+    const handler = jest.fn(() => true);
+    const bus = new RedisMessageBus();
+    await bus.start(handler);
+
+    mockSubscribers.get('ws:deliver')!.forEach(listener => listener('not json'));
+    await bus.publish('conn-1', 'payload');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith('conn-1', 'payload');
+  });
+
+  it('should refuse to publish before it has started', async () => {
+    await expect(new RedisMessageBus().publish('conn-1', 'payload')).rejects.toThrow('Redis message bus not started');
+  });
+
+  it('should disconnect its clients when a start attempt fails, and start on a later attempt', async () => {
+    const bus = new RedisMessageBus();
+    mockConnectError = new Error('connect ECONNREFUSED 10.0.0.3:6379');
+
+    await expect(bus.start(() => true)).rejects.toThrow('Failed to start message bus');
+    expect(mockClients).toHaveLength(2);
+    expect(mockClients.every(client => !client.isOpen)).toBe(true);
+
+    mockConnectError = null;
+    await bus.start(() => true);
+    await bus.publish('conn-1', 'payload');
+
+    expect(mockClients).toHaveLength(4);
+    expect(mockClients[2].publish).toHaveBeenCalledWith('ws:deliver', JSON.stringify({ connectionId: 'conn-1', payload: 'payload' }));
+  });
+
+  it('should unsubscribe and close both clients on stop', async () => {
+    const bus = new RedisMessageBus();
+    await bus.start(() => true);
+
+    await bus.stop();
+
+    expect(mockSubscribers.has('ws:deliver')).toBe(false);
+    mockClients.forEach(client => expect(client.disconnect).toHaveBeenCalledTimes(1));
+    await expect(bus.publish('conn-1', 'payload')).rejects.toThrow('Redis message bus not started');
+  });
+});
@@ -0,0 +1,514 @@
+/**
+ * Fake Redis
+ * In-memory stand-in for a Redis server, with the commands the stores use.
+ * Clients created by one FakeRedis share its data, like pods sharing one Redis,
+ * and their commands are refused while it is made unreachable.
+ * Scripts run through a translation of the small Lua subset the stores use, and
+ * fail when they touch a key that was not passed in KEYS, which Redis requires of scripts
+ * so it can tell which node of a cluster runs them.
+ */
+
+interface ValueTypes {
+  string: string;
+  set: Set<string>;
+  zset: Map<string, number>;
+  hash: Map<string, string>;
+  stream: Array<{ id: string; message: Record<string, string> }>;
+}
+
+type Value = { [T in keyof ValueTypes]: { type: T; value: ValueTypes[T] } }[keyof ValueTypes];
+
+interface SetOptions {
+  NX?: boolean;
+  EX?: number;
+}
+
+interface ScriptOptions {
+  keys?: string[];
+  arguments?: string[];
+}
+
+export class FakeRedis {
+  private data = new Map<string, Value>();
+  private expiries = new Map<string, number>();
+  private lastStreamId = { ms: 0, seq: 0 };
+  private outage: Error | null = null;
+
+  /**
+   * Create a client of this server. Pass it from a jest.mock('redis') factory.
+   */
+  createClient(): FakeRedisClient {
+    return new FakeRedisClient(this);
+  }
+
+  /**
+   * Every live key, for assertions on what a store left behind
+   */
+  keys(): string[] {
+    return [...this.data.keys()].filter(key => this.lookup(key) !== undefined).sort();
+  }
+
+  flushAll(): void {
+    this.data.clear();
+    this.expiries.clear();
+    this.lastStreamId = { ms: 0, seq: 0 };
+    this.outage = null;
+  }
+
+  /**
+   * Refuse every command like a Redis that went down, until made reachable again
+   */
+  setReachable(reachable: boolean): void {
+    this.outage = reachable ? null : Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:6379'), { code: 'ECONNREFUSED' });
+  }
+
+  /**
+   * The server, for commands of a client. Throws while unreachable.
+   */
+  connectTo(): FakeRedis {
+    if (this.outage) {
+      throw this.outage;
+    }
+
+    return this;
+  }
+
+  lookup(key: string): Value | undefined {
+    const expiresAt = this.expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.data.delete(key);
+      this.expiries.delete(key);
+    }
+
+    return this.data.get(key);
+  }
+
+  read<T extends keyof ValueTypes>(key: string, type: T): ValueTypes[T] | undefined {
+    const entry = this.lookup(key);
+    if (entry && entry.type !== type) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+
+    return entry?.value as ValueTypes[T] | undefined;
+  }
+
+  write<T extends keyof ValueTypes>(key: string, type: T, create: () => ValueTypes[T]): ValueTypes[T] {
+    const existing = this.read(key, type);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const value = create();
+    this.data.set(key, { type, value } as Value);
+    return value;
+  }
+
+  replace(key: string, value: string, ttlSeconds?: number): void {
+    this.data.set(key, { type: 'string', value });
+    this.expiries.delete(key);
+
+    if (ttlSeconds !== undefined) {
+      this.expiries.set(key, Date.now() + ttlSeconds * 1000);
+    }
+  }
+
+  remove(key: string): boolean {
+    const existed = this.lookup(key) !== undefined;
+    this.data.delete(key);
+    this.expiries.delete(key);
+    return existed;
+  }
+
+  /**
+   * Drop collections that became empty, Redis does not keep empty keys
+   */
+  prune(key: string): void {
+    const entry = this.data.get(key);
+    if (entry && entry.type !== 'string' && (entry.value instanceof Array ? entry.value.length : entry.value.size) === 0) {
+      this.remove(key);
+    }
+  }
+
+  expire(key: string, seconds: number): boolean {
+    if (this.lookup(key) === undefined) {
+      return false;
+    }
+
+    this.expiries.set(key, Date.now() + seconds * 1000);
+    return true;
+  }
+
+  ttl(key: string): number {
+    if (this.lookup(key) === undefined) {
+      return -2;
+    }
+
+    const expiresAt = this.expiries.get(key);
+    return expiresAt === undefined ? -1 : Math.ceil((expiresAt - Date.now()) / 1000);
+  }
+
+  nextStreamId(): string {
+    const now = Date.now();
+    this.lastStreamId = now > this.lastStreamId.ms
+      ? { ms: now, seq: 0 }
+      : { ms: this.lastStreamId.ms, seq: this.lastStreamId.seq + 1 };
+
+    return `${this.lastStreamId.ms}-${this.lastStreamId.seq}`;
+  }
+}
+
+export class FakeRedisClient {
+  isOpen = false;
+  private redis: FakeRedis;
+
+  constructor(redis: FakeRedis) {
+    this.redis = redis;
+  }
+
+  private get server(): FakeRedis {
+    return this.redis.connectTo();
+  }
+
+  on(): this {
+    return this;
+  }
+
+  async connect(): Promise<void> {
+    this.isOpen = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.isOpen = false;
+  }
+
+  async quit(): Promise<void> {
+    this.isOpen = false;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.server.read(key, 'string') ?? null;
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<'OK' | null> {
+    if (options.NX && this.server.lookup(key) !== undefined) {
+      return null;
+    }
+
+    this.server.replace(key, value, options.EX);
+    return 'OK';
+  }
+
+  async setEx(key: string, seconds: number, value: string): Promise<'OK'> {
+    this.server.replace(key, value, seconds);
+    return 'OK';
+  }
+
+  async incr(key: string): Promise<number> {
+    const next = parseInt(this.server.read(key, 'string') ?? '0', 10) + 1;
+    const ttl = this.server.ttl(key);
+    this.server.replace(key, next.toString(), ttl > 0 ? ttl : undefined);
+    return next;
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    return [keys].flat().filter(key => this.server.remove(key)).length;
+  }
+
+  async exists(key: string): Promise<number> {
+    return this.server.lookup(key) === undefined ? 0 : 1;
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    return this.server.expire(key, seconds);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.server.ttl(key);
+  }
+
+  async sAdd(key: string, members: string | string[]): Promise<number> {
+    const set = this.server.write(key, 'set', () => new Set());
+    return [members].flat().filter(member => !set.has(member) && set.add(member)).length;
+  }
+
+  async sRem(key: string, members: string | string[]): Promise<number> {
+    const set = this.server.read(key, 'set');
+    const removed = [members].flat().filter(member => set?.delete(member)).length;
+    this.server.prune(key);
+    return removed;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return [...(this.server.read(key, 'set') ?? [])];
+  }
+
+  async zAdd(key: string, members: { score: number; value: string } | Array<{ score: number; value: string }>): Promise<number> {
+    const zset = this.server.write(key, 'zset', () => new Map());
+    return [members].flat().filter(({ score, value }) => {
+      const added = !zset.has(value);
+      zset.set(value, score);
+      return added;
+    }).length;
+  }
+
+  async zRem(key: string, members: string | string[]): Promise<number> {
+    const zset = this.server.read(key, 'zset');
+    const removed = [members].flat().filter(member => zset?.delete(member)).length;
+    this.server.prune(key);
+    return removed;
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.server.read(key, 'zset')?.size ?? 0;
+  }
+
+  async zRange(key: string, start: number, stop: number): Promise<string[]> {
+    const members = this.sortedMembers(key);
+    return members.slice(start, stop < 0 ? members.length + stop + 1 : stop + 1);
+  }
+
+  async zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]> {
+    const [low, high] = [parseScore(min), parseScore(max)];
+    const zset = this.server.read(key, 'zset');
+    return this.sortedMembers(key).filter(member => zset!.get(member)! >= low && zset!.get(member)! <= high);
+  }
+
+  async zRemRangeByScore(key: string, min: number | string, max: number | string): Promise<number> {
+    const removed = await this.zRangeByScore(key, min, max);
+    return this.zRem(key, removed);
+  }
+
+  async hSet(key: string, field: string | Record<string, string>, value?: string): Promise<number> {
+    const hash = this.server.write(key, 'hash', () => new Map());
+    const entries = typeof field === 'string' ? [[field, value!]] : Object.entries(field);
+    return entries.filter(([name, fieldValue]) => {
+      const added = !hash.has(name);
+      hash.set(name, fieldValue);
+      return added;
+    }).length;
+  }
+
+  async hmGet(key: string, fields: string[]): Promise<Array<string | null>> {
+    const hash = this.server.read(key, 'hash');
+    return fields.map(field => hash?.get(field) ?? null);
+  }
+
+  async xAdd(key: string, id: string, message: Record<string, string>, options?: { TRIM?: { strategy: string; threshold: number } }): Promise<string> {
+    const stream = this.server.write(key, 'stream', () => []);
+    const streamId = id === '*' ? this.server.nextStreamId() : id;
+    stream.push({ id: streamId, message });
+
+    if (options?.TRIM?.strategy === 'MINID') {
+      const threshold = options.TRIM.threshold;
+      stream.splice(0, stream.length, ...stream.filter(entry => compareStreamIds(entry.id, `${threshold}-0`) >= 0));
+    }
+
+    return streamId;
+  }
+
+  async xRange(key: string, start: string, end: string, options?: { COUNT?: number }): Promise<Array<{ id: string; message: Record<string, string> }>> {
+    const entries = (this.server.read(key, 'stream') ?? []).filter(entry => inStreamRange(entry.id, start, end));
+    return entries.slice(0, options?.COUNT ?? entries.length);
+  }
+
+  async xRevRange(key: string, end: string, start: string, options?: { COUNT?: number }): Promise<Array<{ id: string; message: Record<string, string> }>> {
+    const entries = (await this.xRange(key, start, end)).reverse();
+    return entries.slice(0, options?.COUNT ?? entries.length);
+  }
+
+  async *scanIterator(options: { MATCH?: string; TYPE?: string } = {}): AsyncIterable<string> {
+    const pattern = new RegExp(`^${(options.MATCH ?? '*').split('*').map(escapeRegExp).join('.*')}$`);
+
+    for (const key of this.server.keys()) {
+      if (pattern.test(key) && (!options.TYPE || this.server.lookup(key)?.type === options.TYPE)) {
+        yield key;
+      }
+    }
+  }
+
+  /**
+   * Queue commands and run them in order on exec(), nothing else runs in between
+   */
+  multi(): any {
+    const queued: Array<() => Promise<unknown>> = [];
+    const transaction: any = new Proxy({}, {
+      get: (_target, command: string) => {
+        if (command === 'exec') {
+          return async () => {
+            const results: unknown[] = [];
+            for (const run of queued) {
+              results.push(await run());
+            }
+            return results;
+          };
+        }
+
+        return (...args: unknown[]) => {
+          queued.push(() => (this as any)[command](...args));
+          return transaction;
+        };
+      }
+    });
+
+    return transaction;
+  }
+
+  async eval(script: string, options: ScriptOptions = {}): Promise<unknown> {
+    const keys = options.keys ?? [];
+    const call = (command: string, key: string, ...args: unknown[]): unknown => {
+      if (!keys.includes(key)) {
+        throw new Error(`Script attempted to access key ${key} that was not declared in KEYS`);
+      }
+
+      return this.callFromScript(command.toUpperCase(), key, args.map(String));
+    };
+
+    const run = new Function('KEYS', 'ARGV', 'call', 'truthy', translateLua(script));
+    return toReply(run([undefined, ...keys], [undefined, ...(options.arguments ?? [])], call, isTruthy));
+  }
+
+  /**
+   * redis.call() inside a script. Scripts run atomically, so the commands run synchronously.
+   */
+  private callFromScript(command: string, key: string, args: string[]): unknown {
+    const server = this.server;
+
+    switch (command) {
+      case 'GET':
+        return server.read(key, 'string') ?? null;
+      case 'SET': {
+        const ex = args.findIndex(arg => arg.toUpperCase() === 'EX');
+        server.replace(key, args[0], ex >= 0 ? Number(args[ex + 1]) : undefined);
+        return 'OK';
+      }
+      case 'DEL':
+        return server.remove(key) ? 1 : 0;
+      case 'TTL':
+        return server.ttl(key);
+      case 'EXPIRE':
+        return server.expire(key, Number(args[0])) ? 1 : 0;
+      case 'SREM': {
+        const removed = server.read(key, 'set')?.delete(args[0]) ? 1 : 0;
+        server.prune(key);
+        return removed;
+      }
+      case 'ZADD':
+        server.write(key, 'zset', () => new Map()).set(args[1], Number(args[0]));
+        return 1;
+      case 'ZREM': {
+        const removed = server.read(key, 'zset')?.delete(args[0]) ? 1 : 0;
+        server.prune(key);
+        return removed;
+      }
+      case 'HMGET': {
+        const hash = server.read(key, 'hash');
+        return [undefined, ...args.map(field => hash?.get(field) ?? null)];
+      }
+      case 'HSET': {
+        const hash = server.write(key, 'hash', () => new Map());
+        for (let i = 0; i < args.length; i += 2) {
+          hash.set(args[i], args[i + 1]);
+        }
+        return args.length / 2;
+      }
+      default:
+        throw new Error(`Fake Redis does not support ${command} in scripts`);
+    }
+  }
+
+  private sortedMembers(key: string): string[] {
+    const zset = this.server.read(key, 'zset');
+    if (!zset) {
+      return [];
+    }
+
+    return [...zset.keys()].sort((a, b) => zset.get(a)! - zset.get(b)! || (a < b ? -1 : a > b ? 1 : 0));
+  }
+}
+
+/**
+ * Translate the Lua the stores use into a JavaScript function body: one statement
+ * per line, local variables, if/else blocks, redis.call() and a few library functions.
+ * Tables are 1-based, so KEYS, ARGV and tables from redis.call() carry a hole at index 0.
+ */
+function translateLua(script: string): string {
+  return script.split('\n').map(line => {
+    const statement = line.trim()
+      .replace(/~=/g, '!=')
+      .replace(/([^=!<>])==([^=])/g, '$1===$2')
+      .replace(/!=/g, '!==')
+      .replace(/\.\./g, '+')
+      .replace(/\bor\b/g, '??')
+      .replace(/\band\b/g, '&&')
+      .replace(/\bnil\b/g, 'null')
+      .replace(/^local\s+/, 'let ')
+      .replace(/redis\.call\(/g, 'call(')
+      .replace(/\btonumber\(/g, 'Number(')
+      .replace(/\btostring\(/g, 'String(')
+      .replace(/\bmath\./g, 'Math.');
+
+    if (statement === 'end') {
+      return '}';
+    }
+    if (statement === 'else') {
+      return '} else {';
+    }
+
+    const condition = statement.match(/^if\s+(not\s+)?(.+)\s+then$/);
+    if (condition) {
+      return `if (${condition[1] ? '!' : ''}truthy(${condition[2]})) {`;
+    }
+
+    const table = statement.match(/^return\s*\{(.*)\}$/);
+    if (table) {
+      return `return [${table[1]}];`;
+    }
+
+    return statement ? `${statement};` : '';
+  }).join('\n');
+}
+
+// Only nil (null here) and false are falsy in Lua
+function isTruthy(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== false;
+}
+
+// Lua numbers become integers and false becomes nil in script replies, like in Redis
+function toReply(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(toReply);
+  }
+  if (typeof value === 'number') {
+    return Math.trunc(value);
+  }
+  if (value === false || value === undefined) {
+    return null;
+  }
+
+  return value;
+}
+
+function parseScore(score: number | string): number {
+  if (typeof score === 'number') {
+    return score;
+  }
+
+  return score === '+inf' ? Infinity : score === '-inf' ? -Infinity : Number(score);
+}
+
+function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq] = a.split('-').map(Number);
+  const [bMs, bSeq] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+function inStreamRange(id: string, start: string, end: string): boolean {
+  const afterStart = start === '-' ||
+    (start.startsWith('(') ? compareStreamIds(id, start.slice(1)) > 0 : compareStreamIds(id, start) >= 0);
+  const beforeEnd = end === '+' || compareStreamIds(id, end) <= 0;
+  return afterStart && beforeEnd;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,43 @@
+/**
+ * Fallback Reaction Aggregator
+ * Counts requests in Redis, or in local memory while Redis is unreachable.
+ * Counters are only kept for one window, so the local ones are not written back
+ * to Redis; they simply lapse after recovery.
+ */
+
+import { AggregationResult, ReactionCounter, Requester } from './reaction-aggregator';
+import { InMemoryReactionAggregator } from './in-memory-reaction-aggregator';
+import { RedisReactionAggregator } from './redis-reaction-aggregator';
+import { DegradedMode } from '../storage/degraded-mode';
+
+export class FallbackReactionAggregator {
+  private primary: RedisReactionAggregator;
+  private local: InMemoryReactionAggregator;
+  private degradedMode: DegradedMode;
+
+  constructor(primary: RedisReactionAggregator, degradedMode: DegradedMode, local: InMemoryReactionAggregator = new InMemoryReactionAggregator()) {
+    this.primary = primary;
+    this.degradedMode = degradedMode;
+    this.local = local;
+  }
+
+  getWindowSeconds(): number {
+    return this.primary.getWindowSeconds();
+  }
+
+  async recordRequest(roomId: string, reactionId: string, connectionId: string, audienceSize: number, requestId?: string): Promise<AggregationResult> {
+    return this.withFallback('record request', aggregator => aggregator.recordRequest(roomId, reactionId, connectionId, audienceSize, requestId));
+  }
+
+  async getCounters(roomId: string, reactionIds: string[], audienceSize: number): Promise<ReactionCounter[]> {
+    return this.withFallback('get counters', aggregator => aggregator.getCounters(roomId, reactionIds, audienceSize));
+  }
+
+  async acknowledge(roomId: string, reactionId: string): Promise<Requester[]> {
+    return this.withFallback('acknowledge reaction', aggregator => aggregator.acknowledge(roomId, reactionId));
+  }
+
+  private async withFallback<T>(operation: string, run: (aggregator: RedisReactionAggregator | InMemoryReactionAggregator) => Promise<T>): Promise<T> {
+    return this.degradedMode.withFallback(operation, () => run(this.primary), () => run(this.local));
+  }
+}
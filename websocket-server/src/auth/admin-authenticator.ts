@@ -0,0 +1,103 @@
+// Generated from protocol/backend/auth/admin-authenticator.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * Admin Authenticator
+ * Issues and verifies HMAC-signed admin tokens; connections without a valid
+ * token are kept in the user role
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AdminRole } from '../connection/connection-manager-interface';
+import { logger } from '../logging/logger';
+
+export interface AdminTokenClaims {
+  role: 'admin';
+  adminRole?: AdminRole;
+  iat: number;
+  exp: number;
+}
+
+export interface ConnectionRole {
+  connectionType: 'user' | 'admin';
+  adminRole?: AdminRole;
+}
+
+export class AdminAuthenticator {
+  private secret?: string;
+  private tokenTtl: number;
+
+  constructor(secret: string | undefined = process.env.ADMIN_TOKEN_SECRET) {
+    this.secret = secret;
+    this.tokenTtl = parseInt(process.env.ADMIN_TOKEN_TTL || '43200'); // 12 hours default
+
+    if (!this.secret) {
+      logger.warn('ADMIN_TOKEN_SECRET is not set, admin authentication is disabled for all connections');
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.secret;
+  }
+
+  /**
+   * Create a token in the form base64url(claims).base64url(signature)
+   */
+  issueToken(ttlSeconds: number = this.tokenTtl, adminRole?: AdminRole): string {
+    if (!this.secret) {
+      throw new Error('ADMIN_TOKEN_SECRET is not set');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims: AdminTokenClaims = { role: 'admin', adminRole, iat: now, exp: now + ttlSeconds };
+    const encodedClaims = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+    return `${encodedClaims}.${this.sign(encodedClaims)}`;
+  }
+
+  /**
+   * Return the token's claims, or null when it is missing, forged or expired
+   */
+  verifyToken(token?: string | null): AdminTokenClaims | null {
+    if (!this.secret || !token) {
+      return null;
+    }
+
+    const [encodedClaims, signature] = token.split('.');
+    if (!encodedClaims || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(encodedClaims));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString()) as AdminTokenClaims;
+      if (claims.role !== 'admin' || typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+        return null;
+      }
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Role of a new connection from its ?type= and ?token= parameters. The admin
+   * role still requires a valid token; ?type=user keeps token holders in the user role.
+   */
+  resolveConnectionRole(requestedType?: string | null, token?: string | null): ConnectionRole {
+    const adminClaims = requestedType === 'user' ? null : this.verifyToken(token);
+
+    // Admins without a role claim are presenters, see the role-based routing policy
+    return adminClaims
+      ? { connectionType: 'admin', adminRole: adminClaims.adminRole || 'presenter' }
+      : { connectionType: 'user' };
+  }
+
+  private sign(encodedClaims: string): string {
+    return createHmac('sha256', this.secret as string).update(encodedClaims).digest('base64url');
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Prints an admin token signed with ADMIN_TOKEN_SECRET
+ * Usage: ADMIN_TOKEN_SECRET=... npm run admin-token [-- <ttl seconds> [moderator|presenter]]
+ */
+
+import { AdminAuthenticator } from './admin-authenticator';
+import { AdminRole } from '../connection/connection-manager-interface';
+
+const ttlSeconds = process.argv[2] ? parseInt(process.argv[2]) : undefined;
+const adminRole = process.argv[3] as AdminRole | undefined;
+
+if (adminRole && adminRole !== 'moderator' && adminRole !== 'presenter') {
+  console.error(`Invalid admin role: ${adminRole}. Must be "moderator" or "presenter"`);
+  process.exit(1);
+}
+
+try {
+  console.log(new AdminAuthenticator().issueToken(ttlSeconds, adminRole));
+} catch (error) {
+  console.error('Failed to issue admin token:', error);
+  process.exit(1);
+}
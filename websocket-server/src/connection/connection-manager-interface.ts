@@ -3,11 +3,19 @@
  * Defines the contract for managing WebSocket connections across different environments
  */
 
+/**
+ * Role of an authenticated admin, used by role-based routing
+ */
+export type AdminRole = 'moderator' | 'presenter';
+
 export interface ConnectionMetadata {
   connectionId: string;
   connectionType: 'user' | 'admin';
   timestamp: number;
   ttl?: number;
+  podId?: string;
+  roomId?: string;
+  adminRole?: AdminRole;
 }
 
 export interface ConnectionManager {
@@ -22,9 +30,9 @@ export interface ConnectionManager {
   removeConnection(connectionId: string): Promise<void>;
 
   /**
-   * Get all connections of a specific type
+   * Get all connections of a specific type, optionally limited to one room
    */
-  getConnections(connectionType: 'user' | 'admin'): Promise<string[]>;
+  getConnections(connectionType: 'user' | 'admin', roomId?: string): Promise<string[]>;
 
   /**
    * Get connection metadata
@@ -32,9 +40,14 @@ export interface ConnectionManager {
   getConnectionMetadata(connectionId: string): Promise<ConnectionMetadata | null>;
 
   /**
-   * Update connection type
+   * Update connection type, with the admin role for admin connections
    */
-  updateConnectionType(connectionId: string, connectionType: 'user' | 'admin'): Promise<void>;
+  updateConnectionType(connectionId: string, connectionType: 'user' | 'admin', adminRole?: AdminRole): Promise<void>;
+
+  /**
+   * Move a connection into a room
+   */
+  updateConnectionRoom(connectionId: string, roomId: string): Promise<void>;
 
   /**
    * Check if a connection exists
@@ -45,4 +58,41 @@ export interface ConnectionManager {
    * Clean up expired connections (if applicable)
    */
   cleanupExpiredConnections?(): Promise<void>;
-}
\ No newline at end of file
+}
+/**
+ * Connection manager of the standalone server. Connections are owned by the pod
+ * holding their socket, and pods renew a lease while they are alive.
+ */
+export interface PodConnectionManager extends ConnectionManager {
+  /**
+   * Get the ID that this process records as the owner of its connections
+   */
+  getPodId(): string;
+
+  /**
+   * Create or extend the lease that marks this pod as alive
+   */
+  renewPodLease(): Promise<void>;
+
+  /**
+   * Drop this pod's lease so other pods can reap anything it leaves behind
+   */
+  releasePodLease(): Promise<void>;
+
+  /**
+   * Check whether the pod owning a connection is still alive
+   */
+  isConnectionOwnerAlive(connectionId: string): Promise<boolean>;
+
+  /**
+   * Purge the connections of every pod whose lease has expired
+   */
+  reapExpiredPods(): Promise<number>;
+
+  cleanupExpiredConnections(): Promise<void>;
+
+  /**
+   * Close the connection to the store
+   */
+  disconnect(): Promise<void>;
+}
@@ -0,0 +1,175 @@
+/**
+ * Fallback Connection Manager
+ * Keeps a local registry of this pod's connections next to Redis and serves
+ * from it while Redis is unreachable, so local users and admins keep talking.
+ * The lease heartbeat writes the local registry back once Redis is reachable again.
+ */
+
+import { AdminRole, ConnectionMetadata, PodConnectionManager } from './connection-manager-interface';
+import { InMemoryConnectionManager } from './in-memory-connection-manager';
+import { DegradedMode, isConnectivityError } from '../storage/degraded-mode';
+import { logger } from '../logging/logger';
+
+export class FallbackConnectionManager implements PodConnectionManager {
+  private primary: PodConnectionManager;
+  private local: InMemoryConnectionManager;
+  private degradedMode: DegradedMode;
+  /**
+   * Connections changed while degraded, to be written to (or removed from) Redis on recovery
+   */
+  private unsynced: Set<string> = new Set();
+  private reconciling: Promise<void> | null = null;
+
+  constructor(primary: PodConnectionManager, degradedMode: DegradedMode, local: InMemoryConnectionManager = new InMemoryConnectionManager()) {
+    this.primary = primary;
+    this.degradedMode = degradedMode;
+    this.local = local;
+  }
+
+  getPodId(): string {
+    return this.primary.getPodId();
+  }
+
+  async storeConnection(
+    connectionId: string,
+    connectionType: 'user' | 'admin',
+    metadata?: Partial<ConnectionMetadata>
+  ): Promise<void> {
+    await this.local.storeConnection(connectionId, connectionType, metadata);
+    await this.writeThrough('store connection', connectionId, () => this.primary.storeConnection(connectionId, connectionType, metadata));
+  }
+
+  async removeConnection(connectionId: string): Promise<void> {
+    // Connections of other pods are only known to Redis, so there is nothing to replay for them
+    if (await this.local.connectionExists(connectionId)) {
+      await this.local.removeConnection(connectionId);
+    } else if (this.degradedMode.isDegraded()) {
+      return;
+    }
+
+    await this.writeThrough('remove connection', connectionId, () => this.primary.removeConnection(connectionId));
+  }
+
+  async getConnections(connectionType: 'user' | 'admin', roomId?: string): Promise<string[]> {
+    return this.degradedMode.withFallback('get connections',
+      () => this.primary.getConnections(connectionType, roomId),
+      () => this.local.getConnections(connectionType, roomId));
+  }
+
+  async getConnectionMetadata(connectionId: string): Promise<ConnectionMetadata | null> {
+    return this.degradedMode.withFallback('get connection metadata',
+      () => this.primary.getConnectionMetadata(connectionId),
+      () => this.local.getConnectionMetadata(connectionId));
+  }
+
+  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin', adminRole?: AdminRole): Promise<void> {
+    await this.local.updateConnectionType(connectionId, connectionType, adminRole);
+    await this.writeThrough('update connection type', connectionId, () => this.primary.updateConnectionType(connectionId, connectionType, adminRole));
+  }
+
+  async updateConnectionRoom(connectionId: string, roomId: string): Promise<void> {
+    await this.local.updateConnectionRoom(connectionId, roomId);
+    await this.writeThrough('update connection room', connectionId, () => this.primary.updateConnectionRoom(connectionId, roomId));
+  }
+
+  async connectionExists(connectionId: string): Promise<boolean> {
+    return this.degradedMode.withFallback('check connection',
+      () => this.primary.connectionExists(connectionId),
+      () => this.local.connectionExists(connectionId));
+  }
+
+  async cleanupExpiredConnections(): Promise<void> {
+    await this.local.cleanupExpiredConnections();
+
+    if (!this.degradedMode.isDegraded()) {
+      await this.primary.cleanupExpiredConnections();
+    }
+  }
+
+  /**
+   * Renew the lease, or while degraded, reconcile with Redis first
+   */
+  async renewPodLease(): Promise<void> {
+    if (this.degradedMode.isDegraded()) {
+      // A reconciliation can outlast the heartbeat interval while Redis keeps timing out
+      this.reconciling = this.reconciling || this.reconcile().finally(() => {
+        this.reconciling = null;
+      });
+      await this.reconciling;
+      return;
+    }
+
+    try {
+      await this.primary.renewPodLease();
+    } catch (error) {
+      if (isConnectivityError(error)) {
+        this.degradedMode.enter('renew pod lease', error);
+      }
+      throw error;
+    }
+  }
+
+  async releasePodLease(): Promise<void> {
+    await this.primary.releasePodLease();
+  }
+
+  async isConnectionOwnerAlive(connectionId: string): Promise<boolean> {
+    return this.degradedMode.withFallback('check connection owner',
+      () => this.primary.isConnectionOwnerAlive(connectionId),
+      () => this.local.connectionExists(connectionId));
+  }
+
+  async reapExpiredPods(): Promise<number> {
+    return this.degradedMode.withFallback('reap expired pods',
+      () => this.primary.reapExpiredPods(),
+      async () => 0);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.local.disconnect();
+    await this.primary.disconnect();
+  }
+
+  /**
+   * Write every local connection back to Redis and replay removals, then leave
+   * degraded mode. Other pods may have reaped this pod's connections while its
+   * lease had lapsed, so all of them are stored again, not just the changed ones.
+   */
+  private async reconcile(): Promise<void> {
+    await this.primary.renewPodLease();
+
+    const held = [...await this.local.getConnections('user'), ...await this.local.getConnections('admin')];
+    held.forEach(connectionId => this.unsynced.add(connectionId));
+    const count = this.unsynced.size;
+
+    // Changes made meanwhile are added to the set and picked up by this loop.
+    // A failure leaves the connection in the set for the next attempt.
+    for (const connectionId of this.unsynced) {
+      const metadata = await this.local.getConnectionMetadata(connectionId);
+
+      if (metadata) {
+        await this.primary.storeConnection(connectionId, metadata.connectionType, {
+          timestamp: metadata.timestamp,
+          roomId: metadata.roomId,
+          adminRole: metadata.adminRole
+        });
+      } else {
+        await this.primary.removeConnection(connectionId);
+      }
+
+      this.unsynced.delete(connectionId);
+    }
+
+    logger.info(`Reconciled ${count} connections with Redis`);
+    this.degradedMode.exit();
+  }
+
+  /**
+   * Apply a change to Redis unless degraded, remembering it for reconciliation otherwise
+   */
+  private async writeThrough(operation: string, connectionId: string, write: () => Promise<void>): Promise<void> {
+    await this.degradedMode.withFallback(operation, write, async () => {
+      this.unsynced.add(connectionId);
+    });
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * In-Memory Connection Manager
+ * Keeps connections in the memory of a single process, for local development
+ * and single-node deployments without Redis
+ */
+
+import { hostname } from 'os';
+import { AdminRole, ConnectionMetadata, PodConnectionManager } from './connection-manager-interface';
+import { LOBBY_ROOM_ID } from '../rooms/room-registry';
+import { logger } from '../logging/logger';
+
+interface StoredConnection {
+  metadata: ConnectionMetadata;
+  /**
+   * Epoch ms after which the connection counts as gone, like a Redis key TTL
+   */
+  expiresAt: number;
+}
+
+export class InMemoryConnectionManager implements PodConnectionManager {
+  private connections: Map<string, StoredConnection> = new Map();
+  private ttl: number;
+  private podId: string;
+
+  constructor() {
+    this.ttl = parseInt(process.env.CONNECTION_TTL || '86400'); // 24 hours default
+    this.podId = process.env.POD_NAME || hostname();
+  }
+
+  getPodId(): string {
+    return this.podId;
+  }
+
+  async storeConnection(
+    connectionId: string,
+    connectionType: 'user' | 'admin',
+    metadata?: Partial<ConnectionMetadata>
+  ): Promise<void> {
+    const timestamp = Date.now();
+
+    this.connections.set(connectionId, {
+      metadata: {
+        connectionId,
+        connectionType,
+        timestamp,
+        ttl: Math.floor(timestamp / 1000) + this.ttl,
+        podId: this.podId,
+        roomId: LOBBY_ROOM_ID,
+        ...metadata
+      },
+      expiresAt: timestamp + this.ttl * 1000
+    });
+
+    logger.debug(`Connection ${connectionId} stored in memory with type: ${connectionType}`, { connectionId });
+  }
+
+  async removeConnection(connectionId: string): Promise<void> {
+    this.connections.delete(connectionId);
+    logger.debug(`Connection ${connectionId} removed from memory`, { connectionId });
+  }
+
+  async getConnections(connectionType: 'user' | 'admin', roomId?: string): Promise<string[]> {
+    const connectionIds: string[] = [];
+
+    for (const [connectionId, { metadata }] of this.liveConnections()) {
+      if (metadata.connectionType === connectionType && (!roomId || (metadata.roomId || LOBBY_ROOM_ID) === roomId)) {
+        connectionIds.push(connectionId);
+      }
+    }
+
+    return connectionIds;
+  }
+
+  async getConnectionMetadata(connectionId: string): Promise<ConnectionMetadata | null> {
+    const stored = this.getLiveConnection(connectionId);
+    return stored ? { ...stored.metadata } : null;
+  }
+
+  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin', adminRole?: AdminRole): Promise<void> {
+    const stored = this.getLiveConnection(connectionId);
+
+    if (!stored) {
+      throw new Error(`Failed to update connection type: Connection ${connectionId} not found`);
+    }
+
+    // Users never keep an admin role; admins keep theirs unless a new one is given.
+    // The connection keeps its remaining TTL, as with Redis.
+    stored.metadata = {
+      ...stored.metadata,
+      connectionType,
+      adminRole: connectionType === 'admin' ? (adminRole || stored.metadata.adminRole) : undefined
+    };
+
+    logger.debug(`Connection ${connectionId} type updated to: ${connectionType}`, { connectionId });
+  }
+
+  async updateConnectionRoom(connectionId: string, roomId: string): Promise<void> {
+    const stored = this.getLiveConnection(connectionId);
+
+    if (!stored) {
+      throw new Error(`Failed to update connection room: Connection ${connectionId} not found`);
+    }
+
+    stored.metadata = { ...stored.metadata, roomId };
+
+    logger.debug(`Connection ${connectionId} moved to room: ${roomId}`, { connectionId, roomId });
+  }
+
+  async connectionExists(connectionId: string): Promise<boolean> {
+    return this.getLiveConnection(connectionId) !== null;
+  }
+
+  /**
+   * Drop connections whose TTL has passed. Reads already skip them.
+   */
+  async cleanupExpiredConnections(): Promise<void> {
+    const now = Date.now();
+    let cleanedCount = 0;
+
+    for (const [connectionId, stored] of this.connections) {
+      if (stored.expiresAt <= now) {
+        this.connections.delete(connectionId);
+        cleanedCount++;
+      }
+    }
+
+    if (cleanedCount > 0) {
+      logger.info(`Cleaned up ${cleanedCount} expired connections from memory`);
+    }
+  }
+
+  // A single process is the only pod, so there are no leases to keep or other pods to reap
+
+  async renewPodLease(): Promise<void> {}
+
+  async releasePodLease(): Promise<void> {}
+
+  async isConnectionOwnerAlive(connectionId: string): Promise<boolean> {
+    return this.connectionExists(connectionId);
+  }
+
+  async reapExpiredPods(): Promise<number> {
+    return 0;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connections.clear();
+  }
+
+  private getLiveConnection(connectionId: string): StoredConnection | null {
+    const stored = this.connections.get(connectionId);
+    return stored && stored.expiresAt > Date.now() ? stored : null;
+  }
+
+  private *liveConnections(): IterableIterator<[string, StoredConnection]> {
+    const now = Date.now();
+
+    for (const entry of this.connections) {
+      if (entry[1].expiresAt > now) {
+        yield entry;
+      }
+    }
+  }
+}
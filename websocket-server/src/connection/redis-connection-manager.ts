@@ -4,13 +4,73 @@
  */
 
 import { createClient, RedisClientType } from 'redis';
-import { ConnectionManager, ConnectionMetadata } from './connection-manager-interface';
-
-export class RedisConnectionManager implements ConnectionManager {
+import { hostname } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { AdminRole, ConnectionMetadata, PodConnectionManager } from './connection-manager-interface';
+import { LOBBY_ROOM_ID } from '../rooms/room-registry';
+import { serverMetrics } from '../metrics/server-metrics';
+import { logger } from '../logging/logger';
+
+/*
+ * Connection indexes are sorted sets scored by the expiry time (epoch ms) of each
+ * connection, so expired entries can be dropped by score instead of expiring the
+ * whole set. The index keys follow from a connection's metadata, so the scripts below
+ * are handed the metadata the keys in KEYS were derived from and return
+ * CONNECTION_CHANGED instead of writing when it changed in between.
+ */
+const CONNECTION_CHANGED = -1;
+const MAX_SCRIPT_ATTEMPTS = 5;
+
+// Delete a connection together with its index entries, in one step.
+// KEYS: connection, type index, room index, then the pod set if it has an owner.
+const REMOVE_CONNECTION_SCRIPT = `
+local data = redis.call('GET', KEYS[1]) or ''
+if data ~= ARGV[2] then
+  return ${CONNECTION_CHANGED}
+end
+redis.call('DEL', KEYS[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZREM', KEYS[3], ARGV[1])
+if KEYS[4] then
+  redis.call('SREM', KEYS[4], ARGV[1])
+end
+if data == '' then
+  return 0
+end
+return 1
+`;
+
+// Replace a connection's metadata and move it between indexes, keeping its remaining TTL.
+// KEYS: connection, current type and room index, new type and room index.
+// A missing connection is left missing (returns 0).
+const UPDATE_CONNECTION_SCRIPT = `
+local data = redis.call('GET', KEYS[1])
+if not data then
+  return 0
+end
+if data ~= ARGV[2] then
+  return ${CONNECTION_CHANGED}
+end
+local ttl = redis.call('TTL', KEYS[1])
+if ttl <= 0 then
+  ttl = tonumber(ARGV[4])
+end
+local expiresAt = tonumber(ARGV[5]) + ttl * 1000
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZREM', KEYS[3], ARGV[1])
+redis.call('SET', KEYS[1], ARGV[3], 'EX', ttl)
+redis.call('ZADD', KEYS[4], expiresAt, ARGV[1])
+redis.call('ZADD', KEYS[5], expiresAt, ARGV[1])
+return 1
+`;
+
+export class RedisConnectionManager implements PodConnectionManager {
   private client: RedisClientType | null = null;
   private connectionString: string;
   private password?: string;
   private ttl: number;
+  private podId: string;
+  private leaseTtl: number;
   private isConnected: boolean = false;
   private connectionPromise: Promise<void> | null = null;
 
@@ -18,6 +78,31 @@ export class RedisConnectionManager implements ConnectionManager {
     this.connectionString = process.env.REDIS_URL || 'redis://redis-service:6379';
     this.password = process.env.REDIS_PASSWORD;
     this.ttl = parseInt(process.env.CONNECTION_TTL || '86400'); // 24 hours default
+    this.leaseTtl = parseInt(process.env.POD_LEASE_TTL || '30');
+
+    // A restarted container keeps its pod name, so suffix it to tell process lifetimes apart
+    const podName = process.env.POD_NAME || hostname();
+    this.podId = `${podName}-${uuidv4().substring(0, 8)}`;
+  }
+
+  /**
+   * Get the shared Redis client for modules that keep their own keys (rooms, etc.)
+   */
+  async getClient(): Promise<RedisClientType> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    return this.client;
+  }
+
+  /**
+   * Get the ID that this process records as the owner of its connections
+   */
+  getPodId(): string {
+    return this.podId;
   }
 
   private async ensureConnection(): Promise<void> {
@@ -42,7 +127,7 @@ export class RedisConnectionManager implements ConnectionManager {
           lazyConnect: true,
           reconnectStrategy: (retries: number) => {
             if (retries > 5) {
-              console.error('Redis connection failed after 5 retries');
+              logger.error('Redis connection failed after 5 retries');
               return false;
             }
             return Math.min(retries * 1000, 5000);
@@ -57,28 +142,32 @@ export class RedisConnectionManager implements ConnectionManager {
       this.client = createClient(clientOptions);
 
       this.client.on('error', (error: Error) => {
-        console.error('Redis client error:', error);
+        logger.error('Redis client error', { error });
         this.isConnected = false;
       });
 
       this.client.on('connect', () => {
-        console.log('Redis client connected');
+        logger.info('Redis client connected');
         this.isConnected = true;
       });
 
       this.client.on('disconnect', () => {
-        console.log('Redis client disconnected');
+        logger.info('Redis client disconnected');
         this.isConnected = false;
       });
 
+      this.client.on('reconnecting', () => {
+        serverMetrics.redisReconnects.inc({ client: 'commands' });
+      });
+
       await this.client.connect();
       this.isConnected = true;
       this.connectionPromise = null;
       
-      console.log('Redis connection established successfully');
+      logger.info('Redis connection established successfully');
     } catch (error) {
       this.connectionPromise = null;
-      console.error('Failed to connect to Redis:', error);
+      logger.error('Failed to connect to Redis', { error });
       throw new Error(`Failed to connect to Redis: ${error}`);
     }
   }
@@ -100,23 +189,30 @@ export class RedisConnectionManager implements ConnectionManager {
       connectionType,
       timestamp,
       ttl: Math.floor(Date.now() / 1000) + this.ttl,
+      podId: this.podId,
+      roomId: LOBBY_ROOM_ID,
       ...metadata
     };
 
     try {
-      const key = `connection:${connectionId}`;
-      const typeKey = `connections:${connectionType}`;
-      
-      // Store connection metadata with TTL
-      await this.client.setEx(key, this.ttl, JSON.stringify(connectionData));
-      
-      // Add to type-specific set with TTL
-      await this.client.sAdd(typeKey, connectionId);
-      await this.client.expire(typeKey, this.ttl);
+      const expiresAt = timestamp + this.ttl * 1000;
+
+      // Metadata and indexes are written in one transaction, so a crash cannot leave them apart
+      const transaction = this.client.multi()
+        .setEx(`connection:${connectionId}`, this.ttl, JSON.stringify(connectionData))
+        .zAdd(this.typeIndexKey(connectionType), { score: expiresAt, value: connectionId })
+        .zAdd(this.roomIndexKey(connectionData), { score: expiresAt, value: connectionId });
+
+      // Track the connection under its owning pod so it can be reaped with the pod
+      if (connectionData.podId) {
+        transaction.sAdd(`pod:${connectionData.podId}:connections`, connectionId);
+      }
+
+      await transaction.exec();
 
-      console.log(`Connection ${connectionId} stored in Redis with type: ${connectionType}`);
+      logger.debug(`Connection ${connectionId} stored in Redis with type: ${connectionType}`, { connectionId });
     } catch (error) {
-      console.error(`Failed to store connection ${connectionId}:`, error);
+      logger.error(`Failed to store connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to store connection: ${error}`);
     }
   }
@@ -129,30 +225,16 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      // Get connection metadata to determine type
-      const metadata = await this.getConnectionMetadata(connectionId);
-      
-      const key = `connection:${connectionId}`;
-      await this.client.del(key);
-
-      // Remove from type-specific set if we know the type
-      if (metadata) {
-        const typeKey = `connections:${metadata.connectionType}`;
-        await this.client.sRem(typeKey, connectionId);
-      } else {
-        // Remove from both sets if we don't know the type
-        await this.client.sRem('connections:user', connectionId);
-        await this.client.sRem('connections:admin', connectionId);
-      }
+      await this.deleteConnection(connectionId);
 
-      console.log(`Connection ${connectionId} removed from Redis`);
+      logger.debug(`Connection ${connectionId} removed from Redis`, { connectionId });
     } catch (error) {
-      console.error(`Failed to remove connection ${connectionId}:`, error);
+      logger.error(`Failed to remove connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to remove connection: ${error}`);
     }
   }
 
-  async getConnections(connectionType: 'user' | 'admin'): Promise<string[]> {
+  async getConnections(connectionType: 'user' | 'admin', roomId?: string): Promise<string[]> {
     await this.ensureConnection();
     
     if (!this.client) {
@@ -160,23 +242,19 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      const typeKey = `connections:${connectionType}`;
-      const connections = await this.client.sMembers(typeKey);
-      
-      // Filter out expired connections
-      const validConnections: string[] = [];
-      for (const connectionId of connections) {
-        if (await this.connectionExists(connectionId)) {
-          validConnections.push(connectionId);
-        } else {
-          // Remove expired connection from set
-          await this.client.sRem(typeKey, connectionId);
-        }
-      }
+      const indexKey = roomId
+        ? this.roomIndexKey({ connectionType, roomId })
+        : this.typeIndexKey(connectionType);
+
+      // Entries scored in the past belong to connections whose metadata has expired
+      const [, connectionIds] = await this.client.multi()
+        .zRemRangeByScore(indexKey, 0, Date.now())
+        .zRange(indexKey, 0, -1)
+        .exec();
 
-      return validConnections;
+      return connectionIds as unknown as string[];
     } catch (error) {
-      console.error(`Failed to get connections of type ${connectionType}:`, error);
+      logger.error(`Failed to get connections of type ${connectionType}`, { error });
       throw new Error(`Failed to get connections: ${error}`);
     }
   }
@@ -198,12 +276,12 @@ export class RedisConnectionManager implements ConnectionManager {
 
       return JSON.parse(data) as ConnectionMetadata;
     } catch (error) {
-      console.error(`Failed to get metadata for connection ${connectionId}:`, error);
+      logger.error(`Failed to get metadata for connection ${connectionId}`, { connectionId, error });
       throw new Error(`Failed to get connection metadata: ${error}`);
     }
   }
 
-  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin'): Promise<void> {
+  async updateConnectionType(connectionId: string, connectionType: 'user' | 'admin', adminRole?: AdminRole): Promise<void> {
     await this.ensureConnection();
     
     if (!this.client) {
@@ -211,39 +289,37 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      // Get current metadata
-      const currentMetadata = await this.getConnectionMetadata(connectionId);
-      
-      if (!currentMetadata) {
-        throw new Error(`Connection ${connectionId} not found`);
+      // Users never keep an admin role; admins keep theirs unless a new one is given
+      const changes: Record<string, string | null> = { connectionType };
+      if (connectionType === 'user') {
+        changes.adminRole = null;
+      } else if (adminRole) {
+        changes.adminRole = adminRole;
       }
 
-      // Remove from old type set
-      const oldTypeKey = `connections:${currentMetadata.connectionType}`;
-      await this.client.sRem(oldTypeKey, connectionId);
+      await this.updateConnection(connectionId, changes);
 
-      // Update metadata
-      const updatedMetadata: ConnectionMetadata = {
-        ...currentMetadata,
-        connectionType
-      };
+      logger.debug(`Connection ${connectionId} type updated to: ${connectionType}`, { connectionId });
+    } catch (error) {
+      logger.error(`Failed to update connection type for ${connectionId}`, { connectionId, error });
+      throw new Error(`Failed to update connection type: ${error}`);
+    }
+  }
 
-      // Store updated metadata
-      const key = `connection:${connectionId}`;
-      const remainingTtl = await this.client.ttl(key);
-      const ttlToUse = remainingTtl > 0 ? remainingTtl : this.ttl;
-      
-      await this.client.setEx(key, ttlToUse, JSON.stringify(updatedMetadata));
+  async updateConnectionRoom(connectionId: string, roomId: string): Promise<void> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
 
-      // Add to new type set
-      const newTypeKey = `connections:${connectionType}`;
-      await this.client.sAdd(newTypeKey, connectionId);
-      await this.client.expire(newTypeKey, ttlToUse);
+    try {
+      await this.updateConnection(connectionId, { roomId });
 
-      console.log(`Connection ${connectionId} type updated to: ${connectionType}`);
+      logger.debug(`Connection ${connectionId} moved to room: ${roomId}`, { connectionId, roomId });
     } catch (error) {
-      console.error(`Failed to update connection type for ${connectionId}:`, error);
-      throw new Error(`Failed to update connection type: ${error}`);
+      logger.error(`Failed to update room for ${connectionId}`, { connectionId, error });
+      throw new Error(`Failed to update connection room: ${error}`);
     }
   }
 
@@ -259,11 +335,15 @@ export class RedisConnectionManager implements ConnectionManager {
       const exists = await this.client.exists(key);
       return exists === 1;
     } catch (error) {
-      console.error(`Failed to check if connection ${connectionId} exists:`, error);
+      logger.error(`Failed to check if connection ${connectionId} exists`, { connectionId, error });
       return false;
     }
   }
 
+  /**
+   * Drop expired entries from every connection index. Reads already skip them,
+   * this keeps indexes of rooms nobody reads anymore from growing.
+   */
   async cleanupExpiredConnections(): Promise<void> {
     await this.ensureConnection();
     
@@ -272,33 +352,230 @@ export class RedisConnectionManager implements ConnectionManager {
     }
 
     try {
-      // Get all connection keys
-      const connectionKeys = await this.client.keys('connection:*');
+      const now = Date.now();
       let cleanedCount = 0;
 
-      for (const key of connectionKeys) {
-        const exists = await this.client.exists(key);
-        if (exists === 0) {
-          // Extract connection ID from key
-          const connectionId = key.replace('connection:', '');
-          
-          // Remove from type sets
-          await this.client.sRem('connections:user', connectionId);
-          await this.client.sRem('connections:admin', connectionId);
-          
-          cleanedCount++;
-        }
+      // SCAN walks the keyspace in small batches instead of blocking Redis like KEYS
+      for await (const indexKey of this.client.scanIterator({ MATCH: '*connections-by-expiry:*', TYPE: 'zset', COUNT: 100 })) {
+        cleanedCount += await this.client.zRemRangeByScore(indexKey, 0, now);
       }
 
       if (cleanedCount > 0) {
-        console.log(`Cleaned up ${cleanedCount} expired connections from Redis`);
+        logger.info(`Cleaned up ${cleanedCount} expired connections from Redis`);
       }
     } catch (error) {
-      console.error('Failed to cleanup expired connections:', error);
+      logger.error('Failed to cleanup expired connections', { error });
       throw new Error(`Failed to cleanup expired connections: ${error}`);
     }
   }
 
+  /**
+   * Create or extend the heartbeat lease that marks this pod as alive
+   */
+  async renewPodLease(): Promise<void> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    try {
+      await this.client.setEx(`pod:${this.podId}:lease`, this.leaseTtl, Date.now().toString());
+      await this.client.sAdd('pods', this.podId);
+    } catch (error) {
+      logger.error(`Failed to renew lease for pod ${this.podId}`, { error });
+      throw new Error(`Failed to renew pod lease: ${error}`);
+    }
+  }
+
+  /**
+   * Drop this pod's lease so other pods can reap anything it leaves behind
+   */
+  async releasePodLease(): Promise<void> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    try {
+      await this.client.del(`pod:${this.podId}:lease`);
+      logger.info(`Released lease for pod ${this.podId}`);
+    } catch (error) {
+      logger.error(`Failed to release lease for pod ${this.podId}`, { error });
+      throw new Error(`Failed to release pod lease: ${error}`);
+    }
+  }
+
+  /**
+   * Check whether the pod owning a connection still holds a lease.
+   * Connections stored without an owner are treated as alive and left to their TTL.
+   */
+  async isConnectionOwnerAlive(connectionId: string): Promise<boolean> {
+    const metadata = await this.getConnectionMetadata(connectionId);
+
+    if (!metadata) {
+      return false;
+    }
+
+    if (!metadata.podId || metadata.podId === this.podId) {
+      return true;
+    }
+
+    return this.isPodAlive(metadata.podId);
+  }
+
+  async isPodAlive(podId: string): Promise<boolean> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    try {
+      const exists = await this.client.exists(`pod:${podId}:lease`);
+      return exists === 1;
+    } catch (error) {
+      logger.error(`Failed to check lease for pod ${podId}`, { error });
+      throw new Error(`Failed to check pod lease: ${error}`);
+    }
+  }
+
+  /**
+   * Purge the connections of every pod whose lease has expired
+   */
+  async reapExpiredPods(): Promise<number> {
+    await this.ensureConnection();
+    
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    let reapedCount = 0;
+
+    try {
+      const podIds = await this.client.sMembers('pods');
+
+      for (const podId of podIds) {
+        if (podId === this.podId || await this.isPodAlive(podId)) {
+          continue;
+        }
+
+        const podConnectionsKey = `pod:${podId}:connections`;
+        const connectionIds = await this.client.sMembers(podConnectionsKey);
+
+        for (const connectionId of connectionIds) {
+          await this.deleteConnection(connectionId);
+          reapedCount++;
+        }
+
+        await this.client.multi()
+          .del(podConnectionsKey)
+          .sRem('pods', podId)
+          .exec();
+
+        logger.info(`Reaped ${connectionIds.length} connections from expired pod ${podId}`);
+      }
+
+      return reapedCount;
+    } catch (error) {
+      logger.error('Failed to reap connections of expired pods', { error });
+      throw new Error(`Failed to reap expired pods: ${error}`);
+    }
+  }
+
+  /**
+   * Change metadata fields of a connection and move it between indexes atomically.
+   * A null change removes the field.
+   */
+  private async updateConnection(connectionId: string, changes: Record<string, string | null>): Promise<void> {
+    const updated = await this.runConnectionScript(connectionId, data => {
+      if (!data) {
+        return null;
+      }
+
+      const current: ConnectionMetadata = JSON.parse(data);
+      const next: Record<string, unknown> = { ...current };
+      for (const [field, value] of Object.entries(changes)) {
+        if (value === null) {
+          delete next[field];
+        } else {
+          next[field] = value;
+        }
+      }
+
+      return {
+        script: UPDATE_CONNECTION_SCRIPT,
+        keys: [
+          `connection:${connectionId}`,
+          this.typeIndexKey(current.connectionType),
+          this.roomIndexKey(current),
+          this.typeIndexKey(next.connectionType as ConnectionMetadata['connectionType']),
+          this.roomIndexKey(next as Pick<ConnectionMetadata, 'connectionType' | 'roomId'>)
+        ],
+        arguments: [connectionId, data, JSON.stringify(next), this.ttl.toString(), Date.now().toString()]
+      };
+    });
+
+    if (updated !== 1) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+  }
+
+  /**
+   * Delete a connection with its index entries. Without metadata its room is unknown,
+   * so only the type indexes are cleaned.
+   */
+  private async deleteConnection(connectionId: string): Promise<void> {
+    await this.runConnectionScript(connectionId, data => {
+      const metadata: ConnectionMetadata | null = data ? JSON.parse(data) : null;
+      const keys = metadata
+        ? [`connection:${connectionId}`, this.typeIndexKey(metadata.connectionType), this.roomIndexKey(metadata)]
+        : [`connection:${connectionId}`, this.typeIndexKey('user'), this.typeIndexKey('admin')];
+
+      if (metadata?.podId) {
+        keys.push(`pod:${metadata.podId}:connections`);
+      }
+
+      return { script: REMOVE_CONNECTION_SCRIPT, keys, arguments: [connectionId, data || ''] };
+    });
+  }
+
+  /**
+   * Read a connection, derive the keys a script touches from it, and run the script.
+   * The script refuses to write when the connection changed after the read, and is retried.
+   */
+  private async runConnectionScript(
+    connectionId: string,
+    prepare: (data: string | null) => { script: string; keys: string[]; arguments: string[] } | null
+  ): Promise<unknown> {
+    if (!this.client) {
+      throw new Error('Redis client not initialized');
+    }
+
+    for (let attempt = 1; attempt <= MAX_SCRIPT_ATTEMPTS; attempt++) {
+      const call = prepare(await this.client.get(`connection:${connectionId}`));
+      if (!call) {
+        return 0;
+      }
+
+      const result = await this.client.eval(call.script, { keys: call.keys, arguments: call.arguments });
+      if (result !== CONNECTION_CHANGED) {
+        return result;
+      }
+    }
+
+    throw new Error(`Connection ${connectionId} kept changing after ${MAX_SCRIPT_ATTEMPTS} attempts`);
+  }
+
+  private typeIndexKey(connectionType: 'user' | 'admin'): string {
+    return `connections-by-expiry:${connectionType}`;
+  }
+
+  private roomIndexKey(metadata: Pick<ConnectionMetadata, 'connectionType' | 'roomId'>): string {
+    return `room:${metadata.roomId || LOBBY_ROOM_ID}:connections-by-expiry:${metadata.connectionType}`;
+  }
+
   /**
    * Close the Redis connection (useful for cleanup)
    */
@@ -307,9 +584,9 @@ export class RedisConnectionManager implements ConnectionManager {
       try {
         await this.client.disconnect();
         this.isConnected = false;
-        console.log('Redis connection closed');
+        logger.info('Redis connection closed');
       } catch (error) {
-        console.error('Error closing Redis connection:', error);
+        logger.error('Error closing Redis connection', { error });
       }
     }
   }
@@ -4,11 +4,19 @@
  */
 
 import express from 'express';
-import { RedisConnectionManager } from './connection/redis-connection-manager';
+import { ConnectionManager } from './connection/connection-manager-interface';
+import { DegradedMode } from './storage/degraded-mode';
+import { StorageType } from './storage/storage-factory';
+import { OPENMETRICS_CONTENT_TYPE, PROMETHEUS_CONTENT_TYPE } from './metrics/metrics-registry';
+import { metricsRegistry, serverMetrics } from './metrics/server-metrics';
+import { logger } from './logging/logger';
 
 interface HealthMetrics {
   connectionCount: number;
-  redisConnected: boolean;
+  storage: StorageType;
+  redisConnected?: boolean;
+  degraded: boolean;
+  degradedSince?: string;
   uptime: number;
   timestamp: string;
   version: string;
@@ -16,8 +24,10 @@ interface HealthMetrics {
 
 interface ReadinessCheck {
   ready: boolean;
+  degraded: boolean;
+  storage: StorageType;
   checks: {
-    redis: boolean;
+    redis?: boolean;
     server: boolean;
   };
   timestamp: string;
@@ -26,18 +36,26 @@ interface ReadinessCheck {
 class HealthServer {
   private app: express.Application;
   private port: number;
-  private connectionManager: RedisConnectionManager;
+  private connectionManager: ConnectionManager;
+  private degradedMode: DegradedMode;
+  private storageType: StorageType;
   private startTime: number;
   private connectionCount: number = 0;
   private messageCount: number = 0;
+  private messagesByAction: Record<string, number> = {};
+  private errorsByCode: Record<string, number> = {};
   private server: any;
 
-  constructor(connectionManager: RedisConnectionManager) {
+  constructor(connectionManager: ConnectionManager, degradedMode: DegradedMode, storageType: StorageType) {
     this.app = express();
     this.port = parseInt(process.env.HEALTH_PORT || '8081');
     this.connectionManager = connectionManager;
+    this.degradedMode = degradedMode;
+    this.storageType = storageType;
     this.startTime = Date.now();
     
+    metricsRegistry.onCollect(() => serverMetrics.degraded.set({}, this.degradedMode.isDegraded() ? 1 : 0));
+
     this.setupMiddleware();
     this.setupRoutes();
   }
@@ -60,11 +78,11 @@ class HealthServer {
       try {
         const metrics = await this.getHealthMetrics();
         res.status(200).json({
-          status: 'healthy',
+          status: metrics.degraded ? 'degraded' : 'healthy',
           ...metrics
         });
       } catch (error) {
-        console.error('Health check failed:', error);
+        logger.error('Health check failed', { error });
         res.status(503).json({
           status: 'unhealthy',
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -84,7 +102,7 @@ class HealthServer {
           res.status(503).json(readiness);
         }
       } catch (error) {
-        console.error('Readiness check failed:', error);
+        logger.error('Readiness check failed', { error });
         res.status(503).json({
           ready: false,
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -93,13 +111,26 @@ class HealthServer {
       }
     });
 
-    // Metrics endpoint for monitoring
-    this.app.get('/metrics', async (req, res) => {
+    // Prometheus scrape endpoint, in OpenMetrics when the scraper accepts it
+    this.app.get('/metrics', (req, res) => {
+      const openMetrics = (req.get('accept') || '').includes('application/openmetrics-text');
+
+      try {
+        res.set('Content-Type', openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE);
+        res.status(200).send(metricsRegistry.render(openMetrics));
+      } catch (error) {
+        logger.error('Metrics rendering failed', { error });
+        res.status(500).send('Metrics rendering failed\n');
+      }
+    });
+
+    // Detailed metrics as JSON, for humans and ad-hoc monitoring
+    this.app.get('/metrics/json', async (req, res) => {
       try {
         const metrics = await this.getDetailedMetrics();
         res.status(200).json(metrics);
       } catch (error) {
-        console.error('Metrics collection failed:', error);
+        logger.error('Metrics collection failed', { error });
         res.status(500).json({
           error: error instanceof Error ? error.message : 'Unknown error',
           timestamp: new Date().toISOString()
@@ -119,43 +150,67 @@ class HealthServer {
   }
 
   private async getHealthMetrics(): Promise<HealthMetrics> {
-    let redisConnected = false;
-    
-    try {
-      // Test Redis connection by checking if we can get connections
-      await this.connectionManager.getConnections('admin');
-      redisConnected = true;
-    } catch (error) {
-      console.warn('Redis health check failed:', error);
-      redisConnected = false;
-    }
-
-    return {
+    const degradedSince = this.degradedMode.getDegradedSince();
+    const metrics: HealthMetrics = {
       connectionCount: this.connectionCount,
-      redisConnected,
+      storage: this.storageType,
+      degraded: degradedSince !== null,
+      degradedSince: degradedSince !== null ? new Date(degradedSince).toISOString() : undefined,
       uptime: Date.now() - this.startTime,
       timestamp: new Date().toISOString(),
       version: process.env.npm_package_version || '1.0.0'
     };
+
+    // Without Redis there is no connection to report on
+    if (this.storageType === 'memory') {
+      return metrics;
+    }
+
+    try {
+      // Test Redis connection by checking if we can get connections.
+      // While degraded the local registry answers instead, so Redis counts as down.
+      await this.connectionManager.getConnections('admin');
+      metrics.redisConnected = !this.degradedMode.isDegraded();
+    } catch (error) {
+      logger.warn('Redis health check failed', { error });
+      metrics.redisConnected = false;
+    }
+
+    return metrics;
   }
 
   private async getReadinessCheck(): Promise<ReadinessCheck> {
-    const checks = {
-      redis: false,
+    const checks: ReadinessCheck['checks'] = {
       server: true // Server is running if we can execute this
     };
 
+    // In-memory storage has no Redis to wait for
+    if (this.storageType === 'memory') {
+      return {
+        ready: checks.server,
+        degraded: false,
+        storage: this.storageType,
+        checks,
+        timestamp: new Date().toISOString()
+      };
+    }
+
     try {
       // Test Redis connection
       await this.connectionManager.getConnections('admin');
-      checks.redis = true;
+      checks.redis = !this.degradedMode.isDegraded();
     } catch (error) {
-      console.warn('Redis readiness check failed:', error);
+      logger.warn('Redis readiness check failed', { error });
       checks.redis = false;
     }
 
+    // A degraded pod stays ready: it still serves the clients connected to it
+    const degraded = this.degradedMode.isDegraded();
+
     return {
-      ready: checks.redis && checks.server,
+      ready: (checks.redis || degraded) && checks.server,
+      degraded,
+      storage: this.storageType,
       checks,
       timestamp: new Date().toISOString()
     };
@@ -173,7 +228,7 @@ class HealthServer {
       userConnections = users.length;
       adminConnections = admins.length;
     } catch (error) {
-      console.warn('Failed to get connection counts:', error);
+      logger.warn('Failed to get connection counts', { error });
     }
 
     return {
@@ -184,7 +239,9 @@ class HealthServer {
         admin: adminConnections
       },
       messages: {
-        total: this.messageCount
+        total: this.messageCount,
+        byAction: this.messagesByAction,
+        errors: this.errorsByCode
       },
       system: {
         nodeVersion: process.version,
@@ -201,17 +258,24 @@ class HealthServer {
     this.connectionCount = count;
   }
 
-  public incrementMessageCount(): void {
+  public recordMessage(action: string): void {
     this.messageCount++;
+    this.messagesByAction[action] = (this.messagesByAction[action] || 0) + 1;
+    serverMetrics.frames.inc({ action });
+  }
+
+  public recordFrameError(action: string, errorCode: string): void {
+    this.errorsByCode[errorCode] = (this.errorsByCode[errorCode] || 0) + 1;
+    serverMetrics.frameErrors.inc({ action, code: errorCode });
   }
 
   public start(): void {
     this.server = this.app.listen(this.port, () => {
-      console.log(`Health server listening on port ${this.port}`);
-      console.log(`Health endpoints:`);
-      console.log(`  - Liveness:  http://localhost:${this.port}/health`);
-      console.log(`  - Readiness: http://localhost:${this.port}/ready`);
-      console.log(`  - Metrics:   http://localhost:${this.port}/metrics`);
+      logger.info(`Health server listening on port ${this.port}`, {
+        liveness: `http://localhost:${this.port}/health`,
+        readiness: `http://localhost:${this.port}/ready`,
+        metrics: `http://localhost:${this.port}/metrics`
+      });
     });
   }
 
@@ -219,7 +283,7 @@ class HealthServer {
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
-          console.log('Health server stopped');
+          logger.info('Health server stopped');
           resolve();
         });
       } else {
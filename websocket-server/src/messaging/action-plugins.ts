@@ -0,0 +1,48 @@
+/**
+ * Action Plugins
+ * Loads the modules listed in ACTION_PLUGINS, so custom actions and middleware
+ * can be added to the messaging engine without changing the server
+ */
+
+import { resolve } from 'path';
+import { MessagingEngine } from './messaging-engine';
+import { logger } from '../logging/logger';
+
+export interface ActionPlugin {
+  name: string;
+  /**
+   * Register actions with engine.actions.register and middleware with engine.use
+   */
+  register(engine: MessagingEngine): void;
+}
+
+function isActionPlugin(value: any): value is ActionPlugin {
+  return value && typeof value.name === 'string' && typeof value.register === 'function';
+}
+
+/**
+ * Register every configured plugin with the engine. A plugin that fails to load
+ * stops the server, rather than leaving it running without the plugin's actions.
+ */
+export function loadActionPlugins(engine: MessagingEngine, modulePaths: string[] = parsePluginList(process.env.ACTION_PLUGINS)): string[] {
+  const loaded: string[] = [];
+
+  for (const modulePath of modulePaths) {
+    const exported = require(resolve(modulePath));
+    const plugin = isActionPlugin(exported.default) ? exported.default : exported;
+
+    if (!isActionPlugin(plugin)) {
+      throw new Error(`Action plugin ${modulePath} must export a name and a register function`);
+    }
+
+    plugin.register(engine);
+    loaded.push(plugin.name);
+    logger.info(`Loaded action plugin ${plugin.name} from ${modulePath}`);
+  }
+
+  return loaded;
+}
+
+function parsePluginList(value?: string): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
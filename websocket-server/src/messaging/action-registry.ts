@@ -0,0 +1,133 @@
+// Generated from protocol/backend/messaging/action-registry.ts by `npm run sync:protocol`, do not edit.
+
+/**
+ * Action Registry
+ * Client actions with the field rules and role they require, and the
+ * middleware pipeline every frame passes on its way to an action's handler
+ */
+
+import { AdminRole } from '../connection/connection-manager-interface';
+import {
+  ClientAction,
+  ClientEnvelope,
+  ClientFrameOf,
+  ConnectionType,
+  ErrorCode,
+  FieldRules,
+  ServerFrame
+} from '../protocol';
+
+/**
+ * What the engine knows about a connection while handling one of its frames
+ */
+export interface ConnectionSession {
+  connectionId: string;
+  connectionType: ConnectionType;
+  adminRole?: AdminRole;
+  roomId: string;
+}
+
+export type FrameOutcome =
+  | { ok: true; action: string }
+  | { ok: false; action?: string; code: ErrorCode; error: string };
+
+export interface DeliveryResult {
+  successCount: number;
+  failureCount: number;
+}
+
+export interface ActionContext {
+  connectionId: string;
+  correlationId: string;
+  clientIp?: string;
+  /**
+   * Epoch ms at which the frame reached the server
+   */
+  receivedAt: number;
+  /**
+   * Session of the sender, read once on first use
+   */
+  session(): Promise<ConnectionSession>;
+  /**
+   * Send a frame back to the sender
+   */
+  reply(frame: ServerFrame): Promise<boolean>;
+  /**
+   * Report an error to the sender and return the failed outcome
+   */
+  fail(code: ErrorCode, error: string): Promise<FrameOutcome>;
+  /**
+   * Send a frame to every admin of a room
+   */
+  sendToAdmins(roomId: string, frame: ServerFrame): Promise<DeliveryResult>;
+}
+
+export interface ActionDefinition<F extends ClientEnvelope = ClientEnvelope> {
+  /**
+   * Rules for the fields of the frame's data, checked before the handler runs
+   */
+  schema: FieldRules;
+  /**
+   * Connection type the sender must have, anyone may send the action when missing
+   */
+  role?: ConnectionType;
+  /**
+   * Keepalives skip rate limiting
+   */
+  keepalive?: boolean;
+  /**
+   * Reports about frames the server sent, e.g. delivery latency, skip rate limiting
+   * as well, since their volume follows the server's traffic rather than the sender's
+   */
+  telemetry?: boolean;
+  handle(frame: F, context: ActionContext): Promise<FrameOutcome>;
+}
+
+export interface ActionRequest {
+  frame: ClientEnvelope;
+  definition: ActionDefinition;
+  context: ActionContext;
+}
+
+/**
+ * Runs around the handler of every action. Calling next continues the
+ * pipeline, returning an outcome instead stops the frame.
+ */
+export type ActionMiddleware = (request: ActionRequest, next: () => Promise<FrameOutcome>) => Promise<FrameOutcome>;
+
+export class ActionRegistry {
+  private definitions: Map<string, ActionDefinition<any>> = new Map();
+
+  /**
+   * Register the handler of an action. Built-in actions get their frame type,
+   * actions added by plugins get the envelope with the data checked against their schema.
+   */
+  register<A extends ClientAction>(action: A, definition: ActionDefinition<ClientFrameOf<A>>): void;
+  register(action: string, definition: ActionDefinition): void;
+  register(action: string, definition: ActionDefinition<any>): void {
+    // Replacing a handler silently would change behavior depending on load order
+    if (this.definitions.has(action)) {
+      throw new Error(`Action already registered: ${action}`);
+    }
+
+    this.definitions.set(action, definition);
+  }
+
+  get(action: string): ActionDefinition | undefined {
+    return this.definitions.get(action);
+  }
+
+  getActions(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+}
+
+/**
+ * Run the middleware in order, then the handler
+ */
+export function runPipeline(middleware: ActionMiddleware[], request: ActionRequest, handle: () => Promise<FrameOutcome>): Promise<FrameOutcome> {
+  const step = (index: number): Promise<FrameOutcome> =>
+    index < middleware.length ? middleware[index](request, () => step(index + 1)) : handle();
+
+  return step(0);
+}
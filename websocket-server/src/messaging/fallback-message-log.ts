@@ -0,0 +1,36 @@
+/**
+ * Fallback Message Log
+ * Logs admin-bound messages in Redis, or in local memory while Redis is
+ * unreachable. Both use time-based stream IDs, so a cursor from either log
+ * resumes the other at the same point in time. Messages logged locally are
+ * not written back to Redis.
+ */
+
+import { DegradedMode } from '../storage/degraded-mode';
+import { InMemoryMessageLog } from './in-memory-message-log';
+import { RedisMessageLog } from './redis-message-log';
+import { ReplayResult } from './message-log';
+
+export class FallbackMessageLog {
+  private primary: RedisMessageLog;
+  private local: InMemoryMessageLog;
+  private degradedMode: DegradedMode;
+
+  constructor(primary: RedisMessageLog, degradedMode: DegradedMode, local: InMemoryMessageLog = new InMemoryMessageLog()) {
+    this.primary = primary;
+    this.degradedMode = degradedMode;
+    this.local = local;
+  }
+
+  async append(roomId: string, message: Record<string, unknown>): Promise<string> {
+    return this.degradedMode.withFallback('append to message log',
+      () => this.primary.append(roomId, message),
+      () => this.local.append(roomId, message));
+  }
+
+  async readSince(roomId: string, cursor?: string | null): Promise<ReplayResult> {
+    return this.degradedMode.withFallback('read message log',
+      () => this.primary.readSince(roomId, cursor),
+      () => this.local.readSince(roomId, cursor));
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Local Message Bus
+ * Message bus of a single-process deployment, where every connection is held
+ * by this process and there is nobody to forward to
+ */
+
+import { LocalDeliveryHandler, MessageBus } from './message-bus';
+
+export class LocalMessageBus implements MessageBus {
+  private handler: LocalDeliveryHandler | null = null;
+
+  async start(handler: LocalDeliveryHandler): Promise<void> {
+    this.handler = handler;
+  }
+
+  /**
+   * Hand the payload straight back to this process, failing when its socket is gone
+   */
+  async publish(connectionId: string, payload: string): Promise<void> {
+    if (!this.handler || !this.handler(connectionId, payload)) {
+      throw new Error(`Connection ${connectionId} is not held by this process`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.handler = null;
+  }
+}
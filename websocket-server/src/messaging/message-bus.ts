@@ -0,0 +1,24 @@
+/**
+ * Message Bus Interface
+ * Delivers frames to WebSocket connections held by other server processes
+ */
+
+/**
+ * Called for every envelope received from the bus. Returns true when the
+ * connection is held by this pod and the payload was written to its socket.
+ */
+export type LocalDeliveryHandler = (connectionId: string, payload: string) => boolean;
+
+export interface MessageBus {
+  /**
+   * Start receiving payloads for the connections held by this process
+   */
+  start(handler: LocalDeliveryHandler): Promise<void>;
+
+  /**
+   * Publish a payload for a connection held by another process
+   */
+  publish(connectionId: string, payload: string): Promise<void>;
+
+  stop(): Promise<void>;
+}
@@ -0,0 +1,149 @@
+/**
+ * Redis Message Bus
+ * Delivers frames to WebSocket connections held by other pods using Redis pub/sub
+ */
+
+import { createClient, RedisClientOptions, RedisClientType } from 'redis';
+import { serverMetrics } from '../metrics/server-metrics';
+import { getTracer } from '../tracing/tracer';
+import { LocalDeliveryHandler, MessageBus } from './message-bus';
+import { logger } from '../logging/logger';
+
+export interface DeliveryEnvelope {
+  connectionId: string;
+  payload: string;
+}
+
+export class RedisMessageBus implements MessageBus {
+  private publisher: RedisClientType | null = null;
+  private subscriber: RedisClientType | null = null;
+  private connectionString: string;
+  private password?: string;
+  private channel: string;
+  private isStarted: boolean = false;
+
+  constructor() {
+    this.connectionString = process.env.REDIS_URL || 'redis://redis-service:6379';
+    this.password = process.env.REDIS_PASSWORD;
+    this.channel = process.env.REDIS_DELIVERY_CHANNEL || 'ws:deliver';
+  }
+
+  private createRedisClient(name: string): RedisClientType {
+    const clientOptions: RedisClientOptions = {
+      url: this.connectionString,
+      socket: {
+        connectTimeout: 10000,
+        reconnectStrategy: (retries: number) => Math.min(retries * 1000, 5000)
+      }
+    };
+
+    if (this.password) {
+      clientOptions.password = this.password;
+    }
+
+    const client = createClient(clientOptions) as RedisClientType;
+
+    client.on('error', (error: Error) => {
+      logger.error('Redis message bus error', { error });
+    });
+
+    client.on('reconnecting', () => {
+      serverMetrics.redisReconnects.inc({ client: name });
+    });
+
+    return client;
+  }
+
+  /**
+   * Subscribe to the delivery channel and hand every envelope to the local handler
+   */
+  async start(handler: LocalDeliveryHandler): Promise<void> {
+    if (this.isStarted) {
+      return;
+    }
+
+    try {
+      this.publisher = this.createRedisClient('publisher');
+      this.subscriber = this.createRedisClient('subscriber');
+
+      await this.publisher.connect();
+      await this.subscriber.connect();
+
+      await this.subscriber.subscribe(this.channel, (message: string) => {
+        try {
+          const envelope: DeliveryEnvelope = JSON.parse(message);
+          handler(envelope.connectionId, envelope.payload);
+        } catch (error) {
+          logger.error('Failed to process message bus envelope', { error });
+        }
+      });
+
+      this.isStarted = true;
+      logger.info(`Redis message bus subscribed to channel: ${this.channel}`);
+    } catch (error) {
+      logger.error('Failed to start Redis message bus', { error });
+      // The next attempt creates fresh clients, so these must not keep reconnecting
+      await this.closeClients();
+      throw new Error(`Failed to start message bus: ${error}`);
+    }
+  }
+
+  /**
+   * Publish a payload for a connection held by another pod
+   */
+  async publish(connectionId: string, payload: string): Promise<void> {
+    if (!this.publisher || !this.isStarted) {
+      throw new Error('Redis message bus not started');
+    }
+
+    const envelope: DeliveryEnvelope = { connectionId, payload };
+
+    try {
+      const publisher = this.publisher;
+      await getTracer().withChildSpan('redis publish', {
+        kind: 'producer',
+        attributes: { 'db.system': 'redis', 'messaging.destination.name': this.channel, 'messaging.connection_id': connectionId }
+      }, () => publisher.publish(this.channel, JSON.stringify(envelope)));
+    } catch (error) {
+      logger.error(`Failed to publish message for ${connectionId}`, { connectionId, error });
+      throw new Error(`Failed to publish message: ${error}`);
+    }
+  }
+
+  /**
+   * Unsubscribe and close both Redis clients
+   */
+  async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.isStarted = false;
+
+    try {
+      await this.subscriber?.unsubscribe(this.channel);
+    } catch (error) {
+      logger.error('Error stopping Redis message bus', { error });
+    }
+
+    await this.closeClients();
+    logger.info('Redis message bus stopped');
+  }
+
+  private async closeClients(): Promise<void> {
+    for (const client of [this.subscriber, this.publisher]) {
+      if (!client?.isOpen) {
+        continue;
+      }
+
+      try {
+        await client.disconnect();
+      } catch (error) {
+        logger.error('Error disconnecting Redis message bus client', { error });
+      }
+    }
+
+    this.subscriber = null;
+    this.publisher = null;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Delivery Latency
+ * Percentiles per room of the latency from an audience member's click to an
+ * admin rendering it, as reported by the admin interfaces connected to this pod
+ */
+
+import { LatencyStatsDetails, LatencyTracker } from '../messaging/messaging-engine';
+import { Summary } from './metrics-registry';
+import { serverMetrics } from './server-metrics';
+
+// The requirements ask for the admin display to update within 2 seconds
+const DEFAULT_TARGET_MS = 2000;
+
+export class DeliveryLatencyTracker implements LatencyTracker {
+  private summary: Summary;
+  private targetMs: number;
+
+  constructor(summary: Summary = serverMetrics.deliveryLatency, targetMs: number = parseInt(process.env.LATENCY_TARGET_MS || `${DEFAULT_TARGET_MS}`, 10)) {
+    this.summary = summary;
+    this.targetMs = targetMs;
+  }
+
+  record(roomId: string, latencyMs: number): void {
+    this.summary.observe({ room: roomId }, latencyMs / 1000);
+  }
+
+  getStats(roomId: string): LatencyStatsDetails {
+    const { count, quantiles } = this.summary.snapshot({ room: roomId });
+    const [p50Ms, p95Ms, p99Ms] = quantiles.map(seconds => count > 0 ? Math.round(seconds * 1000) : 0);
+
+    return {
+      windowSeconds: this.summary.maxAgeSeconds,
+      count,
+      p50Ms,
+      p95Ms,
+      p99Ms,
+      targetMs: this.targetMs
+    };
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Metrics Registry
+ * Counters, gauges, histograms and summaries rendered in the Prometheus text format or,
+ * when the scraper asks for it, in OpenMetrics
+ */
+
+import { logger } from '../logging/logger';
+
+export type Labels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+// Latencies in seconds, from a local Redis round trip to a stalled connection
+export const LATENCY_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+type MetricType = 'counter' | 'gauge' | 'histogram' | 'summary';
+
+interface Series<T> {
+  labels: Labels;
+  value: T;
+}
+
+abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  private labelNames: string[];
+  protected series: Map<string, Series<T>> = new Map();
+
+  constructor(name: string, help: string, type: MetricType, labelNames: string[]) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+    this.labelNames = labelNames;
+  }
+
+  abstract samples(): string[];
+
+  /**
+   * Get the series of a label set, created on first use
+   */
+  protected getSeries(labels: Labels, initial: () => T): Series<T> {
+    const unknown = Object.keys(labels).filter(label => !this.labelNames.includes(label));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown labels for ${this.name}: ${unknown.join(', ')}`);
+    }
+
+    const key = this.labelNames.map(label => labels[label] || '').join('\u0000');
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = { labels: { ...labels }, value: initial() };
+      this.series.set(key, series);
+    }
+
+    return series;
+  }
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  samples(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) => sample(`${this.name}_total`, labels, value));
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'gauge', labelNames);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  dec(labels: Labels = {}, value: number = 1): void {
+    this.getSeries(labels, () => 0).value -= value;
+  }
+
+  samples(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+interface HistogramValue {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[] = [], buckets: number[] = LATENCY_BUCKETS) {
+    super(name, help, 'histogram', labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels, () => ({ bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.value.bucketCounts[index]++;
+      }
+    });
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  /**
+   * Start a timer that observes the elapsed seconds when called
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const start = process.hrtime.bigint();
+
+    return (extraLabels: Labels = {}) => {
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - start) / 1e9);
+    };
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(sample(`${this.name}_bucket`, { ...labels, le: formatNumber(bound) }, value.bucketCounts[index]));
+      });
+      lines.push(sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, value.count));
+      lines.push(sample(`${this.name}_sum`, labels, value.sum));
+      lines.push(sample(`${this.name}_count`, labels, value.count));
+    }
+
+    return lines;
+  }
+}
+
+interface SummaryValue {
+  observations: Array<{ value: number; observedAt: number }>;
+  sum: number;
+  count: number;
+}
+
+export interface SummaryOptions {
+  quantiles?: number[];
+  /**
+   * Observations older than this no longer count towards the quantiles
+   */
+  maxAgeSeconds?: number;
+  /**
+   * Newest observations kept per series, bounding the memory of busy series
+   */
+  maxObservations?: number;
+}
+
+/**
+ * Quantiles over a sliding window, with the sum and count of every observation.
+ * Series without observations in the window are dropped, so labels of rooms
+ * that ended do not pile up.
+ */
+export class Summary extends Metric<SummaryValue> {
+  readonly quantiles: number[];
+  readonly maxAgeSeconds: number;
+  private maxObservations: number;
+
+  constructor(name: string, help: string, labelNames: string[] = [], options: SummaryOptions = {}) {
+    super(name, help, 'summary', labelNames);
+    this.quantiles = options.quantiles || [0.5, 0.95, 0.99];
+    this.maxAgeSeconds = options.maxAgeSeconds || 300;
+    this.maxObservations = options.maxObservations || 1000;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels, () => ({ observations: [], sum: 0, count: 0 }));
+
+    series.value.observations.push({ value, observedAt: Date.now() });
+    if (series.value.observations.length > this.maxObservations) {
+      series.value.observations.shift();
+    }
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  /**
+   * Number of observations in the window and their quantiles, NaN while there are none
+   */
+  snapshot(labels: Labels): { count: number; quantiles: number[] } {
+    const values = this.windowValues(this.getSeries(labels, () => ({ observations: [], sum: 0, count: 0 })).value);
+
+    return { count: values.length, quantiles: this.quantiles.map(quantile => quantileOf(values, quantile)) };
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+
+    for (const [key, { labels, value }] of this.series) {
+      const values = this.windowValues(value);
+
+      if (values.length === 0) {
+        this.series.delete(key);
+        continue;
+      }
+
+      this.quantiles.forEach(quantile => {
+        lines.push(sample(this.name, { ...labels, quantile: formatNumber(quantile) }, quantileOf(values, quantile)));
+      });
+      lines.push(sample(`${this.name}_sum`, labels, value.sum));
+      lines.push(sample(`${this.name}_count`, labels, value.count));
+    }
+
+    return lines;
+  }
+
+  private windowValues(value: SummaryValue): number[] {
+    const oldest = Date.now() - this.maxAgeSeconds * 1000;
+
+    value.observations = value.observations.filter(observation => observation.observedAt >= oldest);
+    return value.observations.map(observation => observation.value).sort((a, b) => a - b);
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric<unknown>> = new Map();
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string, labelNames?: string[]): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames?: string[]): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames?: string[], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  summary(name: string, help: string, labelNames?: string[], options?: SummaryOptions): Summary {
+    return this.register(new Summary(name, help, labelNames, options));
+  }
+
+  /**
+   * Run a callback before every scrape, for gauges read from current state
+   */
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Render every metric. OpenMetrics names counter families without the _total
+   * suffix of their samples and ends with # EOF.
+   */
+  render(openMetrics: boolean = false): string {
+    this.collectors.forEach(collector => {
+      try {
+        collector();
+      } catch (error) {
+        logger.error('Metrics collector failed', { error });
+      }
+    });
+
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      const family = metric.type === 'counter' && !openMetrics ? `${metric.name}_total` : metric.name;
+      lines.push(`# HELP ${family} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${family} ${metric.type}`);
+      lines.push(...metric.samples());
+    }
+
+    if (openMetrics) {
+      lines.push('# EOF');
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const labelPairs = Object.entries(labels).map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`);
+  return `${name}${labelPairs.length > 0 ? `{${labelPairs.join(',')}}` : ''} ${formatNumber(value)}`;
+}
+
+/**
+ * Nearest-rank quantile of sorted values
+ */
+function quantileOf(sorted: number[], quantile: number): number {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(quantile * sorted.length) - 1))];
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+
+  return value.toString();
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,31 @@
+/**
+ * Server Metrics
+ * The metrics of this process, scraped from the health server's /metrics endpoint
+ */
+
+import { MetricsRegistry } from './metrics-registry';
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const serverMetrics = {
+  connections: metricsRegistry.gauge('ws_connections', 'Open WebSocket connections on this pod by role', ['role']),
+  frames: metricsRegistry.counter('ws_frames', 'Client frames handled by action', ['action']),
+  frameErrors: metricsRegistry.counter('ws_frame_errors', 'Client frames rejected by error code', ['action', 'code']),
+  messagesReceived: metricsRegistry.counter('ws_messages_received', 'Reaction requests received from users by reaction', ['reaction']),
+  messagesDelivered: metricsRegistry.counter('ws_messages_delivered', 'Requests and alerts delivered to admins by reaction', ['reaction']),
+  messagesFailed: metricsRegistry.counter('ws_messages_failed', 'Requests and alerts that could not be delivered to an admin by reaction', ['reaction']),
+  deliveryLatency: metricsRegistry.summary(
+    'ws_delivery_latency_seconds',
+    'Latency from the audience member sending a request to an admin rendering it by room, as reported by the admin interfaces of this pod',
+    ['room']
+  ),
+  redisOperationDuration: metricsRegistry.histogram('ws_redis_operation_duration_seconds', 'Duration of Redis store operations', ['operation', 'outcome']),
+  redisReconnects: metricsRegistry.counter('ws_redis_reconnects', 'Reconnection attempts of the Redis clients', ['client']),
+  heartbeatTerminations: metricsRegistry.counter('ws_heartbeat_terminations', 'Connections terminated for missing a heartbeat pong'),
+  degraded: metricsRegistry.gauge('ws_degraded', '1 while Redis is unreachable and this pod serves from local storage'),
+  residentMemory: metricsRegistry.gauge('process_resident_memory_bytes', 'Resident memory size in bytes'),
+  startTime: metricsRegistry.gauge('process_start_time_seconds', 'Start time of the process since the Unix epoch in seconds')
+};
+
+serverMetrics.startTime.set({}, Math.round(Date.now() / 1000 - process.uptime()));
+metricsRegistry.onCollect(() => serverMetrics.residentMemory.set({}, process.memoryUsage().rss));
@@ -0,0 +1,35 @@
+/**
+ * Client Address
+ * The address a connection is rate limited by. X-Forwarded-For is written by
+ * the client as much as by the proxies, so only the entries appended by the
+ * TRUSTED_PROXY_HOPS proxies in front of this server are believed.
+ */
+
+import { IncomingMessage } from 'http';
+
+export function loadTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10);
+  return Number.isFinite(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * Each trusted proxy appends the address it received the request from, so the
+ * client is the right-most entry that no trusted proxy vouches for
+ */
+export function resolveClientAddress(request: IncomingMessage, trustedProxyHops: number = loadTrustedProxyHops()): string | undefined {
+  const remoteAddress = request.socket.remoteAddress;
+
+  if (trustedProxyHops === 0) {
+    return remoteAddress;
+  }
+
+  const header = request.headers['x-forwarded-for'];
+  const forwardedFor = (Array.isArray(header) ? header.join(',') : header || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+
+  // The socket peer is the nearest proxy, followed by what each proxy saw in turn
+  const hops = [...forwardedFor, remoteAddress];
+  return hops[Math.max(0, hops.length - 1 - trustedProxyHops)];
+}
@@ -0,0 +1,27 @@
+/**
+ * Fallback Rate Limiter
+ * Takes tokens from the shared Redis buckets, or from buckets local to this pod
+ * while Redis is unreachable, so limits still hold per pod during an outage
+ */
+
+import { DegradedMode } from '../storage/degraded-mode';
+import { InMemoryRateLimiter } from './in-memory-rate-limiter';
+import { RateLimiter, RateLimitResult, TokenBucketConfig } from './rate-limiter';
+
+export class FallbackRateLimiter implements RateLimiter {
+  private primary: RateLimiter;
+  private local: RateLimiter;
+  private degradedMode: DegradedMode;
+
+  constructor(primary: RateLimiter, degradedMode: DegradedMode, local: RateLimiter = new InMemoryRateLimiter()) {
+    this.primary = primary;
+    this.degradedMode = degradedMode;
+    this.local = local;
+  }
+
+  async consume(key: string, bucket: TokenBucketConfig): Promise<RateLimitResult> {
+    return this.degradedMode.withFallback('take rate limit token',
+      () => this.primary.consume(key, bucket),
+      () => this.local.consume(key, bucket));
+  }
+}
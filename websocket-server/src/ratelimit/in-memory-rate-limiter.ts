@@ -0,0 +1,48 @@
+/**
+ * In-Memory Rate Limiter
+ * Keeps token buckets in the memory of a single process, for local development
+ * and single-node deployments without Redis
+ */
+
+import { RateLimiter, RateLimitResult, TokenBucketConfig, TokenBucketState, bucketTtlSeconds, takeToken } from './rate-limiter';
+
+interface StoredBucket {
+  state: TokenBucketState;
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 60000;
+
+export class InMemoryRateLimiter implements RateLimiter {
+  private buckets: Map<string, StoredBucket> = new Map();
+  private lastSweep: number = Date.now();
+
+  async consume(key: string, bucket: TokenBucketConfig): Promise<RateLimitResult> {
+    const now = Date.now();
+    const stored = this.buckets.get(key);
+
+    // An untouched bucket is full again once it expires, so it can be forgotten
+    const { state, result } = takeToken(stored && stored.expiresAt > now ? stored.state : null, bucket, now);
+    this.buckets.set(key, { state, expiresAt: now + bucketTtlSeconds(bucket) * 1000 });
+
+    this.forgetExpiredBuckets(now);
+    return result;
+  }
+
+  /**
+   * Drop expired buckets now and then, so departed connections and IPs do not pile up
+   */
+  private forgetExpiredBuckets(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastSweep = now;
+
+    for (const [key, stored] of this.buckets) {
+      if (stored.expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
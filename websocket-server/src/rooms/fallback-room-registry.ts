@@ -0,0 +1,44 @@
+/**
+ * Fallback Room Registry
+ * Rooms are only known to Redis, so while it is unreachable room lookups fail
+ * right away instead of waiting for Redis to time out. Round-robin counters
+ * fall back to counters local to this pod.
+ */
+
+import { DegradedMode } from '../storage/degraded-mode';
+import { InMemoryRoomRegistry } from './in-memory-room-registry';
+import { Room, RoomRegistry } from './room-registry';
+
+export class FallbackRoomRegistry implements RoomRegistry {
+  private primary: RoomRegistry;
+  private local: InMemoryRoomRegistry;
+  private degradedMode: DegradedMode;
+
+  constructor(primary: RoomRegistry, degradedMode: DegradedMode, local: InMemoryRoomRegistry = new InMemoryRoomRegistry()) {
+    this.primary = primary;
+    this.degradedMode = degradedMode;
+    this.local = local;
+  }
+
+  async createRoom(name?: string): Promise<Room> {
+    return this.degradedMode.withFallback('create room', () => this.primary.createRoom(name), () => this.unavailable());
+  }
+
+  async getRoom(roomId: string): Promise<Room | null> {
+    return this.degradedMode.withFallback('get room', () => this.primary.getRoom(roomId), () => this.unavailable());
+  }
+
+  async roomExists(roomId: string): Promise<boolean> {
+    return this.degradedMode.withFallback('check room', () => this.primary.roomExists(roomId), () => this.unavailable());
+  }
+
+  async nextRoundRobinCounter(roomId: string): Promise<number> {
+    return this.degradedMode.withFallback('advance round-robin counter',
+      () => this.primary.nextRoundRobinCounter(roomId),
+      () => this.local.nextRoundRobinCounter(roomId));
+  }
+
+  private async unavailable(): Promise<never> {
+    throw new Error('Redis is unavailable, rooms cannot be looked up in degraded mode');
+  }
+}
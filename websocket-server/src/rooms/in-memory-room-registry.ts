@@ -0,0 +1,71 @@
+/**
+ * In-Memory Room Registry
+ * Keeps talk rooms in the memory of a single process, for local development
+ * and single-node deployments without Redis
+ */
+
+import { Room, RoomRegistry, generateJoinCode, normalizeJoinCode } from './room-registry';
+import { logger } from '../logging/logger';
+
+const MAX_CREATE_ATTEMPTS = 5;
+
+export class InMemoryRoomRegistry implements RoomRegistry {
+  private rooms: Map<string, Room> = new Map();
+  private roundRobinCounters: Map<string, number> = new Map();
+  private ttl: number;
+
+  constructor() {
+    this.ttl = parseInt(process.env.ROOM_TTL || '86400'); // 24 hours default
+  }
+
+  async createRoom(name?: string): Promise<Room> {
+    for (let attempt = 0; attempt < MAX_CREATE_ATTEMPTS; attempt++) {
+      const room: Room = {
+        roomId: generateJoinCode(),
+        name,
+        createdAt: Date.now(),
+        ttl: Math.floor(Date.now() / 1000) + this.ttl
+      };
+
+      // Never overwrite a live room with a colliding code
+      if (!this.getLiveRoom(room.roomId)) {
+        this.rooms.set(room.roomId, room);
+        this.roundRobinCounters.delete(room.roomId);
+        logger.debug(`Room ${room.roomId} created in memory`);
+        return room;
+      }
+    }
+
+    throw new Error('Failed to create room: no free join code found');
+  }
+
+  async getRoom(roomId: string): Promise<Room | null> {
+    const room = this.getLiveRoom(normalizeJoinCode(roomId));
+    return room ? { ...room } : null;
+  }
+
+  async roomExists(roomId: string): Promise<boolean> {
+    return (await this.getRoom(roomId)) !== null;
+  }
+
+  async nextRoundRobinCounter(roomId: string): Promise<number> {
+    const counter = (this.roundRobinCounters.get(roomId) || 0) + 1;
+    this.roundRobinCounters.set(roomId, counter);
+    return counter;
+  }
+
+  /**
+   * Rooms expire like their Redis keys; an expired room is forgotten on access
+   */
+  private getLiveRoom(roomId: string): Room | null {
+    const room = this.rooms.get(roomId);
+
+    if (room && room.ttl !== undefined && room.ttl * 1000 <= Date.now()) {
+      this.rooms.delete(roomId);
+      this.roundRobinCounters.delete(roomId);
+      return null;
+    }
+
+    return room || null;
+  }
+}
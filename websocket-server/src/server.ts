@@ -6,40 +6,99 @@
 import express from 'express';
 import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-import { RedisConnectionManager } from './connection/redis-connection-manager';
+import { PodConnectionManager } from './connection/connection-manager-interface';
 import { HealthServer } from './health-server';
+import { MessageBus } from './messaging/message-bus';
+import { ConnectionSession, MessagingEngine } from './messaging/messaging-engine';
+import { loadActionPlugins } from './messaging/action-plugins';
+import { LOBBY_ROOM_ID } from './rooms/room-registry';
+import { ReactionCatalog } from './reactions/reaction-catalog';
+import { AdminAuthenticator } from './auth/admin-authenticator';
+import { createRoutingPolicy } from './routing/routing-policy';
+import { loadRateLimitConfig } from './ratelimit/rate-limiter';
+import { resolveClientAddress } from './ratelimit/client-address';
+import { StorageFactory } from './storage/storage-factory';
+import { metricsRegistry, serverMetrics } from './metrics/server-metrics';
+import { DeliveryLatencyTracker } from './metrics/delivery-latency';
+import { getTracer } from './tracing/tracer';
+import { logger } from './logging/logger';
+import { ServerFrame, buildServerFrame } from './protocol';
 import { v4 as uuidv4 } from 'uuid';
 
-interface MessageData {
-  action: string;
-  data?: {
-    content?: string;
-    connectionType?: string;
-  };
-}
-
 interface ExtendedWebSocket extends WebSocket {
   connectionId?: string;
-  connectionType?: 'user' | 'admin';
+  session?: ConnectionSession;
+  clientIp?: string;
   isAlive?: boolean;
 }
 
+// Upper bound of the backoff between attempts to start the message bus
+const MESSAGE_BUS_MAX_RETRY_DELAY = 30000;
+
 class WebSocketServerApp {
   private app: express.Application;
   private server: any;
   private wss: WebSocketServer;
-  private connectionManager: RedisConnectionManager;
+  private connectionManager: PodConnectionManager;
+  private messageBus: MessageBus;
+  private adminAuthenticator: AdminAuthenticator;
+  private messagingEngine: MessagingEngine;
   private healthServer: HealthServer;
   private port: number;
   private connections: Map<string, ExtendedWebSocket> = new Map();
   private isShuttingDown: boolean = false;
-  private messageCount: number = 0;
 
   constructor() {
     this.app = express();
     this.server = createServer(this.app);
-    this.connectionManager = new RedisConnectionManager();
-    this.healthServer = new HealthServer(this.connectionManager);
+    // Redis unless STORAGE_TYPE=memory runs this process on its own
+    const storage = StorageFactory.createStorage();
+    const roomRegistry = storage.roomRegistry;
+    this.connectionManager = storage.connectionManager;
+    this.messageBus = storage.messageBus;
+    this.adminAuthenticator = new AdminAuthenticator();
+    const reactionCatalog = new ReactionCatalog();
+
+    // Frames are handled by the shared engine, this server only provides the sockets
+    this.messagingEngine = new MessagingEngine({
+      connectionManager: this.connectionManager,
+      roomRegistry,
+      reactionCatalog,
+      routingPolicy: createRoutingPolicy(roomId => roomRegistry.nextRoundRobinCounter(roomId)),
+      rateLimiter: storage.rateLimiter,
+      rateLimitConfig: loadRateLimitConfig(),
+      transport: {
+        send: async (connectionId, frame) => {
+          const delivered = await this.deliverToConnection(connectionId, frame);
+          this.recordDelivery(frame, delivered);
+          this.recordRejection(frame);
+          return delivered;
+        }
+      },
+      getAdminAuthenticator: async () => this.adminAuthenticator,
+      reactionAggregator: storage.reactionAggregator,
+      messageLog: storage.messageLog,
+      latencyTracker: new DeliveryLatencyTracker()
+    });
+
+    // Count frames that passed validation and rate limiting per action. Rejections are
+    // counted from the error frames sent back, since most happen before this middleware.
+    this.messagingEngine.use(async (request, next) => {
+      // Requests without a reactionId count as the default reaction, IDs outside the catalog
+      // are rejected and would only inflate the label values
+      if (request.frame.action === 'sendMessage') {
+        const reactionId = (request.frame.data as { reactionId?: string } | null)?.reactionId;
+        serverMetrics.messagesReceived.inc({ reaction: reactionCatalog.resolve(reactionId)?.id || 'unknown' });
+      }
+
+      this.healthServer.recordMessage(request.frame.action);
+      return next();
+    });
+
+    // Custom actions are added as plugins rather than in this file
+    loadActionPlugins(this.messagingEngine);
+    this.healthServer = new HealthServer(this.connectionManager, storage.degradedMode, storage.type);
+    metricsRegistry.onCollect(() => this.collectConnectionMetrics());
     this.port = parseInt(process.env.PORT || '8080');
     
     // Initialize WebSocket server
@@ -52,6 +111,9 @@ class WebSocketServerApp {
     this.setupWebSocketHandlers();
     this.setupGracefulShutdown();
     this.startHeartbeat();
+    this.startLeaseHeartbeat();
+    this.startConnectionCleanup();
+    this.startCounterRefresh();
   }
 
   private setupMiddleware(): void {
@@ -81,40 +143,58 @@ class WebSocketServerApp {
       // Generate unique connection ID
       const connectionId = uuidv4();
       ws.connectionId = connectionId;
-      ws.connectionType = 'user'; // Default to user, will be updated by client
       ws.isAlive = true;
 
+      // Behind the ingress the client address comes from the X-Forwarded-For entries of trusted proxies
+      ws.clientIp = resolveClientAddress(request);
+
+      // Join codes can be passed on the URL, e.g. /ws?room=ABC123
+      const requestUrl = new URL(request.url || '/', 'http://localhost');
+      const requestedRoomId = requestUrl.searchParams.get('room');
+
+      // The frontends ask for their role with ?type=..., but only a valid admin token (?token=...) grants admin
+      const requestedType = requestUrl.searchParams.get('type');
+      const { connectionType, adminRole } = this.adminAuthenticator.resolveConnectionRole(requestedType, requestUrl.searchParams.get('token'));
+      const session: ConnectionSession = {
+        connectionId,
+        connectionType,
+        adminRole,
+        roomId: LOBBY_ROOM_ID
+      };
+
+      if (requestedType === 'admin' && connectionType !== 'admin') {
+        logger.warn('Admin role requested without a valid token, connected as user', { connectionId });
+      }
+      ws.session = session;
+
       // Store connection locally
       this.connections.set(connectionId, ws);
 
       // Update health metrics
       this.healthServer.updateConnectionCount(this.connections.size);
 
-      console.log(`WebSocket connection established: ${connectionId}`);
+      logger.info('WebSocket connection established', { connectionId, connectionType: session.connectionType });
 
-      // Store connection in Redis
-      this.connectionManager.storeConnection(connectionId, 'user')
+      // Store connection in Redis, then join the requested room
+      this.connectionManager.storeConnection(connectionId, session.connectionType, session.adminRole ? { adminRole: session.adminRole } : {})
+        .then(() => requestedRoomId ? this.messagingEngine.joinRoom(session, requestedRoomId, uuidv4()) : undefined)
         .catch(error => {
-          console.error(`Failed to store connection ${connectionId}:`, error);
+          logger.error('Failed to store connection', { connectionId, error });
         });
 
       // Handle incoming messages
       ws.on('message', async (data: Buffer) => {
-        try {
-          const messageData: MessageData = JSON.parse(data.toString());
-          await this.handleMessage(ws, messageData);
-        } catch (error) {
-          console.error(`Error handling message from ${connectionId}:`, error);
-          ws.send(JSON.stringify({
-            error: 'Invalid message format',
-            timestamp: new Date().toISOString()
-          }));
-        }
+        // The session lives on the socket, so the engine needs no Redis lookup for it
+        await this.messagingEngine.handleFrame(connectionId, data.toString(), {
+          correlationId: uuidv4(),
+          clientIp: ws.clientIp,
+          session
+        });
       });
 
       // Handle connection close
       ws.on('close', async () => {
-        console.log(`WebSocket connection closed: ${connectionId}`);
+        logger.info('WebSocket connection closed', { connectionId, roomId: session.roomId });
         
         // Remove from local connections
         this.connections.delete(connectionId);
@@ -126,13 +206,13 @@ class WebSocketServerApp {
         try {
           await this.connectionManager.removeConnection(connectionId);
         } catch (error) {
-          console.error(`Failed to remove connection ${connectionId}:`, error);
+          logger.error('Failed to remove connection', { connectionId, error });
         }
       });
 
       // Handle connection errors
       ws.on('error', (error) => {
-        console.error(`WebSocket error for ${connectionId}:`, error);
+        logger.error('WebSocket error', { connectionId, error });
       });
 
       // Handle pong responses for heartbeat
@@ -141,225 +221,143 @@ class WebSocketServerApp {
       });
 
       // Send connection confirmation
-      ws.send(JSON.stringify({
-        type: 'connection',
+      this.sendFrame(ws, buildServerFrame('connection', {
         connectionId: connectionId,
-        message: 'Connected successfully',
-        timestamp: new Date().toISOString()
+        connectionType: session.connectionType,
+        message: 'Connected successfully'
       }));
     });
 
     this.wss.on('error', (error) => {
-      console.error('WebSocket server error:', error);
+      logger.error('WebSocket server error', { error });
     });
   }
 
-  private async handleMessage(ws: ExtendedWebSocket, messageData: MessageData): Promise<void> {
-    const { connectionId } = ws;
-    
-    if (!connectionId) {
-      console.error('Message received from connection without ID');
-      return;
-    }
+  /**
+   * Send a frame to one connection, locally or through the message bus, removing it if it is stale
+   */
+  private async deliverToConnection(connectionId: string, frame: ServerFrame): Promise<boolean> {
+    const payload = JSON.stringify(frame);
+    const localWs = this.connections.get(connectionId);
+
+    if (!localWs) {
+      // Connection is held by another pod, skip it if that pod has died
+      if (!await this.connectionManager.isConnectionOwnerAlive(connectionId)) {
+        logger.info('Removing connection owned by expired pod', { recipientConnectionId: connectionId });
+        await this.removeStaleConnection(connectionId);
+        return false;
+      }
 
-    console.log(`Message received from ${connectionId}:`, messageData);
+      // Forward it over the message bus to the owning pod
+      try {
+        await this.messageBus.publish(connectionId, payload);
+        return true;
+      } catch (error) {
+        logger.error('Failed to forward message', { recipientConnectionId: connectionId, error });
+        return false;
+      }
+    }
 
-    // Update message count for metrics
-    this.messageCount++;
-    this.healthServer.incrementMessageCount();
+    if (localWs.readyState !== WebSocket.OPEN) {
+      // Local socket is no longer open, remove it from Redis
+      logger.info('Removing stale connection from storage', { recipientConnectionId: connectionId });
+      await this.removeStaleConnection(connectionId);
+      return false;
+    }
 
     try {
-      if (messageData.action === 'sendMessage') {
-        // Handle message sending (user to admin)
-        await this.handleSendMessage(ws, messageData);
-      } else if (messageData.action === 'setConnectionType') {
-        // Handle connection type setting
-        await this.handleSetConnectionType(ws, messageData);
-      } else if (messageData.action === 'identify') {
-        // Handle admin identification
-        await this.handleIdentify(ws, messageData);
-      } else if (messageData.action === 'ping') {
-        // Handle ping - just respond with pong
-        ws.send(JSON.stringify({ action: 'pong', timestamp: new Date().toISOString() }));
-      } else {
-        // Unknown action
-        console.log(`Unknown action from ${connectionId}: ${messageData.action}`);
-      }
+      localWs.send(payload);
+      return true;
     } catch (error) {
-      console.error(`Error processing message from ${connectionId}:`, error);
-      ws.send(JSON.stringify({
-        error: 'Internal server error',
-        timestamp: new Date().toISOString()
-      }));
+      logger.error('Failed to send message', { recipientConnectionId: connectionId, error });
+
+      // Remove stale connection so the next message skips it
+      await this.removeStaleConnection(connectionId);
+      return false;
     }
   }
 
-  private async handleSendMessage(ws: ExtendedWebSocket, messageData: MessageData): Promise<void> {
-    const content = messageData.data?.content || (messageData as any).content || '';
-    console.log(`Extracting content from message:`, { 
-      dataContent: messageData.data?.content, 
-      directContent: (messageData as any).content,
-      finalContent: content 
-    });
-    
-    const message = {
-      messageId: uuidv4(),
-      content: content,
-      timestamp: new Date().toISOString(),
-      from: ws.connectionType || 'user',
-      connectionId: ws.connectionId
-    };
-
-    console.log(`Prepared message for broadcast:`, message);
-
-    // Get admin connections from Redis
-    const adminConnectionIds = await this.connectionManager.getConnections('admin');
-    console.log(`Found ${adminConnectionIds.length} admin connections, sending to first available:`, adminConnectionIds);
-
-    let successCount = 0;
-    let failureCount = 0;
-
-    // Send message to only the first available admin connection
-    for (const adminConnectionId of adminConnectionIds) {
-      const adminWs = this.connections.get(adminConnectionId);
-      console.log(`Checking admin connection ${adminConnectionId}:`, {
-        exists: !!adminWs,
-        readyState: adminWs?.readyState,
-        isOpen: adminWs?.readyState === WebSocket.OPEN
-      });
-      
-      if (adminWs && adminWs.readyState === WebSocket.OPEN) {
-        try {
-          const messageJson = JSON.stringify(message);
-          console.log(`Sending to admin ${adminConnectionId}:`, messageJson);
-          adminWs.send(messageJson);
-          successCount++;
-          console.log(`✅ Message sent successfully to admin connection: ${adminConnectionId}`);
-          break; // Only send to first available admin
-        } catch (error) {
-          console.error(`❌ Failed to send message to ${adminConnectionId}:`, error);
-          failureCount++;
-          
-          // Remove stale connection and try next admin
-          await this.removeStaleConnection(adminConnectionId);
-        }
-      } else {
-        // Connection not found locally or not open, remove from Redis
-        console.log(`❌ Removing stale connection from Redis: ${adminConnectionId}`);
-        await this.removeStaleConnection(adminConnectionId);
-        failureCount++;
-      }
+  /**
+   * Count admin-bound requests and alerts as delivered or failed per reaction
+   */
+  private recordDelivery(frame: ServerFrame, delivered: boolean): void {
+    if (frame.type !== 'userRequest' && frame.type !== 'reactionAlert') {
+      return;
     }
 
-    console.log(`Message delivery completed: ${successCount} success, ${failureCount} failures`);
-
-    // Send confirmation back to sender
-    ws.send(JSON.stringify({
-      type: 'messageStatus',
-      message: 'Message broadcast completed',
-      successCount,
-      failureCount,
-      timestamp: new Date().toISOString()
-    }));
+    const counter = delivered ? serverMetrics.messagesDelivered : serverMetrics.messagesFailed;
+    counter.inc({ reaction: frame.reactionId });
   }
 
-  private async handleIdentify(ws: ExtendedWebSocket, messageData: any): Promise<void> {
-    const connectionType = messageData.type as 'user' | 'admin';
-    
-    if (!connectionType || (connectionType !== 'user' && connectionType !== 'admin')) {
-      ws.send(JSON.stringify({
-        error: 'Invalid connection type. Must be "user" or "admin"',
-        timestamp: new Date().toISOString()
-      }));
+  /**
+   * Count frames rejected with an error, whether the engine rejected them while
+   * parsing, authorizing, rate limiting or handling them
+   */
+  private recordRejection(frame: ServerFrame): void {
+    if (frame.type !== 'error' && frame.type !== 'rateLimited') {
       return;
     }
 
-    if (!ws.connectionId) {
-      ws.send(JSON.stringify({
-        error: 'Connection ID not found',
-        timestamp: new Date().toISOString()
-      }));
-      return;
-    }
+    // Unsupported actions are named by the client and would only inflate the label values
+    const action = frame.code === 'UNKNOWN_ACTION' ? undefined : frame.action;
+    this.healthServer.recordFrameError(action || 'unknown', frame.code);
+  }
 
-    try {
-      // Update in Redis
-      await this.connectionManager.updateConnectionType(ws.connectionId, connectionType);
-      
-      // Update locally
-      ws.connectionType = connectionType;
+  /**
+   * Set the connection gauges from the sockets held by this pod
+   */
+  private collectConnectionMetrics(): void {
+    const byRole = { user: 0, admin: 0 };
+    this.connections.forEach(ws => {
+      byRole[ws.session?.connectionType || 'user']++;
+    });
 
-      console.log(`Connection ${ws.connectionId} identified as: ${connectionType}`);
+    serverMetrics.connections.set({ role: 'user' }, byRole.user);
+    serverMetrics.connections.set({ role: 'admin' }, byRole.admin);
+  }
 
-      ws.send(JSON.stringify({
-        type: 'identified',
-        connectionType: connectionType,
-        message: 'Connection identified successfully',
-        timestamp: new Date().toISOString()
-      }));
-    } catch (error) {
-      console.error(`Failed to identify connection ${ws.connectionId}:`, error);
-      ws.send(JSON.stringify({
-        error: 'Failed to identify connection',
-        timestamp: new Date().toISOString()
-      }));
-    }
+  private sendFrame(ws: ExtendedWebSocket, frame: ServerFrame): void {
+    ws.send(JSON.stringify(frame));
   }
 
-  private async handleSetConnectionType(ws: ExtendedWebSocket, messageData: MessageData): Promise<void> {
-    const connectionType = messageData.data?.connectionType as 'user' | 'admin';
-    
-    if (!connectionType || (connectionType !== 'user' && connectionType !== 'admin')) {
-      ws.send(JSON.stringify({
-        error: 'Invalid connection type. Must be "user" or "admin"',
-        timestamp: new Date().toISOString()
-      }));
-      return;
-    }
+  /**
+   * Deliver a payload received from the message bus if the connection is held by this pod
+   */
+  private deliverLocally(connectionId: string, payload: string): boolean {
+    const ws = this.connections.get(connectionId);
 
-    if (!ws.connectionId) {
-      ws.send(JSON.stringify({
-        error: 'Connection ID not found',
-        timestamp: new Date().toISOString()
-      }));
-      return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return false;
     }
 
     try {
-      // Update in Redis
-      await this.connectionManager.updateConnectionType(ws.connectionId, connectionType);
-      
-      // Update locally
-      ws.connectionType = connectionType;
-
-      console.log(`Connection ${ws.connectionId} type updated to: ${connectionType}`);
-
-      ws.send(JSON.stringify({
-        type: 'connectionTypeUpdated',
-        connectionType: connectionType,
-        message: 'Connection type updated successfully',
-        timestamp: new Date().toISOString()
-      }));
+      ws.send(payload);
+      logger.debug('Delivered forwarded message to local connection', { recipientConnectionId: connectionId });
+      return true;
     } catch (error) {
-      console.error(`Failed to update connection type for ${ws.connectionId}:`, error);
-      ws.send(JSON.stringify({
-        error: 'Failed to update connection type',
-        timestamp: new Date().toISOString()
-      }));
+      logger.error('Failed to deliver forwarded message', { recipientConnectionId: connectionId, error });
+      return false;
     }
   }
 
   private async removeStaleConnection(connectionId: string): Promise<void> {
     try {
+      // Never reap a connection that another live pod is still serving
+      if (!this.connections.has(connectionId) &&
+          await this.connectionManager.isConnectionOwnerAlive(connectionId)) {
+        logger.info('Skipping removal of connection held by a live pod', { recipientConnectionId: connectionId });
+        return;
+      }
+
       // Remove from local connections
       this.connections.delete(connectionId);
       
       // Remove from Redis
       await this.connectionManager.removeConnection(connectionId);
       
-      console.log(`Removed stale connection: ${connectionId}`);
+      logger.info('Removed stale connection', { recipientConnectionId: connectionId });
     } catch (error) {
-      console.error(`Failed to remove stale connection ${connectionId}:`, error);
+      logger.error('Failed to remove stale connection', { recipientConnectionId: connectionId, error });
     }
   }
 
@@ -373,7 +371,8 @@ class WebSocketServerApp {
 
       this.wss.clients.forEach((ws: ExtendedWebSocket) => {
         if (ws.isAlive === false) {
-          console.log(`Terminating dead connection: ${ws.connectionId}`);
+          logger.info('Terminating dead connection', { connectionId: ws.connectionId });
+          serverMetrics.heartbeatTerminations.inc();
           ws.terminate();
           if (ws.connectionId) {
             this.removeStaleConnection(ws.connectionId);
@@ -387,24 +386,117 @@ class WebSocketServerApp {
     }, 30000);
   }
 
+  private startLeaseHeartbeat(): void {
+    const renewInterval = parseInt(process.env.POD_LEASE_RENEW_INTERVAL || '10') * 1000;
+
+    const renewAndReconcile = async () => {
+      try {
+        await this.connectionManager.renewPodLease();
+        await this.connectionManager.reapExpiredPods();
+      } catch (error) {
+        logger.error('Pod lease heartbeat failed', { error });
+      }
+    };
+
+    // Reconcile immediately on startup, then on every lease renewal
+    renewAndReconcile();
+
+    const interval = setInterval(() => {
+      if (this.isShuttingDown) {
+        clearInterval(interval);
+        return;
+      }
+
+      renewAndReconcile();
+    }, renewInterval);
+  }
+
+  /**
+   * Sweep expired entries from the connection indexes of every room
+   */
+  private startConnectionCleanup(): void {
+    const cleanupInterval = parseInt(process.env.CONNECTION_CLEANUP_INTERVAL || '300') * 1000;
+
+    const interval = setInterval(async () => {
+      if (this.isShuttingDown) {
+        clearInterval(interval);
+        return;
+      }
+
+      try {
+        await this.connectionManager.cleanupExpiredConnections();
+      } catch (error) {
+        logger.error('Connection cleanup failed', { error });
+      }
+    }, cleanupInterval);
+  }
+
+  /**
+   * Push decaying counters to local admins, since the window keeps sliding between requests
+   */
+  private startCounterRefresh(): void {
+    const refreshInterval = parseInt(process.env.AGGREGATION_REFRESH_INTERVAL || '5') * 1000;
+
+    const interval = setInterval(async () => {
+      if (this.isShuttingDown) {
+        clearInterval(interval);
+        return;
+      }
+
+      // Group local admin sockets by room so every room is computed once
+      const adminsByRoom = new Map<string, ExtendedWebSocket[]>();
+      this.connections.forEach(ws => {
+        if (ws.session?.connectionType === 'admin' && ws.readyState === WebSocket.OPEN) {
+          const roomId = ws.session.roomId;
+          adminsByRoom.set(roomId, [...(adminsByRoom.get(roomId) || []), ws]);
+        }
+      });
+
+      for (const [roomId, admins] of adminsByRoom) {
+        try {
+          const countersFrame = await this.messagingEngine.buildCountersFrame(roomId);
+          if (countersFrame) {
+            admins.forEach(adminWs => this.sendFrame(adminWs, countersFrame));
+          }
+        } catch (error) {
+          logger.error('Failed to refresh reaction counters', { roomId, error });
+        }
+      }
+    }, refreshInterval);
+  }
+
+  /**
+   * Subscribe to cross-pod deliveries. Until the bus has started, messages only reach
+   * local connections, so a failed attempt is retried with exponential backoff.
+   */
+  private async startMessageBus(attempt: number = 1): Promise<void> {
+    if (this.isShuttingDown) {
+      return;
+    }
+
+    try {
+      await this.messageBus.start((connectionId, payload) => this.deliverLocally(connectionId, payload));
+    } catch (error) {
+      const retryIn = Math.min(1000 * 2 ** (attempt - 1), MESSAGE_BUS_MAX_RETRY_DELAY);
+      logger.error(`Cross-pod message delivery unavailable, retrying in ${retryIn / 1000}s`, { error, attempt });
+      setTimeout(() => this.startMessageBus(attempt + 1), retryIn);
+    }
+  }
+
   private setupGracefulShutdown(): void {
     const shutdown = async (signal: string) => {
-      console.log(`Received ${signal}, starting graceful shutdown...`);
+      logger.info(`Received ${signal}, starting graceful shutdown`);
       this.isShuttingDown = true;
 
       // Close WebSocket server
       this.wss.close(() => {
-        console.log('WebSocket server closed');
+        logger.info('WebSocket server closed');
       });
 
       // Close all connections gracefully
       this.connections.forEach((ws, connectionId) => {
         if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({
-            type: 'serverShutdown',
-            message: 'Server is shutting down',
-            timestamp: new Date().toISOString()
-          }));
+          this.sendFrame(ws, buildServerFrame('serverShutdown', { message: 'Server is shutting down' }));
           ws.close();
         }
       });
@@ -413,26 +505,39 @@ class WebSocketServerApp {
       try {
         await this.healthServer.stop();
       } catch (error) {
-        console.error('Error stopping health server:', error);
+        logger.error('Error stopping health server', { error });
       }
 
-      // Disconnect from Redis
+      // Stop the cross-pod message bus
+      await this.messageBus.stop();
+
+      // Release this pod's lease so its leftovers are reaped right away
+      try {
+        await this.connectionManager.releasePodLease();
+      } catch (error) {
+        logger.error('Error releasing pod lease', { error });
+      }
+
+      // Disconnect from storage
       try {
         await this.connectionManager.disconnect();
-        console.log('Disconnected from Redis');
+        logger.info('Disconnected from storage');
       } catch (error) {
-        console.error('Error disconnecting from Redis:', error);
+        logger.error('Error disconnecting from storage', { error });
       }
 
+      // Export the spans still waiting for the next batch
+      await getTracer().forceFlush();
+
       // Close HTTP server
       this.server.close(() => {
-        console.log('HTTP server closed');
+        logger.info('HTTP server closed');
         process.exit(0);
       });
 
       // Force exit after 10 seconds
       setTimeout(() => {
-        console.log('Force exit after timeout');
+        logger.warn('Force exit after timeout');
         process.exit(1);
       }, 10000);
     };
@@ -444,11 +549,14 @@ class WebSocketServerApp {
   public start(): void {
     // Start health server first
     this.healthServer.start();
-    
+
+    // Subscribe to cross-pod deliveries
+    this.startMessageBus();
+
+
     // Start main WebSocket server
     this.server.listen(this.port, () => {
-      console.log(`WebSocket server listening on port ${this.port}`);
-      console.log(`WebSocket endpoint: ws://localhost:${this.port}/ws`);
+      logger.info(`WebSocket server listening on port ${this.port}`, { endpoint: `ws://localhost:${this.port}/ws` });
     });
   }
 }
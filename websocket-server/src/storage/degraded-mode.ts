@@ -0,0 +1,103 @@
+/**
+ * Degraded Mode
+ * Tracks whether Redis is unreachable, in which case the stores serve this pod
+ * from local memory until the connection manager has reconciled with Redis
+ */
+
+import { serverMetrics } from '../metrics/server-metrics';
+import { getTracer } from '../tracing/tracer';
+import { logger } from '../logging/logger';
+
+// Socket errors of an unreachable Redis, and the errors the client raises for them
+const CONNECTIVITY_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EHOSTUNREACH', 'ENOTFOUND', 'EAI_AGAIN'];
+const CONNECTIVITY_ERROR_MESSAGES = [
+  'The client is closed',
+  'The client is offline',
+  'Socket closed unexpectedly',
+  'Connection timeout',
+  'Redis client not initialized'
+];
+
+/**
+ * Whether an error means Redis could not be reached, as opposed to a failed command.
+ * The stores wrap client errors in their own, so the original only survives in the message.
+ */
+export function isConnectivityError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && CONNECTIVITY_ERROR_CODES.includes(code)) {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return CONNECTIVITY_ERROR_CODES.some(errorCode => message.includes(errorCode)) ||
+    CONNECTIVITY_ERROR_MESSAGES.some(errorMessage => message.includes(errorMessage));
+}
+
+export class DegradedMode {
+  private degradedSince: number | null = null;
+
+  isDegraded(): boolean {
+    return this.degradedSince !== null;
+  }
+
+  /**
+   * Epoch ms at which Redis became unreachable, null while it is reachable
+   */
+  getDegradedSince(): number | null {
+    return this.degradedSince;
+  }
+
+  /**
+   * Run an operation against Redis unless degraded, falling back to local storage.
+   * An unreachable Redis switches to degraded mode, so later calls skip it right away
+   * instead of each waiting for it to time out. Any other error is the caller's to handle.
+   */
+  async withFallback<T>(operation: string, primary: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    if (this.degradedSince === null) {
+      const stopTimer = serverMetrics.redisOperationDuration.startTimer({ operation });
+
+      try {
+        const result = await getTracer().withChildSpan(`redis ${operation}`, {
+          kind: 'client',
+          attributes: { 'db.system': 'redis', 'db.operation': operation }
+        }, primary);
+        stopTimer({ outcome: 'success' });
+        return result;
+      } catch (error) {
+        stopTimer({ outcome: 'error' });
+
+        if (!isConnectivityError(error)) {
+          throw error;
+        }
+
+        this.enter(operation, error);
+      }
+    }
+
+    return fallback();
+  }
+
+  /**
+   * Switch to local storage after a failed Redis operation
+   */
+  enter(operation: string, error: unknown): void {
+    if (this.degradedSince !== null) {
+      return;
+    }
+
+    this.degradedSince = Date.now();
+    logger.error(`Redis unavailable (${operation} failed), serving this pod from local storage`, { error });
+  }
+
+  /**
+   * Switch back to Redis once local state has been written back to it
+   */
+  exit(): void {
+    if (this.degradedSince === null) {
+      return;
+    }
+
+    logger.info(`Redis reachable again after ${Math.round((Date.now() - this.degradedSince) / 1000)}s, left degraded mode`);
+    this.degradedSince = null;
+  }
+}
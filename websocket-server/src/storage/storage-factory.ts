@@ -0,0 +1,94 @@
+/**
+ * Storage Factory
+ * Creates the stores of the standalone server: Redis, shared by every pod, or
+ * memory, for a single process on a laptop without Redis (STORAGE_TYPE=memory)
+ */
+
+import { PodConnectionManager } from '../connection/connection-manager-interface';
+import { FallbackConnectionManager } from '../connection/fallback-connection-manager';
+import { InMemoryConnectionManager } from '../connection/in-memory-connection-manager';
+import { RedisConnectionManager } from '../connection/redis-connection-manager';
+import { MessageBus } from '../messaging/message-bus';
+import { LocalMessageBus } from '../messaging/local-message-bus';
+import { RedisMessageBus } from '../messaging/redis-message-bus';
+import { FallbackMessageLog } from '../messaging/fallback-message-log';
+import { InMemoryMessageLog } from '../messaging/in-memory-message-log';
+import { RedisMessageLog } from '../messaging/redis-message-log';
+import { AdminMessageLog, ReactionAggregator } from '../messaging/messaging-engine';
+import { RoomRegistry } from '../rooms/room-registry';
+import { FallbackRoomRegistry } from '../rooms/fallback-room-registry';
+import { InMemoryRoomRegistry } from '../rooms/in-memory-room-registry';
+import { RedisRoomRegistry } from '../rooms/redis-room-registry';
+import { RateLimiter } from '../ratelimit/rate-limiter';
+import { FallbackRateLimiter } from '../ratelimit/fallback-rate-limiter';
+import { InMemoryRateLimiter } from '../ratelimit/in-memory-rate-limiter';
+import { RedisRateLimiter } from '../ratelimit/redis-rate-limiter';
+import { FallbackReactionAggregator } from '../aggregation/fallback-reaction-aggregator';
+import { InMemoryReactionAggregator } from '../aggregation/in-memory-reaction-aggregator';
+import { RedisReactionAggregator } from '../aggregation/redis-reaction-aggregator';
+import { DegradedMode } from './degraded-mode';
+import { logger } from '../logging/logger';
+
+export type StorageType = 'redis' | 'memory';
+
+export interface Storage {
+  type: StorageType;
+  connectionManager: PodConnectionManager;
+  messageBus: MessageBus;
+  roomRegistry: RoomRegistry;
+  rateLimiter: RateLimiter;
+  reactionAggregator: ReactionAggregator;
+  messageLog: AdminMessageLog;
+  degradedMode: DegradedMode;
+}
+
+export class StorageFactory {
+  /**
+   * Create every store for the configured storage type
+   */
+  public static createStorage(type: StorageType = this.getStorageType()): Storage {
+    if (type === 'memory') {
+      // Nothing is shared, so this process must be the only replica
+      logger.warn('Using in-memory storage: state is lost on restart and cannot be shared with other replicas');
+
+      return {
+        type,
+        connectionManager: new InMemoryConnectionManager(),
+        messageBus: new LocalMessageBus(),
+        roomRegistry: new InMemoryRoomRegistry(),
+        rateLimiter: new InMemoryRateLimiter(),
+        reactionAggregator: new InMemoryReactionAggregator(),
+        messageLog: new InMemoryMessageLog(),
+        degradedMode: new DegradedMode()
+      };
+    }
+
+    const connectionManager = new RedisConnectionManager();
+    const degradedMode = new DegradedMode();
+
+    // While Redis is unreachable the stores serve this pod from local memory, see DegradedMode
+    return {
+      type,
+      connectionManager: new FallbackConnectionManager(connectionManager, degradedMode),
+      messageBus: new RedisMessageBus(),
+      roomRegistry: new FallbackRoomRegistry(new RedisRoomRegistry(connectionManager), degradedMode),
+      rateLimiter: new FallbackRateLimiter(new RedisRateLimiter(connectionManager), degradedMode),
+      reactionAggregator: new FallbackReactionAggregator(new RedisReactionAggregator(connectionManager), degradedMode),
+      messageLog: new FallbackMessageLog(new RedisMessageLog(connectionManager), degradedMode),
+      degradedMode
+    };
+  }
+
+  /**
+   * Storage type from STORAGE_TYPE, Redis unless memory is asked for
+   */
+  public static getStorageType(): StorageType {
+    const type = (process.env.STORAGE_TYPE || 'redis').toLowerCase();
+
+    if (type !== 'redis' && type !== 'memory') {
+      throw new Error(`Unsupported STORAGE_TYPE: ${process.env.STORAGE_TYPE} (expected redis or memory)`);
+    }
+
+    return type;
+  }
+}